@@ -0,0 +1,321 @@
+import {KtFileError} from "./KtFileError";
+import {Glob} from "./Glob";
+import {concatChunks} from "./Lines";
+import type {FileSync} from "./sync/FileSync";
+import type {FileAsync} from "./async/FileAsync";
+import type {IAsyncFS} from "./async/IAsyncFS";
+
+export type ExtractOptions = {
+    /**
+     * How many leading path segments to remove from every entry, entries left without a path are skipped.
+     * Defaults to 0.
+     */
+    strip?: number;
+    /**
+     * Glob patterns of entry paths, after stripping, that are not extracted, matched with dotfiles included.
+     */
+    ignore?: string | string[];
+    /**
+     * Whether extracted files and directories get the permission bits stored in the archive. Defaults to true.
+     */
+    preserveMode?: boolean;
+    /**
+     * Whether extracted files and directories get the modification times stored in the archive. Defaults to true.
+     */
+    preserveTimes?: boolean;
+};
+
+/**
+ * An entry of an archive. Hard links, devices and other special entries have the type "other"
+ * and are skipped on extraction.
+ */
+export type ArchiveEntry = {
+    path: string;
+    type: "file" | "directory" | "symlink" | "other";
+    mode: number;
+    mtime: Date;
+    size: number;
+    linkname?: string;
+};
+
+export type ArchiveItem<F> = { entry: ArchiveEntry, file: F };
+
+const ABSOLUTE = /^([\\/]|[a-zA-Z]:)/;
+
+/**
+ * Turns the path of an archive entry into path segments below the extraction directory,
+ * after dropping `strip` leading segments. Absolute paths and paths climbing up with `..` are refused,
+ * since they could write outside the extraction directory.
+ */
+export function entrySegments(path: string, strip: number = 0): string[] {
+    if (ABSOLUTE.test(path)) throw new KtFileError("EESCAPE", "extract", path);
+    const parts = path.split(/[\\/]+/).filter(part => part !== "" && part !== ".");
+    if (parts.includes("..")) throw new KtFileError("EESCAPE", "extract", path);
+    return parts.slice(strip);
+}
+
+/**
+ * Refuses symbolic link targets that point outside the extraction directory,
+ * otherwise a later entry could be written through the link.
+ */
+export function checkLinkTarget(segments: string[], target: string) {
+    if (ABSOLUTE.test(target)) throw new KtFileError("EESCAPE", "symlink", target, {dest: segments.join("/")});
+    const resolved = segments.slice(0, -1);
+    for (const part of target.split(/[\\/]+/)) {
+        if (part === "" || part === ".") continue;
+        if (part !== "..") resolved.push(part);
+        else if (resolved.pop() === undefined) {
+            throw new KtFileError("EESCAPE", "symlink", target, {dest: segments.join("/")});
+        }
+    }
+}
+
+/**
+ * Resolves where an entry is extracted to, or null if it is skipped. Throws `EESCAPE` for entries
+ * that would end up outside the destination, including entries below a link extracted earlier,
+ * since chained links can point outside even when each target looks harmless on its own.
+ */
+export function extractTarget<F extends { to(...segments: string[]): F }>(
+    dest: F,
+    entry: ArchiveEntry,
+    options: ExtractOptions,
+    ignore: Glob | null,
+    links: Set<string>
+): { file: F, parent: F } | null {
+    const segments = entrySegments(entry.path, options.strip ?? 0);
+    if (segments.length === 0 || entry.type === "other") return null;
+    if (ignore?.matches(segments.join("/"), entry.type === "directory")) return null;
+    for (let i = 1; i < segments.length; i++) {
+        if (links.has(segments.slice(0, i).join("/"))) throw new KtFileError("EESCAPE", "extract", entry.path);
+    }
+    if (entry.type === "symlink") {
+        checkLinkTarget(segments, entry.linkname ?? "");
+        links.add(segments.join("/"));
+    }
+    return {file: dest.to(...segments), parent: dest.to(...segments.slice(0, -1))};
+}
+
+function archiveEntry(path: string, type: ArchiveEntry["type"], stat: {
+    mode?: number,
+    mtime?: Date,
+    size?: number
+}, linkname?: string): ArchiveEntry {
+    const mode = stat.mode ?? (type === "directory" ? 0o755 : type === "symlink" ? 0o777 : 0o644);
+    return {path, type, mode, mtime: stat.mtime ?? new Date(0), size: type === "file" ? stat.size ?? 0 : 0, linkname};
+}
+
+export function archivePath(base: string, path: string): string {
+    return base ? base + "/" + path : path;
+}
+
+export function cleanPrefix(prefix?: string): string {
+    return (prefix ?? "").replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Collects what to archive. A directory is collected with everything below it under `base`, or at the root
+ * of the archive for an empty `base`, anything else as a single entry at `base`.
+ */
+export function collectEntriesSync(source: FileSync, base: string, options: {
+    ignore?: string | string[],
+    followSymlinks?: boolean
+}): ArchiveItem<FileSync>[] {
+    const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+    const entries: ArchiveItem<FileSync>[] = [];
+    const isDirectory = source.isDirectory;
+    if (base && isDirectory) {
+        const stat = source.fs.statSync(source.fullPath);
+        entries.push({entry: archiveEntry(base, "directory", stat), file: source});
+    }
+    for (const walked of source.walkEntries({
+        minDepth: isDirectory ? 1 : 0,
+        maxDepth: isDirectory ? undefined : 0,
+        followSymlinks: options.followSymlinks,
+        descend: entry => !ignore?.matches(entry.path, true)
+    })) {
+        if (isDirectory && ignore?.matches(walked.path, walked.isDirectory)) continue;
+        const file = walked.file;
+        const path = isDirectory ? archivePath(base, walked.path) : base;
+        if (walked.isSymbolicLink && !options.followSymlinks) {
+            const stat = file.fs.lstatSync(file.fullPath);
+            const linkname = file.fs.readlinkSync(file.fullPath);
+            entries.push({entry: archiveEntry(path, "symlink", stat, linkname), file});
+            continue;
+        }
+        const stat = file.fs.statSync(file.fullPath);
+        entries.push({entry: archiveEntry(path, walked.isDirectory ? "directory" : "file", stat), file});
+    }
+    return entries;
+}
+
+export async function collectEntries(source: FileAsync, base: string, options: {
+    ignore?: string | string[],
+    followSymlinks?: boolean
+}): Promise<ArchiveItem<FileAsync>[]> {
+    const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+    const entries: ArchiveItem<FileAsync>[] = [];
+    const isDirectory = await source.isDirectory();
+    if (base && isDirectory) {
+        const stat = await source.fs.stat(source.fullPath);
+        entries.push({entry: archiveEntry(base, "directory", stat), file: source});
+    }
+    for await (const walked of source.walkEntries({
+        minDepth: isDirectory ? 1 : 0,
+        maxDepth: isDirectory ? undefined : 0,
+        followSymlinks: options.followSymlinks,
+        descend: entry => !ignore?.matches(entry.path, true)
+    })) {
+        if (isDirectory && ignore?.matches(walked.path, walked.isDirectory)) continue;
+        const file = walked.file;
+        const path = isDirectory ? archivePath(base, walked.path) : base;
+        if (walked.isSymbolicLink && !options.followSymlinks) {
+            const stat = await file.fs.lstat(file.fullPath);
+            const linkname = await file.fs.readlink(file.fullPath);
+            entries.push({entry: archiveEntry(path, "symlink", stat, linkname), file});
+            continue;
+        }
+        const stat = await file.fs.stat(file.fullPath);
+        entries.push({entry: archiveEntry(path, walked.isDirectory ? "directory" : "file", stat), file});
+    }
+    return entries;
+}
+
+/**
+ * Yields the content of a file in chunks. The yielded array is reused, consume it before asking for the next one.
+ */
+export function* readChunksSync(file: FileSync, chunkSize: number = 65536): Generator<Uint8Array> {
+    const fs = file.fs;
+    if (!fs.openSync || !fs.readSync || !fs.closeSync) {
+        yield fs.readFileSync(file.fullPath) as Uint8Array;
+        return;
+    }
+    const fd = fs.openSync(file.fullPath, "r");
+    try {
+        const buffer = new Uint8Array(chunkSize);
+        for (let bytes = fs.readSync(fd, buffer, 0, chunkSize, null); bytes > 0;
+             bytes = fs.readSync(fd, buffer, 0, chunkSize, null)) {
+            yield buffer.subarray(0, bytes);
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+export async function* readChunks(file: FileAsync, chunkSize: number = 65536): AsyncGenerator<Uint8Array> {
+    const fs = file.fs;
+    if (!fs.open) {
+        yield await fs.readFile(file.fullPath) as Uint8Array;
+        return;
+    }
+    const handle = await fs.open(file.fullPath, "r");
+    try {
+        const buffer = new Uint8Array(chunkSize);
+        for (let result = await handle.read(buffer, 0, chunkSize, null); result.bytesRead > 0;
+             result = await handle.read(buffer, 0, chunkSize, null)) {
+            yield buffer.subarray(0, result.bytesRead);
+        }
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Copies `chunk` over the part of the collected chunks it overlaps when written at `position`.
+ */
+function overwriteChunks(chunks: Uint8Array[], end: number, chunk: Uint8Array, position: number) {
+    for (let i = chunks.length - 1; i >= 0 && end > position; i--) {
+        const start = end - chunks[i].length;
+        const from = Math.max(start, position);
+        const to = Math.min(end, position + chunk.length);
+        if (from < to) chunks[i].set(chunk.subarray(from - position, to - position), from - start);
+        end = start;
+    }
+}
+
+/**
+ * Writes chunks to a file as they come. Without descriptor support in the backend, the chunks are collected
+ * and written at once when the writer is closed.
+ */
+export class ChunkWriterSync {
+    private readonly fd: number | null = null;
+    private readonly chunks: Uint8Array[] = [];
+    private written = 0;
+
+    constructor(private readonly file: FileSync, mode?: number) {
+        const fs = file.fs;
+        if (fs.openSync && fs.writeSync && fs.closeSync) this.fd = fs.openSync(file.fullPath, "w", mode);
+    };
+
+    /**
+     * The number of bytes written so far.
+     */
+    get position(): number {
+        return this.written;
+    };
+
+    write(chunk: Uint8Array) {
+        if (this.fd === null) this.chunks.push(chunk.slice());
+        else for (let offset = 0; offset < chunk.length;) {
+            offset += this.file.fs.writeSync(this.fd, chunk, offset, chunk.length - offset, null);
+        }
+        this.written += chunk.length;
+    };
+
+    /**
+     * Overwrites bytes already written, starting at `position`, and keeps writing after the last ones.
+     */
+    writeAt(chunk: Uint8Array, position: number) {
+        if (this.fd === null) overwriteChunks(this.chunks, this.written, chunk, position);
+        else for (let offset = 0; offset < chunk.length;) {
+            offset += this.file.fs.writeSync(this.fd, chunk, offset, chunk.length - offset, position + offset);
+        }
+    };
+
+    close() {
+        if (this.fd !== null) this.file.fs.closeSync(this.fd);
+        else this.file.fs.writeFileSync(this.file.fullPath, concatChunks(this.chunks) as Buffer);
+    };
+}
+
+export class ChunkWriter {
+    private readonly chunks: Uint8Array[] = [];
+    private written = 0;
+
+    private constructor(private readonly file: FileAsync,
+                        private readonly handle: Awaited<ReturnType<IAsyncFS["open"]>> | null) {
+    };
+
+    static async open(file: FileAsync, mode?: number): Promise<ChunkWriter> {
+        const fs = file.fs;
+        const handle = fs.open ? await fs.open(file.fullPath, "w", mode) : null;
+        if (handle && !handle.write) {
+            await handle.close();
+            return new ChunkWriter(file, null);
+        }
+        return new ChunkWriter(file, handle);
+    };
+
+    get position(): number {
+        return this.written;
+    };
+
+    async write(chunk: Uint8Array) {
+        if (this.handle === null) this.chunks.push(chunk.slice());
+        else for (let offset = 0; offset < chunk.length;) {
+            offset += (await this.handle.write(chunk, offset, chunk.length - offset, null)).bytesWritten;
+        }
+        this.written += chunk.length;
+    };
+
+    async writeAt(chunk: Uint8Array, position: number) {
+        if (this.handle === null) overwriteChunks(this.chunks, this.written, chunk, position);
+        else for (let offset = 0; offset < chunk.length;) {
+            offset += (await this.handle.write(chunk, offset, chunk.length - offset, position + offset)).bytesWritten;
+        }
+    };
+
+    async close() {
+        if (this.handle !== null) await this.handle.close();
+        else await this.file.fs.writeFile(this.file.fullPath, concatChunks(this.chunks) as Buffer);
+    };
+}
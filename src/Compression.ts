@@ -0,0 +1,150 @@
+import {KtFileError} from "./KtFileError";
+import {concatChunks} from "./Lines";
+
+type Callback = (error: Error | null, result: Uint8Array) => void;
+
+type ZlibStream = AsyncIterable<Uint8Array> & {
+    write(chunk: Uint8Array): boolean;
+    end(): void;
+    once(event: "drain" | "close", listener: () => void): unknown;
+    on(event: "error", listener: () => void): unknown;
+    removeAllListeners(event: "error"): unknown;
+    destroy(error?: Error): unknown;
+    close(): void;
+    readonly destroyed: boolean;
+    /**
+     * Node's synchronous processing of a chunk, which its `*Sync` functions are built on.
+     */
+    _processChunk?(chunk: Uint8Array, flushFlag: number): Uint8Array;
+    _handle?: { close(): void } | null;
+};
+
+type Zlib = {
+    gzipSync(data: Uint8Array): Uint8Array;
+    gunzipSync(data: Uint8Array): Uint8Array;
+    deflateRawSync(data: Uint8Array): Uint8Array;
+    inflateRawSync(data: Uint8Array): Uint8Array;
+    gzip(data: Uint8Array, callback: Callback): void;
+    gunzip(data: Uint8Array, callback: Callback): void;
+    deflateRaw(data: Uint8Array, callback: Callback): void;
+    inflateRaw(data: Uint8Array, callback: Callback): void;
+    createGzip?(): ZlibStream;
+    createGunzip?(): ZlibStream;
+    createDeflateRaw?(): ZlibStream;
+    createInflateRaw?(): ZlibStream;
+    constants?: { Z_NO_FLUSH: number, Z_FINISH: number };
+};
+
+/**
+ * The compression implementation, filled in with Node's `zlib` module when it is available.
+ */
+export const compression: { zlib?: Zlib } = {};
+
+export type CompressionMethod = "gzip" | "gunzip" | "deflateRaw" | "inflateRaw";
+
+const streams = {
+    gzip: "createGzip",
+    gunzip: "createGunzip",
+    deflateRaw: "createDeflateRaw",
+    inflateRaw: "createInflateRaw"
+} as const;
+
+function getZlib(method: CompressionMethod): Zlib {
+    if (!compression.zlib) throw new KtFileError("ENOSYS", method);
+    return compression.zlib;
+}
+
+export function compressSync(method: CompressionMethod, data: Uint8Array): Uint8Array {
+    return getZlib(method)[`${method}Sync`](data);
+}
+
+export function compress(method: CompressionMethod, data: Uint8Array): Promise<Uint8Array> {
+    const zlib = getZlib(method);
+    return new Promise((resolve, reject) => zlib[method](data, (error, result) => error ? reject(error) : resolve(result)));
+}
+
+export function isGzip(head: Uint8Array): boolean {
+    return head.length >= 2 && head[0] === 0x1F && head[1] === 0x8B;
+}
+
+function ignore() {
+}
+
+/**
+ * Runs a chunk through a zlib stream synchronously. Node closes the stream after the chunk, as its `*Sync`
+ * functions only pass one, so closing is held off to keep the stream for the next chunk. The result is copied,
+ * the next chunk reuses the memory it is in.
+ */
+function processChunk(stream: ZlibStream, chunk: Uint8Array, flushFlag: number): Uint8Array {
+    const handle = stream._handle;
+    const close = handle.close;
+    handle.close = ignore;
+    try {
+        return new Uint8Array(stream._processChunk(chunk, flushFlag));
+    } finally {
+        stream._handle = handle;
+        handle.close = close;
+        // every call listens for errors to throw them, failed streams also emit them once more later
+        stream.removeAllListeners("error");
+        stream.on("error", ignore);
+    }
+}
+
+/**
+ * Compresses or decompresses data as it comes in. Without a synchronous streaming implementation, the whole
+ * input is collected and processed at once.
+ */
+export function* compressChunksSync(method: CompressionMethod, source: Iterable<Uint8Array>): Generator<Uint8Array> {
+    const zlib = getZlib(method);
+    const stream = zlib[streams[method]]?.();
+    if (!stream?._processChunk || !stream._handle || !zlib.constants) {
+        stream?.destroy();
+        const chunks: Uint8Array[] = [];
+        for (const chunk of source) chunks.push(chunk.slice());
+        yield compressSync(method, concatChunks(chunks));
+        return;
+    }
+    stream.on("error", ignore);
+    try {
+        for (const chunk of source) {
+            const result = processChunk(stream, chunk, zlib.constants.Z_NO_FLUSH);
+            if (result.length > 0) yield result;
+        }
+        yield processChunk(stream, new Uint8Array(0), zlib.constants.Z_FINISH);
+    } finally {
+        stream.close();
+    }
+}
+
+/**
+ * Compresses or decompresses data as it comes in. Without a streaming implementation, the whole input is
+ * collected and processed at once.
+ */
+export async function* compressChunks(method: CompressionMethod, source: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+    const zlib = getZlib(method);
+    const stream = zlib[streams[method]]?.();
+    if (!stream) {
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of source) chunks.push(chunk.slice());
+        yield await compress(method, concatChunks(chunks));
+        return;
+    }
+    const feed = async () => {
+        try {
+            for await (const chunk of source) {
+                if (stream.destroyed) return;
+                if (stream.write(chunk.slice())) continue;
+                // the consumer stopping early destroys the stream, which must end the wait as well
+                await new Promise<void>(resolve => {
+                    stream.once("drain", resolve);
+                    stream.once("close", resolve);
+                });
+            }
+            stream.end();
+        } catch (e) {
+            stream.destroy(e);
+        }
+    };
+    void feed();
+    yield* stream;
+}
@@ -0,0 +1,243 @@
+import {KtFileError} from "./KtFileError";
+import {parseYaml, stringifyYaml} from "./Yaml";
+import {parseToml, stringifyToml} from "./Toml";
+import {isUnsafeKey} from "./Utils";
+
+/**
+ * Reads and writes the text of a config file. `parse` throws for text it cannot read,
+ * and `stringify` for values the format cannot hold.
+ */
+export type ConfigFormat = {
+    readonly name: string;
+    /**
+     * The file extensions, without the dot, the format is picked for.
+     */
+    readonly extensions: readonly string[];
+    parse(text: string): unknown;
+    stringify(value: unknown): string;
+};
+
+export type ConfigFormatName = "json" | "jsonc" | "yaml" | "toml" | "ini" | "dotenv";
+
+/**
+ * Copies JSON text without comments and trailing commas.
+ */
+function stripJsonc(text: string): string {
+    let result = "";
+    for (let i = 0; i < text.length;) {
+        const c = text[i];
+        if (c === "\"") {
+            let end = i + 1;
+            while (end < text.length && text[end] !== "\"") end += text[end] === "\\" ? 2 : 1;
+            result += text.slice(i, end + 1);
+            i = end + 1;
+        } else if (c === "/" && text[i + 1] === "/") {
+            while (i < text.length && text[i] !== "\n") i++;
+        } else if (c === "/" && text[i + 1] === "*") {
+            const end = text.indexOf("*/", i + 2);
+            if (end === -1) throw new SyntaxError("Unterminated comment");
+            // newlines are kept so the positions in parse errors still match the lines
+            result += text.slice(i, end + 2).replace(/[^\n]/g, " ");
+            i = end + 2;
+        } else {
+            result += c;
+            i++;
+        }
+    }
+    return result.replace(/("(?:[^"\\]|\\.)*")|,(\s*[\]}])/g, (match, string, close) => string ?? close);
+}
+
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+function parseIniValue(raw: string, line: number): unknown {
+    if (raw.startsWith("\"")) {
+        const end = raw.lastIndexOf("\"");
+        if (end === 0) throw new SyntaxError(`Unterminated string on line ${line}`);
+        return JSON.parse(raw.slice(0, end + 1));
+    }
+    if (raw.startsWith("'")) {
+        const end = raw.lastIndexOf("'");
+        if (end === 0) throw new SyntaxError(`Unterminated string on line ${line}`);
+        return raw.slice(1, end);
+    }
+    const value = raw.replace(/(^|\s+)[;#].*$/, "");
+    if (value === "true" || value === "false") return value === "true";
+    return NUMBER.test(value) ? Number(value) : value;
+}
+
+function parseIni(text: string): unknown {
+    const result: Record<string, unknown> = {};
+    let section = result;
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line === "" || line.startsWith(";") || line.startsWith("#")) continue;
+        if (line.startsWith("[")) {
+            if (!line.endsWith("]")) throw new SyntaxError(`Unterminated section name on line ${i + 1}`);
+            section = result;
+            // dots nest sections, escaped dots are part of the name
+            for (const part of line.slice(1, -1).trim().split(/(?<!\\)\./)) {
+                const name = part.trim().replace(/\\\./g, ".");
+                if (isUnsafeKey(name)) throw new SyntaxError(`Unsafe section name ${name} on line ${i + 1}`);
+                const next = Object.hasOwn(section, name) ? section[name] : section[name] = {};
+                if (typeof next !== "object" || next === null || Array.isArray(next)) {
+                    throw new SyntaxError(`Section ${line} redefines the value ${name} on line ${i + 1}`);
+                }
+                section = next as Record<string, unknown>;
+            }
+            continue;
+        }
+        const separator = line.search(/[=:]/);
+        if (separator === 0) throw new SyntaxError(`Missing key on line ${i + 1}`);
+        const key = (separator === -1 ? line : line.slice(0, separator)).trim();
+        if (isUnsafeKey(key.replace(/\[]$/, ""))) throw new SyntaxError(`Unsafe key ${key} on line ${i + 1}`);
+        const value = separator === -1 ? true : parseIniValue(line.slice(separator + 1).trim(), i + 1);
+        if (key.endsWith("[]")) {
+            const name = key.slice(0, -2);
+            const list = Object.hasOwn(section, name) ? section[name] : section[name] = [];
+            if (!Array.isArray(list)) throw new SyntaxError(`${key} redefines a value on line ${i + 1}`);
+            list.push(value);
+        } else section[key] = value;
+    }
+    return result;
+}
+
+function stringifyIniValue(value: unknown): string {
+    if (typeof value === "number" || typeof value === "boolean") return String(value);
+    const text = String(value);
+    const plain = text !== "" && text === text.trim() && !/[;#"'\r\n]/.test(text)
+        && text !== "true" && text !== "false" && !NUMBER.test(text);
+    return plain ? text : JSON.stringify(text);
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function writeIniSection(value: Record<string, unknown>, path: string[], lines: string[]) {
+    const body: string[] = [];
+    const sections: [string, Record<string, unknown>][] = [];
+    for (const [key, item] of Object.entries(value)) {
+        if (item === null || item === undefined) continue;
+        if (isTable(item)) sections.push([key, item]);
+        else if (Array.isArray(item)) {
+            for (const element of item) {
+                if (typeof element === "object" && element !== null) {
+                    throw new TypeError(`INI lists cannot hold objects, at ${[...path, key].join(".")}`);
+                }
+                body.push(`${key}[] = ${stringifyIniValue(element)}`);
+            }
+        } else body.push(`${key} = ${stringifyIniValue(item)}`);
+    }
+    if (path.length > 0 && (body.length > 0 || sections.length === 0)) {
+        if (lines.length > 0) lines.push("");
+        lines.push(`[${path.map(part => part.replace(/\./g, "\\.")).join(".")}]`);
+    }
+    lines.push(...body);
+    for (const [key, section] of sections) writeIniSection(section, [...path, key], lines);
+}
+
+function stringifyIni(value: unknown): string {
+    if (!isTable(value)) throw new TypeError("An INI file holds an object");
+    const lines: string[] = [];
+    writeIniSection(value, [], lines);
+    return lines.join("\n") + "\n";
+}
+
+const ESCAPES: Record<string, string> = {n: "\n", r: "\r", t: "\t", "\"": "\"", "\\": "\\", "$": "$"};
+
+function parseDotenv(text: string): unknown {
+    const result: Record<string, string> = {};
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trimStart();
+        if (line === "" || line.startsWith("#")) continue;
+        const match = /^(?:export\s+)?([A-Za-z_][\w.-]*)\s*=\s*(.*)$/.exec(line);
+        if (!match) throw new SyntaxError(`Expected KEY=value on line ${i + 1}`);
+        let value = match[2];
+        const quote = value[0];
+        if (quote !== "\"" && quote !== "'" && quote !== "`") {
+            result[match[1]] = value.replace(/(^|\s+)#.*$/, "").trim();
+            continue;
+        }
+        // quoted values may span lines
+        const start = i;
+        let end = closingQuote(value, quote);
+        while (end === -1 && i + 1 < lines.length) {
+            value += "\n" + lines[++i];
+            end = closingQuote(value, quote);
+        }
+        if (end === -1) throw new SyntaxError(`Unterminated value on line ${start + 1}`);
+        if (!/^\s*(#.*)?$/.test(value.slice(end + 1))) throw new SyntaxError(`Unexpected text after the value on line ${i + 1}`);
+        value = value.slice(1, end);
+        result[match[1]] = quote === "\"" ? value.replace(/\\(.)/g, (escape, c) => ESCAPES[c] ?? escape) : value;
+    }
+    return result;
+}
+
+function closingQuote(value: string, quote: string): number {
+    for (let i = 1; i < value.length; i++) {
+        if (value[i] === "\\" && quote === "\"") i++;
+        else if (value[i] === quote) return i;
+    }
+    return -1;
+}
+
+function stringifyDotenv(value: unknown): string {
+    if (!isTable(value)) throw new TypeError("A .env file holds an object");
+    const lines: string[] = [];
+    for (const [key, item] of Object.entries(value)) {
+        if (item === null || item === undefined) continue;
+        if (!/^[A-Za-z_][\w.-]*$/.test(key)) throw new TypeError(`${key} is not a valid .env key`);
+        if (typeof item === "object") throw new TypeError(`.env values cannot be nested, at ${key}`);
+        const text = String(item);
+        // single quotes keep the text as it is, also for readers that expand variables in double quotes
+        if (/^[\w./:@+,-]*$/.test(text)) lines.push(`${key}=${text}`);
+        else if (!/['\r\n]/.test(text)) lines.push(`${key}='${text}'`);
+        else lines.push(`${key}="${text.replace(/[\\"\r\n]/g, c => c === "\n" ? "\\n" : c === "\r" ? "\\r" : "\\" + c)}"`);
+    }
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * The built-in formats. JSON is written the way `writeJSON` writes it, JSONC is read with comments and
+ * trailing commas but written as plain JSON. YAML covers block and flow collections, quoted, plain and block
+ * scalars, but not anchors, tags or multiple documents. TOML offset date-times are read as dates, local
+ * dates and times as strings. INI sections nest on dots, `key[]` lines build lists, and numbers and booleans
+ * are read as such unless quoted. `.env` values are always strings. INI and TOML text using `__proto__`,
+ * `constructor` or `prototype` as a key is refused.
+ */
+export const configFormats: Record<ConfigFormatName, ConfigFormat> = {
+    json: {
+        name: "json",
+        extensions: ["json"],
+        parse: text => JSON.parse(text),
+        stringify: value => JSON.stringify(value, null, 2)
+    },
+    jsonc: {
+        name: "jsonc",
+        extensions: ["jsonc"],
+        parse: text => JSON.parse(stripJsonc(text)),
+        stringify: value => JSON.stringify(value, null, 2)
+    },
+    yaml: {name: "yaml", extensions: ["yaml", "yml"], parse: parseYaml, stringify: stringifyYaml},
+    toml: {name: "toml", extensions: ["toml"], parse: parseToml, stringify: stringifyToml},
+    ini: {name: "ini", extensions: ["ini", "cfg", "conf"], parse: parseIni, stringify: stringifyIni},
+    dotenv: {name: "dotenv", extensions: ["env"], parse: parseDotenv, stringify: stringifyDotenv}
+};
+
+/**
+ * Picks the format of a config file: the one given, or the one matching the file name.
+ * `.env` and `.env.*` files are dotenv files, files with an unknown extension are read as JSON.
+ * Throws `ENOSYS` for an unknown format name.
+ */
+export function configFormat(format: ConfigFormat | ConfigFormatName | undefined, fileName: string): ConfigFormat {
+    if (typeof format === "object") return format;
+    if (format !== undefined) {
+        if (!Object.hasOwn(configFormats, format)) throw new KtFileError("ENOSYS", "config", format);
+        return configFormats[format];
+    }
+    if (/^\.env(\..+)?$/.test(fileName)) return configFormats.dotenv;
+    const extension = fileName.includes(".") ? fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase() : "";
+    return Object.values(configFormats).find(known => known.extensions.includes(extension)) ?? configFormats.json;
+}
@@ -0,0 +1,231 @@
+import type {FileStat} from "./Stat";
+import type {LinkPolicy} from "./Walk";
+import {walkKey} from "./Walk";
+import {formatSize} from "./Utils";
+
+export type DiskUsageOptions = {
+    /**
+     * Directories deeper than this get no node of their own, their contents are counted into the nearest
+     * directory above them like `du --max-depth` does. Defaults to no limit.
+     */
+    maxDepth?: number;
+    /**
+     * Glob patterns of relative paths that are left out, matched with dotfiles included.
+     */
+    ignore?: string | string[];
+    /**
+     * How symbolic links are counted: "follow" counts what they point to, "preserve" the links themselves and
+     * "skip" leaves them out. Defaults to "preserve".
+     */
+    links?: LinkPolicy;
+    /**
+     * How many of the largest files and directories are kept. Defaults to 10.
+     */
+    top?: number;
+};
+
+/**
+ * The totals of a directory, counting everything below it. Files with several hard links are counted once.
+ */
+export type DiskUsageNode<F> = {
+    file: F;
+    /**
+     * The path relative to the directory the usage was taken of, joined with `/`, empty for that directory.
+     */
+    path: string;
+    /**
+     * The apparent size of the files, the sum of their sizes in bytes.
+     */
+    size: number;
+    /**
+     * The bytes allocated to the files on disk, null if the backend does not report allocated blocks.
+     */
+    allocated: number | null;
+    files: number;
+    directories: number;
+    /**
+     * The subdirectories within `maxDepth`, largest first.
+     */
+    children: DiskUsageNode<F>[];
+};
+
+export type DiskUsageFile<F> = {
+    file: F;
+    path: string;
+    size: number;
+    allocated: number | null;
+};
+
+/**
+ * The totals of the files with one extension, "" for files without an extension.
+ */
+export type ExtensionUsage = {
+    extension: string;
+    size: number;
+    allocated: number | null;
+    files: number;
+};
+
+/**
+ * @description The disk usage of a directory tree, see `FileSync.diskUsage`.
+ */
+export type DiskUsage<F> = {
+    /**
+     * The tree of directory totals, starting at the directory the usage was taken of.
+     */
+    root: DiskUsageNode<F>;
+    /**
+     * The largest files, largest first.
+     */
+    largestFiles: DiskUsageFile<F>[];
+    /**
+     * The largest directories within `maxDepth` below the root, largest first.
+     */
+    largestDirectories: DiskUsageNode<F>[];
+    /**
+     * The totals per file extension, largest first.
+     */
+    extensions: ExtensionUsage[];
+    /**
+     * The relative paths of directories that could not be listed and entries that could not be read,
+     * which are missing from the totals.
+     */
+    unreadable: string[];
+};
+
+/**
+ * Keeps the largest items seen, largest first.
+ */
+function keepLargest<T extends { size: number }>(list: T[], item: T, count: number) {
+    if (count <= 0 || list.length >= count && list[list.length - 1].size >= item.size) return;
+    let i = list.length;
+    while (i > 0 && list[i - 1].size < item.size) i--;
+    list.splice(i, 0, item);
+    if (list.length > count) list.pop();
+}
+
+/**
+ * Adds up the entries found while walking a tree into a {@link DiskUsage}. The walk itself is done by the
+ * files, each directory is passed to {@link addDirectory} once its own contents have been added to it.
+ * @internal
+ */
+export class DiskUsageTally<F extends { fullPath: string, extension: string }> {
+    private readonly maxDepth: number;
+    private readonly top: number;
+    private readonly largestFiles: DiskUsageFile<F>[] = [];
+    private readonly largestDirectories: DiskUsageNode<F>[] = [];
+    private readonly extensions = new Map<string, ExtensionUsage>();
+    private readonly seen = new Set<string>();
+    private readonly unreadable: string[] = [];
+    private blocksKnown = true;
+
+    constructor(options: DiskUsageOptions) {
+        this.maxDepth = options.maxDepth ?? Infinity;
+        this.top = options.top ?? 10;
+    };
+
+    node(file: F, path: string): DiskUsageNode<F> {
+        return {file, path, size: 0, allocated: 0, files: 0, directories: 0, children: []};
+    };
+
+    /**
+     * Marks a directory as visited, returning false if it was visited before through a link.
+     */
+    enter(stat: FileStat, fullPath: string): boolean {
+        const key = "d:" + walkKey(stat, fullPath);
+        if (this.seen.has(key)) return false;
+        this.seen.add(key);
+        return true;
+    };
+
+    skip(path: string) {
+        this.unreadable.push(path);
+    };
+
+    addFile(node: DiskUsageNode<F>, file: F, path: string, stat: FileStat) {
+        if (stat.nlink > 1) {
+            const key = "f:" + walkKey(stat, file.fullPath);
+            if (this.seen.has(key)) return;
+            this.seen.add(key);
+        }
+        if (stat.blocks === null) this.blocksKnown = false;
+        const allocated = (stat.blocks ?? 0) * 512;
+        node.size += stat.size;
+        node.allocated = (node.allocated ?? 0) + allocated;
+        node.files++;
+        const extension = this.extensions.get(file.extension) ?? {extension: file.extension, size: 0, allocated: 0, files: 0};
+        extension.size += stat.size;
+        extension.allocated = (extension.allocated ?? 0) + allocated;
+        extension.files++;
+        this.extensions.set(file.extension, extension);
+        keepLargest(this.largestFiles, {file, path, size: stat.size, allocated}, this.top);
+    };
+
+    addDirectory(parent: DiskUsageNode<F>, child: DiskUsageNode<F>, depth: number) {
+        parent.size += child.size;
+        parent.allocated = (parent.allocated ?? 0) + (child.allocated ?? 0);
+        parent.files += child.files;
+        parent.directories += child.directories + 1;
+        if (depth > this.maxDepth) return;
+        parent.children.push(child);
+        keepLargest(this.largestDirectories, child, this.top);
+    };
+
+    finish(root: DiskUsageNode<F>): DiskUsage<F> {
+        const extensions = [...this.extensions.values()].sort((a, b) => b.size - a.size);
+        const nodes = [root];
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i];
+            node.children.sort((a, b) => b.size - a.size);
+            nodes.push(...node.children);
+        }
+        if (!this.blocksKnown) {
+            for (const item of [...nodes, ...this.largestFiles, ...extensions]) item.allocated = null;
+        }
+        return {
+            root,
+            largestFiles: this.largestFiles,
+            largestDirectories: this.largestDirectories,
+            extensions,
+            unreadable: this.unreadable
+        };
+    };
+}
+
+/**
+ * @description Formats a disk usage report as text with {@link formatSize}: the totals, the tree of
+ * directories, the largest files and directories and the breakdown by extension.
+ * @example
+ * const usage = new FileSync("path/to/project").diskUsage({maxDepth: 2, ignore: ".git/"});
+ * if (usage) console.log(formatDiskUsage(usage));
+ * @param {DiskUsage} usage - The report.
+ * @param {number} [decimals=2] - The decimals of the sizes.
+ * @returns {string} The report, one entry per line.
+ */
+export function formatDiskUsage(usage: DiskUsage<{ fullPath: string }>, decimals: number = 2): string {
+    const size = (item: { size: number }) => formatSize(item.size, decimals).padStart(12);
+    const count = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+    const root = usage.root;
+    const lines = [
+        `${root.file.fullPath}: ${formatSize(root.size, decimals)}`
+        + (root.allocated === null ? "" : ` (${formatSize(root.allocated, decimals)} allocated)`)
+        + ` in ${count(root.files, "file", "files")} and ${count(root.directories, "directory", "directories")}`
+    ];
+    const tree = (node: DiskUsageNode<unknown>, depth: number) => {
+        lines.push(`${size(node)}  ${"  ".repeat(depth)}${node.path.split("/").pop() || "."}`);
+        for (const child of node.children) tree(child, depth + 1);
+    };
+    tree(root, 0);
+    if (usage.largestFiles.length > 0) {
+        lines.push("", "Largest files:", ...usage.largestFiles.map(file => `${size(file)}  ${file.path}`));
+    }
+    if (usage.largestDirectories.length > 0) {
+        lines.push("", "Largest directories:", ...usage.largestDirectories.map(dir => `${size(dir)}  ${dir.path}`));
+    }
+    if (usage.extensions.length > 0) {
+        lines.push("", "By extension:", ...usage.extensions.map(extension => `${size(extension)}  `
+            + `${extension.extension === "" ? "(none)" : "." + extension.extension} (${count(extension.files, "file", "files")})`));
+    }
+    if (usage.unreadable.length > 0) lines.push("", "Unreadable:", ...usage.unreadable.map(path => `  ${path}`));
+    return lines.join("\n");
+}
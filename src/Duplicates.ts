@@ -0,0 +1,356 @@
+import type {FileSync} from "./sync/FileSync";
+import type {FileAsync} from "./async/FileAsync";
+import type {FileStat} from "./Stat";
+import {Glob} from "./Glob";
+import {walkKey} from "./Walk";
+import {atomicTempName} from "./Write";
+import {KtFileError} from "./KtFileError";
+
+export type DuplicateOptions = {
+    /**
+     * Glob patterns of paths relative to each searched directory that are left out, matched with dotfiles included.
+     */
+    ignore?: string | string[];
+    /**
+     * Files smaller than this many bytes are left out. Defaults to 1, so empty files are not reported.
+     */
+    minSize?: number;
+    /**
+     * The hash algorithm contents are compared with. Defaults to "sha256".
+     */
+    algorithm?: string;
+    /**
+     * How many bytes from the start of the files are hashed to tell files of the same size apart before
+     * hashing them whole. Defaults to 4096.
+     */
+    partialSize?: number;
+    /**
+     * Whether to compare what symbolic links point to. A link is listed after the files of the group holding what
+     * it points to, or the contents it points to, and deduplicating leaves it alone. Links are left out otherwise.
+     * Defaults to false.
+     */
+    followSymlinks?: boolean;
+};
+
+export type DedupeOptions<F> = {
+    /**
+     * "hardlink" replaces every duplicate with a hard link to the kept file, "delete" deletes the duplicates.
+     */
+    action: "hardlink" | "delete";
+    /**
+     * Which file of each group is kept: the "first" one, the "oldest" or the "newest" by modification time, or the
+     * one a function picks. Defaults to "first", which with `findDuplicates` is the first found in its directories.
+     */
+    keep?: "first" | "oldest" | "newest" | ((group: F[]) => F);
+    /**
+     * Whether to only report what would be done without changing anything. Defaults to false.
+     */
+    dryRun?: boolean;
+};
+
+/**
+ * What deduplicating did, or would do in a dry run. Every list holds full paths.
+ */
+export type DedupeReport = {
+    /**
+     * The file kept of each group.
+     */
+    kept: string[];
+    /**
+     * Duplicates replaced with hard links to the kept file.
+     */
+    linked: string[];
+    /**
+     * Duplicates deleted.
+     */
+    deleted: string[];
+    /**
+     * Files that already were hard links to the kept file, duplicates whose size no longer matches it, and
+     * symbolic links, which are never kept, replaced or deleted.
+     */
+    skipped: string[];
+    /**
+     * Duplicates whose replacement or deletion failed.
+     */
+    failed: string[];
+    /**
+     * The bytes freed.
+     */
+    saved: number;
+};
+
+/**
+ * The names of one inode: the files themselves and the symbolic links found pointing to it.
+ */
+type Candidate<F> = { files: F[], links: F[], size: number };
+
+/**
+ * Groups values by a key, keeping the groups with at least two of them.
+ */
+function groupBy<T>(items: T[], key: (item: T) => string | null): T[][] {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        if (k === null) continue;
+        const group = groups.get(k);
+        if (group) group.push(item);
+        else groups.set(k, [item]);
+    }
+    return [...groups.values()].filter(group => group.length > 1);
+}
+
+/**
+ * Collects the files of a walk into candidates, one per inode so that hard links of each other are only compared
+ * once, with the files found more than once through overlapping directories left out. Symbolic links are kept
+ * apart from the files, so a link and what it points to are never told to be copies of each other.
+ */
+class CandidateSet<F extends { fullPath: string }> {
+    private readonly inodes = new Map<string, Candidate<F>>();
+    private readonly paths = new Set<string>();
+
+    constructor(private readonly minSize: number) {
+    };
+
+    add(file: F, stat: FileStat | undefined, isLink: boolean) {
+        if (!stat?.isFile || stat.size < this.minSize || this.paths.has(file.fullPath)) return;
+        this.paths.add(file.fullPath);
+        const key = walkKey(stat, file.fullPath);
+        const candidate = this.inodes.get(key) ?? {files: [], links: [], size: stat.size};
+        (isLink ? candidate.links : candidate.files).push(file);
+        this.inodes.set(key, candidate);
+    };
+
+    /**
+     * The candidates sharing their size with another one.
+     */
+    bySize(): Candidate<F>[][] {
+        return groupBy([...this.inodes.values()], candidate => String(candidate.size));
+    };
+}
+
+/**
+ * The groups of identical files, largest first, from the groups of candidates whose contents hash the same.
+ * The files of a group come before its links.
+ */
+function duplicateGroups<F>(groups: Candidate<F>[][]): F[][] {
+    return groups.sort((a, b) => b[0].size - a[0].size).map(group => [
+        ...group.flatMap(candidate => candidate.files),
+        ...group.flatMap(candidate => candidate.links)
+    ]);
+}
+
+export function findDuplicatesSync(dirs: FileSync[], options: DuplicateOptions): FileSync[][] {
+    const {algorithm = "sha256", partialSize = 4096} = options;
+    const candidates = new CandidateSet<FileSync>(options.minSize ?? 1);
+    const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+    for (const dir of dirs) {
+        if (!dir.isDirectory) throw new KtFileError(dir.exists ? "ENOTDIR" : "ENOENT", "scandir", dir.fullPath);
+        for (const entry of dir.walkEntries({
+            type: "files",
+            stats: true,
+            links: options.followSymlinks ? "follow" : "skip",
+            descend: entry => !ignore?.matches(entry.path, true)
+        })) {
+            if (!ignore?.matches(entry.path, false)) candidates.add(entry.file, entry.stat, entry.isSymbolicLink);
+        }
+    }
+    // a file that cannot be read is left out rather than failing the search
+    const hash = (candidate: Candidate<FileSync>, length?: number) => {
+        try {
+            return (candidate.files[0] ?? candidate.links[0]).hash(algorithm, undefined, length);
+        } catch {
+            return null;
+        }
+    };
+    const groups: Candidate<FileSync>[][] = [];
+    for (const sameSize of candidates.bySize()) {
+        for (const samePartial of groupBy(sameSize, candidate => hash(candidate, partialSize))) {
+            // the partial hash of a small file already covers all of it
+            if (samePartial[0].size <= partialSize) groups.push(samePartial);
+            else groups.push(...groupBy(samePartial, candidate => hash(candidate)));
+        }
+    }
+    return duplicateGroups(groups);
+}
+
+export async function findDuplicates(dirs: FileAsync[], options: DuplicateOptions): Promise<FileAsync[][]> {
+    const {algorithm = "sha256", partialSize = 4096} = options;
+    const candidates = new CandidateSet<FileAsync>(options.minSize ?? 1);
+    const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+    for (const dir of dirs) {
+        if (!await dir.isDirectory()) {
+            throw new KtFileError(await dir.exists() ? "ENOTDIR" : "ENOENT", "scandir", dir.fullPath);
+        }
+        for await (const entry of dir.walkEntries({
+            type: "files",
+            stats: true,
+            links: options.followSymlinks ? "follow" : "skip",
+            descend: entry => !ignore?.matches(entry.path, true)
+        })) {
+            if (!ignore?.matches(entry.path, false)) candidates.add(entry.file, entry.stat, entry.isSymbolicLink);
+        }
+    }
+    // a file that cannot be read is left out rather than failing the search
+    const hashes = async (group: Candidate<FileAsync>[], length?: number) => {
+        const hashes = new Map<Candidate<FileAsync>, string | null>();
+        for (const candidate of group) {
+            try {
+                hashes.set(candidate, await (candidate.files[0] ?? candidate.links[0]).hash(algorithm, undefined, length));
+            } catch {
+                hashes.set(candidate, null);
+            }
+        }
+        return hashes;
+    };
+    const groups: Candidate<FileAsync>[][] = [];
+    for (const sameSize of candidates.bySize()) {
+        const partial = await hashes(sameSize, partialSize);
+        for (const samePartial of groupBy(sameSize, candidate => partial.get(candidate))) {
+            // the partial hash of a small file already covers all of it
+            if (samePartial[0].size <= partialSize) {
+                groups.push(samePartial);
+                continue;
+            }
+            const full = await hashes(samePartial);
+            groups.push(...groupBy(samePartial, candidate => full.get(candidate)));
+        }
+    }
+    return duplicateGroups(groups);
+}
+
+function emptyDedupeReport(): DedupeReport {
+    return {kept: [], linked: [], deleted: [], skipped: [], failed: [], saved: 0};
+}
+
+/**
+ * Picks the file to keep out of the ones of a group that are not symbolic links, undefined if there are none.
+ */
+function pickKeeper<F>(group: F[], stats: (FileStat | null)[], keep: DedupeOptions<F>["keep"]): F | undefined {
+    const indices = group.map((_, i) => i).filter(i => !stats[i]?.isSymbolicLink);
+    if (indices.length === 0) return undefined;
+    if (typeof keep === "function") {
+        const keeper = keep(indices.map(i => group[i]));
+        return indices.some(i => group[i] === keeper) ? keeper : undefined;
+    }
+    if (keep !== "oldest" && keep !== "newest") return group[indices[0]];
+    let best = indices[0];
+    for (const i of indices) {
+        const time = stats[i]?.mtime.getTime() ?? NaN;
+        const bestTime = stats[best]?.mtime.getTime() ?? NaN;
+        if (Number.isNaN(bestTime) || (keep === "oldest" ? time < bestTime : time > bestTime)) best = i;
+    }
+    return group[best];
+}
+
+/**
+ * Deletes a duplicate, or replaces it with a hard link to the kept file by linking a temporary sibling and renaming
+ * it over the duplicate, so the duplicate's name never goes missing.
+ */
+function removeDuplicateSync(file: FileSync, keeper: FileSync, action: DedupeOptions<FileSync>["action"]): boolean {
+    try {
+        if (action === "delete") return file.delete() !== null;
+        const temp = file.parent?.to(atomicTempName(file.name));
+        if (!temp?.createHardLinkTo(keeper)) return false;
+        try {
+            file.fs.renameSync(temp.fullPath, file.fullPath);
+            return true;
+        } catch {
+            temp.delete();
+            return false;
+        }
+    } catch {
+        return false;
+    }
+}
+
+async function removeDuplicate(file: FileAsync, keeper: FileAsync, action: DedupeOptions<FileAsync>["action"]): Promise<boolean> {
+    try {
+        if (action === "delete") return await file.delete() !== null;
+        const temp = file.parent?.to(atomicTempName(file.name));
+        if (!await temp?.createHardLinkTo(keeper)) return false;
+        try {
+            await file.fs.rename(temp.fullPath, file.fullPath);
+            return true;
+        } catch {
+            await temp.delete();
+            return false;
+        }
+    } catch {
+        return false;
+    }
+}
+
+export function dedupeSync(groups: FileSync[][], options: DedupeOptions<FileSync>): DedupeReport {
+    const report = emptyDedupeReport();
+    for (const group of groups) {
+        const stats = group.map(file => file.refresh().stat(false));
+        const keeper = pickKeeper(group, stats, options.keep);
+        const keeperStat = stats[group.indexOf(keeper)];
+        if (!keeperStat?.isFile) {
+            for (let i = 0; i < group.length; i++) {
+                (stats[i]?.isSymbolicLink ? report.skipped : report.failed).push(group[i].fullPath);
+            }
+            continue;
+        }
+        report.kept.push(keeper.fullPath);
+        const keeperKey = walkKey(keeperStat, keeper.fullPath);
+        // the space of an inode is only freed once, when its last name goes
+        const freed = new Set<string>([keeperKey]);
+        for (let i = 0; i < group.length; i++) {
+            const file = group[i];
+            const stat = stats[i];
+            if (file === keeper) continue;
+            const key = stat && walkKey(stat, file.fullPath);
+            if (!stat?.isFile || stat.size !== keeperStat.size || options.action === "hardlink" && key === keeperKey) {
+                report.skipped.push(file.fullPath);
+                continue;
+            }
+            if (!options.dryRun && !removeDuplicateSync(file, keeper, options.action)) {
+                report.failed.push(file.fullPath);
+                continue;
+            }
+            (options.action === "delete" ? report.deleted : report.linked).push(file.fullPath);
+            if (!freed.has(key)) report.saved += stat.size;
+            freed.add(key);
+        }
+    }
+    return report;
+}
+
+export async function dedupe(groups: FileAsync[][], options: DedupeOptions<FileAsync>): Promise<DedupeReport> {
+    const report = emptyDedupeReport();
+    for (const group of groups) {
+        const stats: (FileStat | null)[] = [];
+        for (const file of group) stats.push(await file.refresh().stat(false));
+        const keeper = pickKeeper(group, stats, options.keep);
+        const keeperStat = stats[group.indexOf(keeper)];
+        if (!keeperStat?.isFile) {
+            for (let i = 0; i < group.length; i++) {
+                (stats[i]?.isSymbolicLink ? report.skipped : report.failed).push(group[i].fullPath);
+            }
+            continue;
+        }
+        report.kept.push(keeper.fullPath);
+        const keeperKey = walkKey(keeperStat, keeper.fullPath);
+        // the space of an inode is only freed once, when its last name goes
+        const freed = new Set<string>([keeperKey]);
+        for (let i = 0; i < group.length; i++) {
+            const file = group[i];
+            const stat = stats[i];
+            if (file === keeper) continue;
+            const key = stat && walkKey(stat, file.fullPath);
+            if (!stat?.isFile || stat.size !== keeperStat.size || options.action === "hardlink" && key === keeperKey) {
+                report.skipped.push(file.fullPath);
+                continue;
+            }
+            if (!options.dryRun && !await removeDuplicate(file, keeper, options.action)) {
+                report.failed.push(file.fullPath);
+                continue;
+            }
+            (options.action === "delete" ? report.deleted : report.linked).push(file.fullPath);
+            if (!freed.has(key)) report.saved += stat.size;
+            freed.add(key);
+        }
+    }
+    return report;
+}
@@ -0,0 +1,66 @@
+type Listener = (...args: any[]) => void;
+
+/**
+ * A minimal typed event emitter that works the same in every JavaScript environment.
+ * `Events` maps every event name to the tuple of arguments its listeners receive.
+ */
+export class Emitter<Events extends Record<string, unknown[]>> {
+    private readonly listeners = new Map<keyof Events, Listener[]>();
+
+    /**
+     * @description Adds a listener for the given event.
+     * @param {string} event - The name of the event.
+     * @param {Function} listener - The function called with the event's arguments.
+     * @returns {this} The emitter, for chaining.
+     */
+    on<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): this {
+        const list = this.listeners.get(event) ?? [];
+        list.push(listener);
+        this.listeners.set(event, list);
+        return this;
+    };
+
+    /**
+     * @description Adds a listener that is removed after it was called once.
+     * @param {string} event - The name of the event.
+     * @param {Function} listener - The function called with the event's arguments.
+     * @returns {this} The emitter, for chaining.
+     */
+    once<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): this {
+        const wrapper = (...args: Events[K]) => {
+            this.off(event, wrapper);
+            listener(...args);
+        };
+        return this.on(event, wrapper);
+    };
+
+    /**
+     * @description Removes a listener added with `on` or `once`.
+     * @param {string} event - The name of the event.
+     * @param {Function} listener - The listener to remove.
+     * @returns {this} The emitter, for chaining.
+     */
+    off<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): this {
+        const list = this.listeners.get(event);
+        if (!list) return this;
+        const index = list.indexOf(listener);
+        if (index !== -1) list.splice(index, 1);
+        return this;
+    };
+
+    /**
+     * @description Gets the number of listeners of an event.
+     * @param {string} event - The name of the event.
+     * @returns {number} The number of listeners.
+     */
+    listenerCount(event: keyof Events): number {
+        return this.listeners.get(event)?.length ?? 0;
+    };
+
+    protected emit<K extends keyof Events>(event: K, ...args: Events[K]): boolean {
+        const list = this.listeners.get(event);
+        if (!list || list.length === 0) return false;
+        for (const listener of [...list]) listener(...args);
+        return true;
+    };
+}
@@ -0,0 +1,316 @@
+import {splitPath} from "./Utils";
+import {FileSync} from "./sync/FileSync";
+import {FileAsync} from "./async/FileAsync";
+import type {ISyncFS} from "./sync/ISyncFS";
+import type {IAsyncFS} from "./async/IAsyncFS";
+import {PathFlavor, posix, win32} from "./Path";
+import {StatCache} from "./Stat";
+import {KtFileError} from "./KtFileError";
+
+export type FileSystemOptions = {
+    /**
+     * The synchronous backend. If it has a `promises` property, that is used as the asynchronous backend
+     * unless `promises` is given explicitly.
+     */
+    fs?: ISyncFS & { promises?: IAsyncFS };
+    /**
+     * The asynchronous backend.
+     */
+    promises?: IAsyncFS;
+    /**
+     * The path separator used when building full paths. Defaults to the one of `flavor`.
+     */
+    sep?: string;
+    /**
+     * The path syntax paths of files are parsed with, {@link posix} or {@link win32}.
+     * Defaults to win32 when the separator is a backslash, and to posix otherwise.
+     */
+    flavor?: PathFlavor;
+    /**
+     * The directory relative paths are resolved against.
+     */
+    cwd?: string | string[];
+    /**
+     * Whether failed operations throw a {@link KtFileError} instead of returning null or false.
+     */
+    throwErrors?: boolean;
+    /**
+     * A cache the files of the context keep their stat snapshots in, see {@link FileSystem.withStatCache}.
+     */
+    statCache?: StatCache;
+};
+
+// Calls whose arguments at these indices are paths. Every other call only has its first argument mapped.
+const pathArguments: Record<string, number[]> = {
+    renameSync: [0, 1],
+    rename: [0, 1],
+    copyFileSync: [0, 1],
+    copyFile: [0, 1],
+    linkSync: [0, 1],
+    link: [0, 1],
+    symlinkSync: [1],
+    symlink: [1]
+};
+
+// Calls whose first argument is the target of a link. Relative targets are resolved against the link when it is
+// followed, so only absolute ones are mapped, and relative ones climbing above the root are refused.
+const linkTargets = new Set(["symlinkSync", "symlink"]);
+
+/**
+ * Whether a relative link target climbs above the root from the directory of the link.
+ */
+function escapesRoot(target: string, link: unknown): boolean {
+    let depth = typeof link === "string" ? Math.max(splitPath(link, []).length - 1, 0) : 0;
+    for (const part of target.split(/[\\/]/)) {
+        if (part === "..") {
+            if (--depth < 0) return true;
+        } else if (part !== "." && part !== "") depth++;
+    }
+    return false;
+}
+
+// Calls that return a path which has to be mapped back into the sandbox.
+const pathResults = new Set([
+    "mkdtempSync", "mkdtemp", "mkdirSync", "mkdir", "readlinkSync", "readlink", "realpathSync", "realpath"
+]);
+
+function sandbox<T extends object>(fs: T, root: string[], sep: string): T {
+    const prefix = (root.length > 0 && /^[a-zA-Z]:$/.test(root[0]) ? "" : "/") + root.join("/");
+    const inward = (path: unknown) => {
+        if (typeof path !== "string") return path;
+        const parts = splitPath(path, []);
+        return parts.length === 0 ? prefix : prefix.replace(/\/$/, "") + "/" + parts.join("/");
+    };
+    const outward = (path: unknown) => {
+        if (typeof path !== "string") return path;
+        const parts = splitPath(path, []);
+        if (parts.length < root.length || root.some((part, i) => parts[i] !== part)) return path;
+        return sep + parts.slice(root.length).join(sep);
+    };
+    return new Proxy(fs, {
+        get(target, key, receiver) {
+            const value = Reflect.get(target, key, receiver);
+            if (typeof value !== "function" || typeof key !== "string") return value;
+            return (...args: unknown[]) => {
+                if (linkTargets.has(key) && typeof args[0] === "string") {
+                    if (/^([\\/]|[a-zA-Z]:)/.test(args[0])) args[0] = inward(args[0]);
+                    else if (escapesRoot(args[0], args[1])) {
+                        const error = new KtFileError("EESCAPE", "symlink", args[0], {dest: String(args[1])});
+                        if (key.endsWith("Sync")) throw error;
+                        return Promise.reject(error);
+                    }
+                }
+                const indices = pathArguments[key] ?? [0];
+                for (const i of indices) args[i] = inward(args[i]);
+                const result = value.apply(target, args);
+                if (!pathResults.has(key)) return result;
+                if (result instanceof Promise) return result.then(outward);
+                return outward(result);
+            };
+        }
+    });
+}
+
+/**
+ * @description A file system context bundling a synchronous backend, an asynchronous backend,
+ * a path separator and a working directory. Every `FileSync` and `FileAsync` is bound to a context and
+ * every file derived from it (through `to`, `parent`, `listFiles`, `walk`, `sync`, `async`...) stays bound
+ * to the same context, so several backends can be used side by side.
+ * The default context, {@link FileSystem.default}, always reflects `FileSync.fs`, `FileAsync.fs` and
+ * `FileSync.sep`, which is what `initFS` changes.
+ * @example
+ * const memory = new FileSystem({fs: new MemoryFS(), sep: "/", cwd: "/"});
+ * const file = memory.file("hello.txt");
+ * file.write("Hello!"); // written to the in-memory tree
+ * (await file.async.read("utf8")); // "Hello!"
+ */
+export class FileSystem {
+    static readonly default = new FileSystem();
+
+    private readonly _fs?: ISyncFS;
+    private readonly _promises?: IAsyncFS;
+    private readonly _sep?: string;
+    private readonly _flavor?: PathFlavor;
+    private readonly _cwd?: string[];
+    private readonly _statCache?: StatCache;
+    private _throwing?: FileSystem;
+
+    readonly throwErrors: boolean;
+
+    constructor(options: FileSystemOptions = {}) {
+        this._fs = options.fs;
+        this._promises = options.promises ?? options.fs?.promises;
+        this._sep = options.sep;
+        this._flavor = options.flavor;
+        if (options.cwd !== undefined) {
+            this._cwd = typeof options.cwd === "string" ? splitPath(options.cwd, []) : [...options.cwd];
+        }
+        this.throwErrors = options.throwErrors ?? false;
+        this._statCache = options.statCache;
+    };
+
+    private get options(): FileSystemOptions {
+        return {
+            fs: this._fs,
+            promises: this._promises,
+            sep: this._sep,
+            flavor: this._flavor,
+            cwd: this._cwd,
+            throwErrors: this.throwErrors,
+            statCache: this._statCache
+        };
+    };
+
+    /**
+     * @description Gets the synchronous backend of this context.
+     * @returns {ISyncFS} The synchronous file system.
+     */
+    get fs(): ISyncFS {
+        const fs = this._fs ?? FileSync.fs;
+        return this._statCache ? this._statCache.watch(fs) : fs;
+    };
+
+    /**
+     * @description Gets the asynchronous backend of this context.
+     * @returns {IAsyncFS} The asynchronous file system.
+     */
+    get promises(): IAsyncFS {
+        const promises = this._promises ?? FileAsync.fs;
+        return this._statCache ? this._statCache.watch(promises) : promises;
+    };
+
+    /**
+     * @description Gets the path separator of this context.
+     * @returns {string} The path separator.
+     */
+    get sep(): string {
+        return this._sep ?? this._flavor?.sep ?? FileSync.sep;
+    };
+
+    /**
+     * @description Gets the path syntax of this context, which files parse and format their paths with.
+     * @returns {PathFlavor} The path syntax, {@link posix} or {@link win32}.
+     */
+    get flavor(): PathFlavor {
+        return this._flavor ?? (this.sep === "\\" ? win32 : posix);
+    };
+
+    /**
+     * @description Gets the working directory of this context as path segments.
+     * Relative paths given to files of this context are resolved against it.
+     * @returns {string[]} A copy of the working directory segments.
+     */
+    get cwd(): string[] {
+        return this._cwd ? [...this._cwd] : splitPath(".");
+    };
+
+    /**
+     * @description Gets the stat cache of this context, if it has one.
+     * @returns {StatCache | undefined} The cache.
+     */
+    get statCache(): StatCache | undefined {
+        return this._statCache;
+    };
+
+    /**
+     * @description Creates a context with the same backends whose files share a cache of stat snapshots, so asking
+     * a file for its size, type, times or permissions several times costs a single `stat` call.
+     * Every call through the new context that may change the file system clears the cache. Changes made
+     * from elsewhere, including other contexts, are only seen after `refresh()` on the file or the context.
+     * @example
+     * const cached = FileSystem.default.withStatCache();
+     * for (const file of cached.file("path/to/dir").listFiles() ?? []) {
+     *     console.log(file.name, file.isDirectory, file.size, file.lastModified); // one stat per file
+     * }
+     * @returns {FileSystem} The new context.
+     */
+    withStatCache(): FileSystem {
+        return new FileSystem({...this.options, statCache: new StatCache()});
+    };
+
+    /**
+     * @description Drops the stat snapshots cached by this context, see {@link withStatCache}.
+     * @returns {FileSystem} This context.
+     */
+    refresh(): FileSystem {
+        this._statCache?.clear();
+        return this;
+    };
+
+    /**
+     * @description Creates a FileSync bound to this context.
+     * @param {string} path - The path of the file, resolved against the context's working directory.
+     * @returns {FileSync} The file.
+     */
+    file(path: string): FileSync {
+        return new FileSync(path, this);
+    };
+
+    /**
+     * @description Creates a FileSync bound to this context.
+     * @param {string} path - The path of the file, resolved against the context's working directory.
+     * @returns {FileSync} The file.
+     */
+    fileSync(path: string): FileSync {
+        return new FileSync(path, this);
+    };
+
+    /**
+     * @description Creates a FileAsync bound to this context.
+     * @param {string} path - The path of the file, resolved against the context's working directory.
+     * @returns {FileAsync} The file.
+     */
+    fileAsync(path: string): FileAsync {
+        return new FileAsync(path, this);
+    };
+
+    /**
+     * @description Creates a new context with the same backends but a different working directory.
+     * @param {string} cwd - The new working directory, resolved against the current one.
+     * @returns {FileSystem} The new context.
+     */
+    withCwd(cwd: string): FileSystem {
+        return new FileSystem({...this.options, cwd: splitPath(cwd, this.cwd)});
+    };
+
+    /**
+     * @description Gets the throwing variant of this context. It shares the backends, separator and working directory,
+     * but failed operations of its files throw a {@link KtFileError} instead of returning null or false.
+     * Queries that answer a question about the file (`exists`, `isFile`, `isDirectory`, `isSymbolicLink`,
+     * `canRead`, `canWrite`, `canExecute`) keep answering normally.
+     * @example
+     * const strict = FileSystem.default.throwing;
+     * strict.file("missing.txt").read(); // throws KtFileError with code "ENOENT"
+     * @returns {FileSystem} The throwing context, or this context if it already throws.
+     */
+    get throwing(): FileSystem {
+        if (this.throwErrors) return this;
+        return this._throwing ??= new FileSystem({...this.options, throwErrors: true});
+    };
+
+    /**
+     * @description Creates a context whose root directory is the given directory of this context.
+     * Every path of the new context, including absolute ones and ones climbing up with `..`,
+     * is mapped below `root`, so its files can never address anything outside of it.
+     * Symbolic links stored on the underlying backend are not rewritten. Links created through the context get
+     * absolute targets mapped below `root` and keep relative ones as they are, refusing with `EESCAPE` relative
+     * ones that climb above `root` from the directory of the link.
+     * @example
+     * const jail = FileSystem.default.sandbox("/tmp/jail");
+     * jail.file("/etc/passwd").fullPath; // "/etc/passwd", stored at /tmp/jail/etc/passwd
+     * @param {string} root - The directory to use as the root, resolved against this context's working directory.
+     * @returns {FileSystem} The sandboxed context.
+     */
+    sandbox(root: string): FileSystem {
+        const rootSplit = splitPath(root, this.cwd);
+        // the sandbox has paths of its own, so it does not share the stat cache
+        return new FileSystem({
+            fs: sandbox(this.fs, rootSplit, this.sep),
+            promises: sandbox(this.promises, rootSplit, this.sep),
+            sep: this.sep,
+            flavor: this._flavor,
+            cwd: [],
+            throwErrors: this.throwErrors
+        });
+    };
+}
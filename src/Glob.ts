@@ -0,0 +1,321 @@
+export type GlobOptions = {
+    /**
+     * Whether wildcards also match names starting with a dot. Pattern segments that start with a literal
+     * dot always match dotfiles. Defaults to false.
+     */
+    dot?: boolean;
+    /**
+     * Whether matching is case-insensitive. Defaults to false.
+     */
+    nocase?: boolean;
+    /**
+     * Patterns to exclude, the same as passing them prefixed with `!`.
+     */
+    ignore?: string | string[];
+};
+
+const GLOBSTAR = Symbol("globstar");
+
+type Segment = RegExp | typeof GLOBSTAR;
+
+type CompiledPattern = {
+    segments: Segment[];
+    onlyDirectories: boolean;
+};
+
+const posixClasses: Record<string, string> = {
+    alnum: "a-zA-Z0-9",
+    alpha: "a-zA-Z",
+    blank: " \\t",
+    digit: "0-9",
+    lower: "a-z",
+    punct: "!-\\/:-@\\[-`{-~",
+    space: " \\t\\r\\n\\v\\f",
+    upper: "A-Z",
+    word: "\\w",
+    xdigit: "A-Fa-f0-9"
+};
+
+function escapeRegex(text: string): string {
+    return text.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, "\\$&");
+}
+
+function findClosingBrace(pattern: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === "\\") i++;
+        else if (c === "{") depth++;
+        else if (c === "}" && --depth === 0) return i;
+    }
+    return -1;
+}
+
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let last = 0;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === "\\") i++;
+        else if (c === "{") depth++;
+        else if (c === "}") depth--;
+        else if (c === "," && depth === 0) {
+            parts.push(text.slice(last, i));
+            last = i + 1;
+        }
+    }
+    parts.push(text.slice(last));
+    return parts;
+}
+
+function expandRange(body: string): string[] | null {
+    const numeric = /^(-?\d+)\.\.(-?\d+)(?:\.\.(-?\d+))?$/.exec(body);
+    if (numeric) {
+        const [, a, b, s] = numeric;
+        const start = parseInt(a), end = parseInt(b);
+        const step = Math.abs(parseInt(s ?? "1")) || 1;
+        const width = /^-?0\d/.test(a) || /^-?0\d/.test(b) ? Math.max(a.length, b.length) : 0;
+        const result: string[] = [];
+        for (let i = start; start <= end ? i <= end : i >= end; i += start <= end ? step : -step) {
+            const text = String(Math.abs(i)).padStart(width - (i < 0 ? 1 : 0), "0");
+            result.push(i < 0 ? "-" + text : text);
+        }
+        return result;
+    }
+    const alpha = /^([a-zA-Z])\.\.([a-zA-Z])(?:\.\.(-?\d+))?$/.exec(body);
+    if (alpha) {
+        const start = alpha[1].charCodeAt(0), end = alpha[2].charCodeAt(0);
+        const step = Math.abs(parseInt(alpha[3] ?? "1")) || 1;
+        const result: string[] = [];
+        for (let i = start; start <= end ? i <= end : i >= end; i += start <= end ? step : -step) {
+            result.push(String.fromCharCode(i));
+        }
+        return result;
+    }
+    return null;
+}
+
+/**
+ * @description Expands the brace sections of a glob pattern.
+ * Supports comma separated alternatives, numeric and alphabetic ranges with an optional step and nesting.
+ * Braces without a comma or a range are kept as they are.
+ * @example
+ * expandBraces("src/{a,b}/*.{ts,js}"); // ["src/a/*.ts", "src/a/*.js", "src/b/*.ts", "src/b/*.js"]
+ * expandBraces("file{1..3}"); // ["file1", "file2", "file3"]
+ * @param {string} pattern - The pattern to expand.
+ * @returns {string[]} The expanded patterns.
+ */
+export function expandBraces(pattern: string): string[] {
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === "\\") {
+            i++;
+            continue;
+        }
+        if (c !== "{") continue;
+        const close = findClosingBrace(pattern, i);
+        if (close === -1) return [pattern];
+        const body = pattern.slice(i + 1, close);
+        const alternatives = splitTopLevel(body);
+        const options = alternatives.length > 1 ? alternatives : expandRange(body);
+        if (!options) continue;
+        const prefix = pattern.slice(0, i);
+        const suffixes = expandBraces(pattern.slice(close + 1));
+        const result: string[] = [];
+        for (const option of options) {
+            for (const expanded of expandBraces(option)) {
+                for (const suffix of suffixes) result.push(prefix + expanded + suffix);
+            }
+        }
+        return result;
+    }
+    return [pattern];
+}
+
+function compileSegment(segment: string, options: GlobOptions): Segment {
+    if (segment === "**") return GLOBSTAR;
+    let source = "";
+    for (let i = 0; i < segment.length; i++) {
+        const c = segment[i];
+        if (c === "\\" && i + 1 < segment.length) {
+            source += escapeRegex(segment[++i]);
+        } else if (c === "*") {
+            while (segment[i + 1] === "*") i++;
+            source += "[^/]*";
+        } else if (c === "?") {
+            source += "[^/]";
+        } else if (c === "[") {
+            const parsed = compileClass(segment, i);
+            if (parsed) {
+                source += parsed.source;
+                i = parsed.end;
+            } else source += "\\[";
+        } else source += escapeRegex(c);
+    }
+    const dot = options.dot || segment.startsWith(".") || segment.startsWith("\\.");
+    return new RegExp("^" + (dot ? "" : "(?!\\.)") + source + "$", options.nocase ? "i" : "");
+}
+
+function compileClass(segment: string, open: number): { source: string, end: number } | null {
+    let i = open + 1;
+    let negated = false;
+    if (segment[i] === "!" || segment[i] === "^") {
+        negated = true;
+        i++;
+    }
+    let body = "";
+    const first = i;
+    for (; i < segment.length; i++) {
+        const c = segment[i];
+        if (c === "]" && i > first) return {source: `[${negated ? "^" : ""}${body}]`, end: i};
+        if (c === "\\" && i + 1 < segment.length) {
+            body += escapeRegex(segment[++i]);
+        } else if (c === "[" && segment[i + 1] === ":") {
+            const close = segment.indexOf(":]", i + 2);
+            const name = close === -1 ? null : segment.slice(i + 2, close);
+            if (name === null || !(name in posixClasses)) return null;
+            body += posixClasses[name];
+            i = close + 1;
+        } else if (c === "-" && i > first && segment[i + 1] !== "]") {
+            body += "-";
+        } else body += escapeRegex(c);
+    }
+    return null;
+}
+
+function compilePattern(pattern: string, options: GlobOptions): CompiledPattern {
+    let text = pattern.replace(/^(\.\/)+/, "");
+    const onlyDirectories = text.endsWith("/");
+    if (onlyDirectories) text = text.replace(/\/+$/, "");
+    const segments: Segment[] = [];
+    for (const part of text.split(/\/+/)) {
+        if (part === "" || part === ".") continue;
+        const segment = compileSegment(part, options);
+        // consecutive globstars are the same as one
+        if (segment === GLOBSTAR && segments[segments.length - 1] === GLOBSTAR) continue;
+        segments.push(segment);
+    }
+    return {segments, onlyDirectories};
+}
+
+function isHiddenFrom(name: string, options: GlobOptions): boolean {
+    return !options.dot && name.startsWith(".");
+}
+
+function matchSegments(segments: Segment[], path: string[], i: number, j: number, options: GlobOptions): boolean {
+    for (; i < segments.length; i++, j++) {
+        const segment = segments[i];
+        if (segment === GLOBSTAR) {
+            for (let k = j; k <= path.length; k++) {
+                if (matchSegments(segments, path, i + 1, k, options)) return true;
+                if (k < path.length && isHiddenFrom(path[k], options)) return false;
+            }
+            return false;
+        }
+        if (j >= path.length || !segment.test(path[j])) return false;
+    }
+    return j === path.length;
+}
+
+function matchPrefix(segments: Segment[], path: string[], i: number, j: number, options: GlobOptions): boolean {
+    for (; j < path.length; i++, j++) {
+        if (i >= segments.length) return false;
+        const segment = segments[i];
+        if (segment === GLOBSTAR) {
+            if (matchPrefix(segments, path, i + 1, j, options)) return true;
+            for (let k = j; k < path.length; k++) {
+                if (isHiddenFrom(path[k], options)) return false;
+            }
+            return true;
+        }
+        if (!segment.test(path[j])) return false;
+    }
+    return true;
+}
+
+function toSegments(path: string | string[]): string[] {
+    if (Array.isArray(path)) return path;
+    return path.split(/[\\/]+/).filter(i => i !== "" && i !== ".");
+}
+
+/**
+ * @description A compiled set of glob patterns matched against paths relative to some directory.
+ * Supports `*`, `**`, `?`, character classes (including POSIX classes like `[[:digit:]]`), brace expansion,
+ * negation with a leading `!` and an optional trailing `/` to only match directories.
+ * A path matches if it matches at least one positive pattern and no negative pattern.
+ * @example
+ * const glob = new Glob(["src/**\/*.{ts,tsx}", "!**\/*.d.ts"]);
+ * glob.matches("src/app/index.ts"); // true
+ * glob.matches("src/types/index.d.ts"); // false
+ * glob.couldMatchInside("docs"); // false, no need to walk into docs
+ */
+export class Glob {
+    private readonly include: CompiledPattern[] = [];
+    private readonly exclude: CompiledPattern[] = [];
+
+    constructor(patterns: string | string[], readonly options: GlobOptions = {}) {
+        const ignore = typeof options.ignore === "string" ? [options.ignore] : options.ignore ?? [];
+        const all = [...(typeof patterns === "string" ? [patterns] : patterns), ...ignore.map(i => "!" + i)];
+        for (const raw of all) {
+            let pattern = raw;
+            let negated = false;
+            while (pattern.startsWith("!")) {
+                negated = !negated;
+                pattern = pattern.slice(1);
+            }
+            for (const expanded of expandBraces(pattern)) {
+                (negated ? this.exclude : this.include).push(compilePattern(expanded, options));
+            }
+        }
+        // A set made only of negations matches everything that is not excluded.
+        if (this.include.length === 0) this.include.push(compilePattern("**", options));
+    };
+
+    /**
+     * @description Checks whether a relative path matches the patterns.
+     * @param {string | string[]} path - The path relative to the glob's base directory, or its segments.
+     * @param {boolean} [isDirectory=false] - Whether the path is a directory, patterns ending with `/` require it.
+     * @returns {boolean} True if the path matches a positive pattern and no negative pattern.
+     */
+    matches(path: string | string[], isDirectory: boolean = false): boolean {
+        const segments = toSegments(path);
+        const test = (p: CompiledPattern) => (!p.onlyDirectories || isDirectory)
+            && matchSegments(p.segments, segments, 0, 0, this.options);
+        return this.include.some(test) && !this.exclude.some(test);
+    };
+
+    /**
+     * @description Checks whether anything inside the given directory could match the patterns.
+     * Used to prune directories while walking: if this returns false, none of the directory's descendants can match.
+     * @param {string | string[]} directory - The directory relative to the glob's base directory, or its segments.
+     * @returns {boolean} False if the directory's subtree can be skipped.
+     */
+    couldMatchInside(directory: string | string[]): boolean {
+        const segments = toSegments(directory);
+        const excluded = this.exclude.some(p => {
+            const last = p.segments[p.segments.length - 1];
+            return last === GLOBSTAR && !p.onlyDirectories
+                && matchSegments(p.segments.slice(0, -1), segments, 0, 0, this.options);
+        });
+        if (excluded) return false;
+        return this.include.some(p => matchPrefix(p.segments, segments, 0, 0, this.options)
+            && !(p.segments.length <= segments.length && !p.segments.includes(GLOBSTAR)));
+    };
+}
+
+export type FileGlobOptions = GlobOptions & {
+    /**
+     * Only yield files, not directories.
+     */
+    onlyFiles?: boolean;
+    /**
+     * Only yield directories, not files.
+     */
+    onlyDirectories?: boolean;
+    /**
+     * Whether to descend into symbolically linked directories. Directories that were already visited are never
+     * descended into again, so cycles are safe. Defaults to false.
+     */
+    followSymlinks?: boolean;
+};
@@ -0,0 +1,62 @@
+export type Hasher = {
+    update(data: Uint8Array | string): unknown;
+    digest(encoding: "hex"): string;
+};
+
+/**
+ * The hash implementation, filled in with Node's `crypto.createHash` when it is available.
+ */
+export const hashing: { createHash?: (algorithm: string) => Hasher } = {};
+
+export type TreeHashOptions = {
+    /**
+     * The hash algorithm used for the contents and the tree. Defaults to "sha256".
+     */
+    algorithm?: string;
+    /**
+     * Whether the permission bits of files and directories change the hash. Defaults to false.
+     */
+    includeMode?: boolean;
+    /**
+     * Whether the modification times of files change the hash. Defaults to false.
+     */
+    includeMtime?: boolean;
+    /**
+     * Glob patterns of relative paths to leave out, matched with dotfiles included.
+     */
+    ignore?: string | string[];
+    /**
+     * Whether to hash the targets of symbolic links instead of the links themselves. Defaults to false.
+     */
+    followSymlinks?: boolean;
+    /**
+     * How many bytes are read at once. Defaults to 65536.
+     */
+    chunkSize?: number;
+};
+
+/**
+ * One line of the manifest a tree hash is computed from, describing an entry of the tree.
+ */
+export function manifestLine(type: "f" | "d" | "l", path: string, options: TreeHashOptions, details: {
+    mode?: number,
+    mtime?: number,
+    content?: string
+}): string {
+    let line = `${type} ${JSON.stringify(path)}`;
+    if (options.includeMode && details.mode !== undefined) line += " " + (details.mode & 0o7777).toString(8);
+    if (options.includeMtime && type === "f" && details.mtime !== undefined) line += " " + Math.floor(details.mtime);
+    if (details.content !== undefined) line += " " + details.content;
+    return line;
+}
+
+/**
+ * Combines the manifest lines into the tree hash. Lines are sorted by path, so the order the file system
+ * lists entries in does not matter.
+ */
+export function combineManifest(lines: [string, string][], algorithm: string): string {
+    const hasher = hashing.createHash(algorithm);
+    lines.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+    for (const [, line] of lines) hasher.update(line + "\n");
+    return hasher.digest("hex");
+}
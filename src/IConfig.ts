@@ -1,34 +1,507 @@
-export abstract class Config {
-    protected constructor(protected value: unknown) {
-    };
+import {ConfigIssue, ConfigValidator, formatIssues, runValidator} from "./Schema";
+import {ConfigFormat, ConfigFormatName, configFormat} from "./ConfigFormat";
+import {Emitter} from "./Emitter";
+import {KtFileError, KtFileErrorCode} from "./KtFileError";
+import {isUnsafeKey} from "./Utils";
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined | Date | ((...args: never[]) => unknown);
+type Previous = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * A key as it is written in a path, with its dots escaped.
+ */
+type Escaped<K extends string> = K extends `${infer Head}.${infer Tail}` ? `${Head}\\.${Escaped<Tail>}` : K;
+
+/**
+ * The dotted paths into a shape, like `"server" | "server.port" | "hosts.0"`, up to 8 levels deep.
+ * Array elements are reached by their index, dots in keys are escaped with a backslash.
+ */
+export type ConfigPath<T, Depth extends number = 8> = [Depth] extends [never] ? never
+    : T extends readonly (infer E)[] ? `${number}` | `${number}.${ConfigPath<NonNullable<E>, Previous[Depth]>}`
+        : T extends Primitive ? never
+            : { [K in keyof T & string]: Escaped<K> | `${Escaped<K>}.${ConfigPath<NonNullable<T[K]>, Previous[Depth]>}` }[keyof T & string];
+
+/**
+ * The paths accepted by a config of the shape, any string when the shape is unknown.
+ */
+export type ConfigKey<T> = unknown extends T ? string : ConfigPath<T>;
+
+type ValueOfKey<T, P extends string> = { [K in keyof T & string]: P extends Escaped<K> ? T[K]
+    : P extends `${Escaped<K>}.${infer Rest}` ? ConfigValue<NonNullable<T[K]>, Rest> : never }[keyof T & string];
+
+/**
+ * The type of the value at a dotted path of a shape.
+ */
+export type ConfigValue<T, P extends string> = T extends readonly (infer E)[]
+    ? P extends `${number}` ? E : P extends `${number}.${infer Rest}` ? ConfigValue<NonNullable<E>, Rest> : unknown
+    : [ValueOfKey<T, P>] extends [never] ? unknown : ValueOfKey<T, P>;
+
+export type ConfigOptions<T> = {
+    /**
+     * The value used while the file does not exist. Defaults to an empty object.
+     */
+    defaults?: T;
+    /**
+     * Checks the value when it is loaded and before it is saved, see {@link schema} for the built-in format.
+     */
+    validator?: ConfigValidator<T>;
+    /**
+     * What happens to invalid values. "reject" refuses to load or save them, "repair" lets the validator repair
+     * them and refuses what it cannot repair. Defaults to "reject".
+     */
+    onInvalid?: "reject" | "repair";
+    /**
+     * The format of the file, a built-in one by name or your own. Defaults to the one matching the file name,
+     * see {@link configFormat}.
+     */
+    format?: ConfigFormat | ConfigFormatName;
+    /**
+     * Saves by itself after `set` and `delete`, once no change came for the given milliseconds, or 100 for true.
+     * Failed saves are reported as `error` events.
+     */
+    autosave?: boolean | number;
+    /**
+     * Upgrades older files on load, where the migration at index `i` turns a value of version `i` into one of
+     * version `i + 1` by returning it or by changing it in place. Files without a version are version 0.
+     * An upgraded file is written back, and new files start at the latest version.
+     */
+    migrations?: ((value: any) => unknown)[];
+    /**
+     * The key holding the version of the file for the migrations. Defaults to "version".
+     */
+    versionKey?: string;
+};
+
+export type ConfigChangeListener = (path: string, oldValue: unknown, newValue: unknown) => void;
 
-    get<T>(path: string, default_: T = undefined): T {
-        const parts = path.split(".");
-        let current: unknown = this.value;
-        for (const part of parts) {
-            if (current[part] === undefined) {
-                return default_;
+export type ConfigEvents = {
+    /**
+     * A value changed, by `set` or a reload. Emitted for every changed value, objects are compared key by key.
+     */
+    change: [path: string, oldValue: unknown, newValue: unknown];
+    /**
+     * A reload or an autosave failed, the last good value is kept.
+     */
+    error: [KtFileError];
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function equals(a: unknown, b: unknown): boolean {
+    if (a === b || Number.isNaN(a) && Number.isNaN(b)) return true;
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every(key => Object.hasOwn(b, key) && equals((a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * @description Splits a dotted path into its segments. A backslash escapes the next character, so `a\\.b`
+ * is the key `a.b`, and `[n]` is the index n of an array, so `hosts[0].name` equals `hosts.0.name`.
+ * @param {string} path - The dotted path.
+ * @returns {(string | number)[]} The keys, and the indexes given in brackets as numbers.
+ */
+export function parseConfigPath(path: string): (string | number)[] {
+    const segments: (string | number)[] = [];
+    let current = "";
+    // after an index in brackets a dot starts the next segment without ending an empty one
+    let afterIndex = false;
+    for (let i = 0; i < path.length; i++) {
+        const c = path[i];
+        if (c === "\\" && i + 1 < path.length) {
+            current += path[++i];
+            afterIndex = false;
+            continue;
+        }
+        if (c === "[") {
+            const end = path.indexOf("]", i);
+            if (end !== -1 && /^\d+$/.test(path.slice(i + 1, end))) {
+                if (current !== "") segments.push(current);
+                segments.push(Number(path.slice(i + 1, end)));
+                current = "";
+                afterIndex = true;
+                i = end;
+                continue;
             }
-            current = current[part];
-        }
-        return current as T;
-    };
-
-    set(path: string, value: unknown) {
-        const parts = path.split(".");
-        let current: unknown = this.value;
-        for (let i = 0; i < parts.length; i++) {
-            const part = parts[i];
-            if (i === parts.length - 1) {
-                current[part] = value;
-            } else {
-                if (current[part] === undefined) {
-                    current[part] = {};
-                }
-                current = current[part];
+        }
+        if (c === ".") {
+            if (!afterIndex || current !== "") segments.push(current);
+            current = "";
+            afterIndex = false;
+            continue;
+        }
+        current += c;
+        afterIndex = false;
+    }
+    if (!afterIndex || current !== "") segments.push(current);
+    return segments;
+}
+
+/**
+ * @description Escapes a key for a dotted path, so dots and brackets in it are read as part of the key.
+ * @example
+ * config.get(`hosts.${escapeConfigKey("example.com")}.port`);
+ * @param {string} key - The key.
+ * @returns {string} The key as it is written in a path.
+ */
+export function escapeConfigKey(key: string): string {
+    return key.replace(/[\\.[]/g, "\\$&");
+}
+
+/**
+ * Whether a changed path concerns a pattern: the pattern matches the path or the start of it,
+ * or the path is a parent of what the pattern matches. `*` matches one segment, `**` the rest.
+ */
+function pathMatches(pattern: string[], path: string): boolean {
+    const parts = path === "" ? [] : parseConfigPath(path).map(String);
+    for (let i = 0; i < pattern.length && i < parts.length; i++) {
+        if (pattern[i] === "**") return true;
+        if (pattern[i] !== "*" && pattern[i] !== parts[i]) return false;
+    }
+    return true;
+}
+
+function valueAt(root: unknown, segments: (string | number)[]): unknown {
+    let current = root;
+    for (const segment of segments) {
+        if (typeof current !== "object" || current === null || !Object.hasOwn(current, segment)) return undefined;
+        current = (current as Record<string, unknown>)[segment];
+    }
+    return current;
+}
+
+/**
+ * Copies plain objects and arrays, so defaults given once are not changed by the configs using them.
+ */
+function copy<V>(value: V): V {
+    if (Array.isArray(value)) return value.map(copy) as V;
+    if (!isObject(value) || Object.getPrototypeOf(value) !== Object.prototype) return value;
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, copy(item)])) as V;
+}
+
+export abstract class Config<T = unknown> extends Emitter<ConfigEvents> {
+    /**
+     * The problems found in the last value that was loaded or saved, empty when it was valid.
+     */
+    issues: ConfigIssue[] = [];
+    /**
+     * The format the file is read and written in.
+     */
+    readonly format: ConfigFormat;
+    /**
+     * The text last loaded from or saved to the file, reloading the same text again changes nothing.
+     */
+    protected text: string | null = null;
+    /**
+     * What the format writes for the value last loaded or saved, so loaded text written differently still
+     * counts as saved while the value stays the same.
+     */
+    private formatted: string | null = null;
+    /**
+     * Whether the last load upgraded the value with the migrations, so the file should be written back.
+     */
+    protected migrated = false;
+    private dirty = false;
+    private autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * @param value - The value until one is loaded.
+     * @param [options] - The options of the config.
+     * @param [location] - The path of the file, which picks the format and is named in errors.
+     */
+    protected constructor(protected value: T, protected readonly options: ConfigOptions<T> = {},
+                          protected readonly location: string = "") {
+        super();
+        this.format = configFormat(options.format, location.split(/[\\/]/).pop());
+    };
+
+    /**
+     * Whether `set` or `delete` changed the value since it was last loaded or saved, which autosaving waits for.
+     * Objects returned by `get` and `toJSON` can also be changed in place without marking the config dirty,
+     * `save` compares the formatted value with the file to find those changes.
+     */
+    get isDirty(): boolean {
+        return this.dirty;
+    };
+
+    /**
+     * @description Gets the value at a dotted path. Missing values, and paths running into `null`
+     * or a primitive on the way, give the default.
+     * @example
+     * const config = file.config<{ server: { port: number }, hosts: string[] }>();
+     * const port = config.get("server.port", 8080); // number
+     * const host = config.get("hosts.0"); // string | undefined, the same as "hosts[0]"
+     * @param {string} path - The dotted path, like `server.port`, see {@link parseConfigPath}.
+     * @param [default_] - What to return when there is no value at the path.
+     * @returns The value, or the default.
+     */
+    get<P extends ConfigKey<T>>(path: P): ConfigValue<T, P> | undefined;
+    get<P extends ConfigKey<T>>(path: P, default_: ConfigValue<T, P>): ConfigValue<T, P>;
+    get(path: string, default_?: unknown): unknown {
+        const value = valueAt(this.value, parseConfigPath(path));
+        return value === undefined ? default_ : value;
+    };
+
+    /**
+     * @description Sets the value at a dotted path. Missing objects on the way are created, as arrays
+     * before an index in brackets, and `null` or primitives on the way are replaced. Paths using `__proto__`,
+     * `constructor` or `prototype` as a key throw an `EINVAL` error.
+     * @param {string} path - The dotted path, like `server.port`, see {@link parseConfigPath}.
+     * @param value - The value, checked against the shape of the config.
+     */
+    set<P extends ConfigKey<T>>(path: P, value: ConfigValue<T, P>) {
+        const segments = parseConfigPath(path);
+        const unsafe = segments.find(segment => isUnsafeKey(String(segment)));
+        if (unsafe !== undefined) {
+            throw new KtFileError("EINVAL", "set", this.location, {cause: new Error(`Unsafe key ${unsafe} in ${path}`)});
+        }
+        const previous = valueAt(this.value, segments);
+        const container = (next: string | number) => typeof next === "number" ? [] : {};
+        if (typeof this.value !== "object" || this.value === null) this.value = container(segments[0]) as T;
+        let current = this.value as Record<string | number, unknown>;
+        for (let i = 0; i < segments.length - 1; i++) {
+            const segment = segments[i];
+            if (!Object.hasOwn(current, segment) || typeof current[segment] !== "object" || current[segment] === null) {
+                current[segment] = container(segments[i + 1]);
             }
+            current = current[segment] as Record<string | number, unknown>;
+        }
+        current[segments[segments.length - 1]] = value;
+        this.changed(path, previous, value);
+        this.touch();
+    };
+
+    /**
+     * @description Removes the value at a dotted path. Elements of arrays are spliced out,
+     * moving the ones after them down.
+     * @param {string} path - The dotted path, like `server.port`, see {@link parseConfigPath}.
+     * @returns {boolean} Whether there was a value to remove.
+     */
+    delete(path: ConfigKey<T>): boolean {
+        const segments = parseConfigPath(path);
+        const parent = valueAt(this.value, segments.slice(0, -1));
+        const key = segments[segments.length - 1];
+        if (typeof parent !== "object" || parent === null || !Object.hasOwn(parent, key)) return false;
+        const previous = (parent as Record<string | number, unknown>)[key];
+        if (Array.isArray(parent)) parent.splice(Number(key), 1);
+        else delete (parent as Record<string | number, unknown>)[key];
+        this.changed(path, previous, undefined);
+        this.touch();
+        return true;
+    };
+
+    /**
+     * @description Checks whether there is a value at a dotted path. `null` counts as a value.
+     * @param {string} path - The dotted path, like `server.port`, see {@link parseConfigPath}.
+     * @returns {boolean} Whether there is a value.
+     */
+    has(path: ConfigKey<T>): boolean {
+        return valueAt(this.value, parseConfigPath(path)) !== undefined;
+    };
+
+    /**
+     * @description Lists the keys of the object at a dotted path, or the indexes of an array.
+     * @example
+     * config.keys(); // ["server", "hosts"]
+     * config.keys("hosts"); // ["0", "1"]
+     * @param {string} [path] - The dotted path, the whole value when omitted.
+     * @returns {string[]} The keys, empty when there is no object or array at the path.
+     */
+    keys(path?: ConfigKey<T>): string[] {
+        const value = path === undefined ? this.value : valueAt(this.value, parseConfigPath(path));
+        return typeof value === "object" && value !== null && !(value instanceof Date) ? Object.keys(value) : [];
+    };
+
+    /**
+     * @description Listens to changes of the values matching a dotted pattern, where `*` stands for one segment
+     * and `**` for any number of them. Changes below a matching value, like `db.pool.size` for `db.*`, and
+     * replacements of a parent, like a new `db` object, are reported too.
+     * @example
+     * const stop = config.onChange("db.*", (path, oldValue, newValue) => reconnect());
+     * stop();
+     * @param {string} pattern - The dotted pattern, like `db.*` or `server.port`.
+     * @param {ConfigChangeListener} listener - Called with the changed path and its old and new value.
+     * @returns {() => void} A function removing the listener.
+     */
+    onChange(pattern: string, listener: ConfigChangeListener): () => void {
+        const segments = parseConfigPath(pattern).map(String);
+        const filter: ConfigChangeListener = (path, oldValue, newValue) => {
+            if (pathMatches(segments, path)) listener(path, oldValue, newValue);
+        };
+        this.on("change", filter);
+        return () => {
+            this.off("change", filter);
+        };
+    };
+
+    /**
+     * @description Gets the whole value, also used by `JSON.stringify`. It is not a copy.
+     * @returns The value of the config.
+     */
+    toJSON(): T {
+        return this.value;
+    };
+
+    /**
+     * Whether the last value that was loaded or saved passed the validator.
+     */
+    get isValid(): boolean {
+        return this.issues.length === 0;
+    };
+
+    /**
+     * Validates a value and takes it over when it is valid or could be repaired.
+     * A rejected value leaves the current one in place.
+     */
+    protected accept(value: unknown): boolean {
+        if (!this.options.validator) {
+            this.issues = [];
+            this.value = value as T;
+            return true;
+        }
+        const result = runValidator(this.options.validator, value, this.options.onInvalid === "repair");
+        this.issues = result.issues;
+        if (result.issues.length > 0) return false;
+        this.value = result.value;
+        return true;
+    };
+
+    /**
+     * Takes over the defaults while the file does not exist. They are at the latest version,
+     * and are not saved yet.
+     */
+    protected loadDefaults(value: T) {
+        const version = this.options.migrations?.length ?? 0;
+        const key = this.options.versionKey ?? "version";
+        value = copy(value);
+        if (version > 0 && isObject(value) && value[key] === undefined) value = {...value, [key]: version};
+        this.accept(value);
+        this.dirty = true;
+    };
+
+    /**
+     * Parses the text of the file, upgrades it with the migrations and takes the value over, see {@link accept}.
+     * @returns The code and cause to report if the text could not be parsed or upgraded, null otherwise.
+     */
+    protected load(text: string): { code: KtFileErrorCode, cause: unknown } | null {
+        this.text = text;
+        this.migrated = false;
+        let value: unknown;
+        try {
+            value = this.format.parse(text.replace(/^\uFEFF/, ""));
+        } catch (e) {
+            this.issues = [{path: "", message: `could not be parsed: ${e instanceof Error ? e.message : String(e)}`}];
+            return {code: "EPARSE", cause: e ?? new Error("could not be parsed")};
+        }
+        try {
+            this.formatted = this.format.stringify(value);
+        } catch {
+            this.formatted = null;
+        }
+        try {
+            value = this.migrate(value);
+        } catch (e) {
+            this.issues = [{path: "", message: `could not be migrated: ${e instanceof Error ? e.message : String(e)}`}];
+            return {code: "EINVALID", cause: e ?? new Error("could not be migrated")};
         }
+        if (this.accept(value)) this.dirty = this.migrated;
+        return null;
+    };
+
+    /**
+     * Runs the migrations from the version of a value up to the latest one.
+     */
+    private migrate(value: unknown): unknown {
+        const migrations = this.options.migrations ?? [];
+        if (migrations.length === 0 || !isObject(value)) return value;
+        const key = this.options.versionKey ?? "version";
+        const version = value[key] ?? 0;
+        if (typeof version !== "number" || !Number.isInteger(version) || version < 0 || version > migrations.length) {
+            throw new Error(`Unknown version ${String(version)}, expected 0 to ${migrations.length}`);
+        }
+        for (let i = version; i < migrations.length; i++) {
+            value = migrations[i](value) ?? value;
+            if (!isObject(value)) throw new Error(`The migration to version ${i + 1} did not give an object`);
+            value[key] = i + 1;
+            this.migrated = true;
+        }
+        return value;
+    };
+
+    /**
+     * Takes over changed text of the file and reports the changed values. Text that cannot be parsed
+     * or does not pass the validator leaves the last good value in place.
+     * @returns The error to report, or null.
+     */
+    protected reload(text: string): KtFileError | null {
+        if (text === this.text) return null;
+        const previous = this.value;
+        const error = this.load(text);
+        if (error === null && !this.isValid) {
+            return new KtFileError("EINVALID", "reload", this.location, {cause: new Error(formatIssues(this.issues))});
+        }
+        if (error !== null) return new KtFileError(error.code, "reload", this.location, {cause: error.cause});
+        this.changed("", previous, this.value);
+        return null;
+    };
+
+    /**
+     * Whether the file already holds the value formatted as `text`, so saving it would change nothing.
+     */
+    protected isSaved(text: string): boolean {
+        return text === this.text || text === this.formatted;
+    };
+
+    /**
+     * Marks the value as saved, and cancels a pending autosave.
+     */
+    protected saved() {
+        this.formatted = this.text;
+        this.dirty = false;
+        if (this.autosaveTimer !== null) clearTimeout(this.autosaveTimer);
+        this.autosaveTimer = null;
+    };
+
+    /**
+     * Marks the value as changed, and schedules an autosave if enabled.
+     */
+    protected touch() {
+        this.dirty = true;
+        const autosave = this.options.autosave;
+        if (!autosave) return;
+        if (this.autosaveTimer !== null) clearTimeout(this.autosaveTimer);
+        this.autosaveTimer = setTimeout(() => {
+            this.autosaveTimer = null;
+            Promise.resolve().then(() => this.save()).then(saved => {
+                if (saved) return;
+                this.emit("error", new KtFileError(this.isValid ? "UNKNOWN" : "EINVALID", "autosave", this.location, {
+                    cause: new Error(this.isValid ? "could not be saved" : formatIssues(this.issues))
+                }));
+            }, e => this.emit("error", KtFileError.from(e)));
+        }, autosave === true ? 100 : autosave);
+    };
+
+    /**
+     * Emits a change event for every value below a path that differs between the two values.
+     */
+    protected changed(path: string, previous: unknown, next: unknown) {
+        if (isObject(previous) && isObject(next)) {
+            for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+                this.changed(path ? `${path}.${escapeConfigKey(key)}` : escapeConfigKey(key), previous[key], next[key]);
+            }
+        } else if (!equals(previous, next)) this.emit("change", path, previous, next);
     };
 
+    /**
+     * Writes the value to the file, unless it formats to what was last loaded or saved, so a clean `save`
+     * leaves the file alone while values changed in place are still written.
+     */
     abstract save(): boolean | Promise<boolean>;
-}
\ No newline at end of file
+}
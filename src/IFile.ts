@@ -1,11 +1,16 @@
-import {splitPath} from "./Utils";
 import type {WriteStream} from "node:fs";
-import {isLinux} from "./ktfile";
+import type {FileSystem} from "./FileSystem";
+import type {FileStat} from "./Stat";
 
 export abstract class IFile<FS extends object> {
     readonly split: string[];
-    constructor(pt: string | string[]) {
-        this.split = typeof pt === "string" ? splitPath(pt) : [...pt];
+    /**
+     * Stat snapshots taken while listing the parent directory, used until `refresh()` or a call through `fs`
+     * that may change the file.
+     */
+    protected preloaded?: { stat?: FileStat; lstat?: FileStat };
+    constructor(pt: string | string[], readonly context: FileSystem) {
+        this.split = typeof pt === "string" ? context.flavor.split(pt, context.cwd) : [...pt];
     };
 
     abstract get fs(): FS;
@@ -13,7 +18,39 @@ export abstract class IFile<FS extends object> {
     abstract get separator(): string;
 
     get fullPath(): string {
-        return (isLinux ? this.separator : "") + this.split.join(this.separator);
+        return this.context.flavor.fullPath(this.split);
+    };
+
+    /**
+     * @description Gets the root of the path of the file, like "/", "C:\\" or "\\\\server\\share\\".
+     * @returns {string} The root.
+     */
+    get root(): string {
+        return this.context.flavor.root(this.fullPath);
+    };
+
+    /**
+     * @description Gets the names leading from the root to the file.
+     * @example
+     * new FileSync("/home/user/notes.txt").segments; // ["home", "user", "notes.txt"]
+     * @returns {string[]} The names, empty for a root.
+     */
+    get segments(): string[] {
+        return this.context.flavor.segments(this.fullPath);
+    };
+
+    /**
+     * @description Computes the relative path leading from another file or path to this file.
+     * @example
+     * const file = new FileSync("/srv/app/dist/main.js");
+     * file.relativeTo("/srv/app/src"); // "../dist/main.js"
+     * @param {IFile | string} other - The directory to start from, a path is resolved against the working directory.
+     * @returns {string} The relative path, empty for the same file, or the full path if the two are on different roots.
+     */
+    relativeTo(other: IFile<object> | string): string {
+        const flavor = this.context.flavor;
+        const from = typeof other === "string" ? flavor.fullPath(flavor.split(other, this.context.cwd)) : other.fullPath;
+        return flavor.relative(from, this.fullPath);
     };
 
     /**
@@ -36,7 +73,7 @@ export abstract class IFile<FS extends object> {
      */
     createWriteStream(encoding?: BufferEncoding): WritableStream {
         if (typeof this.fs === "object" && "createWriteStream" in this.fs && typeof this.fs.createWriteStream === "function") {
-            return this.fs.createWriteStream(this.split.join("/"), encoding);
+            return this.fs.createWriteStream(this.fullPath, encoding);
         }
         throw new Error("File system does not support createWriteStream");
     };
@@ -65,7 +102,7 @@ export abstract class IFile<FS extends object> {
      */
     createReadStream(encoding?: BufferEncoding): ReadableStream {
         if (typeof this.fs === "object" && "createReadStream" in this.fs && typeof this.fs.createReadStream === "function") {
-            return this.fs.createReadStream(this.split.join("/"), encoding);
+            return this.fs.createReadStream(this.fullPath, encoding);
         }
         throw new Error("File system does not support createReadStream");
     };
@@ -90,7 +127,7 @@ export abstract class IFile<FS extends object> {
      */
     createAppendStream(encoding?: BufferEncoding): WritableStream {
         if (typeof this.fs === "object" && "createWriteStream" in this.fs && typeof this.fs.createWriteStream === "function") {
-            return this.fs.createWriteStream(this.split.join("/"), {flags: "a", encoding});
+            return this.fs.createWriteStream(this.fullPath, {flags: "a", encoding});
         }
         throw new Error("File system does not support createAppendStream");
     };
@@ -119,7 +156,7 @@ export abstract class IFile<FS extends object> {
      */
     createInputStream(encoding?: BufferEncoding): ReadableStream {
         if (typeof this.fs === "object" && "createReadStream" in this.fs && typeof this.fs.createReadStream === "function") {
-            return this.fs.createReadStream(this.split.join("/"), {flags: "r", encoding});
+            return this.fs.createReadStream(this.fullPath, {flags: "r", encoding});
         }
         throw new Error("File system does not support createInputStream");
     };
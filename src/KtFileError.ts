@@ -0,0 +1,106 @@
+import type {FileSystem} from "./FileSystem";
+
+/**
+ * The error codes a {@link KtFileError} can carry. The `E*` system codes come straight from the
+ * underlying file system, `EPARSE` is raised by ktfile itself when a file's content cannot be parsed and
+ * `ELOCKED` when a lock could not be acquired in time, `EESCAPE` when an archive entry would be extracted
+ * outside its destination or a link created in a sandbox would point outside of it, and `EINVALID` when a config
+ * value does not pass its validator.
+ */
+export type KtFileErrorCode =
+    "ENOENT" | "EACCES" | "EPERM" | "EEXIST" | "ENOTDIR" | "EISDIR" | "ENOTEMPTY" | "ENOSPC" | "EBUSY"
+    | "EINVAL" | "ELOOP" | "EXDEV" | "EMFILE" | "EROFS" | "ENAMETOOLONG" | "ENOSYS" | "EPARSE" | "ELOCKED"
+    | "EESCAPE" | "EINVALID" | "UNKNOWN"
+    | (string & {});
+
+const descriptions: Record<string, string> = {
+    ENOENT: "no such file or directory",
+    EACCES: "permission denied",
+    EPERM: "operation not permitted",
+    EEXIST: "file already exists",
+    ENOTDIR: "not a directory",
+    EISDIR: "illegal operation on a directory",
+    ENOTEMPTY: "directory not empty",
+    ENOSPC: "no space left on device",
+    EBUSY: "resource busy or locked",
+    EINVAL: "invalid argument",
+    ELOOP: "too many symbolic links encountered",
+    EXDEV: "cross-device link not permitted",
+    EMFILE: "too many open files",
+    EROFS: "read-only file system",
+    ENAMETOOLONG: "name too long",
+    ENOSYS: "function not implemented",
+    EPARSE: "could not parse the content",
+    ELOCKED: "file is locked by another owner",
+    EESCAPE: "path escapes the directory it is confined to",
+    EINVALID: "value does not pass validation",
+    UNKNOWN: "unknown error"
+};
+
+/**
+ * @description The error thrown by `FileSync` and `FileAsync` in throwing mode.
+ * It normalizes the errors of every backend into the same shape, the original error is kept as `cause`.
+ * @example
+ * try {
+ *     file.throwing.copyTo(dest);
+ * } catch (e) {
+ *     if (e instanceof KtFileError && e.code === "ENOSPC") console.log("Disk is full.");
+ * }
+ */
+export class KtFileError extends Error {
+    readonly code: KtFileErrorCode;
+    readonly syscall?: string;
+    readonly path?: string;
+    readonly dest?: string;
+    readonly errno?: number;
+
+    constructor(code: KtFileErrorCode, syscall?: string, path?: string, options: {
+        dest?: string,
+        errno?: number,
+        cause?: unknown,
+        message?: string
+    } = {}) {
+        super(options.message ?? `${code}: ${descriptions[code] ?? descriptions.UNKNOWN}`
+            + (syscall ? `, ${syscall}` : "")
+            + (path !== undefined ? ` '${path}'` : "")
+            + (options.dest !== undefined ? ` -> '${options.dest}'` : ""), {cause: options.cause});
+        this.name = "KtFileError";
+        this.code = code;
+        this.syscall = syscall;
+        this.path = path;
+        this.dest = options.dest;
+        this.errno = options.errno;
+    };
+
+    /**
+     * @description Wraps any thrown value into a KtFileError.
+     * Node style errors keep their `code`, `syscall`, `path`, `dest` and `errno`, anything else becomes `UNKNOWN`.
+     * @param {unknown} error - The thrown value.
+     * @returns {KtFileError} The same error if it already is a KtFileError, a new one otherwise.
+     */
+    static from(error: unknown): KtFileError {
+        if (error instanceof KtFileError) return error;
+        const e = (typeof error === "object" && error !== null ? error : {}) as Partial<{
+            code: string, syscall: string, path: string, dest: string, errno: number, message: string
+        }>;
+        return new KtFileError(typeof e.code === "string" ? e.code : "UNKNOWN", e.syscall, e.path, {
+            dest: e.dest,
+            errno: e.errno,
+            cause: error,
+            message: typeof e.code === "string" && e.message ? e.message : error instanceof Error
+                ? error.message : undefined
+        });
+    };
+}
+
+/**
+ * Reports a failure that was detected without a file system call.
+ * Throws in throwing mode, returns null otherwise so it can be returned directly.
+ */
+export function fail(context: FileSystem, code: KtFileErrorCode, syscall: string, path: string, options?: {
+    dest?: string,
+    cause?: unknown
+}): null {
+    if (context.throwErrors) throw new KtFileError(code, syscall, path, options);
+    return null;
+}
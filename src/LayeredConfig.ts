@@ -0,0 +1,226 @@
+import {Config, ConfigKey, ConfigOptions, ConfigValue, escapeConfigKey} from "./IConfig";
+import {KtFileError} from "./KtFileError";
+import {formatIssues} from "./Schema";
+import {isUnsafeKey} from "./Utils";
+
+/**
+ * A named source of a layered config, like `{name: "user", config: userFile.config()}`.
+ */
+export type ConfigLayer = {
+    name: string;
+    config: Config<any>;
+};
+
+export type LayeredConfigOptions<T> = Omit<ConfigOptions<T>, "defaults" | "format" | "autosave" | "migrations" | "versionKey"> & {
+    /**
+     * The name of the layer `set` and `save` write to. Defaults to the one with the highest precedence
+     * that is not an environment layer.
+     */
+    writeTo?: string;
+};
+
+/**
+ * Where the value at a path comes from.
+ */
+export type ConfigExplanation = {
+    /**
+     * The layer with the highest precedence holding a value at the path.
+     */
+    layer: string;
+    /**
+     * The resolved value, objects are merged across layers.
+     */
+    value: unknown;
+    /**
+     * The values of the other layers at the path that were overridden, highest precedence first.
+     */
+    overridden: { layer: string, value: unknown }[];
+};
+
+export type EnvConfigOptions = {
+    /**
+     * The variables to read. Defaults to `process.env` where it exists.
+     */
+    env?: Record<string, string | undefined>;
+    /**
+     * What separates the segments of a path in a variable name. Defaults to `__`.
+     */
+    separator?: string;
+    /**
+     * How a segment of a variable name becomes a key. Defaults to lower case.
+     */
+    key?: (segment: string) => string;
+    /**
+     * Whether values looking like booleans, numbers, `null` or JSON arrays and objects are read as such.
+     * Defaults to true.
+     */
+    coerce?: boolean;
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Merges a value over another one, objects key by key, anything else replaces what is below.
+ */
+function merge(lower: unknown, upper: unknown): unknown {
+    if (upper === undefined) return lower;
+    if (!isObject(lower) || !isObject(upper)) return upper;
+    const result: Record<string, unknown> = {...lower};
+    for (const [key, value] of Object.entries(upper)) result[key] = merge(lower[key], value);
+    return result;
+}
+
+function coerce(text: string): unknown {
+    if (text === "true" || text === "false") return text === "true";
+    if (text === "null") return null;
+    // leading zeros are kept, like in zip codes and octal modes
+    if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(text)) return Number(text);
+    if (/^\s*[\[{]/.test(text)) {
+        try {
+            return JSON.parse(text);
+        } catch {
+        }
+    }
+    return text;
+}
+
+/**
+ * @description A config read from environment variables with a prefix, where the separator splits a name into
+ * a path: `APP_DB__PORT=5432` with the prefix `APP_` is `db.port`, read as the number 5432.
+ * It has no file, `set` only changes it in memory and `save` does nothing.
+ * @example
+ * const env = new EnvConfig("APP_");
+ * env.get("db.port"); // 5432
+ */
+export class EnvConfig extends Config<Record<string, unknown>> {
+    constructor(readonly prefix: string, options: EnvConfigOptions = {}) {
+        super({});
+        const env = options.env ?? (typeof process !== "undefined" ? process.env : {});
+        const key = options.key ?? (segment => segment.toLowerCase());
+        for (const [name, text] of Object.entries(env)) {
+            if (!name.startsWith(prefix) || name === prefix || text === undefined) continue;
+            const path = name.slice(prefix.length).split(options.separator ?? "__").map(key);
+            if (path.some(segment => segment === "" || isUnsafeKey(segment))) continue;
+            this.set(path.map(escapeConfigKey).join("."), options.coerce === false ? text : coerce(text));
+        }
+    };
+
+    save() {
+        return false;
+    };
+}
+
+/**
+ * @description Stacks several configs, like bundled defaults, a system file, a user file and the environment.
+ * Reads resolve by precedence, later layers override earlier ones and objects are merged key by key.
+ * Writes go to one designated layer. Changes of the layers, like reloads of watched files,
+ * are reported as changes of the merged value.
+ * @example
+ * const config = new LayeredConfig<{ db: { host: string, port: number } }>([
+ *     {name: "defaults", config: bundled.config()},
+ *     {name: "system", config: new FileSync("/etc/app.toml").config()},
+ *     {name: "user", config: home.to(".app.toml").config()},
+ *     {name: "env", config: new EnvConfig("APP_")}
+ * ], {writeTo: "user"});
+ * config.get("db.port"); // the port of the environment, the user file, the system file or the defaults
+ * config.explain("db.port"); // {layer: "env", value: 5432, overridden: [{layer: "defaults", value: 5432}]}
+ */
+export class LayeredConfig<T = unknown> extends Config<T> {
+    private readonly target: ConfigLayer | undefined;
+
+    constructor(readonly layers: ConfigLayer[], options: LayeredConfigOptions<T> = {}) {
+        super({} as T, options);
+        this.target = options.writeTo !== undefined
+            ? layers.find(layer => layer.name === options.writeTo)
+            : layers.findLast(layer => !(layer.config instanceof EnvConfig));
+        if (options.writeTo !== undefined && !this.target) throw new KtFileError("EINVAL", "config", options.writeTo);
+        this.accept(this.merged());
+        for (const layer of layers) {
+            layer.config.on("change", () => this.refresh());
+            layer.config.on("error", error => this.emit("error", error));
+        }
+    };
+
+    /**
+     * @description Gets the layer `set` and `save` write to.
+     * @returns {ConfigLayer | null} The layer, or null if there is no layer to write to.
+     */
+    get writeLayer(): ConfigLayer | null {
+        return this.target ?? null;
+    };
+
+    /**
+     * @description Sets the value at a dotted path in the layer writes go to. A layer with a higher precedence
+     * holding a value at the path still overrides it.
+     * @param {string} path - The dotted path, like `server.port`.
+     * @param value - The value, checked against the shape of the config.
+     */
+    set<P extends ConfigKey<T>>(path: P, value: ConfigValue<T, P>) {
+        if (!this.target) return;
+        this.target.config.set(path, value);
+    };
+
+    /**
+     * @description Removes the value at a dotted path from the layer writes go to. Other layers holding
+     * a value at the path still supply it.
+     * @param {string} path - The dotted path, like `server.port`.
+     * @returns {boolean} Whether the layer had a value to remove.
+     */
+    delete(path: ConfigKey<T>): boolean {
+        return this.target?.config.delete(path) ?? false;
+    };
+
+    /**
+     * Whether the layer writes go to has changes that are not saved yet.
+     */
+    get isDirty(): boolean {
+        return this.target?.config.isDirty ?? false;
+    };
+
+    /**
+     * @description Saves the layer writes go to, unless the merged value does not pass the validator.
+     * @returns {boolean | Promise<boolean>} Whether it was saved, a promise for async configs.
+     */
+    save(): boolean | Promise<boolean> {
+        if (!this.isValid || !this.target) return false;
+        return this.target.config.save();
+    };
+
+    /**
+     * @description Tells which layer supplied the value at a dotted path, and which values it overrides.
+     * @example
+     * const source = config.explain("db.port");
+     * console.log(`db.port = ${source?.value} from ${source?.layer}`);
+     * @param {string} path - The dotted path, like `db.port`.
+     * @returns {ConfigExplanation | null} Where the value comes from, or null if no layer has a value at the path.
+     */
+    explain(path: ConfigKey<T>): ConfigExplanation | null {
+        const sources = this.layers
+            .map(layer => ({layer: layer.name, value: layer.config.get(path)}))
+            .filter(source => source.value !== undefined)
+            .reverse();
+        if (sources.length === 0) return null;
+        return {layer: sources[0].layer, value: this.get(path), overridden: sources.slice(1)};
+    };
+
+    private merged(): unknown {
+        return this.layers.reduce<unknown>((value, layer) => merge(value, layer.config.toJSON()), {});
+    };
+
+    /**
+     * Merges the layers again after one of them changed. A merged value that does not pass the validator
+     * is reported as an error, keeping the last good one.
+     */
+    private refresh() {
+        const previous = this.value;
+        if (!this.accept(this.merged())) {
+            this.emit("error", new KtFileError("EINVALID", "merge", undefined, {
+                cause: new Error(formatIssues(this.issues))
+            }));
+            return;
+        }
+        this.changed("", previous, this.value);
+    };
+}
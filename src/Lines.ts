@@ -0,0 +1,130 @@
+export type LineOptions = {
+    /**
+     * The encoding of the file. Defaults to "utf8".
+     */
+    encoding?: BufferEncoding;
+    /**
+     * The index of the first line to yield, counting from 0. Defaults to 0.
+     */
+    start?: number;
+    /**
+     * The maximum number of lines to yield. Defaults to no limit.
+     */
+    limit?: number;
+    /**
+     * How many bytes are read at once. Defaults to 65536.
+     */
+    chunkSize?: number;
+};
+
+const LINE_BREAK = /\r\n?|\n/g;
+
+function decoderLabel(encoding: BufferEncoding = "utf8"): string {
+    switch (encoding.toLowerCase()) {
+        case "utf16le":
+        case "utf-16le":
+        case "ucs2":
+        case "ucs-2":
+            return "utf-16le";
+        case "latin1":
+        case "binary":
+        case "ascii":
+            return "latin1";
+        default:
+            return "utf-8";
+    }
+}
+
+/**
+ * Whether line breaks of the encoding can be found by looking for the `\n` and `\r` bytes.
+ */
+export function isAsciiCompatible(encoding?: BufferEncoding): boolean {
+    return decoderLabel(encoding) !== "utf-16le";
+}
+
+/**
+ * Decodes chunks of bytes and splits them into lines. Multi-byte characters and `\r\n` pairs split
+ * across chunks are kept together. A line break at the very end does not start another, empty line.
+ */
+export class LineReader {
+    private readonly decoder: TextDecoder;
+    private pending = "";
+    private index = 0;
+    private yielded = 0;
+
+    constructor(private readonly options: LineOptions = {}) {
+        this.decoder = new TextDecoder(decoderLabel(options.encoding));
+    };
+
+    get done(): boolean {
+        return this.options.limit !== undefined && this.yielded >= this.options.limit;
+    };
+
+    /**
+     * Feeds the next chunk and returns the lines it completed. Pass null once the input ended.
+     */
+    push(chunk: Uint8Array | null): string[] {
+        const final = chunk === null;
+        const data = this.pending + (final ? this.decoder.decode() : this.decoder.decode(chunk, {stream: true}));
+        const lines: string[] = [];
+        let start = 0;
+        LINE_BREAK.lastIndex = 0;
+        for (let match = LINE_BREAK.exec(data); match; match = LINE_BREAK.exec(data)) {
+            // a trailing \r may be the first half of a \r\n pair
+            if (!final && match[0] === "\r" && LINE_BREAK.lastIndex === data.length) break;
+            this.accept(lines, data.slice(start, match.index));
+            start = LINE_BREAK.lastIndex;
+        }
+        this.pending = data.slice(start);
+        if (final && this.pending !== "") {
+            this.accept(lines, this.pending);
+            this.pending = "";
+        }
+        return lines;
+    };
+
+    private accept(lines: string[], line: string) {
+        if (this.done) return;
+        if (this.index++ < (this.options.start ?? 0)) return;
+        lines.push(line);
+        this.yielded++;
+    };
+}
+
+/**
+ * Splits already decoded text the same way {@link LineReader} does.
+ */
+export function splitLines(text: string, options: LineOptions = {}): string[] {
+    const lines: string[] = [];
+    LINE_BREAK.lastIndex = 0;
+    let start = 0;
+    for (let match = LINE_BREAK.exec(text); match; match = LINE_BREAK.exec(text)) {
+        lines.push(text.slice(start, match.index));
+        start = LINE_BREAK.lastIndex;
+    }
+    if (start < text.length) lines.push(text.slice(start));
+    const first = options.start ?? 0;
+    return lines.slice(first, options.limit === undefined ? undefined : first + options.limit);
+}
+
+/**
+ * Counts the line breaks in a chunk of an ASCII compatible encoding, a `\r\n` pair counts once.
+ */
+export function countLineBreaks(chunk: Uint8Array): number {
+    let count = 0;
+    for (let i = 0; i < chunk.length; i++) {
+        if (chunk[i] === 0x0A) count++;
+        else if (chunk[i] === 0x0D && chunk[i + 1] !== 0x0A) count++;
+    }
+    return count;
+}
+
+export function concatChunks(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
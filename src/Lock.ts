@@ -0,0 +1,377 @@
+import type {FileSync} from "./sync/FileSync";
+import type {FileAsync} from "./async/FileAsync";
+import type {ISyncFS} from "./sync/ISyncFS";
+import type {IAsyncFS} from "./async/IAsyncFS";
+import {fail, KtFileError} from "./KtFileError";
+
+export type LockOptions = {
+    /**
+     * How long a lock may go without being refreshed before it is considered abandoned and taken over,
+     * in milliseconds. Defaults to 10000.
+     */
+    stale?: number;
+    /**
+     * How long to keep retrying before giving up, in milliseconds. `tryLock` never retries.
+     * Defaults to 10000 for `lock` and `withLock`.
+     */
+    timeout?: number;
+    /**
+     * The delay before the first retry in milliseconds, doubled after every attempt. Defaults to 25.
+     */
+    retryDelay?: number;
+    /**
+     * The longest delay between two retries in milliseconds. Defaults to 1000.
+     */
+    maxRetryDelay?: number;
+};
+
+/**
+ * The content of a lockfile.
+ */
+export type LockInfo = {
+    pid: number;
+    hostname: string;
+    /**
+     * When the lock was acquired, in milliseconds since the epoch.
+     */
+    created: number;
+    /**
+     * A random token telling this acquisition apart from any other one.
+     */
+    token: string;
+};
+
+/**
+ * The process lockfiles are written for. `hostname` is filled in when the `os` module is available.
+ */
+export const lockOwner = {
+    pid: typeof process !== "undefined" ? process.pid ?? 0 : 0,
+    hostname: "localhost"
+};
+
+function createLockInfo(): LockInfo {
+    return {
+        pid: lockOwner.pid,
+        hostname: lockOwner.hostname,
+        created: Date.now(),
+        token: Math.random().toString(36).slice(2) + Date.now().toString(36)
+    };
+}
+
+function parseLockInfo(content: string | null): LockInfo | null {
+    try {
+        const info = JSON.parse(content);
+        return info && typeof info.token === "string" ? info : null;
+    } catch {
+        return null;
+    }
+}
+
+export function isAlive(pid: number): boolean {
+    if (typeof process === "undefined" || typeof process.kill !== "function") return true;
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        // EPERM means the process exists but belongs to someone else
+        return (e as { code?: string }).code === "EPERM";
+    }
+}
+
+/**
+ * Whether a lock was abandoned: it was not refreshed within `stale` milliseconds,
+ * or it was taken on this host by a process that no longer runs.
+ */
+function isStale(info: LockInfo | null, mtime: number | null, stale: number): boolean {
+    const age = Date.now() - (mtime ?? info?.created ?? 0);
+    if (age > stale) return true;
+    if (!info) return false;
+    return info.hostname === lockOwner.hostname && info.pid !== lockOwner.pid && !isAlive(info.pid);
+}
+
+function retryDelays(options: LockOptions): { deadline: number, next: () => number } {
+    let delay = options.retryDelay ?? 25;
+    const max = options.maxRetryDelay ?? 1000;
+    return {
+        deadline: Date.now() + (options.timeout ?? 10000),
+        next: () => {
+            const current = delay;
+            delay = Math.min(delay * 2, max);
+            // jitter keeps competing processes from retrying in lockstep
+            return current / 2 + Math.random() * current / 2;
+        }
+    };
+}
+
+function sleepSync(ms: number) {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, Math.max(ms, 0));
+}
+
+type LockState = { info: LockInfo | null, mtime: number | null };
+
+function readLockSync(fs: ISyncFS, path: string): LockState | null {
+    try {
+        const info = parseLockInfo(fs.readFileSync(path, "utf8") as string);
+        return {info, mtime: fs.statSync(path).mtime?.getTime() ?? null};
+    } catch {
+        return null;
+    }
+}
+
+async function readLock(fs: IAsyncFS, path: string): Promise<LockState | null> {
+    try {
+        const info = parseLockInfo(await fs.readFile(path, "utf8") as string);
+        return {info, mtime: (await fs.stat(path)).mtime?.getTime() ?? null};
+    } catch {
+        return null;
+    }
+}
+
+function sameLock(a: LockState, b: LockState): boolean {
+    return a.info?.token === b.info?.token && a.mtime === b.mtime;
+}
+
+/**
+ * The name a stale lockfile is moved to before it is deleted, unique to the process breaking the lock.
+ */
+function staleName(path: string): string {
+    return `${path}.${Math.random().toString(36).slice(2, 10)}.stale`;
+}
+
+/**
+ * Removes the lockfile if it is stale. It is renamed to a name of its own first, which only one of the processes
+ * breaking the lock at the same time manages, and deleted only if it is still the lock that was found stale.
+ * A lock taken over in between is created again under its name, unless yet another lock was taken since, and is
+ * left where it is otherwise. Returns true if acquiring should be retried right away,
+ * either because the lockfile was removed or because it changed in the meantime.
+ */
+function removeStaleLockSync(fs: ISyncFS, path: string, stale: number): boolean {
+    const current = readLockSync(fs, path);
+    if (!current) return true;
+    if (!isStale(current.info, current.mtime, stale)) return false;
+    const moved = staleName(path);
+    try {
+        fs.renameSync(path, moved);
+    } catch {
+        return true;
+    }
+    const taken = readLockSync(fs, moved);
+    try {
+        if (taken && sameLock(taken, current)) fs.unlinkSync(moved);
+        else if (taken?.info) {
+            fs.writeFileSync(path, JSON.stringify(taken.info), {flag: "wx"});
+            fs.unlinkSync(moved);
+        }
+    } catch {
+    }
+    return true;
+}
+
+async function removeStaleLock(fs: IAsyncFS, path: string, stale: number): Promise<boolean> {
+    const current = await readLock(fs, path);
+    if (!current) return true;
+    if (!isStale(current.info, current.mtime, stale)) return false;
+    const moved = staleName(path);
+    try {
+        await fs.rename(path, moved);
+    } catch {
+        return true;
+    }
+    const taken = await readLock(fs, moved);
+    try {
+        if (taken && sameLock(taken, current)) await fs.unlink(moved);
+        else if (taken?.info) {
+            await fs.writeFile(path, JSON.stringify(taken.info), {flag: "wx"});
+            await fs.unlink(moved);
+        }
+    } catch {
+    }
+    return true;
+}
+
+export function acquireLockSync(file: FileSync, lockfile: FileSync, options: LockOptions): LockSync | null {
+    const fs = lockfile.fs;
+    const delays = retryDelays(options);
+    while (true) {
+        const info = createLockInfo();
+        try {
+            fs.writeFileSync(lockfile.fullPath, JSON.stringify(info), {flag: "wx"});
+            return new LockSync(file, lockfile, info);
+        } catch (e) {
+            if ((e as { code?: string })?.code !== "EEXIST") {
+                if (file.context.throwErrors) throw KtFileError.from(e);
+                return null;
+            }
+        }
+        if (removeStaleLockSync(fs, lockfile.fullPath, options.stale ?? 10000)) continue;
+        if (Date.now() >= delays.deadline) return fail(file.context, "ELOCKED", "lock", file.fullPath);
+        sleepSync(Math.min(delays.next(), delays.deadline - Date.now()));
+    }
+}
+
+export async function acquireLock(file: FileAsync, lockfile: FileAsync, options: LockOptions): Promise<LockAsync | null> {
+    const fs = lockfile.fs;
+    const delays = retryDelays(options);
+    while (true) {
+        const info = createLockInfo();
+        try {
+            await fs.writeFile(lockfile.fullPath, JSON.stringify(info), {flag: "wx"});
+            return new LockAsync(file, lockfile, info);
+        } catch (e) {
+            if ((e as { code?: string })?.code !== "EEXIST") {
+                if (file.context.throwErrors) throw KtFileError.from(e);
+                return null;
+            }
+        }
+        if (await removeStaleLock(fs, lockfile.fullPath, options.stale ?? 10000)) continue;
+        if (Date.now() >= delays.deadline) return fail(file.context, "ELOCKED", "lock", file.fullPath);
+        const delay = Math.min(delays.next(), delays.deadline - Date.now());
+        await new Promise(resolve => setTimeout(resolve, delay));
+    }
+}
+
+/**
+ * @description A held lock on a file, returned by `FileSync.lock` and `FileSync.tryLock`.
+ * @example
+ * const lock = file.lock();
+ * if (lock) {
+ *     try {
+ *         file.append("line\n");
+ *     } finally {
+ *         lock.release();
+ *     }
+ * }
+ */
+export class LockSync {
+    private released = false;
+
+    constructor(readonly file: FileSync, readonly lockfile: FileSync, readonly info: LockInfo) {
+    };
+
+    /**
+     * @description Whether the lock was released.
+     * @returns {boolean} True if `release` was called.
+     */
+    get isReleased(): boolean {
+        return this.released;
+    };
+
+    /**
+     * @description Checks whether the lockfile still belongs to this lock.
+     * It does not if the lock was released or taken over because it went stale.
+     * @returns {boolean} True if the lock is still held.
+     */
+    get isHeld(): boolean {
+        if (this.released) return false;
+        try {
+            const content = this.lockfile.fs.readFileSync(this.lockfile.fullPath, "utf8") as string;
+            return parseLockInfo(content)?.token === this.info.token;
+        } catch {
+            return false;
+        }
+    };
+
+    /**
+     * @description Marks the lock as alive so other processes do not consider it stale.
+     * Long running work should call it more often than the `stale` interval.
+     * @returns {boolean} True if the lock is still held and was refreshed.
+     */
+    refresh(): boolean {
+        if (!this.isHeld) return false;
+        try {
+            const now = new Date();
+            this.lockfile.fs.utimesSync(this.lockfile.fullPath, now, now);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+
+    /**
+     * @description Releases the lock by deleting the lockfile, unless another process took it over.
+     * @returns {boolean} True if the lockfile was deleted.
+     */
+    release(): boolean {
+        if (!this.isHeld) return false;
+        this.released = true;
+        try {
+            this.lockfile.fs.unlinkSync(this.lockfile.fullPath);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+}
+
+/**
+ * @description A held lock on a file, returned by `FileAsync.lock` and `FileAsync.tryLock`.
+ * @example
+ * const lock = await file.lock();
+ * if (lock) {
+ *     try {
+ *         await file.append("line\n");
+ *     } finally {
+ *         await lock.release();
+ *     }
+ * }
+ */
+export class LockAsync {
+    private released = false;
+
+    constructor(readonly file: FileAsync, readonly lockfile: FileAsync, readonly info: LockInfo) {
+    };
+
+    /**
+     * @description Whether the lock was released.
+     * @returns {boolean} True if `release` was called.
+     */
+    get isReleased(): boolean {
+        return this.released;
+    };
+
+    /**
+     * @description Checks whether the lockfile still belongs to this lock.
+     * It does not if the lock was released or taken over because it went stale.
+     * @returns {Promise<boolean>} True if the lock is still held.
+     */
+    async isHeld(): Promise<boolean> {
+        if (this.released) return false;
+        try {
+            const content = await this.lockfile.fs.readFile(this.lockfile.fullPath, "utf8") as string;
+            return parseLockInfo(content)?.token === this.info.token;
+        } catch {
+            return false;
+        }
+    };
+
+    /**
+     * @description Marks the lock as alive so other processes do not consider it stale.
+     * `FileAsync.withLock` does this automatically while its callback runs.
+     * @returns {Promise<boolean>} True if the lock is still held and was refreshed.
+     */
+    async refresh(): Promise<boolean> {
+        if (!await this.isHeld()) return false;
+        try {
+            const now = new Date();
+            await this.lockfile.fs.utimes(this.lockfile.fullPath, now, now);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+
+    /**
+     * @description Releases the lock by deleting the lockfile, unless another process took it over.
+     * @returns {Promise<boolean>} True if the lockfile was deleted.
+     */
+    async release(): Promise<boolean> {
+        if (!await this.isHeld()) return false;
+        this.released = true;
+        try {
+            await this.lockfile.fs.unlink(this.lockfile.fullPath);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+}
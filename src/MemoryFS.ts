@@ -0,0 +1,819 @@
+import type {ISyncFS} from "./sync/ISyncFS";
+import type {IAsyncFS} from "./async/IAsyncFS";
+
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+const MAX_SYMLINK_DEPTH = 40;
+
+const errorMessages: Record<string, string> = {
+    ENOENT: "no such file or directory",
+    EEXIST: "file already exists",
+    ENOTDIR: "not a directory",
+    EISDIR: "illegal operation on a directory",
+    ENOTEMPTY: "directory not empty",
+    EACCES: "permission denied",
+    EINVAL: "invalid argument",
+    ELOOP: "too many symbolic links encountered",
+    EPERM: "operation not permitted",
+    EBADF: "bad file descriptor"
+};
+
+function fsError(code: string, syscall: string, path: string, dest?: string): Error {
+    const message = `${code}: ${errorMessages[code] ?? "unknown error"}, ${syscall} '${path}'`
+        + (dest !== undefined ? ` -> '${dest}'` : "");
+    return Object.assign(new Error(message), {code, syscall, path, ...(dest !== undefined ? {dest} : {})});
+}
+
+type MemoryNode = {
+    ino: number;
+    mode: number;
+    uid: number;
+    gid: number;
+    nlink: number;
+    atime: Date;
+    mtime: Date;
+    ctime: Date;
+    birthtime: Date;
+    data?: Buffer;
+    children?: Map<string, MemoryNode>;
+    target?: string;
+};
+
+type Descriptor = {
+    node: MemoryNode;
+    flags: string;
+    position: number;
+};
+
+type Located = {
+    node: MemoryNode | null;
+    parent: MemoryNode | null;
+    name: string;
+    path: string[];
+};
+
+function toDate(value: Date | number | string): Date {
+    if (value instanceof Date) return new Date(value.getTime());
+    if (typeof value === "number") return new Date(value * 1000);
+    return new Date(value);
+}
+
+function toBuffer(data: string | Buffer | Uint8Array, encoding?: BufferEncoding): Buffer {
+    if (typeof data === "string") return Buffer.from(data, encoding ?? "utf8");
+    return Buffer.from(data);
+}
+
+function getEncoding(options: unknown): BufferEncoding | undefined {
+    if (typeof options === "string") return options as BufferEncoding;
+    if (options && typeof options === "object" && "encoding" in options) {
+        return (options as { encoding?: BufferEncoding }).encoding ?? undefined;
+    }
+    return undefined;
+}
+
+function getFlag(options: unknown, fallback: string): string {
+    if (options && typeof options === "object" && "flag" in options) {
+        return (options as { flag?: string }).flag ?? fallback;
+    }
+    return fallback;
+}
+
+function getMode(options: unknown, fallback: number): number {
+    if (options && typeof options === "object" && "mode" in options) {
+        return (options as { mode?: number }).mode ?? fallback;
+    }
+    return fallback;
+}
+
+/**
+ * The stat object returned by {@link MemoryFS}. It mirrors the shape of Node's `fs.Stats`.
+ */
+export class MemoryStats {
+    readonly dev = 0;
+    readonly ino: number;
+    readonly mode: number;
+    readonly nlink: number;
+    readonly uid: number;
+    readonly gid: number;
+    readonly rdev = 0;
+    readonly size: number;
+    readonly blksize = 4096;
+    readonly blocks: number;
+    readonly atime: Date;
+    readonly mtime: Date;
+    readonly ctime: Date;
+    readonly birthtime: Date;
+
+    constructor(node: MemoryNode) {
+        this.ino = node.ino;
+        this.mode = node.mode;
+        this.nlink = node.nlink;
+        this.uid = node.uid;
+        this.gid = node.gid;
+        this.size = node.data ? node.data.length : node.target !== undefined ? node.target.length : 0;
+        this.blocks = Math.ceil(this.size / 512);
+        this.atime = new Date(node.atime.getTime());
+        this.mtime = new Date(node.mtime.getTime());
+        this.ctime = new Date(node.ctime.getTime());
+        this.birthtime = new Date(node.birthtime.getTime());
+    };
+
+    get atimeMs(): number {
+        return this.atime.getTime();
+    };
+
+    get mtimeMs(): number {
+        return this.mtime.getTime();
+    };
+
+    get ctimeMs(): number {
+        return this.ctime.getTime();
+    };
+
+    get birthtimeMs(): number {
+        return this.birthtime.getTime();
+    };
+
+    isFile(): boolean {
+        return (this.mode & S_IFMT) === S_IFREG;
+    };
+
+    isDirectory(): boolean {
+        return (this.mode & S_IFMT) === S_IFDIR;
+    };
+
+    isSymbolicLink(): boolean {
+        return (this.mode & S_IFMT) === S_IFLNK;
+    };
+
+    isBlockDevice(): boolean {
+        return false;
+    };
+
+    isCharacterDevice(): boolean {
+        return false;
+    };
+
+    isFIFO(): boolean {
+        return false;
+    };
+
+    isSocket(): boolean {
+        return false;
+    };
+}
+
+/**
+ * The directory entry returned by {@link MemoryFS} when listing with `withFileTypes`. It mirrors Node's `fs.Dirent`.
+ */
+export class MemoryDirent {
+    constructor(readonly name: string, readonly parentPath: string, private readonly mode: number) {
+    };
+
+    isFile(): boolean {
+        return (this.mode & S_IFMT) === S_IFREG;
+    };
+
+    isDirectory(): boolean {
+        return (this.mode & S_IFMT) === S_IFDIR;
+    };
+
+    isSymbolicLink(): boolean {
+        return (this.mode & S_IFMT) === S_IFLNK;
+    };
+}
+
+/**
+ * @description An in-memory file system implementing both {@link ISyncFS} and, through its `promises`
+ * property, {@link IAsyncFS}. Both views operate on the same tree, so a `FileSync` and a `FileAsync`
+ * pointing at the same path always observe the same state.
+ * Paths are always resolved from the root of the tree, both `/` and `\` are accepted as separators.
+ * @example
+ * const memory = new MemoryFS();
+ * initFS(memory);
+ * new FileSync("/data/hello.txt").write("Hello!"); // never touches the disk
+ */
+export class MemoryFS implements ISyncFS {
+    readonly constants = {
+        F_OK: 0,
+        R_OK: 4,
+        W_OK: 2,
+        X_OK: 1
+    };
+
+    readonly promises: MemoryFSPromises;
+
+    private inodeCounter = 0;
+    private descriptorCounter = 2;
+    private readonly root: MemoryNode;
+    private readonly descriptors = new Map<number, Descriptor>();
+
+    constructor() {
+        this.root = this.createNode(S_IFDIR | 0o755);
+        this.root.children = new Map();
+        this.promises = new MemoryFSPromises(this);
+    };
+
+    private createNode(mode: number): MemoryNode {
+        const now = new Date();
+        return {
+            ino: ++this.inodeCounter,
+            mode,
+            uid: typeof process !== "undefined" && typeof process.getuid === "function" ? process.getuid() : 0,
+            gid: typeof process !== "undefined" && typeof process.getgid === "function" ? process.getgid() : 0,
+            nlink: 1,
+            atime: now,
+            mtime: now,
+            ctime: now,
+            birthtime: now
+        };
+    };
+
+    private static splitPath(path: string): string[] {
+        return String(path).split(/[\\/]+/).filter(i => i !== "" && i !== ".");
+    };
+
+    private static isDir(node: MemoryNode): boolean {
+        return (node.mode & S_IFMT) === S_IFDIR;
+    };
+
+    private static isLink(node: MemoryNode): boolean {
+        return (node.mode & S_IFMT) === S_IFLNK;
+    };
+
+    private static touch(node: MemoryNode) {
+        node.mtime = node.ctime = new Date();
+    };
+
+    /**
+     * Resolves a path to its node. Intermediate symbolic links are always followed,
+     * the last component is followed only if `followLast` is true.
+     */
+    private locate(path: string, syscall: string, followLast = true, depth = 0): Located {
+        if (depth > MAX_SYMLINK_DEPTH) throw fsError("ELOOP", syscall, path);
+        const parts = MemoryFS.splitPath(path);
+        const resolved: string[] = [];
+        let parent: MemoryNode | null = null;
+        let current: MemoryNode = this.root;
+        for (let i = 0; i < parts.length; i++) {
+            const part = parts[i];
+            if (part === "..") {
+                resolved.pop();
+                const located = this.locate("/" + resolved.join("/"), syscall, true, depth + 1);
+                parent = located.parent;
+                current = located.node;
+                continue;
+            }
+            if (!MemoryFS.isDir(current)) throw fsError("ENOTDIR", syscall, path);
+            const next = current.children.get(part);
+            const isLast = i === parts.length - 1;
+            if (!next) {
+                if (!isLast) throw fsError("ENOENT", syscall, path);
+                return {node: null, parent: current, name: part, path: [...resolved, part]};
+            }
+            if (MemoryFS.isLink(next) && (!isLast || followLast)) {
+                const target = next.target.startsWith("/") || next.target.startsWith("\\")
+                    ? next.target
+                    : "/" + [...resolved, next.target].join("/");
+                const rest = parts.slice(i + 1).join("/");
+                return this.locate(rest ? target + "/" + rest : target, syscall, followLast, depth + 1);
+            }
+            parent = current;
+            current = next;
+            resolved.push(part);
+        }
+        return {node: current, parent, name: resolved[resolved.length - 1] ?? "", path: resolved};
+    };
+
+    private getNode(path: string, syscall: string, followLast = true): MemoryNode {
+        const {node} = this.locate(path, syscall, followLast);
+        if (!node) throw fsError("ENOENT", syscall, path);
+        return node;
+    };
+
+    private getFile(path: string, syscall: string, flag: string = "r"): MemoryNode {
+        const node = this.getNode(path, syscall);
+        if (MemoryFS.isDir(node)) throw fsError("EISDIR", syscall, path);
+        const bit = flag.startsWith("r") ? 0o400 : 0o200;
+        if (!(node.mode & bit)) throw fsError("EACCES", syscall, path);
+        return node;
+    };
+
+    private attach(parent: MemoryNode, name: string, node: MemoryNode) {
+        parent.children.set(name, node);
+        MemoryFS.touch(parent);
+    };
+
+    private detach(parent: MemoryNode, name: string) {
+        const node = parent.children.get(name);
+        parent.children.delete(name);
+        if (node) {
+            node.nlink--;
+            node.ctime = new Date();
+        }
+        MemoryFS.touch(parent);
+    };
+
+    private getDescriptor(fd: number, syscall: string): Descriptor {
+        const descriptor = this.descriptors.get(fd);
+        if (!descriptor) throw fsError("EBADF", syscall, String(fd));
+        return descriptor;
+    };
+
+    mkdtempSync(prefix: string, _options?: { encoding?: BufferEncoding } | BufferEncoding): string {
+        const chars = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+        for (; ;) {
+            let suffix = "";
+            for (let i = 0; i < 6; i++) suffix += chars[Math.floor(Math.random() * chars.length)];
+            const path = prefix + suffix;
+            const located = this.locate(path, "mkdtemp");
+            if (located.node) continue;
+            this.mkdirSync(path);
+            return path;
+        }
+    };
+
+    accessSync(path: string, mode: number = this.constants.F_OK): void {
+        const node = this.getNode(path, "access");
+        const owner = (node.mode >> 6) & 0o7;
+        if ((owner & mode) !== mode) throw fsError("EACCES", "access", path);
+    };
+
+    chmodSync(path: string, mode: number): void {
+        const node = this.getNode(path, "chmod");
+        node.mode = (node.mode & S_IFMT) | (mode & 0o7777);
+        node.ctime = new Date();
+    };
+
+    chownSync(path: string, uid: number, gid: number): void {
+        const node = this.getNode(path, "chown");
+        // -1 leaves the id as it is, like chown(2)
+        if (uid !== -1) node.uid = uid;
+        if (gid !== -1) node.gid = gid;
+        node.ctime = new Date();
+    };
+
+    statSync(path: string): MemoryStats {
+        return new MemoryStats(this.getNode(path, "stat"));
+    };
+
+    lstatSync(path: string): MemoryStats {
+        return new MemoryStats(this.getNode(path, "lstat", false));
+    };
+
+    utimesSync(path: string, atime: Date | number | string, mtime: Date | number | string): void {
+        const node = this.getNode(path, "utime");
+        node.atime = toDate(atime);
+        node.mtime = toDate(mtime);
+        node.ctime = new Date();
+    };
+
+    existsSync(path: string): boolean {
+        try {
+            return this.locate(path, "access").node !== null;
+        } catch {
+            return false;
+        }
+    };
+
+    rmSync(path: string, options?: { recursive?: boolean; force?: boolean }): void {
+        let located: Located;
+        try {
+            located = this.locate(path, "rm", false);
+        } catch (e) {
+            if (options?.force && e.code === "ENOENT") return;
+            throw e;
+        }
+        if (!located.node) {
+            if (options?.force) return;
+            throw fsError("ENOENT", "rm", path);
+        }
+        if (!located.parent) throw fsError("EPERM", "rm", path);
+        if (MemoryFS.isDir(located.node) && !options?.recursive) throw fsError("EISDIR", "rm", path);
+        this.detach(located.parent, located.name);
+    };
+
+    rmdirSync(path: string, options?: { recursive?: boolean; force?: boolean }): void {
+        const located = this.locate(path, "rmdir", false);
+        if (!located.node) throw fsError("ENOENT", "rmdir", path);
+        if (!MemoryFS.isDir(located.node)) throw fsError("ENOTDIR", "rmdir", path);
+        if (!located.parent) throw fsError("EPERM", "rmdir", path);
+        if (located.node.children.size > 0 && !options?.recursive) throw fsError("ENOTEMPTY", "rmdir", path);
+        this.detach(located.parent, located.name);
+    };
+
+    unlinkSync(path: string): void {
+        const located = this.locate(path, "unlink", false);
+        if (!located.node) throw fsError("ENOENT", "unlink", path);
+        if (MemoryFS.isDir(located.node)) throw fsError("EISDIR", "unlink", path);
+        this.detach(located.parent, located.name);
+    };
+
+    readdirSync(path: string, options?: { encoding?: BufferEncoding } | BufferEncoding): string[];
+    readdirSync(path: string, options: { withFileTypes: true }): MemoryDirent[];
+    readdirSync(path: string, options?: { encoding?: BufferEncoding, withFileTypes?: boolean } | BufferEncoding): string[] | MemoryDirent[] {
+        const node = this.getNode(path, "scandir");
+        if (!MemoryFS.isDir(node)) throw fsError("ENOTDIR", "scandir", path);
+        node.atime = new Date();
+        const names = [...node.children.keys()].sort();
+        if (typeof options !== "object" || !options.withFileTypes) return names;
+        return names.map(name => new MemoryDirent(name, path, node.children.get(name)!.mode));
+    };
+
+    mkdirSync(path: string, options?: { recursive?: boolean; mode?: number }): string {
+        const mode = (options?.mode ?? 0o777) & 0o7777 & ~0o022;
+        if (!options?.recursive) {
+            const located = this.locate(path, "mkdir");
+            if (located.node) throw fsError("EEXIST", "mkdir", path);
+            if (!located.parent) throw fsError("EEXIST", "mkdir", path);
+            const node = this.createNode(S_IFDIR | mode);
+            node.children = new Map();
+            node.nlink = 2;
+            this.attach(located.parent, located.name, node);
+            return undefined;
+        }
+        const parts = MemoryFS.splitPath(path);
+        let first: string = undefined;
+        for (let i = 1; i <= parts.length; i++) {
+            const sub = "/" + parts.slice(0, i).join("/");
+            const located = this.locate(sub, "mkdir");
+            if (located.node) {
+                if (!MemoryFS.isDir(located.node)) throw fsError("ENOTDIR", "mkdir", path);
+                continue;
+            }
+            const node = this.createNode(S_IFDIR | mode);
+            node.children = new Map();
+            node.nlink = 2;
+            this.attach(located.parent, located.name, node);
+            first ??= sub;
+        }
+        return first;
+    };
+
+    renameSync(oldPath: string, newPath: string): void {
+        const from = this.locate(oldPath, "rename", false);
+        if (!from.node) throw fsError("ENOENT", "rename", oldPath, newPath);
+        if (!from.parent) throw fsError("EPERM", "rename", oldPath, newPath);
+        let to: Located;
+        try {
+            to = this.locate(newPath, "rename", false);
+        } catch (e) {
+            throw fsError(e.code, "rename", oldPath, newPath);
+        }
+        if (!to.parent) throw fsError("EPERM", "rename", oldPath, newPath);
+        if (to.node === from.node) return;
+        const isDir = MemoryFS.isDir(from.node);
+        if (isDir && to.path.length > from.path.length
+            && from.path.every((part, i) => to.path[i] === part)) {
+            throw fsError("EINVAL", "rename", oldPath, newPath);
+        }
+        if (to.node) {
+            if (MemoryFS.isDir(to.node)) {
+                if (!isDir) throw fsError("EISDIR", "rename", oldPath, newPath);
+                if (to.node.children.size > 0) throw fsError("ENOTEMPTY", "rename", oldPath, newPath);
+            } else if (isDir) throw fsError("ENOTDIR", "rename", oldPath, newPath);
+            this.detach(to.parent, to.name);
+        }
+        from.parent.children.delete(from.name);
+        MemoryFS.touch(from.parent);
+        this.attach(to.parent, to.name, from.node);
+        from.node.ctime = new Date();
+    };
+
+    writeFileSync(path: string | number, data: string | Buffer | Uint8Array, options?: BufferEncoding | {
+        encoding?: BufferEncoding;
+        mode?: number;
+        flag?: string
+    }): void {
+        const flag = getFlag(options, "w");
+        const buffer = toBuffer(data, getEncoding(options));
+        if (typeof path === "number") {
+            this.writeSync(path, buffer, 0, buffer.length, null);
+            return;
+        }
+        const located = this.locate(path, "open");
+        if (located.node) {
+            if (flag.includes("x")) throw fsError("EEXIST", "open", path);
+            const node = this.getFile(path, "open", flag);
+            node.data = flag.startsWith("a") ? Buffer.concat([node.data, buffer]) : buffer;
+            MemoryFS.touch(node);
+            return;
+        }
+        if (!located.parent) throw fsError("ENOENT", "open", path);
+        const node = this.createNode(S_IFREG | (getMode(options, 0o666) & 0o7777 & ~0o022));
+        node.data = buffer;
+        this.attach(located.parent, located.name, node);
+    };
+
+    appendFileSync(path: string, data: string | Buffer | Uint8Array, options?: BufferEncoding | {
+        encoding?: BufferEncoding;
+        mode?: number;
+        flag?: string
+    }): void {
+        const encoding = getEncoding(options);
+        this.writeFileSync(path, data, {
+            encoding,
+            mode: getMode(options, 0o666),
+            flag: getFlag(options, "a")
+        });
+    };
+
+    readFileSync(path: string, options?: BufferEncoding | Partial<{
+        encoding: BufferEncoding;
+        flag: string
+    }>): string | Buffer {
+        const node = this.getFile(path, "open", getFlag(options, "r"));
+        node.atime = new Date();
+        const encoding = getEncoding(options);
+        return encoding ? node.data.toString(encoding) : Buffer.from(node.data);
+    };
+
+    /**
+     * @description Opens a file and returns a descriptor for `readSync`, `writeSync`, `writeFileSync`, `fsyncSync` and `closeSync`.
+     * Supports the flags `r`, `r+`, `w`, `w+`, `wx`, `a`, `a+` and `ax`.
+     * @param {string} path - The path of the file.
+     * @param {string} [flags="r"] - The open flags.
+     * @param {number} [mode=0o666] - The mode of a newly created file.
+     * @returns {number} The file descriptor.
+     */
+    openSync(path: string, flags: string = "r", mode: number = 0o666): number {
+        let node: MemoryNode;
+        if (flags.startsWith("r")) {
+            node = this.getFile(path, "open", flags.includes("+") ? "w" : "r");
+        } else {
+            const located = this.locate(path, "open");
+            if (located.node) {
+                if (flags.includes("x")) throw fsError("EEXIST", "open", path);
+                node = this.getFile(path, "open", "w");
+                if (flags.startsWith("w")) {
+                    node.data = Buffer.alloc(0);
+                    MemoryFS.touch(node);
+                }
+            } else {
+                if (!located.parent) throw fsError("ENOENT", "open", path);
+                node = this.createNode(S_IFREG | (mode & 0o7777 & ~0o022));
+                node.data = Buffer.alloc(0);
+                this.attach(located.parent, located.name, node);
+            }
+        }
+        const fd = ++this.descriptorCounter;
+        this.descriptors.set(fd, {node, flags, position: 0});
+        return fd;
+    };
+
+    readSync(fd: number, buffer: Uint8Array, offset: number = 0, length: number = buffer.length - offset,
+             position: number | null = null): number {
+        const descriptor = this.getDescriptor(fd, "read");
+        if (!descriptor.flags.startsWith("r") && !descriptor.flags.includes("+")) {
+            throw fsError("EBADF", "read", String(fd));
+        }
+        const data = descriptor.node.data;
+        const start = position ?? descriptor.position;
+        const count = Math.max(0, Math.min(length, data.length - start));
+        buffer.set(data.subarray(start, start + count), offset);
+        if (position === null) descriptor.position += count;
+        descriptor.node.atime = new Date();
+        return count;
+    };
+
+    /**
+     * @description Writes bytes to an open file, at `position` or else at the current position of the descriptor.
+     * Files opened for appending are always written at their end.
+     * @param {number} fd - The file descriptor.
+     * @param {Uint8Array} buffer - The bytes to write.
+     * @param {number} [offset=0] - Where in the buffer to start.
+     * @param {number} [length] - How many bytes to write, the rest of the buffer by default.
+     * @param {number | null} [position=null] - Where in the file to write.
+     * @returns {number} The number of bytes written.
+     */
+    writeSync(fd: number, buffer: Uint8Array, offset: number = 0, length: number = buffer.length - offset,
+              position: number | null = null): number {
+        const descriptor = this.getDescriptor(fd, "write");
+        if (descriptor.flags === "r") throw fsError("EBADF", "write", String(fd));
+        const node = descriptor.node;
+        const data = buffer.subarray(offset, offset + length);
+        const start = descriptor.flags.startsWith("a") ? node.data.length : position ?? descriptor.position;
+        const result = Buffer.alloc(Math.max(node.data.length, start + data.length));
+        node.data.copy(result);
+        result.set(data, start);
+        node.data = result;
+        if (position === null || descriptor.flags.startsWith("a")) descriptor.position = start + data.length;
+        MemoryFS.touch(node);
+        return data.length;
+    };
+
+    fsyncSync(fd: number): void {
+        this.getDescriptor(fd, "fsync");
+    };
+
+    closeSync(fd: number): void {
+        this.getDescriptor(fd, "close");
+        this.descriptors.delete(fd);
+    };
+
+    readlinkSync(path: string, _options?: { encoding?: BufferEncoding } | BufferEncoding): string {
+        const node = this.getNode(path, "readlink", false);
+        if (!MemoryFS.isLink(node)) throw fsError("EINVAL", "readlink", path);
+        return node.target;
+    };
+
+    /**
+     * @description Creates a symbolic link at `path` pointing to `target`.
+     * Relative targets are resolved against the directory containing the link, like on a real file system.
+     * @param {string} target - The path the link points to. It does not have to exist.
+     * @param {string} path - The path of the link to create.
+     * @returns {void}
+     */
+    symlinkSync(target: string, path: string, _type?: string): void {
+        const located = this.locate(path, "symlink", false);
+        if (located.node) throw fsError("EEXIST", "symlink", target, path);
+        if (!located.parent) throw fsError("ENOENT", "symlink", target, path);
+        const node = this.createNode(S_IFLNK | 0o777);
+        node.target = target;
+        this.attach(located.parent, located.name, node);
+    };
+
+    /**
+     * @description Creates a hard link at `newPath` to the file at `existingPath`, both names then share
+     * the same data. A symbolic link at `existingPath` is linked itself, directories cannot be linked.
+     * @param {string} existingPath - The path of the existing file.
+     * @param {string} newPath - The path of the link to create.
+     * @returns {void}
+     */
+    linkSync(existingPath: string, newPath: string): void {
+        let node: MemoryNode;
+        let located: Located;
+        try {
+            node = this.getNode(existingPath, "link", false);
+            located = this.locate(newPath, "link", false);
+        } catch (e) {
+            throw fsError(e.code, "link", existingPath, newPath);
+        }
+        if (MemoryFS.isDir(node)) throw fsError("EPERM", "link", existingPath, newPath);
+        if (located.node) throw fsError("EEXIST", "link", existingPath, newPath);
+        if (!located.parent) throw fsError("ENOENT", "link", existingPath, newPath);
+        node.nlink++;
+        node.ctime = new Date();
+        this.attach(located.parent, located.name, node);
+    };
+
+    /**
+     * @description Resolves a path to its canonical form, following every symbolic link on the way.
+     * @param {string} path - The path.
+     * @returns {string} The absolute path without links, "." or ".." segments.
+     */
+    realpathSync(path: string): string {
+        const located = this.locate(path, "realpath");
+        if (!located.node) throw fsError("ENOENT", "realpath", path);
+        return "/" + located.path.join("/");
+    };
+}
+
+/**
+ * The asynchronous view of a {@link MemoryFS}, shaped like Node's `fs.promises`.
+ * Every call operates on the tree of the owning {@link MemoryFS}.
+ */
+export class MemoryFSPromises implements IAsyncFS {
+    constructor(private readonly memory: MemoryFS) {
+    };
+
+    get constants() {
+        return this.memory.constants;
+    };
+
+    async mkdtemp(prefix: string, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<string> {
+        return this.memory.mkdtempSync(prefix, options);
+    };
+
+    async access(path: string, mode?: number): Promise<void> {
+        return this.memory.accessSync(path, mode);
+    };
+
+    async chmod(path: string, mode: number): Promise<void> {
+        return this.memory.chmodSync(path, mode);
+    };
+
+    async chown(path: string, uid: number, gid: number): Promise<void> {
+        return this.memory.chownSync(path, uid, gid);
+    };
+
+    async stat(path: string, _options?: { bigint?: boolean } | boolean): Promise<MemoryStats> {
+        return this.memory.statSync(path);
+    };
+
+    async lstat(path: string, _options?: { bigint?: boolean } | boolean): Promise<MemoryStats> {
+        return this.memory.lstatSync(path);
+    };
+
+    async utimes(path: string, atime: Date, mtime: Date): Promise<void> {
+        return this.memory.utimesSync(path, atime, mtime);
+    };
+
+    async exists(path: string): Promise<boolean> {
+        return this.memory.existsSync(path);
+    };
+
+    async rm(path: string, options?: { recursive?: boolean; force?: boolean }): Promise<void> {
+        return this.memory.rmSync(path, options);
+    };
+
+    async rmdir(path: string, options?: { recursive?: boolean; force?: boolean }): Promise<void> {
+        return this.memory.rmdirSync(path, options);
+    };
+
+    async unlink(path: string): Promise<void> {
+        return this.memory.unlinkSync(path);
+    };
+
+    readdir(path: string, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<string[]>;
+    readdir(path: string, options: { withFileTypes: true }): Promise<MemoryDirent[]>;
+    async readdir(path: string, options?: { encoding?: BufferEncoding, withFileTypes?: boolean } | BufferEncoding): Promise<string[] | MemoryDirent[]> {
+        if (typeof options === "object" && options.withFileTypes) return this.memory.readdirSync(path, {withFileTypes: true});
+        return this.memory.readdirSync(path, options);
+    };
+
+    async mkdir(path: string, options?: { recursive?: boolean; mode?: number }): Promise<string> {
+        return this.memory.mkdirSync(path, options);
+    };
+
+    async rename(oldPath: string, newPath: string): Promise<void> {
+        return this.memory.renameSync(oldPath, newPath);
+    };
+
+    async writeFile(path: string, data: string | Buffer, options?: BufferEncoding | {
+        encoding?: BufferEncoding;
+        mode?: number;
+        flag?: string
+    }): Promise<void> {
+        return this.memory.writeFileSync(path, data, options);
+    };
+
+    async appendFile(path: string, data: string | Buffer, options?: BufferEncoding | {
+        encoding?: BufferEncoding;
+        mode?: number;
+        flag?: string
+    }): Promise<void> {
+        return this.memory.appendFileSync(path, data, options);
+    };
+
+    async readFile(path: string, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<string | Buffer> {
+        return this.memory.readFileSync(path, options);
+    };
+
+    async readlink(path: string, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<string> {
+        return this.memory.readlinkSync(path, options);
+    };
+
+    async open(path: string, flags: string = "r", mode?: number): Promise<MemoryFileHandle> {
+        return new MemoryFileHandle(this.memory, this.memory.openSync(path, flags, mode));
+    };
+
+    async symlink(target: string, path: string, type?: string): Promise<void> {
+        return this.memory.symlinkSync(target, path, type);
+    };
+
+    async link(existingPath: string, newPath: string): Promise<void> {
+        return this.memory.linkSync(existingPath, newPath);
+    };
+
+    async realpath(path: string): Promise<string> {
+        return this.memory.realpathSync(path);
+    };
+}
+
+/**
+ * The file handle returned by {@link MemoryFSPromises.open}, shaped like Node's `FileHandle`.
+ */
+export class MemoryFileHandle {
+    constructor(private readonly memory: MemoryFS, readonly fd: number) {
+    };
+
+    async read<T extends Uint8Array>(buffer: T, offset?: number, length?: number, position?: number | null): Promise<{
+        bytesRead: number,
+        buffer: T
+    }> {
+        return {bytesRead: this.memory.readSync(this.fd, buffer, offset, length, position), buffer};
+    };
+
+    async write<T extends Uint8Array>(buffer: T, offset?: number, length?: number, position?: number | null): Promise<{
+        bytesWritten: number,
+        buffer: T
+    }> {
+        return {bytesWritten: this.memory.writeSync(this.fd, buffer, offset, length, position), buffer};
+    };
+
+    async writeFile(data: string | Buffer, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<void> {
+        return this.memory.writeFileSync(this.fd, data, options);
+    };
+
+    async sync(): Promise<void> {
+        return this.memory.fsyncSync(this.fd);
+    };
+
+    async close(): Promise<void> {
+        return this.memory.closeSync(this.fd);
+    };
+}
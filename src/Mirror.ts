@@ -0,0 +1,74 @@
+export type SyncOptions = {
+    /**
+     * How files that exist on both sides are compared. "mtime" treats files with the same size and modification
+     * time as equal, "hash" compares sizes and content hashes. Defaults to "mtime".
+     */
+    compare?: "mtime" | "hash";
+    /**
+     * The hash algorithm used when comparing by "hash". Defaults to "sha256".
+     */
+    algorithm?: string;
+    /**
+     * Whether to delete files and directories in the destination that do not exist in the source.
+     * Ignored paths are never deleted. Defaults to false.
+     */
+    delete?: boolean;
+    /**
+     * Glob patterns of relative paths that are neither copied nor deleted, matched with dotfiles included.
+     */
+    ignore?: string | string[];
+    /**
+     * Whether to only report what would be done without changing anything. Defaults to false.
+     */
+    dryRun?: boolean;
+    /**
+     * Whether copied files get the modification time of their source, so later "mtime" comparisons see them
+     * as equal. Defaults to true.
+     */
+    preserveTimes?: boolean;
+    /**
+     * Whether to copy what symbolic links in the source point to. Links are skipped otherwise. Defaults to false.
+     */
+    followSymlinks?: boolean;
+};
+
+/**
+ * What a sync did, or would do in a dry run. Every list holds paths relative to the synced directories,
+ * joined with `/`.
+ */
+export type SyncReport = {
+    /**
+     * Files and directories that did not exist in the destination.
+     */
+    added: string[];
+    /**
+     * Files that differed, and entries whose type changed between file and directory.
+     */
+    updated: string[];
+    /**
+     * Extraneous entries removed from the destination, only with the `delete` option.
+     */
+    deleted: string[];
+    /**
+     * Files that were already up to date, and symbolic links that were not followed.
+     */
+    skipped: string[];
+    /**
+     * Entries whose copy or deletion failed.
+     */
+    failed: string[];
+};
+
+type FileMetadata = { size?: number, mtime?: Date };
+
+export function emptySyncReport(): SyncReport {
+    return {added: [], updated: [], deleted: [], skipped: [], failed: []};
+}
+
+/**
+ * Whether two stats describe the same file content by size and modification time, at millisecond precision.
+ */
+export function sameMetadata(a: FileMetadata | null, b: FileMetadata | null): boolean {
+    if (!a || !b || a.size !== b.size) return false;
+    return Math.floor(a.mtime?.getTime() ?? 0) === Math.floor(b.mtime?.getTime() ?? 0);
+}
@@ -0,0 +1,298 @@
+type ParsedPath = {
+    /**
+     * The root as written, with its separators normalized: "/" for posix, and "C:\\", "C:", "\\"
+     * or "\\\\server\\share\\" for win32. Empty for relative paths.
+     */
+    root: string;
+    /**
+     * Whether the root pins the path down completely, like "/", "C:\\" or a UNC share.
+     * Win32 paths rooted on the current drive, like "\\temp", and drive-relative ones, like "C:temp", are not.
+     */
+    complete: boolean;
+    /**
+     * The segments after the root, with "." removed and ".." applied where possible.
+     */
+    segments: string[];
+};
+
+const DRIVE = /^[a-zA-Z]:$/;
+
+/**
+ * @description The path syntax of one platform, working the same whatever the host is, so Windows paths can be
+ * handled on Linux and the other way around. Use the {@link posix} and {@link win32} instances.
+ * Posix paths only separate on "/", so a backslash is part of a name. Win32 paths separate on both slashes,
+ * compare case-insensitively and know drives (`C:\\`), drive-relative paths (`C:temp`),
+ * paths rooted on the current drive (`\\temp`) and UNC shares (`\\\\server\\share`).
+ * @example
+ * win32.relative("C:\\app\\src", "C:\\app\\dist\\main.js"); // "..\\dist\\main.js"
+ * win32.resolve("C:\\work", "\\temp", "logs"); // "C:\\temp\\logs"
+ * posix.withExtension("/docs/readme.md", "txt"); // "/docs/readme.txt"
+ */
+export class PathFlavor {
+    /**
+     * The separator paths are written with.
+     */
+    readonly sep: string;
+    private readonly separators: RegExp;
+
+    constructor(readonly name: "posix" | "win32") {
+        this.sep = name === "posix" ? "/" : "\\";
+        this.separators = name === "posix" ? /\/+/ : /[\\/]+/;
+    };
+
+    /**
+     * @description Checks whether a path does not depend on the working directory. Win32 paths rooted
+     * on the current drive, like `\\temp`, count as absolute, drive-relative ones like `C:temp` do not.
+     * @param {string} path - The path.
+     * @returns {boolean} Whether the path is absolute.
+     */
+    isAbsolute(path: string): boolean {
+        const root = this.parse(path).root;
+        return root !== "" && !DRIVE.test(root);
+    };
+
+    /**
+     * @description Gets the root of a path, like "/", "C:\\" or "\\\\server\\share\\".
+     * @param {string} path - The path.
+     * @returns {string} The root, empty for relative paths.
+     */
+    root(path: string): string {
+        return this.parse(path).root;
+    };
+
+    /**
+     * @description Splits a normalized path into its names, without the root.
+     * @example
+     * win32.segments("C:\\Users\\.\\me\\..\\you"); // ["Users", "you"]
+     * @param {string} path - The path.
+     * @returns {string[]} The names.
+     */
+    segments(path: string): string[] {
+        return this.parse(path).segments;
+    };
+
+    /**
+     * @description Normalizes a path: separators are unified, "." segments and trailing separators removed
+     * and ".." segments applied.
+     * @param {string} path - The path.
+     * @returns {string} The normalized path, "." for an empty relative one.
+     */
+    normalize(path: string): string {
+        return this.format(this.parse(path));
+    };
+
+    /**
+     * @description Joins paths with the separator and normalizes the result.
+     * @param {...string} paths - The paths to join.
+     * @returns {string} The joined path.
+     */
+    join(...paths: string[]): string {
+        return this.normalize(paths.filter(path => path !== "").join(this.sep));
+    };
+
+    /**
+     * @description Resolves paths from right to left until an absolute path is formed. Unlike Node's `path.resolve`
+     * the working directory is never used: the result stays relative when no absolute path is given.
+     * @example
+     * posix.resolve("/srv", "app", "../logs"); // "/srv/logs"
+     * posix.resolve("a", "b"); // "a/b"
+     * @param {...string} paths - The paths, later ones resolved against earlier ones.
+     * @returns {string} The resolved path.
+     */
+    resolve(...paths: string[]): string {
+        // the drive or UNC share, and whether the segments collected so far start at a root directory
+        let drive = "";
+        let rooted = false;
+        let segments: string[] = [];
+        for (let i = paths.length - 1; i >= 0; i--) {
+            const parsed = this.parse(paths[i], false);
+            const pathDrive = parsed.root.replace(/[\\/]$/, "");
+            // paths on another drive do not lead to this one
+            if (drive !== "" && pathDrive !== "" && !this.sameName(drive, pathDrive)) continue;
+            if (drive === "") drive = pathDrive;
+            if (!rooted) {
+                segments = [...parsed.segments, ...segments];
+                rooted = parsed.root !== pathDrive;
+            }
+            if (rooted && (drive !== "" || this.name === "posix")) break;
+        }
+        const root = drive + (rooted ? this.sep : "");
+        return this.format({root, complete: false, segments: this.normalizeSegments(segments, rooted)});
+    };
+
+    /**
+     * @description Computes the relative path leading from one path to another. Both are normalized first.
+     * Paths on different roots, like two drives, have no relative path, the target is returned normalized.
+     * @example
+     * posix.relative("/srv/app/src", "/srv/app/dist/main.js"); // "../dist/main.js"
+     * @param {string} from - The path to start from.
+     * @param {string} to - The path to reach.
+     * @returns {string} The relative path, empty if both are the same.
+     */
+    relative(from: string, to: string): string {
+        const start = this.parse(from);
+        const target = this.parse(to);
+        if (!this.sameName(start.root, target.root)) return this.format(target);
+        let common = 0;
+        while (common < start.segments.length && common < target.segments.length
+        && this.sameName(start.segments[common], target.segments[common])) common++;
+        return [...start.segments.slice(common).map(() => ".."), ...target.segments.slice(common)].join(this.sep);
+    };
+
+    /**
+     * @description Gets the path of the directory containing a path.
+     * @param {string} path - The path.
+     * @returns {string} The normalized parent path, the root itself for a root.
+     */
+    dirname(path: string): string {
+        const parsed = this.parse(path);
+        return this.format({...parsed, segments: parsed.segments.slice(0, -1)});
+    };
+
+    /**
+     * @description Gets the last name of a path.
+     * @param {string} path - The path.
+     * @param {string} [extension] - An extension to remove from the name, like ".txt".
+     * @returns {string} The name, empty for a root.
+     */
+    basename(path: string, extension?: string): string {
+        const name = this.parse(path).segments.at(-1) ?? "";
+        return extension && name !== extension && name.endsWith(extension) ? name.slice(0, -extension.length) : name;
+    };
+
+    /**
+     * @description Gets the extension of the last name of a path, from its last dot. Names starting with
+     * their only dot, like `.bashrc`, have no extension.
+     * @param {string} path - The path.
+     * @returns {string} The extension with its dot, like ".txt", or an empty string.
+     */
+    extname(path: string): string {
+        const name = this.basename(path);
+        const dot = name.lastIndexOf(".");
+        return dot > 0 ? name.slice(dot) : "";
+    };
+
+    /**
+     * @description Replaces the last name of a path.
+     * @param {string} path - The path.
+     * @param {string} name - The new name.
+     * @returns {string} The normalized path with the new name.
+     */
+    withName(path: string, name: string): string {
+        return this.join(this.dirname(path), name);
+    };
+
+    /**
+     * @description Replaces the extension of the last name of a path, see {@link extname}.
+     * @param {string} path - The path.
+     * @param {string} extension - The new extension, with or without its dot, or an empty string to remove it.
+     * @returns {string} The normalized path with the new extension.
+     */
+    withExtension(path: string, extension: string): string {
+        const name = this.basename(path, this.extname(path));
+        return this.withName(path, extension === "" ? name : name + "." + extension.replace(/^\./, ""));
+    };
+
+    /**
+     * @description Moves the last name of a path into another directory.
+     * @param {string} path - The path.
+     * @param {string} parent - The new directory.
+     * @returns {string} The normalized path in the new directory.
+     */
+    withParent(path: string, parent: string): string {
+        return this.join(parent, this.basename(path));
+    };
+
+    /**
+     * Resolves a path into the segments files store, against the segments of a working directory.
+     * Win32 keeps the root as the first segment, like "C:" or "\\\\server\\share", and ".." never removes it.
+     * @internal
+     */
+    split(path: string, cwd: string[]): string[] {
+        const parsed = this.parse(path, false);
+        let base: string[];
+        if (parsed.complete) base = parsed.root === "/" ? [] : [parsed.root.slice(0, -1)];
+        else if (parsed.root === "") base = [...cwd];
+        else if (parsed.root === this.sep) base = this.isRootSegment(cwd[0]) ? [cwd[0]] : [];
+        else base = this.sameName(cwd[0] ?? "", parsed.root) ? [...cwd] : [parsed.root];
+        const keep = this.isRootSegment(base[0]) ? 1 : 0;
+        for (const segment of parsed.segments) {
+            if (segment === "..") {
+                if (base.length > keep) base.pop();
+            } else base.push(segment);
+        }
+        return base;
+    };
+
+    /**
+     * Formats the segments files store as a path, the reverse of {@link split}.
+     * @internal
+     */
+    fullPath(split: string[]): string {
+        if (this.isRootSegment(split[0])) return split[0] + this.sep + split.slice(1).join(this.sep);
+        return this.sep + split.join(this.sep);
+    };
+
+    private isRootSegment(segment: string | undefined): boolean {
+        return this.name === "win32" && segment !== undefined && (DRIVE.test(segment) || segment.startsWith("\\\\"));
+    };
+
+    private parse(path: string, normalize = true): ParsedPath {
+        let root = "";
+        let complete = false;
+        let rest = path;
+        if (this.name === "posix") {
+            if (path.startsWith("/")) {
+                root = "/";
+                complete = true;
+            }
+        } else {
+            const unc = /^[\\/]{2}([^\\/]+)[\\/]+([^\\/]+)[\\/]*/.exec(path);
+            const drive = /^([a-zA-Z]:)([\\/]*)/.exec(path);
+            if (unc) {
+                root = `\\\\${unc[1]}\\${unc[2]}\\`;
+                complete = true;
+                rest = path.slice(unc[0].length);
+            } else if (drive) {
+                root = drive[1] + (drive[2] ? "\\" : "");
+                complete = drive[2] !== "";
+                rest = path.slice(drive[0].length);
+            } else if (/^[\\/]/.test(path)) root = "\\";
+        }
+        const segments = rest.split(this.separators).filter(segment => segment !== "" && segment !== ".");
+        return {root, complete, segments: normalize ? this.normalizeSegments(segments, root !== "") : segments};
+    };
+
+    /**
+     * Applies ".." segments. Rooted paths cannot climb above their root, relative ones keep leading "..".
+     */
+    private normalizeSegments(segments: string[], rooted: boolean): string[] {
+        const result: string[] = [];
+        for (const segment of segments) {
+            if (segment !== "..") result.push(segment);
+            else if (result.length > 0 && result[result.length - 1] !== "..") result.pop();
+            else if (!rooted) result.push(segment);
+        }
+        return result;
+    };
+
+    private format(parsed: ParsedPath): string {
+        const rest = parsed.segments.join(this.sep);
+        if (parsed.root === "") return rest || ".";
+        return parsed.root + rest;
+    };
+
+    private sameName(a: string, b: string): boolean {
+        return this.name === "win32" ? a.toLowerCase() === b.toLowerCase() : a === b;
+    };
+}
+
+/**
+ * The path syntax of Linux, macOS and other POSIX systems.
+ */
+export const posix = new PathFlavor("posix");
+
+/**
+ * The path syntax of Windows.
+ */
+export const win32 = new PathFlavor("win32");
@@ -0,0 +1,143 @@
+/**
+ * The read, write and execute flags of one class of users: the owner, the group or everyone else.
+ */
+export type PermissionClass = {
+    readonly read: boolean;
+    readonly write: boolean;
+    readonly execute: boolean;
+};
+
+export type ChmodOptions = {
+    /**
+     * Whether to change everything below a directory too. Symbolic links below it are left alone.
+     */
+    recursive?: boolean;
+    /**
+     * The mode for files, instead of the one given.
+     */
+    files?: number | string;
+    /**
+     * The mode for directories, instead of the one given.
+     */
+    directories?: number | string;
+};
+
+export type ChownOptions = {
+    /**
+     * Whether to change everything below a directory too. Symbolic links below it are left alone.
+     */
+    recursive?: boolean;
+};
+
+const TYPES: Record<number, string> = {
+    0o140000: "s",
+    0o120000: "l",
+    0o100000: "-",
+    0o060000: "b",
+    0o040000: "d",
+    0o020000: "c",
+    0o010000: "p"
+};
+
+function permissionClass(bits: number): PermissionClass {
+    return {read: (bits & 4) !== 0, write: (bits & 2) !== 0, execute: (bits & 1) !== 0};
+}
+
+/**
+ * @description The permission bits of a file, read from its mode.
+ * @example
+ * const permissions = new Permissions(0o100755);
+ * permissions.group.write; // false
+ * permissions.toString(); // "-rwxr-xr-x"
+ * permissions.octal; // "0755"
+ */
+export class Permissions {
+    readonly user: PermissionClass;
+    readonly group: PermissionClass;
+    readonly other: PermissionClass;
+    readonly setuid: boolean;
+    readonly setgid: boolean;
+    readonly sticky: boolean;
+
+    /**
+     * @param {number} mode - The mode of the file, with or without the file type bits of `stat`.
+     */
+    constructor(readonly mode: number) {
+        this.user = permissionClass(mode >> 6);
+        this.group = permissionClass(mode >> 3);
+        this.other = permissionClass(mode);
+        this.setuid = (mode & 0o4000) !== 0;
+        this.setgid = (mode & 0o2000) !== 0;
+        this.sticky = (mode & 0o1000) !== 0;
+    };
+
+    /**
+     * The permission bits as four octal digits, like "0755".
+     */
+    get octal(): string {
+        return (this.mode & 0o7777).toString(8).padStart(4, "0");
+    };
+
+    /**
+     * @description Formats the permissions the way `ls -l` does, like "drwxr-sr-x". The file type is "-" when
+     * the mode has no type bits.
+     * @returns {string} The type followed by three rwx triples, with setuid, setgid and sticky shown as s, S, t or T.
+     */
+    toString(): string {
+        const triple = (bits: PermissionClass, special: boolean, letter: string) => (bits.read ? "r" : "-")
+            + (bits.write ? "w" : "-")
+            + (special ? bits.execute ? letter : letter.toUpperCase() : bits.execute ? "x" : "-");
+        return (TYPES[this.mode & 0o170000] ?? "-")
+            + triple(this.user, this.setuid, "s")
+            + triple(this.group, this.setgid, "s")
+            + triple(this.other, this.sticky, "t");
+    };
+}
+
+/**
+ * @description Computes the mode a chmod results in. Numbers and octal strings, like "755", replace the mode.
+ * Symbolic modes change it like the `chmod` command does: comma separated clauses of who (`u`, `g`, `o`, `a`),
+ * an operator (`+`, `-`, `=`) and the permissions (`r`, `w`, `x`, `X` for execute only on directories and files
+ * that are already executable by someone, `s` for setuid and setgid, `t` for sticky) or a class to copy from.
+ * Without a who the clause applies to all classes.
+ * @example
+ * resolveMode("u+x,go-w", 0o666, false); // 0o744
+ * resolveMode("a+rX", 0o700, true); // 0o755
+ * resolveMode("g=u", 0o640, false); // 0o660
+ * @param {number | string} mode - The octal or symbolic mode.
+ * @param {number} current - The current mode of the file.
+ * @param {boolean} isDirectory - Whether the file is a directory, for `X`.
+ * @returns {number} The new permission bits.
+ * @throws {SyntaxError} If the mode cannot be parsed.
+ */
+export function resolveMode(mode: number | string, current: number, isDirectory: boolean): number {
+    if (typeof mode === "number") return mode & 0o7777;
+    if (/^[0-7]{1,4}$/.test(mode.trim())) return parseInt(mode.trim(), 8);
+    let result = current & 0o7777;
+    for (const clause of mode.split(",")) {
+        const match = /^([ugoa]*)((?:[-+=](?:[ugo]|[rwxXst]*))+)$/.exec(clause.trim());
+        if (!match) throw new SyntaxError(`Invalid mode "${clause}" in "${mode}"`);
+        const who = match[1] === "" || match[1].includes("a") ? "ugo" : match[1];
+        const classes = (who.includes("u") ? 0o700 : 0) | (who.includes("g") ? 0o070 : 0) | (who.includes("o") ? 0o007 : 0);
+        const specials = (who.includes("u") ? 0o4000 : 0) | (who.includes("g") ? 0o2000 : 0)
+            | (who.includes("o") ? 0o1000 : 0);
+        for (const [, operator, permissions] of match[2].matchAll(/([-+=])([ugo]|[rwxXst]*)/g)) {
+            let bits: number;
+            if (/^[ugo]$/.test(permissions)) {
+                const source = (result >> (permissions === "u" ? 6 : permissions === "g" ? 3 : 0)) & 0o7;
+                bits = (source << 6 | source << 3 | source) & classes;
+            } else {
+                const executable = permissions.includes("x")
+                    || permissions.includes("X") && (isDirectory || (result & 0o111) !== 0);
+                const rwx = (permissions.includes("r") ? 4 : 0) | (permissions.includes("w") ? 2 : 0) | (executable ? 1 : 0);
+                bits = (rwx << 6 | rwx << 3 | rwx) & classes;
+                if (permissions.includes("s")) bits |= specials & 0o6000;
+                if (permissions.includes("t")) bits |= specials & 0o1000;
+            }
+            if (operator === "+") result |= bits;
+            else if (operator === "-") result &= ~bits;
+            else result = result & ~(classes | specials) | bits;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,195 @@
+export type SchemaType = "string" | "number" | "integer" | "boolean" | "array" | "object" | "any";
+
+/**
+ * Describes one value of a config. A bare type name is a required value of that type.
+ */
+export type SchemaField = SchemaType | {
+    type: SchemaType;
+    /**
+     * Whether the value may be missing. Values with a default are never missing.
+     */
+    optional?: boolean;
+    /**
+     * Filled in when the value is missing, and used to repair an invalid value.
+     */
+    default?: unknown;
+    /**
+     * The values allowed.
+     */
+    enum?: readonly unknown[];
+    /**
+     * The smallest number, or the shortest length of a string or array.
+     */
+    min?: number;
+    /**
+     * The largest number, or the longest length of a string or array.
+     */
+    max?: number;
+    /**
+     * The schema of the items of an array.
+     */
+    items?: SchemaField;
+    /**
+     * The schema of the properties of an object. Properties not listed are kept as they are.
+     */
+    properties?: ConfigSchema;
+};
+
+export type ConfigSchema = { readonly [key: string]: SchemaField };
+
+type TypeOf<K> = K extends "string" ? string
+    : K extends "number" | "integer" ? number
+        : K extends "boolean" ? boolean
+            : K extends "array" ? unknown[]
+                : K extends "object" ? Record<string, unknown>
+                    : unknown;
+
+type FieldOf<F> = F extends SchemaType ? TypeOf<F>
+    : F extends { enum: readonly (infer E)[] } ? E
+        : F extends { properties: infer P extends ConfigSchema } ? InferSchema<P>
+            : F extends { type: "array", items: infer I } ? FieldOf<I>[]
+                : F extends { type: infer K } ? TypeOf<K>
+                    : unknown;
+
+type OptionalKeys<S extends ConfigSchema> = {
+    [K in keyof S]: S[K] extends { optional: true } ? S[K] extends { default: unknown } ? never : K : never
+}[keyof S];
+
+/**
+ * The shape of the values a schema describes.
+ */
+export type InferSchema<S extends ConfigSchema> = {
+    -readonly [K in Exclude<keyof S, OptionalKeys<S>>]: FieldOf<S[K]>
+} & {
+    -readonly [K in OptionalKeys<S>]?: FieldOf<S[K]>
+};
+
+/**
+ * A problem found while validating, with the dotted path of the value it concerns.
+ */
+export type ConfigIssue = { path: string, message: string };
+
+/**
+ * Validates config values. Any object with a `parse` method returning the valid value and throwing
+ * for invalid ones fits, like the schemas of common validation libraries. A `validate` method,
+ * like the one of {@link schema}, additionally lists every issue and can repair values.
+ */
+export type ConfigValidator<T> = {
+    parse(value: unknown): T;
+    validate?(value: unknown, repair: boolean): { value: T, issues: ConfigIssue[] };
+};
+
+function typeMatches(type: SchemaType, value: unknown): boolean {
+    switch (type) {
+        case "any":
+            return true;
+        case "array":
+            return Array.isArray(value);
+        case "object":
+            return typeof value === "object" && value !== null && !Array.isArray(value);
+        case "integer":
+            return Number.isInteger(value);
+        case "number":
+            return typeof value === "number" && !Number.isNaN(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function problem(field: Exclude<SchemaField, SchemaType>, value: unknown): string | null {
+    if (!typeMatches(field.type, value)) return `expected ${field.type}`;
+    if (field.enum && !field.enum.includes(value)) return `expected one of ${field.enum.map(item => JSON.stringify(item)).join(", ")}`;
+    const size = typeof value === "number" ? value : typeof value === "string" || Array.isArray(value) ? value.length : null;
+    if (size !== null && field.min !== undefined && size < field.min) return `must be at least ${field.min}`;
+    if (size !== null && field.max !== undefined && size > field.max) return `must be at most ${field.max}`;
+    return null;
+}
+
+function copy<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function checkField(field: SchemaField, value: unknown, path: string, repair: boolean, issues: ConfigIssue[]): unknown {
+    const spec = typeof field === "string" ? {type: field} : field;
+    if (value === undefined) {
+        if ("default" in spec) return copy(spec.default);
+        if (spec.optional) return undefined;
+        // a missing object is validated as an empty one, so the defaults inside it are filled in
+        if (spec.type !== "object" || !spec.properties) {
+            issues.push({path, message: "is required"});
+            return undefined;
+        }
+        value = {};
+    }
+    const message = problem(spec, value);
+    if (message !== null) {
+        if (repair && "default" in spec) return copy(spec.default);
+        if (repair && spec.optional) return undefined;
+        issues.push({path, message});
+        return value;
+    }
+    if (spec.properties) return checkObject(spec.properties, value as Record<string, unknown>, path, repair, issues);
+    if (spec.items && Array.isArray(value)) {
+        return value.map((item, i) => checkField(spec.items, item, path ? `${path}.${i}` : String(i), repair, issues));
+    }
+    return value;
+}
+
+function checkObject(schema: ConfigSchema, value: Record<string, unknown>, path: string, repair: boolean,
+                     issues: ConfigIssue[]): Record<string, unknown> {
+    const result = {...value};
+    for (const [key, field] of Object.entries(schema)) {
+        const checked = checkField(field, value[key], path ? `${path}.${key}` : key, repair, issues);
+        if (checked === undefined) delete result[key];
+        else result[key] = checked;
+    }
+    return result;
+}
+
+/**
+ * Creates a validator from the built-in schema format. Missing values get their defaults, and when repairing,
+ * invalid values are replaced by their defaults or dropped when optional.
+ * @example
+ * const validator = schema({
+ *     server: {type: "object", properties: {host: "string", port: {type: "integer", min: 1, max: 65535, default: 8080}}},
+ *     mode: {type: "string", enum: ["dev", "prod"] as const, default: "dev"},
+ *     tags: {type: "array", items: "string", optional: true}
+ * });
+ * @param {ConfigSchema} definition - The schema of the properties of the config.
+ * @returns {ConfigValidator} A validator whose `parse` throws listing every issue.
+ */
+export function schema<const S extends ConfigSchema>(definition: S): ConfigValidator<InferSchema<S>> & { definition: S } {
+    const validate = (value: unknown, repair: boolean) => {
+        const issues: ConfigIssue[] = [];
+        const checked = checkField({type: "object", properties: definition}, value, "", repair, issues);
+        return {value: checked as InferSchema<S>, issues};
+    };
+    return {
+        definition,
+        validate,
+        parse(value: unknown) {
+            const result = validate(value, false);
+            if (result.issues.length > 0) throw new Error(formatIssues(result.issues));
+            return result.value;
+        }
+    };
+}
+
+export function formatIssues(issues: ConfigIssue[]): string {
+    return issues.map(issue => issue.path ? `${issue.path} ${issue.message}` : issue.message).join("; ");
+}
+
+/**
+ * Runs any validator, turning what `parse` throws into an issue.
+ */
+export function runValidator<T>(validator: ConfigValidator<T>, value: unknown, repair: boolean): {
+    value: T,
+    issues: ConfigIssue[]
+} {
+    if (validator.validate) return validator.validate(value, repair);
+    try {
+        return {value: validator.parse(value), issues: []};
+    } catch (e) {
+        return {value: value as T, issues: [{path: "", message: e instanceof Error ? e.message : String(e)}]};
+    }
+}
@@ -0,0 +1,187 @@
+import {Permissions} from "./Permissions";
+
+export type FileType = "file" | "directory" | "symlink" | "block-device" | "character-device" | "fifo" | "socket" | "unknown";
+
+/**
+ * What backends return from `stat` and `lstat`. Every field is optional, missing ones read as 0 or the epoch.
+ */
+export type RawStat = Partial<{
+    mode: number;
+    size: number;
+    uid: number;
+    gid: number;
+    ino: number;
+    dev: number;
+    nlink: number;
+    blocks: number;
+    atime: Date;
+    mtime: Date;
+    ctime: Date;
+    birthtime: Date;
+    isFile(): boolean;
+    isDirectory(): boolean;
+    isSymbolicLink(): boolean;
+}>;
+
+/**
+ * A directory entry as returned by `readdir` with `withFileTypes`.
+ */
+export type DirentLike = {
+    name: string;
+    isFile(): boolean;
+    isDirectory(): boolean;
+    isSymbolicLink(): boolean;
+};
+
+const TYPES: Record<number, FileType> = {
+    0o140000: "socket",
+    0o120000: "symlink",
+    0o100000: "file",
+    0o060000: "block-device",
+    0o040000: "directory",
+    0o020000: "character-device",
+    0o010000: "fifo"
+};
+
+const TYPE_BITS = Object.fromEntries(Object.entries(TYPES).map(([bits, type]) => [type, Number(bits)]));
+
+function statType(stat: RawStat): FileType {
+    const type = TYPES[(stat.mode ?? 0) & 0o170000];
+    if (type) return type;
+    if (stat.isSymbolicLink?.()) return "symlink";
+    if (stat.isDirectory?.()) return "directory";
+    return stat.isFile?.() ? "file" : "unknown";
+}
+
+/**
+ * @description An immutable snapshot of the metadata of a file, taken by a single `stat` or `lstat` call.
+ * Reading it costs no further calls, so a listing can show many columns per entry for one call each.
+ * @example
+ * const stat = new FileSync("path/to/file.txt").stat();
+ * console.log(stat?.type, stat?.size, stat?.mtime, stat?.permissions.toString());
+ */
+export class FileStat {
+    readonly type: FileType;
+    readonly size: number;
+    /**
+     * The permission bits, without the file type, see {@link permissions}.
+     */
+    readonly mode: number;
+    readonly uid: number;
+    readonly gid: number;
+    readonly ino: number;
+    readonly dev: number;
+    readonly nlink: number;
+    /**
+     * The 512 byte blocks allocated to the file, null if the backend does not report them.
+     */
+    readonly blocks: number | null;
+    readonly atime: Date;
+    readonly mtime: Date;
+    readonly ctime: Date;
+    readonly birthtime: Date;
+
+    constructor(stat: RawStat) {
+        this.type = statType(stat);
+        this.size = stat.size ?? 0;
+        this.mode = (stat.mode ?? 0) & 0o7777;
+        this.uid = stat.uid ?? 0;
+        this.gid = stat.gid ?? 0;
+        this.ino = stat.ino ?? 0;
+        this.dev = stat.dev ?? 0;
+        this.nlink = stat.nlink ?? 1;
+        this.blocks = stat.blocks ?? null;
+        // the dates are copied, so changing them on the backend's object does not change the snapshot
+        this.atime = new Date(stat.atime?.getTime() ?? 0);
+        this.mtime = new Date(stat.mtime?.getTime() ?? 0);
+        this.ctime = new Date(stat.ctime?.getTime() ?? 0);
+        this.birthtime = new Date(stat.birthtime?.getTime() ?? 0);
+        Object.freeze(this);
+    };
+
+    get isFile(): boolean {
+        return this.type === "file";
+    };
+
+    get isDirectory(): boolean {
+        return this.type === "directory";
+    };
+
+    get isSymbolicLink(): boolean {
+        return this.type === "symlink";
+    };
+
+    /**
+     * The permission bits as {@link Permissions}, with the file type for its `ls -l` form.
+     */
+    get permissions(): Permissions {
+        return new Permissions((TYPE_BITS[this.type] ?? 0) | this.mode);
+    };
+}
+
+const READS = new Set([
+    "statSync", "stat", "lstatSync", "lstat", "readdirSync", "readdir", "readFileSync", "readFile", "existsSync",
+    "exists", "accessSync", "access", "readlinkSync", "readlink", "realpathSync", "realpath", "readSync", "read",
+    "watch", "createReadStream"
+]);
+
+/**
+ * @description A cache of stat snapshots shared by the files of a context, see `FileSystem.withStatCache`.
+ * Every call that may change the file system made through the context clears it, changes made by anything
+ * else are only seen after {@link clear} or `refresh` on the file.
+ */
+export class StatCache {
+    private readonly stats = new Map<string, FileStat>();
+    private readonly watched = new WeakMap<object, object>();
+
+    get(path: string, followLinks: boolean): FileStat | undefined {
+        return this.stats.get((followLinks ? "stat:" : "lstat:") + path);
+    };
+
+    set(path: string, followLinks: boolean, stat: FileStat) {
+        this.stats.set((followLinks ? "stat:" : "lstat:") + path, stat);
+    };
+
+    delete(path: string) {
+        this.stats.delete("stat:" + path);
+        this.stats.delete("lstat:" + path);
+    };
+
+    clear() {
+        this.stats.clear();
+    };
+
+    /**
+     * Wraps a backend so that its calls which may change something clear the cache, see {@link watchChanges}.
+     * @internal
+     */
+    watch<T extends object>(fs: T): T {
+        const known = this.watched.get(fs);
+        if (known) return known as T;
+        const wrapped = watchChanges(fs, () => this.clear());
+        this.watched.set(fs, wrapped);
+        return wrapped;
+    };
+}
+
+/**
+ * Wraps a backend so that its calls which may change something call `changed`, before they run and, for
+ * promises, once they settle.
+ * @internal
+ */
+export function watchChanges<T extends object>(fs: T, changed: () => void): T {
+    return new Proxy(fs, {
+        get: (target, key, receiver) => {
+            const value = Reflect.get(target, key, receiver);
+            if (typeof value !== "function" || typeof key !== "string") return value;
+            // called on the backend itself, so its own internal calls do not go through the proxy
+            if (READS.has(key)) return (...args: unknown[]) => value.apply(target, args);
+            return (...args: unknown[]) => {
+                changed();
+                const result = value.apply(target, args);
+                if (result instanceof Promise) result.then(changed, changed);
+                return result;
+            };
+        }
+    });
+}
@@ -0,0 +1,495 @@
+import {KtFileError} from "./KtFileError";
+import {Glob} from "./Glob";
+import {
+    ArchiveEntry,
+    ArchiveItem,
+    archivePath,
+    ChunkWriter,
+    ChunkWriterSync,
+    cleanPrefix,
+    collectEntries,
+    collectEntriesSync,
+    ExtractOptions,
+    extractTarget,
+    readChunks,
+    readChunksSync
+} from "./Archive";
+import {compressChunks, compressChunksSync, isGzip} from "./Compression";
+import {concatChunks} from "./Lines";
+import type {FileSync} from "./sync/FileSync";
+import type {FileAsync} from "./async/FileAsync";
+
+export type TarOptions = {
+    /**
+     * Whether to gzip the archive. Defaults to true when the archive name ends with `.tgz` or `.gz`.
+     */
+    gzip?: boolean;
+    /**
+     * A directory path every entry is stored under, like `project-1.0`.
+     */
+    prefix?: string;
+    /**
+     * Glob patterns of relative paths to leave out, matched with dotfiles included.
+     */
+    ignore?: string | string[];
+    /**
+     * Whether to store what symbolic links point to instead of the links themselves. Defaults to false.
+     */
+    followSymlinks?: boolean;
+};
+
+export type ExtractTarOptions = ExtractOptions;
+
+export type TarEvent = { type: "entry", entry: ArchiveEntry } | { type: "data", data: Uint8Array } | { type: "end" };
+
+const BLOCK = 512;
+const MAX_OCTAL_SIZE = 0o77777777777;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * The two zero blocks ending an archive.
+ */
+export const TAR_END = new Uint8Array(BLOCK * 2);
+
+export function tarPadding(size: number): Uint8Array {
+    return new Uint8Array((BLOCK - size % BLOCK) % BLOCK);
+}
+
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number) {
+    const digits = Math.max(0, Math.floor(value)).toString(8).padStart(length - 1, "0").slice(-(length - 1));
+    block.set(encoder.encode(digits), offset);
+    block[offset + length - 1] = 0;
+}
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+    const field = block.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readNumber(block: Uint8Array, offset: number, length: number): number {
+    // GNU base-256 encoding for values that do not fit the octal field
+    if (block[offset] & 0x80) {
+        let value = block[offset] & 0x7F;
+        for (let i = 1; i < length; i++) value = value * 256 + block[offset + i];
+        return value;
+    }
+    const text = readString(block, offset, length).trim();
+    return text === "" ? 0 : parseInt(text, 8);
+}
+
+function checksum(block: Uint8Array): number {
+    let sum = 0;
+    for (let i = 0; i < BLOCK; i++) sum += i >= 148 && i < 156 ? 0x20 : block[i];
+    return sum;
+}
+
+function headerBlock(name: Uint8Array, prefix: Uint8Array, type: string, entry: {
+    mode: number,
+    mtime: number,
+    size: number
+}, linkname: Uint8Array): Uint8Array {
+    const block = new Uint8Array(BLOCK);
+    block.set(name.subarray(0, 100), 0);
+    writeOctal(block, 100, 8, entry.mode & 0o7777);
+    writeOctal(block, 108, 8, 0);
+    writeOctal(block, 116, 8, 0);
+    writeOctal(block, 124, 12, entry.size > MAX_OCTAL_SIZE ? 0 : entry.size);
+    writeOctal(block, 136, 12, entry.mtime);
+    block[156] = type.charCodeAt(0);
+    block.set(linkname.subarray(0, 100), 157);
+    block.set(encoder.encode("ustar\u000000"), 257);
+    block.set(prefix.subarray(0, 155), 345);
+    writeOctal(block, 148, 7, checksum(block));
+    block[155] = 0x20;
+    return block;
+}
+
+/**
+ * Splits a name that is too long for the 100 byte name field into the ustar prefix and name, at a slash.
+ */
+function splitName(name: Uint8Array): { prefix: Uint8Array, name: Uint8Array } | null {
+    if (name.length <= 100) return {prefix: new Uint8Array(0), name};
+    for (let i = name.length - 101; i < Math.min(name.length, 156); i++) {
+        if (i > 0 && name[i] === 0x2F) return {prefix: name.subarray(0, i), name: name.subarray(i + 1)};
+    }
+    return null;
+}
+
+function paxRecord(key: string, value: string): Uint8Array {
+    const length = encoder.encode(` ${key}=${value}\n`).length;
+    let digits = String(length).length;
+    while (String(length + digits).length !== digits) digits++;
+    return encoder.encode(`${length + digits} ${key}=${value}\n`);
+}
+
+/**
+ * Encodes the header of an entry. Names that fit neither the ustar name nor the prefix and name fields,
+ * long link targets and huge sizes are stored in a pax extended header in front of it.
+ */
+export function encodeTarHeader(entry: ArchiveEntry): Uint8Array {
+    const path = entry.type === "directory" && !entry.path.endsWith("/") ? entry.path + "/" : entry.path;
+    const type = entry.type === "directory" ? "5" : entry.type === "symlink" ? "2" : "0";
+    const size = entry.type === "file" ? entry.size : 0;
+    const mtime = Math.floor(entry.mtime.getTime() / 1000);
+    const nameBytes = encoder.encode(path);
+    const linkBytes = encoder.encode(entry.linkname ?? "");
+    const records: Uint8Array[] = [];
+    let split = splitName(nameBytes);
+    if (!split) {
+        records.push(paxRecord("path", path));
+        split = {prefix: new Uint8Array(0), name: nameBytes};
+    }
+    if (linkBytes.length > 100) records.push(paxRecord("linkpath", entry.linkname));
+    if (size > MAX_OCTAL_SIZE) records.push(paxRecord("size", String(size)));
+    const header = headerBlock(split.name, split.prefix, type, {mode: entry.mode, mtime, size}, linkBytes);
+    if (records.length === 0) return header;
+    const data = concatChunks(records);
+    const paxName = encoder.encode("PaxHeader/" + path.replace(/\/$/, "").split("/").pop());
+    const paxHeader = headerBlock(paxName, new Uint8Array(0), "x", {mode: 0o644, mtime, size: data.length},
+        new Uint8Array(0));
+    return concatChunks([paxHeader, data, tarPadding(data.length), header]);
+}
+
+function parsePax(data: Uint8Array): Record<string, string> {
+    const records: Record<string, string> = {};
+    let offset = 0;
+    while (offset < data.length) {
+        const space = data.indexOf(0x20, offset);
+        if (space === -1) break;
+        const length = parseInt(decoder.decode(data.subarray(offset, space)), 10);
+        if (!(length > 0)) break;
+        const record = decoder.decode(data.subarray(space + 1, offset + length - 1));
+        const equals = record.indexOf("=");
+        if (equals !== -1) records[record.slice(0, equals)] = record.slice(equals + 1);
+        offset += length;
+    }
+    return records;
+}
+
+/**
+ * Parses a tar archive from chunks of bytes. Every pushed chunk returns the events it completed:
+ * an "entry" for each header, "data" with the content of the current entry and an "end" after its content.
+ * The data events may reference the pushed chunk, consume them before pushing the next one.
+ * Supports ustar, pax extended headers and GNU long names.
+ */
+export class TarParser {
+    private pending = new Uint8Array(0);
+    private remaining = 0;
+    private padding = 0;
+    private meta: { type: string, chunks: Uint8Array[] } | null = null;
+    private pax: Record<string, string> = {};
+    private globalPax: Record<string, string> = {};
+    private longName: string | null = null;
+    private longLink: string | null = null;
+    private inEntry = false;
+    finished = false;
+
+    /**
+     * Whether the input ended cleanly, at the end of an entry.
+     */
+    get complete(): boolean {
+        return this.finished || (!this.inEntry && this.meta === null && this.padding === 0 && this.pending.length === 0);
+    };
+
+    push(chunk: Uint8Array): TarEvent[] {
+        const events: TarEvent[] = [];
+        const data = this.pending.length > 0 ? concatChunks([this.pending, chunk]) : chunk;
+        let offset = 0;
+        while (offset < data.length && !this.finished) {
+            if (this.remaining > 0) {
+                const count = Math.min(this.remaining, data.length - offset);
+                const part = data.subarray(offset, offset + count);
+                if (this.meta) this.meta.chunks.push(part.slice());
+                else events.push({type: "data", data: part});
+                offset += count;
+                this.remaining -= count;
+                if (this.remaining === 0) this.finishEntry(events);
+            } else if (this.padding > 0) {
+                const count = Math.min(this.padding, data.length - offset);
+                offset += count;
+                this.padding -= count;
+            } else if (data.length - offset >= BLOCK) {
+                this.readHeader(data.subarray(offset, offset + BLOCK), events);
+                offset += BLOCK;
+            } else break;
+        }
+        this.pending = this.finished ? new Uint8Array(0) : data.slice(offset);
+        return events;
+    };
+
+    private readHeader(block: Uint8Array, events: TarEvent[]) {
+        if (block.every(byte => byte === 0)) {
+            this.finished = true;
+            return;
+        }
+        if (readNumber(block, 148, 8) !== checksum(block)) throw new KtFileError("EPARSE", "tar");
+        const type = block[156] === 0 ? "0" : String.fromCharCode(block[156]);
+        const size = readNumber(block, 124, 12);
+        this.padding = (BLOCK - size % BLOCK) % BLOCK;
+        this.remaining = size;
+        if ("xgLK".includes(type)) {
+            this.meta = {type, chunks: []};
+            if (size === 0) this.finishEntry(events);
+            return;
+        }
+        const pax = {...this.globalPax, ...this.pax};
+        let path = readString(block, 0, 100);
+        const prefix = readString(block, 257, 6) === "ustar" ? readString(block, 345, 155) : "";
+        if (prefix) path = prefix + "/" + path;
+        path = pax.path ?? this.longName ?? path;
+        const entry: ArchiveEntry = {
+            path,
+            type: type === "0" || type === "7" ? "file" : type === "5" ? "directory" : type === "2" ? "symlink" : "other",
+            mode: readNumber(block, 100, 8),
+            mtime: new Date((pax.mtime ? parseFloat(pax.mtime) : readNumber(block, 136, 12)) * 1000),
+            size: pax.size ? parseInt(pax.size, 10) : size,
+            linkname: pax.linkpath ?? this.longLink ?? readString(block, 157, 100)
+        };
+        if (entry.type === "file" && path.endsWith("/")) entry.type = "directory";
+        this.remaining = entry.size;
+        this.padding = (BLOCK - entry.size % BLOCK) % BLOCK;
+        this.pax = {};
+        this.longName = null;
+        this.longLink = null;
+        this.inEntry = true;
+        events.push({type: "entry", entry});
+        if (entry.size === 0) this.finishEntry(events);
+    };
+
+    private finishEntry(events: TarEvent[]) {
+        const meta = this.meta;
+        if (!meta) {
+            this.inEntry = false;
+            events.push({type: "end"});
+            return;
+        }
+        this.meta = null;
+        const data = concatChunks(meta.chunks);
+        if (meta.type === "x") this.pax = parsePax(data);
+        else if (meta.type === "g") Object.assign(this.globalPax, parsePax(data));
+        else if (meta.type === "L") this.longName = readString(data, 0, data.length);
+        else this.longLink = readString(data, 0, data.length);
+    };
+}
+
+function shouldGzip(dest: { name: string }, options: TarOptions): boolean {
+    return options.gzip ?? /\.(tgz|gz)$/i.test(dest.name);
+}
+
+/**
+ * The chunks of a tar archive of collected entries. File contents are read in chunks as they are needed, exactly as
+ * many bytes as were stated when the entries were collected, so files changing meanwhile do not corrupt the archive.
+ */
+function* tarChunksSync(entries: ArchiveItem<FileSync>[]): Generator<Uint8Array> {
+    for (const {entry, file} of entries) {
+        yield encodeTarHeader(entry);
+        if (entry.type !== "file") continue;
+        let written = 0;
+        for (const chunk of readChunksSync(file)) {
+            const part = chunk.subarray(0, entry.size - written);
+            yield part;
+            written += part.length;
+            if (written === entry.size) break;
+        }
+        yield new Uint8Array(entry.size - written);
+        yield tarPadding(entry.size);
+    }
+    yield TAR_END;
+}
+
+async function* tarChunks(entries: ArchiveItem<FileAsync>[]): AsyncGenerator<Uint8Array> {
+    for (const {entry, file} of entries) {
+        yield encodeTarHeader(entry);
+        if (entry.type !== "file") continue;
+        let written = 0;
+        for await (const chunk of readChunks(file)) {
+            const part = chunk.subarray(0, entry.size - written);
+            yield part;
+            written += part.length;
+            if (written === entry.size) break;
+        }
+        yield new Uint8Array(entry.size - written);
+        yield tarPadding(entry.size);
+    }
+    yield TAR_END;
+}
+
+/**
+ * Writes a file or directory tree as a tar archive, gzipping it on the way if asked to. Throws on failure.
+ */
+export function writeTarSync(source: FileSync, dest: FileSync, options: TarOptions) {
+    if (!source.exists) throw new KtFileError("ENOENT", "scandir", source.fullPath);
+    const prefix = cleanPrefix(options.prefix);
+    const entries = collectEntriesSync(source, source.isDirectory ? prefix : archivePath(prefix, source.name), options);
+    const chunks = tarChunksSync(entries);
+    const writer = new ChunkWriterSync(dest);
+    try {
+        for (const chunk of shouldGzip(dest, options) ? compressChunksSync("gzip", chunks) : chunks) writer.write(chunk);
+    } finally {
+        writer.close();
+    }
+}
+
+export async function writeTar(source: FileAsync, dest: FileAsync, options: TarOptions) {
+    if (!await source.exists()) throw new KtFileError("ENOENT", "scandir", source.fullPath);
+    const prefix = cleanPrefix(options.prefix);
+    const base = await source.isDirectory() ? prefix : archivePath(prefix, source.name);
+    const chunks = tarChunks(await collectEntries(source, base, options));
+    const writer = await ChunkWriter.open(dest);
+    try {
+        for await (const chunk of shouldGzip(dest, options) ? compressChunks("gzip", chunks) : chunks) {
+            await writer.write(chunk);
+        }
+    } finally {
+        await writer.close();
+    }
+}
+
+/**
+ * The chunks of an archive file, gunzipped on the way if it is gzipped.
+ */
+function* archiveChunksSync(archive: FileSync): Generator<Uint8Array> {
+    const chunks = readChunksSync(archive);
+    try {
+        const first = chunks.next();
+        if (first.done) return;
+        const all = (function* () {
+            yield first.value;
+            yield* chunks;
+        })();
+        yield* isGzip(first.value) ? compressChunksSync("gunzip", all) : all;
+    } finally {
+        chunks.return(undefined);
+    }
+}
+
+async function* archiveChunks(archive: FileAsync): AsyncGenerator<Uint8Array> {
+    const chunks = readChunks(archive);
+    try {
+        const first = await chunks.next();
+        if (first.done) return;
+        const all = (async function* () {
+            yield first.value;
+            yield* chunks;
+        })();
+        yield* isGzip(first.value) ? compressChunks("gunzip", all) : all;
+    } finally {
+        await chunks.return(undefined);
+    }
+}
+
+/**
+ * Extracts a tar archive, gzipped or not, into a directory. Entries are checked before anything is written
+ * for them, and existing files or links in the way of an entry are replaced rather than written through.
+ * Throws on failure, leaving what was extracted so far.
+ */
+export function extractTarSync(archive: FileSync, dest: FileSync, options: ExtractTarOptions) {
+    const fs = dest.fs;
+    const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+    const parser = new TarParser();
+    const directories: ArchiveItem<FileSync>[] = [];
+    const links = new Set<string>();
+    let current: { writer: ChunkWriterSync, entry: ArchiveEntry, file: FileSync } | null = null;
+    const finish = (entry: ArchiveEntry, file: FileSync) => {
+        if (options.preserveMode !== false) fs.chmodSync(file.fullPath, entry.mode & 0o7777);
+        if (options.preserveTimes !== false) fs.utimesSync(file.fullPath, entry.mtime, entry.mtime);
+    };
+    const handle = (events: TarEvent[]) => {
+        for (const event of events) {
+            if (event.type === "data") current?.writer.write(event.data);
+            else if (event.type === "end") {
+                if (!current) continue;
+                current.writer.close();
+                finish(current.entry, current.file);
+                current = null;
+            } else {
+                const entry = event.entry;
+                const target = extractTarget(dest, entry, options, ignore, links);
+                if (!target) continue;
+                const {file, parent} = target;
+                const existing = file.exists || file.isSymbolicLink;
+                if (entry.type === "directory") {
+                    if (existing && !file.isDirectory) fs.unlinkSync(file.fullPath);
+                    fs.mkdirSync(file.fullPath, {recursive: true});
+                    directories.push({entry, file});
+                    continue;
+                }
+                fs.mkdirSync(parent.fullPath, {recursive: true});
+                if (existing) fs.rmSync(file.fullPath, {recursive: true, force: true});
+                if (entry.type === "symlink") {
+                    fs.symlinkSync(entry.linkname, file.fullPath);
+                    continue;
+                }
+                current = {writer: new ChunkWriterSync(file, entry.mode & 0o777), entry, file};
+            }
+        }
+    };
+    fs.mkdirSync(dest.fullPath, {recursive: true});
+    try {
+        for (const chunk of archiveChunksSync(archive)) {
+            handle(parser.push(chunk));
+            if (parser.finished) break;
+        }
+    } finally {
+        if (current) current.writer.close();
+    }
+    if (!parser.complete) throw new KtFileError("EPARSE", "tar", archive.fullPath);
+    // directories last and deepest first, extracting their contents changed their times
+    for (const {entry, file} of directories.reverse()) finish(entry, file);
+}
+
+export async function extractTar(archive: FileAsync, dest: FileAsync, options: ExtractTarOptions) {
+    const fs = dest.fs;
+    const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+    const parser = new TarParser();
+    const directories: ArchiveItem<FileAsync>[] = [];
+    const links = new Set<string>();
+    let current: { writer: ChunkWriter, entry: ArchiveEntry, file: FileAsync } | null = null;
+    const finish = async (entry: ArchiveEntry, file: FileAsync) => {
+        if (options.preserveMode !== false) await fs.chmod(file.fullPath, entry.mode & 0o7777);
+        if (options.preserveTimes !== false) await fs.utimes(file.fullPath, entry.mtime, entry.mtime);
+    };
+    const handle = async (events: TarEvent[]) => {
+        for (const event of events) {
+            if (event.type === "data") await current?.writer.write(event.data);
+            else if (event.type === "end") {
+                if (!current) continue;
+                await current.writer.close();
+                await finish(current.entry, current.file);
+                current = null;
+            } else {
+                const entry = event.entry;
+                const target = extractTarget(dest, entry, options, ignore, links);
+                if (!target) continue;
+                const {file, parent} = target;
+                const existing = await file.exists() || await file.isSymbolicLink();
+                if (entry.type === "directory") {
+                    if (existing && !await file.isDirectory()) await fs.unlink(file.fullPath);
+                    await fs.mkdir(file.fullPath, {recursive: true});
+                    directories.push({entry, file});
+                    continue;
+                }
+                await fs.mkdir(parent.fullPath, {recursive: true});
+                if (existing) await fs.rm(file.fullPath, {recursive: true, force: true});
+                if (entry.type === "symlink") {
+                    await fs.symlink(entry.linkname, file.fullPath);
+                    continue;
+                }
+                current = {writer: await ChunkWriter.open(file, entry.mode & 0o777), entry, file};
+            }
+        }
+    };
+    await fs.mkdir(dest.fullPath, {recursive: true});
+    try {
+        for await (const chunk of archiveChunks(archive)) {
+            await handle(parser.push(chunk));
+            if (parser.finished) break;
+        }
+    } finally {
+        if (current) await current.writer.close();
+    }
+    if (!parser.complete) throw new KtFileError("EPARSE", "tar", archive.fullPath);
+    for (const {entry, file} of directories.reverse()) await finish(entry, file);
+}
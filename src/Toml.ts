@@ -0,0 +1,376 @@
+import {isUnsafeKey} from "./Utils";
+
+type Table = Record<string, unknown>;
+
+const ESCAPES: Record<string, string> = {b: "\b", t: "\t", n: "\n", f: "\f", r: "\r", e: "\x1b", "\"": "\"", "\\": "\\"};
+const DATE_TIME = /^(\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}(:\d{2}(\.\d+)?)?)/;
+const FLOAT = /^[+-]?(0|[1-9](_?\d)*)(\.\d(_?\d)*)?([eE][+-]?\d(_?\d)*)?/;
+const INTEGER = /^(0x[\da-fA-F](_?[\da-fA-F])*|0o[0-7](_?[0-7])*|0b[01](_?[01])*|[+-]?(0|[1-9](_?\d)*))/;
+
+class TomlParser {
+    private pos = 0;
+    private readonly root: Table = {};
+    /**
+     * Tables defined by a header, which cannot be defined again.
+     */
+    private readonly defined = new Set<Table>();
+    /**
+     * Inline tables and arrays, which cannot be extended later.
+     */
+    private readonly closed = new Set<unknown>();
+    /**
+     * Arrays created by `[[header]]`s, which further headers append to.
+     */
+    private readonly tableArrays = new Set<unknown[]>();
+
+    constructor(private readonly text: string) {
+    };
+
+    parse(): Table {
+        let table = this.root;
+        for (; ;) {
+            this.skipBlank();
+            if (this.pos >= this.text.length) return this.root;
+            if (this.text[this.pos] === "[") table = this.header();
+            else this.keyValue(table);
+            this.endOfLine();
+        }
+    };
+
+    private error(message: string): never {
+        const line = this.text.slice(0, this.pos).split("\n").length;
+        throw new SyntaxError(`${message} on line ${line}`);
+    };
+
+    private get char(): string | undefined {
+        return this.text[this.pos];
+    };
+
+    private space() {
+        while (this.char === " " || this.char === "\t") this.pos++;
+    };
+
+    private comment() {
+        if (this.char !== "#") return;
+        while (this.pos < this.text.length && this.text[this.pos] !== "\n") this.pos++;
+    };
+
+    /**
+     * Skips whitespace, comments and line breaks.
+     */
+    private skipBlank() {
+        for (; ;) {
+            this.space();
+            this.comment();
+            if (this.char === "\n") this.pos++;
+            else if (this.char === "\r" && this.text[this.pos + 1] === "\n") this.pos += 2;
+            else return;
+        }
+    };
+
+    private endOfLine() {
+        this.space();
+        this.comment();
+        if (this.pos < this.text.length && this.char !== "\n" && !this.text.startsWith("\r\n", this.pos)) {
+            this.error(`Unexpected ${this.char}`);
+        }
+    };
+
+    private expect(text: string) {
+        if (!this.text.startsWith(text, this.pos)) this.error(`Expected ${text}`);
+        this.pos += text.length;
+    };
+
+    private key(): string[] {
+        const parts: string[] = [];
+        for (; ;) {
+            this.space();
+            if (this.char === "\"") parts.push(this.basicString());
+            else if (this.char === "'") parts.push(this.literalString());
+            else {
+                const match = /^[A-Za-z0-9_-]+/.exec(this.text.slice(this.pos, this.pos + 256));
+                if (!match) this.error("Expected a key");
+                parts.push(match[0]);
+                this.pos += match[0].length;
+            }
+            if (isUnsafeKey(parts[parts.length - 1])) this.error(`Unsafe key ${parts[parts.length - 1]}`);
+            this.space();
+            if (this.char !== ".") return parts;
+            this.pos++;
+        }
+    };
+
+    /**
+     * Walks down dotted keys from a table, creating the tables on the way.
+     */
+    private descend(table: Table, keys: string[], inHeader: boolean): Table {
+        for (const key of keys) {
+            let next = Object.hasOwn(table, key) ? table[key] : undefined;
+            if (next === undefined) next = table[key] = {};
+            else if (Array.isArray(next) && inHeader && this.tableArrays.has(next)) next = next[next.length - 1];
+            if (typeof next !== "object" || next === null || Array.isArray(next) || next instanceof Date
+                || this.closed.has(next)) {
+                this.error(`Cannot redefine ${key}`);
+            }
+            table = next as Table;
+        }
+        return table;
+    };
+
+    private header(): Table {
+        const isArray = this.text.startsWith("[[", this.pos);
+        this.pos += isArray ? 2 : 1;
+        const keys = this.key();
+        this.expect(isArray ? "]]" : "]");
+        const parent = this.descend(this.root, keys.slice(0, -1), true);
+        const last = keys[keys.length - 1];
+        if (isArray) {
+            const list = Object.hasOwn(parent, last) ? parent[last] : parent[last] = [];
+            if (!Array.isArray(list) || this.closed.has(list)) this.error(`Cannot redefine ${last}`);
+            this.tableArrays.add(list);
+            const table = {};
+            list.push(table);
+            return table;
+        }
+        const existing = Object.hasOwn(parent, last) ? parent[last] : undefined;
+        if (existing !== undefined && (this.defined.has(existing as Table) || Array.isArray(existing))) {
+            this.error(`Cannot redefine ${last}`);
+        }
+        const table = this.descend(parent, [last], true);
+        this.defined.add(table);
+        return table;
+    };
+
+    private keyValue(table: Table) {
+        const keys = this.key();
+        this.expect("=");
+        this.space();
+        const value = this.value();
+        const target = this.descend(table, keys.slice(0, -1), false);
+        const last = keys[keys.length - 1];
+        if (Object.hasOwn(target, last)) this.error(`Duplicate key ${last}`);
+        target[last] = value;
+    };
+
+    private value(): unknown {
+        const c = this.char;
+        if (c === "\"") return this.text.startsWith("\"\"\"", this.pos) ? this.multilineString("\"\"\"") : this.basicString();
+        if (c === "'") return this.text.startsWith("'''", this.pos) ? this.multilineString("'''") : this.literalString();
+        if (c === "[") return this.array();
+        if (c === "{") return this.inlineTable();
+        const rest = this.text.slice(this.pos, this.pos + 64);
+        for (const [word, value] of [["true", true], ["false", false], ["inf", Infinity], ["+inf", Infinity],
+            ["-inf", -Infinity], ["nan", NaN], ["+nan", NaN], ["-nan", NaN]] as const) {
+            if (rest.startsWith(word) && !/[\w.]/.test(rest[word.length] ?? "")) {
+                this.pos += word.length;
+                return value;
+            }
+        }
+        const dateTime = DATE_TIME.exec(rest);
+        if (dateTime) {
+            this.pos += dateTime[0].length;
+            // only a date-time with an offset is a moment, local ones have no matching type and stay strings
+            return dateTime[5] ? new Date(dateTime[0].replace(" ", "T")) : dateTime[0];
+        }
+        const float = FLOAT.exec(rest);
+        if (float && (float[3] || float[5])) {
+            this.pos += float[0].length;
+            return Number(float[0].replace(/_/g, ""));
+        }
+        const integer = INTEGER.exec(rest);
+        if (!integer) this.error("Expected a value");
+        this.pos += integer[0].length;
+        const digits = integer[0].replace(/_/g, "");
+        if (digits.startsWith("0o")) return parseInt(digits.slice(2), 8);
+        if (digits.startsWith("0b")) return parseInt(digits.slice(2), 2);
+        return Number(digits);
+    };
+
+    private escape(): string {
+        const c = this.text[this.pos + 1];
+        if (c === "u" || c === "U") {
+            const length = c === "u" ? 4 : 8;
+            const hex = this.text.slice(this.pos + 2, this.pos + 2 + length);
+            if (!/^[\da-fA-F]+$/.test(hex) || hex.length !== length) this.error("Invalid unicode escape");
+            this.pos += 2 + length;
+            return String.fromCodePoint(parseInt(hex, 16));
+        }
+        if (!(c in ESCAPES)) this.error(`Unknown escape \\${c}`);
+        this.pos += 2;
+        return ESCAPES[c];
+    };
+
+    private basicString(): string {
+        this.pos++;
+        let result = "";
+        for (; ;) {
+            const c = this.char;
+            if (c === undefined || c === "\n") this.error("Unterminated string");
+            if (c === "\"") break;
+            if (c === "\\") result += this.escape();
+            else {
+                result += c;
+                this.pos++;
+            }
+        }
+        this.pos++;
+        return result;
+    };
+
+    private literalString(): string {
+        const end = this.text.indexOf("'", this.pos + 1);
+        const newline = this.text.indexOf("\n", this.pos + 1);
+        if (end === -1 || newline !== -1 && newline < end) this.error("Unterminated string");
+        const result = this.text.slice(this.pos + 1, end);
+        this.pos = end + 1;
+        return result;
+    };
+
+    private multilineString(quotes: string): string {
+        this.pos += 3;
+        // a line break right after the opening quotes is not part of the string
+        if (this.char === "\n") this.pos++;
+        else if (this.text.startsWith("\r\n", this.pos)) this.pos += 2;
+        let result = "";
+        for (; ;) {
+            if (this.pos >= this.text.length) this.error("Unterminated string");
+            if (this.text.startsWith(quotes, this.pos)) {
+                // up to two quotes right before the closing ones belong to the string
+                let extra = 0;
+                while (extra < 2 && this.text[this.pos + 3 + extra] === quotes[0]) extra++;
+                result += quotes[0].repeat(extra);
+                this.pos += 3 + extra;
+                return result;
+            }
+            const c = this.char;
+            if (c === "\\" && quotes === "\"\"\"") {
+                const continuation = /^\\[ \t]*\r?\n[\s]*/.exec(this.text.slice(this.pos, this.pos + 4096));
+                if (continuation) this.pos += continuation[0].length;
+                else result += this.escape();
+                continue;
+            }
+            result += c === "\r" && this.text[this.pos + 1] === "\n" ? "" : c;
+            this.pos++;
+        }
+    };
+
+    private array(): unknown[] {
+        const result: unknown[] = [];
+        this.pos++;
+        for (; ;) {
+            this.skipBlank();
+            if (this.char === "]") break;
+            result.push(this.value());
+            this.skipBlank();
+            if (this.char === ",") this.pos++;
+            else if (this.char !== "]") this.error("Expected , or ]");
+        }
+        this.pos++;
+        this.closed.add(result);
+        return result;
+    };
+
+    private inlineTable(): Table {
+        const result: Table = {};
+        this.pos++;
+        this.space();
+        if (this.char === "}") {
+            this.pos++;
+            this.closed.add(result);
+            return result;
+        }
+        for (; ;) {
+            this.keyValue(result);
+            this.space();
+            if (this.char === "}") break;
+            this.expect(",");
+        }
+        this.pos++;
+        // dotted keys inside create tables that are closed along with it
+        const close = (table: unknown) => {
+            this.closed.add(table);
+            if (typeof table === "object" && table !== null && !Array.isArray(table)) Object.values(table).forEach(close);
+        };
+        close(result);
+        return result;
+    };
+}
+
+/**
+ * Parses a TOML document. Offset date-times are read as dates, local dates and times as strings.
+ */
+export function parseToml(text: string): unknown {
+    return new TomlParser(text).parse();
+}
+
+function isTable(value: unknown): value is Table {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isTableArray(value: unknown): value is Table[] {
+    return Array.isArray(value) && value.length > 0 && value.every(isTable);
+}
+
+function key(name: string): string {
+    return /^[A-Za-z0-9_-]+$/.test(name) ? name : string(name);
+}
+
+function string(text: string): string {
+    return "\"" + text.replace(/["\\\x00-\x1f\x7f]/g, c => {
+        const escape = Object.keys(ESCAPES).find(name => ESCAPES[name] === c && name !== "e");
+        return escape ? "\\" + escape : "\\u" + c.charCodeAt(0).toString(16).padStart(4, "0");
+    }) + "\"";
+}
+
+function inline(value: unknown, path: string): string {
+    if (typeof value === "string") return string(value);
+    if (typeof value === "boolean") return String(value);
+    if (typeof value === "number") {
+        if (Number.isNaN(value)) return "nan";
+        if (!Number.isFinite(value)) return value > 0 ? "inf" : "-inf";
+        return String(value);
+    }
+    if (typeof value === "bigint") return String(value);
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return "[" + value.map((item, i) => inline(item, `${path}.${i}`)).join(", ") + "]";
+    if (isTable(value)) {
+        const entries = Object.entries(value).filter(([, item]) => item !== null && item !== undefined);
+        if (entries.length === 0) return "{}";
+        return "{ " + entries.map(([name, item]) => `${key(name)} = ${inline(item, `${path}.${name}`)}`).join(", ") + " }";
+    }
+    throw new TypeError(`TOML cannot hold ${value === null ? "null" : typeof value}, at ${path}`);
+}
+
+function writeTable(table: Table, path: string[], lines: string[], isArrayItem: boolean) {
+    const body: string[] = [];
+    const tables: [string, Table][] = [];
+    const tableArrays: [string, Table[]][] = [];
+    for (const [name, value] of Object.entries(table)) {
+        // TOML has no null, missing values are left out
+        if (value === null || value === undefined) continue;
+        if (isTable(value)) tables.push([name, value]);
+        else if (isTableArray(value)) tableArrays.push([name, value]);
+        else body.push(`${key(name)} = ${inline(value, [...path, name].join("."))}`);
+    }
+    const header = path.map(key).join(".");
+    if (isArrayItem || path.length > 0 && (body.length > 0 || tables.length + tableArrays.length === 0)) {
+        if (lines.length > 0) lines.push("");
+        lines.push(isArrayItem ? `[[${header}]]` : `[${header}]`);
+    }
+    lines.push(...body);
+    for (const [name, value] of tables) writeTable(value, [...path, name], lines, false);
+    for (const [name, items] of tableArrays) {
+        for (const item of items) writeTable(item, [...path, name], lines, true);
+    }
+}
+
+/**
+ * Writes an object as a TOML document. Nested objects become tables and arrays of objects arrays of tables,
+ * `null` values are left out since TOML cannot hold them.
+ */
+export function stringifyToml(value: unknown): string {
+    if (!isTable(value)) throw new TypeError("A TOML document holds an object");
+    const lines: string[] = [];
+    writeTable(value, [], lines, false);
+    return lines.length > 0 ? lines.join("\n") + "\n" : "";
+}
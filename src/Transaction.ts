@@ -0,0 +1,553 @@
+import type {FileSync} from "./sync/FileSync";
+import type {FileAsync} from "./async/FileAsync";
+import {KtFileError} from "./KtFileError";
+import {isAlive, lockOwner} from "./Lock";
+
+export type TransactionOptions<F> = {
+    /**
+     * The directory transactions keep their journals in. It should be on the same file system as the files
+     * the transactions change, since changes are applied by renaming. Defaults to `.ktfile-journal` in the
+     * working directory.
+     */
+    journal?: F | string;
+};
+
+export type RecoverOptions<F> = TransactionOptions<F> & {
+    /**
+     * Whether to finish transactions that were interrupted while committing, instead of undoing them.
+     * Defaults to false.
+     */
+    finish?: boolean;
+};
+
+/**
+ * What recovering did with an interrupted transaction: "finished" applied the rest of its changes,
+ * "rolled back" undid the applied ones and "discarded" dropped one that had not started committing.
+ */
+export type TransactionRecovery = {
+    id: string;
+    action: "finished" | "rolled back" | "discarded";
+};
+
+type Step = { type: "write", path: string } | { type: "rename", path: string, dest: string } | { type: "delete", path: string };
+
+/**
+ * The journal of a transaction. It is rewritten before every step of the commit, so an interrupted commit
+ * can be finished or undone from the step it stopped at.
+ */
+type JournalRecord = {
+    id: string;
+    pid: number;
+    hostname: string;
+    created: number;
+    state: "staging" | "committing" | "committed" | "rolling-back";
+    /**
+     * The step being applied, -1 before the first one.
+     */
+    step: number;
+    steps: Step[];
+};
+
+const RECORD = "journal.json";
+
+export const DEFAULT_JOURNAL = ".ktfile-journal";
+
+// Transactions running in this process, which recovering leaves alone.
+const active = new Set<string>();
+
+function createRecord(): JournalRecord {
+    return {
+        id: Date.now().toString(36) + "-" + Math.random().toString(36).slice(2, 10),
+        pid: lockOwner.pid,
+        hostname: lockOwner.hostname,
+        created: Date.now(),
+        state: "staging",
+        step: -1,
+        steps: []
+    };
+}
+
+function parseRecord(content: string | null): JournalRecord | null {
+    try {
+        const record = JSON.parse(content);
+        return record && typeof record.id === "string" && Array.isArray(record.steps) ? record : null;
+    } catch {
+        return null;
+    }
+}
+
+function isRunning(record: JournalRecord): boolean {
+    if (active.has(record.id)) return true;
+    return record.hostname === lockOwner.hostname && record.pid !== lockOwner.pid && isAlive(record.pid);
+}
+
+/**
+ * Where a step moves a file from and to, and where it keeps what it replaces. A write moves its staged content.
+ */
+function stepPaths(dir: FileSync | FileAsync, step: Step, index: number): { source: string, target: string, backup: string } {
+    const backup = dir.to("backup", String(index)).fullPath;
+    if (step.type === "write") return {source: dir.to("staged", String(index)).fullPath, target: step.path, backup};
+    return {source: step.path, target: step.type === "rename" ? step.dest : step.path, backup};
+}
+
+function missing(step: Step): KtFileError {
+    return new KtFileError("ENOENT", step.type === "write" ? "open" : step.type === "rename" ? "rename" : "unlink", step.path);
+}
+
+/*
+ * Applying and undoing a step only look at which files exist, so both can be repeated after an interruption.
+ * Applying moves the target aside into the backup, then the source into place. Undoing moves the source back
+ * where it came from, then the backup back to the target.
+ */
+
+function existsSync(file: FileSync, path: string): boolean {
+    try {
+        file.fs.lstatSync(path);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function applyStepSync(dir: FileSync, step: Step, index: number) {
+    const fs = dir.fs;
+    const {source, target, backup} = stepPaths(dir, step, index);
+    if (!existsSync(dir, source)) return;
+    if (existsSync(dir, target) && !existsSync(dir, backup)) fs.renameSync(target, backup);
+    if (step.type === "delete") return;
+    fs.mkdirSync(dir.context.flavor.dirname(target), {recursive: true});
+    fs.renameSync(source, target);
+}
+
+function undoStepSync(dir: FileSync, step: Step, index: number) {
+    const fs = dir.fs;
+    const {source, target, backup} = stepPaths(dir, step, index);
+    if (step.type !== "delete" && !existsSync(dir, source) && existsSync(dir, target)) fs.renameSync(target, source);
+    if (existsSync(dir, backup)) fs.renameSync(backup, target);
+}
+
+async function exists(file: FileAsync, path: string): Promise<boolean> {
+    try {
+        await file.fs.lstat(path);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function applyStep(dir: FileAsync, step: Step, index: number) {
+    const fs = dir.fs;
+    const {source, target, backup} = stepPaths(dir, step, index);
+    if (!await exists(dir, source)) return;
+    if (await exists(dir, target) && !await exists(dir, backup)) await fs.rename(target, backup);
+    if (step.type === "delete") return;
+    await fs.mkdir(dir.context.flavor.dirname(target), {recursive: true});
+    await fs.rename(source, target);
+}
+
+async function undoStep(dir: FileAsync, step: Step, index: number) {
+    const fs = dir.fs;
+    const {source, target, backup} = stepPaths(dir, step, index);
+    if (step.type !== "delete" && !await exists(dir, source) && await exists(dir, target)) await fs.rename(target, source);
+    if (await exists(dir, backup)) await fs.rename(backup, target);
+}
+
+function saveRecordSync(dir: FileSync, record: JournalRecord) {
+    const path = dir.to(RECORD).fullPath;
+    dir.fs.writeFileSync(path + ".tmp", JSON.stringify(record), "utf8");
+    dir.fs.renameSync(path + ".tmp", path);
+}
+
+async function saveRecord(dir: FileAsync, record: JournalRecord) {
+    const path = dir.to(RECORD).fullPath;
+    await dir.fs.writeFile(path + ".tmp", JSON.stringify(record), "utf8");
+    await dir.fs.rename(path + ".tmp", path);
+}
+
+function removeSync(dir: FileSync) {
+    try {
+        dir.delete(true);
+    } catch {
+    }
+}
+
+async function remove(dir: FileAsync) {
+    try {
+        await dir.delete(true);
+    } catch {
+    }
+}
+
+/**
+ * Applies the steps of a transaction, or undoes the applied ones and throws if one fails.
+ */
+function commitSync(dir: FileSync, record: JournalRecord) {
+    try {
+        record.state = "committing";
+        for (let i = 0; i < record.steps.length; i++) {
+            const step = record.steps[i];
+            if (!existsSync(dir, stepPaths(dir, step, i).source)) throw missing(step);
+            record.step = i;
+            saveRecordSync(dir, record);
+            applyStepSync(dir, step, i);
+        }
+        record.state = "committed";
+        saveRecordSync(dir, record);
+    } catch (e) {
+        record.state = "rolling-back";
+        try {
+            saveRecordSync(dir, record);
+            for (let i = record.step; i >= 0; i--) undoStepSync(dir, record.steps[i], i);
+        } catch {
+            // the journal stays for recovering later
+            throw e;
+        }
+        removeSync(dir);
+        throw e;
+    }
+    removeSync(dir);
+}
+
+async function commit(dir: FileAsync, record: JournalRecord) {
+    try {
+        record.state = "committing";
+        for (let i = 0; i < record.steps.length; i++) {
+            const step = record.steps[i];
+            if (!await exists(dir, stepPaths(dir, step, i).source)) throw missing(step);
+            record.step = i;
+            await saveRecord(dir, record);
+            await applyStep(dir, step, i);
+        }
+        record.state = "committed";
+        await saveRecord(dir, record);
+    } catch (e) {
+        record.state = "rolling-back";
+        try {
+            await saveRecord(dir, record);
+            for (let i = record.step; i >= 0; i--) await undoStep(dir, record.steps[i], i);
+        } catch {
+            // the journal stays for recovering later
+            throw e;
+        }
+        await remove(dir);
+        throw e;
+    }
+    await remove(dir);
+}
+
+/**
+ * @description The changes of a transaction started with `FileSync.transaction`. Writes are staged in the journal
+ * right away, renames and deletions are recorded, and all of them are applied in order once the transaction's
+ * function returns.
+ */
+export class TransactionSync {
+    private readonly record = createRecord();
+    private readonly dir: FileSync;
+    private ended = false;
+
+    /**
+     * @internal
+     */
+    constructor(private readonly journal: FileSync) {
+        this.dir = journal.to(this.record.id);
+        try {
+            journal.fs.mkdirSync(this.dir.to("staged").fullPath, {recursive: true});
+            journal.fs.mkdirSync(this.dir.to("backup").fullPath, {recursive: true});
+            saveRecordSync(this.dir, this.record);
+        } catch (e) {
+            removeSync(this.dir);
+            throw e;
+        }
+        active.add(this.record.id);
+    };
+
+    /**
+     * The id of the transaction, which is also the name of its directory in the journal.
+     */
+    get id(): string {
+        return this.record.id;
+    };
+
+    /**
+     * @description Stages new content for a file, replacing it when the transaction commits.
+     * @param {FileSync | string} file - The file to write, created with its parent directories if needed.
+     * @param {string | Buffer} data - The content.
+     * @param {BufferEncoding} [encoding="utf8"] - The encoding of string content.
+     * @returns {TransactionSync} The transaction.
+     */
+    write(file: FileSync | string, data: string | Buffer, encoding: BufferEncoding = "utf8"): TransactionSync {
+        const path = this.path(file);
+        this.journal.fs.writeFileSync(this.dir.to("staged", String(this.record.steps.length)).fullPath, data, encoding);
+        this.record.steps.push({type: "write", path});
+        return this;
+    };
+
+    /**
+     * @description Records moving a file or directory, replacing an existing destination.
+     * @param {FileSync | string} file - The file or directory to move, it has to exist when the step is applied.
+     * @param {FileSync | string} dest - The new path.
+     * @returns {TransactionSync} The transaction.
+     */
+    renameTo(file: FileSync | string, dest: FileSync | string): TransactionSync {
+        this.record.steps.push({type: "rename", path: this.path(file), dest: this.path(dest)});
+        return this;
+    };
+
+    /**
+     * @description Records deleting a file or directory. It is kept in the journal until the transaction has
+     * committed.
+     * @param {FileSync | string} file - The file or directory to delete, it has to exist when the step is applied.
+     * @returns {TransactionSync} The transaction.
+     */
+    delete(file: FileSync | string): TransactionSync {
+        this.record.steps.push({type: "delete", path: this.path(file)});
+        return this;
+    };
+
+    /**
+     * @internal
+     */
+    end(succeeded: boolean) {
+        this.ended = true;
+        try {
+            if (succeeded) commitSync(this.dir, this.record);
+            else removeSync(this.dir);
+        } finally {
+            active.delete(this.record.id);
+        }
+    };
+
+    private path(file: FileSync | string): string {
+        if (this.ended) throw new Error("The transaction has already ended.");
+        return typeof file === "string" ? this.journal.context.file(file).fullPath : file.fullPath;
+    };
+}
+
+/**
+ * @description The changes of a transaction started with `FileAsync.transaction`. Writes are staged in the journal
+ * right away, renames and deletions are recorded, and all of them are applied in order once the transaction's
+ * function has resolved.
+ */
+export class TransactionAsync {
+    private readonly record = createRecord();
+    private readonly dir: FileAsync;
+    private readonly writes: Promise<unknown>[] = [];
+    private ended = false;
+
+    /**
+     * @internal
+     */
+    constructor(private readonly journal: FileAsync) {
+        this.dir = journal.to(this.record.id);
+    };
+
+    /**
+     * The id of the transaction, which is also the name of its directory in the journal.
+     */
+    get id(): string {
+        return this.record.id;
+    };
+
+    /**
+     * @internal
+     */
+    async begin() {
+        active.add(this.record.id);
+        await this.journal.fs.mkdir(this.dir.to("staged").fullPath, {recursive: true});
+        await this.journal.fs.mkdir(this.dir.to("backup").fullPath, {recursive: true});
+        await saveRecord(this.dir, this.record);
+    };
+
+    /**
+     * @description Stages new content for a file, replacing it when the transaction commits.
+     * @param {FileAsync | string} file - The file to write, created with its parent directories if needed.
+     * @param {string | Buffer} data - The content.
+     * @param {BufferEncoding} [encoding="utf8"] - The encoding of string content.
+     * @returns {Promise<TransactionAsync>} The transaction.
+     */
+    async write(file: FileAsync | string, data: string | Buffer, encoding: BufferEncoding = "utf8"): Promise<TransactionAsync> {
+        const path = this.path(file);
+        const index = this.record.steps.length;
+        // the step is taken before writing, so writes that are not awaited one by one keep their order
+        this.record.steps.push({type: "write", path});
+        const written = this.journal.fs.writeFile(this.dir.to("staged", String(index)).fullPath, data, encoding);
+        this.writes.push(written);
+        await written;
+        return this;
+    };
+
+    /**
+     * @description Records moving a file or directory, replacing an existing destination.
+     * @param {FileAsync | string} file - The file or directory to move, it has to exist when the step is applied.
+     * @param {FileAsync | string} dest - The new path.
+     * @returns {TransactionAsync} The transaction.
+     */
+    renameTo(file: FileAsync | string, dest: FileAsync | string): TransactionAsync {
+        this.record.steps.push({type: "rename", path: this.path(file), dest: this.path(dest)});
+        return this;
+    };
+
+    /**
+     * @description Records deleting a file or directory. It is kept in the journal until the transaction has
+     * committed.
+     * @param {FileAsync | string} file - The file or directory to delete, it has to exist when the step is applied.
+     * @returns {TransactionAsync} The transaction.
+     */
+    delete(file: FileAsync | string): TransactionAsync {
+        this.record.steps.push({type: "delete", path: this.path(file)});
+        return this;
+    };
+
+    /**
+     * @internal
+     */
+    async end(succeeded: boolean) {
+        this.ended = true;
+        try {
+            // writes the function did not wait for are finished first, a failed one fails the transaction
+            if (succeeded) await Promise.all(this.writes);
+            if (succeeded) await commit(this.dir, this.record);
+            else await remove(this.dir);
+        } finally {
+            active.delete(this.record.id);
+        }
+    };
+
+    private path(file: FileAsync | string): string {
+        if (this.ended) throw new Error("The transaction has already ended.");
+        return typeof file === "string" ? this.journal.context.fileAsync(file).fullPath : file.fullPath;
+    };
+}
+
+/**
+ * Runs the function of a transaction and commits its changes, or drops them if it throws.
+ * A function returning a promise makes the whole transaction asynchronous.
+ */
+export function runTransactionSync<T>(journal: FileSync, fn: (tx: TransactionSync) => T): T | null | Promise<Awaited<T> | null> {
+    let tx: TransactionSync;
+    try {
+        tx = new TransactionSync(journal);
+    } catch (e) {
+        if (journal.context.throwErrors) throw KtFileError.from(e);
+        return null;
+    }
+    const end = (succeeded: boolean): boolean => {
+        try {
+            tx.end(succeeded);
+            return true;
+        } catch (e) {
+            if (journal.context.throwErrors) throw KtFileError.from(e);
+            return false;
+        }
+    };
+    let result: T;
+    try {
+        result = fn(tx);
+    } catch (e) {
+        end(false);
+        throw e;
+    }
+    if (result instanceof Promise) {
+        return result.then(value => end(true) ? value : null, e => {
+            end(false);
+            throw e;
+        });
+    }
+    return end(true) ? result : null;
+}
+
+export async function runTransaction<T>(journal: FileAsync, fn: (tx: TransactionAsync) => T | Promise<T>): Promise<T | null> {
+    const tx = new TransactionAsync(journal);
+    const end = async (succeeded: boolean): Promise<boolean> => {
+        try {
+            await tx.end(succeeded);
+            return true;
+        } catch (e) {
+            if (journal.context.throwErrors) throw KtFileError.from(e);
+            return false;
+        }
+    };
+    try {
+        await tx.begin();
+    } catch (e) {
+        await end(false);
+        if (journal.context.throwErrors) throw KtFileError.from(e);
+        return null;
+    }
+    let result: T;
+    try {
+        result = await fn(tx);
+    } catch (e) {
+        await end(false);
+        throw e;
+    }
+    return await end(true) ? result : null;
+}
+
+/**
+ * Finishes or undoes the transactions in a journal that were interrupted, leaving the ones still running alone.
+ */
+export function recoverTransactionsSync(journal: FileSync, finish: boolean): TransactionRecovery[] {
+    const recovered: TransactionRecovery[] = [];
+    const names = existsSync(journal, journal.fullPath) ? journal.fs.readdirSync(journal.fullPath) : [];
+    for (const name of names) {
+        const dir = journal.to(name);
+        let content: string | null = null;
+        try {
+            content = journal.fs.readFileSync(dir.to(RECORD).fullPath, "utf8") as string;
+        } catch {
+        }
+        // a transaction without a readable journal never started committing
+        const record = parseRecord(content) ?? {...createRecord(), id: name};
+        if (content !== null && isRunning(record)) continue;
+        if (record.state === "committing" && finish) {
+            for (let i = Math.max(record.step, 0); i < record.steps.length; i++) {
+                record.step = i;
+                saveRecordSync(dir, record);
+                applyStepSync(dir, record.steps[i], i);
+            }
+        } else if (record.state === "committing" || record.state === "rolling-back") {
+            record.state = "rolling-back";
+            saveRecordSync(dir, record);
+            for (let i = record.step; i >= 0; i--) undoStepSync(dir, record.steps[i], i);
+        }
+        removeSync(dir);
+        recovered.push({id: name, action: recoveryAction(record, finish)});
+    }
+    return recovered;
+}
+
+export async function recoverTransactions(journal: FileAsync, finish: boolean): Promise<TransactionRecovery[]> {
+    const recovered: TransactionRecovery[] = [];
+    const names = await exists(journal, journal.fullPath) ? await journal.fs.readdir(journal.fullPath) : [];
+    for (const name of names) {
+        const dir = journal.to(name);
+        let content: string | null = null;
+        try {
+            content = await journal.fs.readFile(dir.to(RECORD).fullPath, "utf8") as string;
+        } catch {
+        }
+        // a transaction without a readable journal never started committing
+        const record = parseRecord(content) ?? {...createRecord(), id: name};
+        if (content !== null && isRunning(record)) continue;
+        if (record.state === "committing" && finish) {
+            for (let i = Math.max(record.step, 0); i < record.steps.length; i++) {
+                record.step = i;
+                await saveRecord(dir, record);
+                await applyStep(dir, record.steps[i], i);
+            }
+        } else if (record.state === "committing" || record.state === "rolling-back") {
+            record.state = "rolling-back";
+            await saveRecord(dir, record);
+            for (let i = record.step; i >= 0; i--) await undoStep(dir, record.steps[i], i);
+        }
+        await remove(dir);
+        recovered.push({id: name, action: recoveryAction(record, finish)});
+    }
+    return recovered;
+}
+
+function recoveryAction(record: JournalRecord, finish: boolean): TransactionRecovery["action"] {
+    if (record.state === "committed" || record.state === "committing" && finish) return "finished";
+    return record.state === "staging" ? "discarded" : "rolled back";
+}
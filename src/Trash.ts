@@ -0,0 +1,378 @@
+import type {FileSync} from "./sync/FileSync";
+import type {FileAsync} from "./async/FileAsync";
+import {KtFileError} from "./KtFileError";
+
+export type TrashOptions<F> = {
+    /**
+     * The home trash, which takes the files of the file system it is on. Files on other file systems go to the
+     * trash at the top of their mount, `.Trash/$uid` or `.Trash-$uid`. Defaults to `$XDG_DATA_HOME/Trash`, or
+     * `~/.local/share/Trash` without `XDG_DATA_HOME`.
+     */
+    trash?: F | string;
+};
+
+/**
+ * A file or directory in a trash, see `FileSync.listTrash`.
+ */
+export type TrashItem<F> = {
+    /**
+     * The name of the item in the trash, unique within it.
+     */
+    name: string;
+    /**
+     * The full path the item was trashed from, where restoring puts it back.
+     */
+    path: string;
+    /**
+     * When the item was trashed, to the second.
+     */
+    deleted: Date;
+    /**
+     * The item in the `files` directory of the trash.
+     */
+    file: F;
+    /**
+     * The trash holding the item.
+     */
+    trash: F;
+};
+
+const INFO = ".trashinfo";
+
+/*
+ * A trash follows the freedesktop.org Trash specification: the trashed items are in its `files` directory and
+ * for each one `info` has a `.trashinfo` file with the path it came from and when it was trashed.
+ */
+
+/**
+ * The home trash of the user, `$XDG_DATA_HOME/Trash` or `~/.local/share/Trash`.
+ */
+export function homeTrash(): string {
+    const env = typeof process !== "undefined" ? process.env : {};
+    if (env.XDG_DATA_HOME?.startsWith("/")) return env.XDG_DATA_HOME.replace(/\/$/, "") + "/Trash";
+    if (env.HOME) return env.HOME.replace(/\/$/, "") + "/.local/share/Trash";
+    throw new KtFileError("ENOENT", "trash", undefined, {message: "ENOENT: neither XDG_DATA_HOME nor HOME is set"});
+}
+
+function uid(): number {
+    return typeof process !== "undefined" && typeof process.getuid === "function" ? process.getuid() : 0;
+}
+
+function formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+        + `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function formatInfo(path: string, sep: string, deleted: Date): string {
+    const encoded = path.split(sep).map(encodeURIComponent).join("/");
+    return `[Trash Info]\nPath=${encoded}\nDeletionDate=${formatDate(deleted)}\n`;
+}
+
+function parseInfo(content: string): { path: string, deleted: Date } | null {
+    const lines = content.split(/\r?\n/).map(line => line.trim());
+    const start = lines.indexOf("[Trash Info]");
+    if (start === -1) return null;
+    const values: Record<string, string> = {};
+    for (const line of lines.slice(start + 1)) {
+        if (line.startsWith("[")) break;
+        const eq = line.indexOf("=");
+        if (eq > 0) values[line.slice(0, eq).trim()] ??= line.slice(eq + 1).trim();
+    }
+    if (!values.Path) return null;
+    try {
+        // without a time zone the date is read as local time, which is what the specification asks for
+        return {path: decodeURIComponent(values.Path), deleted: new Date(values.DeletionDate ?? NaN)};
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The name of the n-th item trashed under the same name, like "notes.2.txt".
+ */
+function trashName(name: string, n: number): string {
+    if (n === 1) return name;
+    const dot = name.lastIndexOf(".");
+    return dot > 0 ? `${name.slice(0, dot)}.${n}${name.slice(dot)}` : `${name}.${n}`;
+}
+
+/**
+ * The directory relative paths in the info files of a trash start from, the top of the mount for mount trashes.
+ */
+function trashTop<F extends FileSync | FileAsync>(trash: F): F {
+    if (/^\.Trash-\d+$/.test(trash.name)) return trash.parent as F;
+    if (trash.parent?.name === ".Trash") return trash.parent.parent as F;
+    return (trash.parent ?? trash) as F;
+}
+
+function trashItem<F extends FileSync | FileAsync>(trash: F, name: string, path: string, deleted: Date): TrashItem<F> {
+    const flavor = trash.context.flavor;
+    return {
+        name,
+        path: flavor.resolve(trashTop(trash).fullPath, path),
+        deleted,
+        file: trash.to("files", name) as F,
+        trash
+    };
+}
+
+function existsSync(file: FileSync): boolean {
+    try {
+        file.fs.lstatSync(file.fullPath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function deviceSync(file: FileSync): number | undefined {
+    try {
+        return file.fs.statSync(file.fullPath).dev;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * The trash of a mount, `.Trash/$uid` when the administrator created a sticky `.Trash` at its top,
+ * `.Trash-$uid` otherwise.
+ */
+function mountTrashSync(top: FileSync): FileSync {
+    const shared = top.to(".Trash");
+    try {
+        const stat = top.fs.lstatSync(shared.fullPath);
+        if (stat.isDirectory?.() && !stat.isSymbolicLink() && ((stat.mode ?? 0) & 0o1000) !== 0) {
+            const own = shared.to(String(uid()));
+            top.fs.mkdirSync(own.fullPath, {recursive: true, mode: 0o700});
+            return own;
+        }
+    } catch {
+    }
+    return top.to(`.Trash-${uid()}`);
+}
+
+/**
+ * Picks the trash for a file: the home trash if the file is on its file system, the trash of the file's
+ * mount otherwise.
+ */
+function trashForSync(file: FileSync, home: FileSync): FileSync {
+    const parent = file.parent ?? file;
+    const device = deviceSync(parent);
+    // the home trash may not exist yet, the nearest existing directory above it is on the same file system
+    let existing: FileSync | null = home;
+    while (existing && deviceSync(existing) === undefined) existing = existing.parent;
+    if (device === undefined || !existing || deviceSync(existing) === device) return home;
+    let top = parent;
+    while (top.parent && deviceSync(top.parent) === device) top = top.parent;
+    return mountTrashSync(top);
+}
+
+export function moveToTrashSync(file: FileSync, home: FileSync): TrashItem<FileSync> {
+    const fs = file.fs;
+    fs.lstatSync(file.fullPath);
+    if (file.fullPath === home.fullPath || file.contains(home) || home.contains(file)) {
+        throw new KtFileError("EINVAL", "rename", file.fullPath, {dest: home.fullPath});
+    }
+    const trash = trashForSync(file, home);
+    const files = trash.to("files");
+    const info = trash.to("info");
+    fs.mkdirSync(files.fullPath, {recursive: true, mode: 0o700});
+    fs.mkdirSync(info.fullPath, {recursive: true, mode: 0o700});
+    const top = trash === home ? null : trashTop(trash);
+    const deleted = new Date(Math.floor(Date.now() / 1000) * 1000);
+    const content = formatInfo(top ? file.relativeTo(top) : file.fullPath, file.context.sep, deleted);
+    for (let n = 1; ; n++) {
+        const name = trashName(file.name, n);
+        if (existsSync(files.to(name))) continue;
+        // creating the info file exclusively claims the name
+        try {
+            fs.writeFileSync(info.to(name + INFO).fullPath, content, {encoding: "utf8", mode: 0o600, flag: "wx"});
+        } catch (e) {
+            if ((e as { code?: string }).code === "EEXIST") continue;
+            throw e;
+        }
+        try {
+            fs.renameSync(file.fullPath, files.to(name).fullPath);
+        } catch (e) {
+            try {
+                fs.unlinkSync(info.to(name + INFO).fullPath);
+            } catch {
+            }
+            throw e;
+        }
+        return trashItem(trash, name, file.fullPath, deleted);
+    }
+}
+
+export function listTrashSync(trash: FileSync): TrashItem<FileSync>[] {
+    const info = trash.to("info");
+    if (!existsSync(info)) return [];
+    const items: TrashItem<FileSync>[] = [];
+    for (const entry of trash.fs.readdirSync(info.fullPath)) {
+        if (!entry.endsWith(INFO)) continue;
+        const name = entry.slice(0, -INFO.length);
+        // info files whose item is gone are left over from an interrupted operation
+        if (!existsSync(trash.to("files", name))) continue;
+        let parsed: ReturnType<typeof parseInfo> = null;
+        try {
+            parsed = parseInfo(trash.fs.readFileSync(info.to(entry).fullPath, "utf8") as string);
+        } catch {
+        }
+        if (parsed) items.push(trashItem(trash, name, parsed.path, parsed.deleted));
+    }
+    return items;
+}
+
+export function restoreSync(item: TrashItem<FileSync>, overwrite: boolean): FileSync {
+    const fs = item.trash.fs;
+    const target = item.trash.context.file(item.path);
+    fs.lstatSync(item.file.fullPath);
+    if (existsSync(target)) {
+        if (!overwrite) throw new KtFileError("EEXIST", "rename", item.file.fullPath, {dest: target.fullPath});
+        target.throwing.delete(true);
+    }
+    fs.mkdirSync(item.trash.context.flavor.dirname(target.fullPath), {recursive: true});
+    fs.renameSync(item.file.fullPath, target.fullPath);
+    try {
+        fs.unlinkSync(item.trash.to("info", item.name + INFO).fullPath);
+    } catch {
+    }
+    return target;
+}
+
+export function emptyTrashSync(trash: FileSync) {
+    // the items go first, so an item that cannot be deleted keeps its info
+    for (const dir of [trash.to("files"), trash.to("info")]) {
+        if (!existsSync(dir)) continue;
+        for (const name of trash.fs.readdirSync(dir.fullPath)) dir.to(name).throwing.delete(true);
+    }
+    const sizes = trash.to("directorysizes");
+    if (existsSync(sizes)) trash.fs.unlinkSync(sizes.fullPath);
+}
+
+async function exists(file: FileAsync): Promise<boolean> {
+    try {
+        await file.fs.lstat(file.fullPath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function device(file: FileAsync): Promise<number | undefined> {
+    try {
+        return (await file.fs.stat(file.fullPath)).dev;
+    } catch {
+        return undefined;
+    }
+}
+
+async function mountTrash(top: FileAsync): Promise<FileAsync> {
+    const shared = top.to(".Trash");
+    try {
+        const stat = await top.fs.lstat(shared.fullPath);
+        if (stat.isDirectory?.() && !stat.isSymbolicLink() && ((stat.mode ?? 0) & 0o1000) !== 0) {
+            const own = shared.to(String(uid()));
+            await top.fs.mkdir(own.fullPath, {recursive: true, mode: 0o700});
+            return own;
+        }
+    } catch {
+    }
+    return top.to(`.Trash-${uid()}`);
+}
+
+async function trashFor(file: FileAsync, home: FileAsync): Promise<FileAsync> {
+    const parent = file.parent ?? file;
+    const dev = await device(parent);
+    // the home trash may not exist yet, the nearest existing directory above it is on the same file system
+    let existing: FileAsync | null = home;
+    while (existing && await device(existing) === undefined) existing = existing.parent;
+    if (dev === undefined || !existing || await device(existing) === dev) return home;
+    let top = parent;
+    while (top.parent && await device(top.parent) === dev) top = top.parent;
+    return mountTrash(top);
+}
+
+export async function moveToTrash(file: FileAsync, home: FileAsync): Promise<TrashItem<FileAsync>> {
+    const fs = file.fs;
+    await fs.lstat(file.fullPath);
+    if (file.fullPath === home.fullPath || file.contains(home) || home.contains(file)) {
+        throw new KtFileError("EINVAL", "rename", file.fullPath, {dest: home.fullPath});
+    }
+    const trash = await trashFor(file, home);
+    const files = trash.to("files");
+    const info = trash.to("info");
+    await fs.mkdir(files.fullPath, {recursive: true, mode: 0o700});
+    await fs.mkdir(info.fullPath, {recursive: true, mode: 0o700});
+    const top = trash === home ? null : trashTop(trash);
+    const deleted = new Date(Math.floor(Date.now() / 1000) * 1000);
+    const content = formatInfo(top ? file.relativeTo(top) : file.fullPath, file.context.sep, deleted);
+    for (let n = 1; ; n++) {
+        const name = trashName(file.name, n);
+        if (await exists(files.to(name))) continue;
+        // creating the info file exclusively claims the name
+        try {
+            await fs.writeFile(info.to(name + INFO).fullPath, content, {encoding: "utf8", mode: 0o600, flag: "wx"});
+        } catch (e) {
+            if ((e as { code?: string }).code === "EEXIST") continue;
+            throw e;
+        }
+        try {
+            await fs.rename(file.fullPath, files.to(name).fullPath);
+        } catch (e) {
+            try {
+                await fs.unlink(info.to(name + INFO).fullPath);
+            } catch {
+            }
+            throw e;
+        }
+        return trashItem(trash, name, file.fullPath, deleted);
+    }
+}
+
+export async function listTrash(trash: FileAsync): Promise<TrashItem<FileAsync>[]> {
+    const info = trash.to("info");
+    if (!await exists(info)) return [];
+    const items: TrashItem<FileAsync>[] = [];
+    for (const entry of await trash.fs.readdir(info.fullPath)) {
+        if (!entry.endsWith(INFO)) continue;
+        const name = entry.slice(0, -INFO.length);
+        // info files whose item is gone are left over from an interrupted operation
+        if (!await exists(trash.to("files", name))) continue;
+        let parsed: ReturnType<typeof parseInfo> = null;
+        try {
+            parsed = parseInfo(await trash.fs.readFile(info.to(entry).fullPath, "utf8") as string);
+        } catch {
+        }
+        if (parsed) items.push(trashItem(trash, name, parsed.path, parsed.deleted));
+    }
+    return items;
+}
+
+export async function restore(item: TrashItem<FileAsync>, overwrite: boolean): Promise<FileAsync> {
+    const fs = item.trash.fs;
+    const target = item.trash.context.fileAsync(item.path);
+    await fs.lstat(item.file.fullPath);
+    if (await exists(target)) {
+        if (!overwrite) throw new KtFileError("EEXIST", "rename", item.file.fullPath, {dest: target.fullPath});
+        await target.throwing.delete(true);
+    }
+    await fs.mkdir(item.trash.context.flavor.dirname(target.fullPath), {recursive: true});
+    await fs.rename(item.file.fullPath, target.fullPath);
+    try {
+        await fs.unlink(item.trash.to("info", item.name + INFO).fullPath);
+    } catch {
+    }
+    return target;
+}
+
+export async function emptyTrash(trash: FileAsync) {
+    // the items go first, so an item that cannot be deleted keeps its info
+    for (const dir of [trash.to("files"), trash.to("info")]) {
+        if (!await exists(dir)) continue;
+        for (const name of await trash.fs.readdir(dir.fullPath)) await dir.to(name).throwing.delete(true);
+    }
+    const sizes = trash.to("directorysizes");
+    if (await exists(sizes)) await trash.fs.unlink(sizes.fullPath);
+}
@@ -1,30 +1,21 @@
-import {FileSync} from "./sync/FileSync";
+import type {FileSync} from "./sync/FileSync";
+import {win32} from "./Path";
 
 let cwd: string[] = [];
 if (typeof process !== "undefined" && "cwd" in process && typeof process.cwd === "function") {
     cwd = splitPath(process.cwd());
 }
 
+/**
+ * Splits a path into segments, resolved against the segments of a working directory. Both separators are
+ * accepted, and Windows drives and UNC shares are kept as the first segment. Files split their paths by the
+ * rules of one platform instead, see {@link FileSystem.flavor}.
+ */
 export function splitPath(path: string, cd = cwd): string[] {
-    if (path[0] === "/" || path[0] === "\\") {
-        cd = [];
-        path = path.slice(1);
-    } else if (/^[a-zA-Z]:\\/.test(path)) {
-        cd = [path.slice(0, 2)];
-        path = path.slice(3);
-    } else cd = [...cd];
-    const parts = path.split(/[\\/]/g);
-    for (const part of parts) {
-        if (part === "..") {
-            cd.pop();
-        } else if (part !== "." && part !== "") {
-            cd.push(part);
-        }
-    }
-    return cd;
+    return win32.split(path, cd);
 }
 
-export const deleteQueue = new Map<string, boolean>();
+export const deleteQueue = new Map<string, [FileSync, boolean]>();
 
 type BaseType = {
     on: (...args: unknown[]) => void,
@@ -40,7 +31,7 @@ function addLast(base: BaseType, event: string, listener: (...args: unknown[]) =
 }
 
 export function cleanup() {
-    for (const [file, recursive] of deleteQueue.entries()) new FileSync(file).delete(recursive);
+    for (const [file, recursive] of deleteQueue.values()) file.delete(recursive);
     deleteQueue.clear();
     if (typeof process !== "undefined") {
         process.off("SIGINT", sigint);
@@ -103,4 +94,12 @@ export function getSizeFormat(bytes: number): [number, string] {
 export function formatSize(bytes: number, decimals = 2) {
     const [size, unit] = getSizeFormat(bytes);
     return size.toFixed(decimals) + " " + unit;
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a key of a parsed or set value could reach the prototype of the object holding it, which config
+ * values refuse so that reading a file or setting a path cannot change `Object.prototype`.
+ */
+export function isUnsafeKey(key: string) {
+    return key === "__proto__" || key === "constructor" || key === "prototype";
+}
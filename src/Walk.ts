@@ -0,0 +1,92 @@
+import type {FileStat} from "./Stat";
+
+/**
+ * An entry yielded while walking a directory tree.
+ */
+export type WalkEntry<F> = {
+    /**
+     * The file or directory.
+     */
+    file: F;
+    /**
+     * The depth of the entry, the directory the walk started from has a depth of 0.
+     */
+    depth: number;
+    /**
+     * The path of the entry relative to the directory the walk started from, joined with `/`.
+     * The starting directory itself has an empty path.
+     */
+    path: string;
+    /**
+     * Whether the entry is a directory, following symbolic links.
+     */
+    isDirectory: boolean;
+    /**
+     * Whether the entry itself is a symbolic link.
+     */
+    isSymbolicLink: boolean;
+    /**
+     * With `stats`, the stat snapshot of the entry following symbolic links, which its file also answers from.
+     * Missing for links whose target does not exist.
+     */
+    stat?: FileStat;
+};
+
+/**
+ * How symbolic links are treated. "follow" acts on what a link points to, as if it were in the link's place.
+ * "preserve" acts on the link itself, leaving its target alone. "skip" leaves links out.
+ */
+export type LinkPolicy = "follow" | "preserve" | "skip";
+
+export type WalkOptions<F, R = boolean> = {
+    /**
+     * Entries deeper than this are neither yielded nor listed. Defaults to no limit.
+     */
+    maxDepth?: number;
+    /**
+     * Entries shallower than this are not yielded, but still descended into. Defaults to 0.
+     */
+    minDepth?: number;
+    /**
+     * Decides whether an entry is yielded. It does not affect descending into directories.
+     */
+    filter?: (entry: WalkEntry<F>) => R;
+    /**
+     * Decides whether a directory is descended into, return false to prune its whole subtree.
+     */
+    descend?: (entry: WalkEntry<F>) => R;
+    /**
+     * Which kinds of entries are yielded. Defaults to "all".
+     */
+    type?: "all" | "files" | "directories";
+    /**
+     * The traversal order. "pre" yields directories before their contents (depth first),
+     * "post" yields them after their contents, which is the safe order for deleting, and "breadth"
+     * yields the tree level by level. Defaults to "pre".
+     */
+    order?: "pre" | "post" | "breadth";
+    /**
+     * Whether to descend into symbolically linked directories. Directories that were already visited are never
+     * descended into again, so cycles are safe. Defaults to false.
+     */
+    followSymlinks?: boolean;
+    /**
+     * How links below the starting directory are treated: "follow" descends into linked directories like
+     * `followSymlinks`, "preserve" yields links without descending, and "skip" neither yields nor descends into
+     * them. Takes precedence over `followSymlinks`, defaults to "follow" if that is set and to "preserve" otherwise.
+     */
+    links?: LinkPolicy;
+    /**
+     * Whether to take a stat snapshot of every entry, see {@link WalkEntry.stat}. Without it, backends listing
+     * directories with `withFileTypes` spare the calls for entries that are neither links nor of an unknown type.
+     */
+    stats?: boolean;
+};
+
+export function walkPath(parent: string, name: string): string {
+    return parent === "" ? name : parent + "/" + name;
+}
+
+export function walkKey(stat: { dev?: number, ino?: number } | null, fullPath: string): string {
+    return stat && typeof stat.ino === "number" && stat.ino !== 0 ? `${stat.dev ?? 0}:${stat.ino}` : fullPath;
+}
@@ -0,0 +1,369 @@
+import type {FileAsync} from "./async/FileAsync";
+import {Emitter} from "./Emitter";
+import {Glob} from "./Glob";
+import {walkPath} from "./Walk";
+
+export type WatchEventType = "created" | "modified" | "deleted" | "renamed";
+
+export type WatchEvent<F> = {
+    type: WatchEventType;
+    /**
+     * The file the event is about. For "renamed" events it is the new location.
+     */
+    file: F;
+    /**
+     * The path of the file relative to the watched directory, joined with `/`.
+     * It is an empty string when a single file is watched.
+     */
+    path: string;
+    /**
+     * Whether the file is a directory.
+     */
+    isDirectory: boolean;
+    /**
+     * The previous location of a renamed file.
+     */
+    oldFile?: F;
+    /**
+     * The previous relative path of a renamed file.
+     */
+    oldPath?: string;
+};
+
+export type WatchOptions = {
+    /**
+     * Whether to watch the whole tree below a directory instead of only its direct children. Defaults to true.
+     */
+    recursive?: boolean;
+    /**
+     * How long to wait for the file system to settle before reporting changes, in milliseconds.
+     * Changes happening within this window are coalesced. Defaults to 50.
+     */
+    debounce?: number;
+    /**
+     * Glob patterns the relative paths of reported files have to match.
+     */
+    glob?: string | string[];
+    /**
+     * Glob patterns of relative paths that are neither reported nor scanned.
+     */
+    ignore?: string | string[];
+    /**
+     * Stops watching when the signal is aborted.
+     */
+    signal?: AbortSignal;
+    /**
+     * Forces polling even if the backend supports native watching. A number sets the polling interval.
+     * Defaults to false, polling is only used if native watching is not available. The default interval is 1000ms.
+     * The polling timer does not keep the process alive on its own.
+     */
+    poll?: boolean | number;
+};
+
+type WatcherEvents<F> = {
+    change: [WatchEvent<F>];
+    created: [WatchEvent<F>];
+    modified: [WatchEvent<F>];
+    deleted: [WatchEvent<F>];
+    renamed: [WatchEvent<F>];
+    ready: [];
+    error: [unknown];
+    close: [];
+};
+
+type SnapshotEntry = {
+    file: FileAsync;
+    isDirectory: boolean;
+    size: number;
+    mtime: number;
+    ino: number;
+};
+
+type Snapshot = Map<string, SnapshotEntry>;
+
+type NativeWatcher = {
+    close(): void;
+    on?(event: string, listener: (...args: unknown[]) => void): unknown;
+};
+
+/**
+ * @description Watches a file or a directory tree and reports typed change events.
+ * Changes are detected by comparing snapshots of the tree built from stat calls. If the backend has a native
+ * `watch` call, it tells which paths to scan again, otherwise the whole tree is polled.
+ * Events can be consumed as an event emitter (`change` and one event per type) or as an async iterable.
+ * Leaving a `for await` loop closes the watcher.
+ * @example
+ * const watcher = dir.watch({glob: "**\/*.ts", debounce: 100});
+ * watcher.on("created", event => console.log("Created", event.path));
+ * for await (const event of watcher) {
+ *     console.log(event.type, event.path);
+ * }
+ */
+export class Watcher<F> extends Emitter<WatcherEvents<F>> implements AsyncIterable<WatchEvent<F>> {
+    /**
+     * Resolves once the initial snapshot was taken, changes before that are not reported.
+     */
+    readonly ready: Promise<void>;
+
+    private snapshot: Snapshot = new Map();
+    private closed = false;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private interval: ReturnType<typeof setInterval> | null = null;
+    private native: NativeWatcher | null = null;
+    private scanning: Promise<void> | null = null;
+    private rescan = false;
+    // the paths reported by native watching since the last snapshot, null if the whole tree has to be scanned
+    private dirty: Set<string> | null = new Set();
+    private readonly glob: Glob | null;
+    private readonly ignore: Glob | null;
+    private readonly abort = () => this.close();
+
+    constructor(
+        private readonly root: FileAsync,
+        private readonly wrap: (file: FileAsync) => F,
+        private readonly options: WatchOptions = {}
+    ) {
+        super();
+        this.glob = options.glob ? new Glob(options.glob, {dot: true}) : null;
+        const ignore = typeof options.ignore === "string" ? [options.ignore] : options.ignore ?? [];
+        this.ignore = ignore.length > 0 ? new Glob(ignore, {dot: true}) : null;
+        if (options.signal?.aborted) {
+            this.closed = true;
+            this.ready = Promise.resolve();
+            return;
+        }
+        options.signal?.addEventListener("abort", this.abort);
+        this.ready = this.scan().then(snapshot => {
+            this.snapshot = snapshot;
+            if (this.closed) return;
+            this.start();
+            this.emit("ready");
+        }, error => {
+            this.emit("error", error);
+        });
+    };
+
+    /**
+     * @description Whether the watcher was closed.
+     * @returns {boolean} True if the watcher no longer reports changes.
+     */
+    get isClosed(): boolean {
+        return this.closed;
+    };
+
+    /**
+     * @description Whether changes are detected by polling instead of native watching.
+     * @returns {boolean} True if the tree is polled.
+     */
+    get isPolling(): boolean {
+        return this.interval !== null;
+    };
+
+    /**
+     * @description Stops watching. Pending async iterations end and the `close` event is emitted.
+     * @returns {void}
+     */
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.options.signal?.removeEventListener("abort", this.abort);
+        if (this.timer !== null) clearTimeout(this.timer);
+        if (this.interval !== null) clearInterval(this.interval);
+        this.timer = this.interval = null;
+        try {
+            this.native?.close();
+        } catch {
+        }
+        this.native = null;
+        this.emit("close");
+    };
+
+    [Symbol.asyncIterator](): AsyncIterator<WatchEvent<F>> {
+        const queue: WatchEvent<F>[] = [];
+        let wake: (() => void) | null = null;
+        const onChange = (event: WatchEvent<F>) => {
+            queue.push(event);
+            wake?.();
+        };
+        const onClose = () => wake?.();
+        this.on("change", onChange);
+        this.on("close", onClose);
+        const finish = (): IteratorResult<WatchEvent<F>> => {
+            this.off("change", onChange);
+            this.off("close", onClose);
+            this.close();
+            return {done: true, value: undefined};
+        };
+        return {
+            next: async () => {
+                while (queue.length === 0) {
+                    if (this.closed) return finish();
+                    await new Promise<void>(resolve => wake = resolve);
+                    wake = null;
+                }
+                return {done: false, value: queue.shift()};
+            },
+            return: async () => finish()
+        };
+    };
+
+    private start() {
+        const poll = this.options.poll;
+        if (!poll) {
+            const fs = this.root.sync.fs;
+            if (typeof fs.watch === "function") {
+                try {
+                    const native = fs.watch(this.root.fullPath, {
+                        recursive: this.options.recursive ?? true
+                    }, (_, filename) => this.schedule(filename));
+                    native.on?.("error", () => {
+                        try {
+                            native.close();
+                        } catch {
+                        }
+                        if (this.native === native) this.native = null;
+                        if (!this.closed) this.startPolling(1000);
+                    });
+                    this.native = native;
+                    return;
+                } catch {
+                }
+            }
+        }
+        this.startPolling(typeof poll === "number" ? poll : 1000);
+    };
+
+    private startPolling(interval: number) {
+        if (this.interval !== null) return;
+        this.interval = setInterval(() => this.update(true), interval);
+        (this.interval as { unref?(): void }).unref?.();
+    };
+
+    private schedule(filename?: string | null) {
+        if (this.closed) return;
+        const path = filename ? String(filename).split(/[\\/]+/).filter(part => part !== "").join("/") : "";
+        // a watched file reports its own name, which is the whole snapshot
+        if (path === "" || this.snapshot.has("")) this.dirty = null;
+        else this.dirty?.add(path);
+        if (this.timer !== null) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.update();
+        }, this.options.debounce ?? 50);
+    };
+
+    private update(full = false): Promise<void> {
+        if (full) this.dirty = null;
+        if (this.scanning) {
+            this.rescan = true;
+            return this.scanning;
+        }
+        this.scanning = (async () => {
+            do {
+                this.rescan = false;
+                const dirty = this.dirty;
+                this.dirty = new Set();
+                try {
+                    const snapshot = dirty ? await this.scanPaths(dirty) : await this.scan();
+                    if (this.closed) return;
+                    const previous = this.snapshot;
+                    this.snapshot = snapshot;
+                    for (const event of this.diff(previous, snapshot)) {
+                        this.emit("change", event);
+                        this.emit(event.type, event);
+                    }
+                } catch (e) {
+                    this.emit("error", e);
+                }
+            } while (this.rescan && !this.closed);
+        })().finally(() => this.scanning = null);
+        return this.scanning;
+    };
+
+    /**
+     * Takes a new snapshot in which only the given paths and everything below them are scanned again.
+     */
+    private async scanPaths(paths: Set<string>): Promise<Snapshot> {
+        const snapshot: Snapshot = new Map(this.snapshot);
+        const scanned: string[] = [];
+        for (const path of [...paths].sort()) {
+            if (scanned.some(parent => path.startsWith(parent + "/"))) continue;
+            const parts = path.split("/");
+            if (parts.some((_, i) => i > 0 && this.ignore?.matches(parts.slice(0, i).join("/"), true))) continue;
+            scanned.push(path);
+            for (const key of snapshot.keys()) {
+                if (key === path || key.startsWith(path + "/")) snapshot.delete(key);
+            }
+            for (const [key, entry] of await this.scan(path)) snapshot.set(key, entry);
+        }
+        return snapshot;
+    };
+
+    /**
+     * Scans the tree below the given relative path, the whole tree by default.
+     */
+    private async scan(path: string = ""): Promise<Snapshot> {
+        const snapshot: Snapshot = new Map();
+        const depth = path === "" ? 0 : path.split("/").length;
+        const maxDepth = this.options.recursive ?? true ? Infinity : 1 - depth;
+        if (maxDepth < 0) return snapshot;
+        const entries = (path === "" ? this.root : this.root.to(...path.split("/"))).walkEntries({
+            maxDepth,
+            descend: entry => !this.ignore?.matches(walkPath(path, entry.path), true),
+            filter: entry => entry.depth > 0 || path !== "" || !entry.isDirectory
+        });
+        for await (const entry of entries) {
+            const relative = entry.depth > 0 ? walkPath(path, entry.path) : path;
+            if (relative !== "" && this.ignore?.matches(relative, entry.isDirectory)) {
+                if (entry.depth === 0) break;
+                continue;
+            }
+            const stat = await entry.file.fs.stat(entry.file.fullPath).catch((): null => null);
+            if (!stat) continue;
+            snapshot.set(relative, {
+                file: entry.file,
+                isDirectory: entry.isDirectory,
+                size: stat.size ?? 0,
+                mtime: stat.mtime?.getTime() ?? 0,
+                ino: stat.ino ?? 0
+            });
+        }
+        return snapshot;
+    };
+
+    private diff(previous: Snapshot, current: Snapshot): WatchEvent<F>[] {
+        const created: [string, SnapshotEntry][] = [];
+        const deleted: [string, SnapshotEntry][] = [];
+        const events: WatchEvent<F>[] = [];
+        for (const [path, entry] of current) {
+            const old = previous.get(path);
+            if (!old || old.isDirectory !== entry.isDirectory) {
+                if (old) deleted.push([path, old]);
+                created.push([path, entry]);
+            } else if (!entry.isDirectory && (old.mtime !== entry.mtime || old.size !== entry.size)) {
+                events.push(this.event("modified", path, entry));
+            }
+        }
+        for (const [path, entry] of previous) {
+            if (!current.has(path)) deleted.push([path, entry]);
+        }
+        // A deletion and a creation of the same inode within one snapshot is a rename.
+        for (let i = 0; i < created.length; i++) {
+            const [path, entry] = created[i];
+            const index = entry.ino === 0 ? -1 : deleted.findIndex(([, old]) => old.ino === entry.ino
+                && old.isDirectory === entry.isDirectory);
+            if (index === -1) continue;
+            const [oldPath, old] = deleted.splice(index, 1)[0];
+            created.splice(i--, 1);
+            events.push({...this.event("renamed", path, entry), oldFile: this.wrap(old.file), oldPath});
+        }
+        for (const [path, entry] of created) events.push(this.event("created", path, entry));
+        for (const [path, entry] of deleted) events.push(this.event("deleted", path, entry));
+        return events.filter(event => !this.glob || this.glob.matches(event.path, event.isDirectory)
+            || (event.oldPath !== undefined && this.glob.matches(event.oldPath, event.isDirectory)));
+    };
+
+    private event(type: WatchEventType, path: string, entry: SnapshotEntry): WatchEvent<F> {
+        return {type, file: this.wrap(entry.file), path, isDirectory: entry.isDirectory};
+    };
+}
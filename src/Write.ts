@@ -0,0 +1,21 @@
+export type WriteOptions = {
+    /**
+     * The encoding of string data. Defaults to "utf8".
+     */
+    encoding?: BufferEncoding;
+    /**
+     * Whether to write the data to a temporary sibling file first, flush it and rename it over the target,
+     * so the target either keeps its old content or gets the complete new content. The mode of an existing target
+     * is kept, and a symbolic link stays in place while the file it points to is replaced. The directory is flushed
+     * after the rename where the backend can open directories. Defaults to false.
+     */
+    atomic?: boolean;
+};
+
+/**
+ * Gets the name of the temporary file an atomic write of the given file goes through.
+ * It lives in the same directory so the final rename never crosses devices.
+ */
+export function atomicTempName(name: string): string {
+    return `.${name}.${Math.random().toString(36).slice(2, 10)}.tmp`;
+}
@@ -0,0 +1,455 @@
+type Line = { indent: number, text: string, raw: string, number: number };
+
+const NULL = /^(~|null|Null|NULL)?$/;
+const BOOLEAN = /^(true|True|TRUE|false|False|FALSE)$/;
+const INTEGER = /^[-+]?(\d+|0o[0-7]+|0x[\da-fA-F]+)$/;
+const FLOAT = /^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$|^[-+]?\.(inf|Inf|INF)$|^\.(nan|NaN|NAN)$/;
+
+/**
+ * Resolves a plain scalar the way the YAML core schema does.
+ */
+function resolvePlain(text: string): unknown {
+    if (NULL.test(text)) return null;
+    if (BOOLEAN.test(text)) return text.toLowerCase() === "true";
+    if (INTEGER.test(text)) {
+        const sign = text.startsWith("-") ? -1 : 1;
+        const digits = text.replace(/^[-+]/, "");
+        if (digits.startsWith("0o")) return sign * parseInt(digits.slice(2), 8);
+        return sign * Number(digits);
+    }
+    if (FLOAT.test(text)) {
+        const lower = text.toLowerCase();
+        if (lower.endsWith(".nan")) return NaN;
+        if (lower.endsWith(".inf")) return lower.startsWith("-") ? -Infinity : Infinity;
+        return Number(text);
+    }
+    return text;
+}
+
+const ESCAPES: Record<string, string> = {
+    "0": "\0", a: "\x07", b: "\b", t: "\t", "\t": "\t", n: "\n", v: "\v", f: "\f", r: "\r", e: "\x1b", " ": " ",
+    "\"": "\"", "/": "/", "\\": "\\", N: "\x85", _: "\xa0", L: " ", P: " "
+};
+
+function unescapeDouble(text: string): string {
+    return text.replace(/\\(x[\da-fA-F]{2}|u[\da-fA-F]{4}|U[\da-fA-F]{8}|.)/g, (escape, code: string) => {
+        if (code.length > 1) return String.fromCodePoint(parseInt(code.slice(1), 16));
+        if (!(code in ESCAPES)) throw new SyntaxError(`Unknown escape ${escape}`);
+        return ESCAPES[code];
+    });
+}
+
+/**
+ * Finds where a quoted scalar starting at `start` ends, or -1.
+ */
+function closingQuote(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (quote === "\"" && text[i] === "\\") i++;
+        else if (text[i] === quote) {
+            if (quote === "'" && text[i + 1] === "'") i++;
+            else return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Removes a trailing comment, which starts with a `#` at the start of the line or after whitespace,
+ * outside quotes.
+ */
+function stripComment(text: string): string {
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if ((c === "\"" || c === "'") && (i === 0 || /[\s\[{,:-]/.test(text[i - 1]))) {
+            const end = closingQuote(text, i);
+            if (end === -1) return text;
+            i = end;
+        } else if (c === "#" && (i === 0 || /\s/.test(text[i - 1]))) return text.slice(0, i).trimEnd();
+    }
+    return text.trimEnd();
+}
+
+function quoted(text: string, line: number): string {
+    if (text.startsWith("'")) return text.slice(1, -1).replace(/''/g, "'");
+    try {
+        return unescapeDouble(text.slice(1, -1));
+    } catch (e) {
+        throw new SyntaxError(`${(e as Error).message} on line ${line}`);
+    }
+}
+
+/**
+ * Parses flow collections and scalars, like `[a, {b: 1}]`.
+ */
+class FlowParser {
+    private pos = 0;
+
+    constructor(private readonly text: string, private readonly line: number) {
+    };
+
+    parse(): unknown {
+        const value = this.value(false);
+        this.space();
+        if (this.pos < this.text.length) this.error(`Unexpected ${this.text[this.pos]}`);
+        return value;
+    };
+
+    private error(message: string): never {
+        throw new SyntaxError(`${message} on line ${this.line}`);
+    };
+
+    private space() {
+        while (/\s/.test(this.text[this.pos] ?? "")) this.pos++;
+    };
+
+    private value(inFlow: boolean): unknown {
+        this.space();
+        const c = this.text[this.pos];
+        if (c === "[") return this.sequence();
+        if (c === "{") return this.mapping();
+        if (c === "\"" || c === "'") {
+            const end = closingQuote(this.text, this.pos);
+            if (end === -1) this.error("Unterminated string");
+            const text = this.text.slice(this.pos, end + 1);
+            this.pos = end + 1;
+            return quoted(text, this.line);
+        }
+        if (c === "&" || c === "*" || c === "!") this.error("Anchors, aliases and tags are not supported");
+        const start = this.pos;
+        while (this.pos < this.text.length) {
+            const next = this.text[this.pos];
+            if (inFlow && (next === "," || next === "]" || next === "}")) break;
+            if (inFlow && next === ":" && /^[\s,\]}]?$/.test(this.text[this.pos + 1] ?? "")) break;
+            this.pos++;
+        }
+        return resolvePlain(this.text.slice(start, this.pos).trim());
+    };
+
+    private sequence(): unknown[] {
+        const result: unknown[] = [];
+        this.pos++;
+        for (; ;) {
+            this.space();
+            if (this.text[this.pos] === "]") break;
+            result.push(this.value(true));
+            this.space();
+            if (this.text[this.pos] === ",") this.pos++;
+            else if (this.text[this.pos] !== "]") this.error("Expected , or ]");
+        }
+        this.pos++;
+        return result;
+    };
+
+    private mapping(): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        this.pos++;
+        for (; ;) {
+            this.space();
+            if (this.text[this.pos] === "}") break;
+            const key = this.value(true);
+            this.space();
+            let value: unknown = null;
+            if (this.text[this.pos] === ":") {
+                this.pos++;
+                value = this.value(true);
+                this.space();
+            }
+            result[String(key)] = value;
+            if (this.text[this.pos] === ",") this.pos++;
+            else if (this.text[this.pos] !== "}") this.error("Expected , or }");
+        }
+        this.pos++;
+        return result;
+    };
+}
+
+/**
+ * Whether the brackets of a flow collection are closed, ignoring quoted text.
+ */
+function flowClosed(text: string): boolean {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === "\"" || c === "'") {
+            const end = closingQuote(text, i);
+            if (end === -1) return false;
+            i = end;
+        } else if (c === "[" || c === "{") depth++;
+        else if (c === "]" || c === "}") depth--;
+    }
+    return depth <= 0;
+}
+
+class BlockParser {
+    private readonly lines: Line[];
+    private index = 0;
+
+    constructor(text: string) {
+        // the line break ending the last line does not start another one
+        this.lines = text.replace(/\r?\n$/, "").split(/\r?\n/).map((raw, i) => {
+            const indent = raw.length - raw.replace(/^ +/, "").length;
+            return {indent, text: stripComment(raw.slice(indent)), raw, number: i + 1};
+        });
+    };
+
+    parse(): unknown {
+        this.skipBlank();
+        if (this.current?.text === "---") {
+            this.index++;
+            this.skipBlank();
+        }
+        const value = this.current && this.current.text !== "..." ? this.node(this.current.indent) : null;
+        this.skipBlank();
+        const rest = this.current;
+        if (rest && rest.text !== "...") {
+            this.error(rest, this.isDocumentMarker(rest) ? "Multiple documents are not supported" : "Unexpected content");
+        }
+        return value;
+    };
+
+    private get current(): Line | undefined {
+        return this.lines[this.index];
+    };
+
+    private error(line: Line, message: string): never {
+        throw new SyntaxError(`${message} on line ${line.number}`);
+    };
+
+    private skipBlank() {
+        while (this.current && (this.current.text === "" || this.current.text.startsWith("%"))) this.index++;
+        if (this.current?.text.startsWith("\t")) this.error(this.current, "Tabs cannot indent");
+    };
+
+    private isDocumentMarker(line: Line): boolean {
+        return line.indent === 0 && (line.text === "---" || line.text.startsWith("--- ") || line.text === "...");
+    };
+
+    private isEntry(text: string): boolean {
+        return text === "-" || text.startsWith("- ");
+    };
+
+    /**
+     * The position of the `:` separating the key of a mapping entry, or -1.
+     */
+    private keyEnd(text: string): number {
+        if (text.startsWith("[") || text.startsWith("{") || this.isEntry(text)) return -1;
+        let i = 0;
+        if (text.startsWith("\"") || text.startsWith("'")) {
+            const end = closingQuote(text, 0);
+            if (end === -1) return -1;
+            i = end + 1;
+        }
+        for (; i < text.length; i++) {
+            if (text[i] === ":" && (i + 1 === text.length || text[i + 1] === " ")) return i;
+        }
+        return -1;
+    };
+
+    private node(indent: number): unknown {
+        const line = this.current;
+        if (this.isEntry(line.text)) return this.sequence(line.indent);
+        if (this.keyEnd(line.text) !== -1) return this.mapping(line.indent);
+        if (line.text.startsWith("? ")) this.error(line, "Complex keys are not supported");
+        this.index++;
+        return this.inline(line.text, line, indent - 1);
+    };
+
+    private sequence(indent: number): unknown[] {
+        const result: unknown[] = [];
+        while (this.current && this.current.indent === indent && this.isEntry(this.current.text)) {
+            const line = this.current;
+            const rest = line.text.slice(1).trimStart();
+            if (rest === "") {
+                this.index++;
+                result.push(this.child(indent, false));
+                continue;
+            }
+            // a compact nested node, like `- key: value`, continues at the column of its content
+            line.indent += line.text.length - rest.length;
+            line.text = rest;
+            result.push(this.node(line.indent));
+            this.skipBlank();
+        }
+        if (this.current && this.current.indent > indent) this.error(this.current, "Unexpected indentation");
+        return result;
+    };
+
+    private mapping(indent: number): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        while (this.current && this.current.indent === indent && !this.isDocumentMarker(this.current)) {
+            const line = this.current;
+            const end = this.keyEnd(line.text);
+            if (end === -1) this.error(line, "Expected a key");
+            const rawKey = line.text.slice(0, end).trim();
+            if (/^[&*!]/.test(rawKey)) this.error(line, "Anchors, aliases and tags are not supported");
+            const key = rawKey.startsWith("\"") || rawKey.startsWith("'") ? quoted(rawKey, line.number) : rawKey;
+            if (Object.hasOwn(result, key)) this.error(line, `Duplicate key ${key}`);
+            const rest = line.text.slice(end + 1).trim();
+            this.index++;
+            result[key] = rest === "" ? this.child(indent, true) : this.inline(rest, line, indent);
+            this.skipBlank();
+        }
+        if (this.current && this.current.indent > indent) this.error(this.current, "Unexpected indentation");
+        return result;
+    };
+
+    /**
+     * Parses the node below an entry without inline content. Sequences may sit at the indentation
+     * of the key they belong to.
+     */
+    private child(indent: number, allowSameIndent: boolean): unknown {
+        this.skipBlank();
+        const next = this.current;
+        if (!next) return null;
+        if (next.indent > indent) return this.node(next.indent);
+        if (allowSameIndent && next.indent === indent && this.isEntry(next.text)) return this.sequence(indent);
+        return null;
+    };
+
+    /**
+     * Parses the content after a key or entry marker: a block scalar, a flow collection
+     * or a scalar, which may continue on more indented lines.
+     */
+    private inline(text: string, line: Line, indent: number): unknown {
+        if (/^[|>]/.test(text)) return this.blockScalar(text, line, indent);
+        if (/^[&*!]/.test(text)) this.error(line, "Anchors, aliases and tags are not supported");
+        let value = text;
+        if (text.startsWith("[") || text.startsWith("{")) {
+            while (!flowClosed(value) && this.current) value += " " + this.lines[this.index++].text;
+            return new FlowParser(value, line.number).parse();
+        }
+        const isQuoted = text.startsWith("\"") || text.startsWith("'");
+        while (this.current && (isQuoted ? closingQuote(value, 0) === -1 : this.current.indent > indent)) {
+            const next = this.lines[this.index++];
+            if (isQuoted) value += next.raw.trim() === "" ? "\n" : " " + next.raw.trim();
+            else if (next.text !== "") value += " " + next.text;
+            else value += "\n";
+        }
+        value = value.replace(/ ?\n ?/g, "\n");
+        if (!isQuoted) return resolvePlain(value.trim());
+        const end = closingQuote(value, 0);
+        if (end === -1) this.error(line, "Unterminated string");
+        if (value.slice(end + 1).trim() !== "") this.error(line, "Unexpected text after the string");
+        return quoted(value.slice(0, end + 1), line.number);
+    };
+
+    private blockScalar(header: string, line: Line, indent: number): string {
+        const match = /^([|>])([1-9]?)([-+]?)([1-9]?)$/.exec(header);
+        if (!match) this.error(line, "Invalid block scalar header");
+        const [, style, explicitA, chomping, explicitB] = match;
+        const explicit = Number(explicitA || explicitB) || 0;
+        const content: string[] = [];
+        let contentIndent = explicit ? indent + explicit : -1;
+        while (this.current) {
+            const raw = this.current.raw;
+            const blank = raw.trim() === "";
+            if (!blank) {
+                const lineIndent = raw.length - raw.trimStart().length;
+                if (contentIndent === -1) contentIndent = lineIndent;
+                if (lineIndent < contentIndent || lineIndent <= indent) break;
+            }
+            content.push(blank ? "" : raw.slice(contentIndent));
+            this.index++;
+        }
+        if (contentIndent === -1) contentIndent = indent + 1;
+        let trailing = 0;
+        while (content.length > 0 && content[content.length - 1].trim() === "") {
+            content.pop();
+            trailing++;
+        }
+        let body = "";
+        for (let i = 0; i < content.length; i++) {
+            if (i > 0) {
+                const previous = content[i - 1];
+                const folds = style === ">" && previous !== "" && !previous.startsWith(" ");
+                if (folds && content[i] !== "" && !content[i].startsWith(" ")) body += " ";
+                else if (!folds || content[i] !== "") body += "\n";
+            }
+            body += content[i];
+        }
+        if (content.length === 0) return chomping === "+" ? "\n".repeat(trailing) : "";
+        if (chomping === "-") return body;
+        return chomping === "+" ? body + "\n".repeat(trailing + 1) : body + "\n";
+    };
+}
+
+/**
+ * Parses the common subset of YAML used for configuration: block and flow collections,
+ * plain, quoted and block scalars, with the core schema for plain scalars.
+ */
+export function parseYaml(text: string): unknown {
+    return new BlockParser(text).parse();
+}
+
+/**
+ * Strings that older YAML 1.1 readers take for booleans or dates.
+ */
+const LEGACY = /^(y|Y|yes|Yes|YES|n|N|no|No|NO|on|On|ON|off|Off|OFF)$|^\d{4}-\d\d?-\d\d?/;
+
+function isPlainSafe(text: string): boolean {
+    return text !== "" && text === text.trim() && resolvePlain(text) === text && !LEGACY.test(text)
+        && !/^[-?:,\[\]{}#&*!|>'"%@`]/.test(text) && !/: |:$| #|[\x00-\x1f\x7f]/.test(text);
+}
+
+function scalar(value: unknown): string {
+    if (value === null || value === undefined) return "null";
+    if (typeof value === "number") {
+        if (Number.isNaN(value)) return ".nan";
+        if (!Number.isFinite(value)) return value > 0 ? ".inf" : "-.inf";
+        return String(value);
+    }
+    if (typeof value === "boolean") return String(value);
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return isPlainSafe(text) ? text : JSON.stringify(text);
+}
+
+function isMultiline(value: unknown): value is string {
+    return typeof value === "string" && value.includes("\n") && !/[\r\x00-\x08\x0b-\x1f]/.test(value)
+        && !value.startsWith(" ") && !value.startsWith("\n");
+}
+
+function blockScalar(value: string, indent: number): string {
+    const body = value.replace(/\n+$/, "");
+    const trailing = value.length - body.length;
+    const header = trailing === 0 ? "|-" : trailing === 1 ? "|" : "|+";
+    const pad = " ".repeat(indent);
+    const lines = (trailing > 1 ? value.slice(0, -1) : body).split("\n");
+    return header + "\n" + lines.map(line => line === "" ? "" : pad + line).join("\n");
+}
+
+function isCollection(value: unknown): value is object {
+    return typeof value === "object" && value !== null && !(value instanceof Date)
+        && Object.keys(value).length > 0;
+}
+
+function emit(value: unknown, indent: number): string {
+    const pad = " ".repeat(indent);
+    const lines: string[] = [];
+    const entry = (prefix: string, item: unknown) => {
+        if (isCollection(item)) {
+            // collections in sequences start on the line of their entry, like `- key: value`
+            const nested = emit(item, indent + 2);
+            lines.push(prefix === "-" ? pad + "- " + nested.slice(indent + 2) : pad + prefix + "\n" + nested);
+        } else if (isMultiline(item)) lines.push(pad + prefix + " " + blockScalar(item, indent + 2));
+        else if (Array.isArray(item)) lines.push(pad + prefix + " []");
+        else if (typeof item === "object" && item !== null && !(item instanceof Date)) lines.push(pad + prefix + " {}");
+        else lines.push(pad + prefix + " " + scalar(item));
+    };
+    if (Array.isArray(value)) for (const item of value) entry("-", item);
+    else for (const [key, item] of Object.entries(value as object)) {
+        if (item !== undefined) entry(scalar(key) + ":", item);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Writes a value as YAML in block style, quoting strings that would otherwise be read as something else.
+ */
+export function stringifyYaml(value: unknown): string {
+    if (isCollection(value)) return emit(value, 0) + "\n";
+    if (isMultiline(value)) return blockScalar(value, 0) + "\n";
+    if (Array.isArray(value)) return "[]\n";
+    if (typeof value === "object" && value !== null && !(value instanceof Date)) return "{}\n";
+    return scalar(value) + "\n";
+}
@@ -0,0 +1,829 @@
+import {KtFileError} from "./KtFileError";
+import {Glob} from "./Glob";
+import {
+    archivePath,
+    ChunkWriter,
+    ChunkWriterSync,
+    cleanPrefix,
+    collectEntries,
+    collectEntriesSync,
+    ExtractOptions,
+    extractTarget,
+    readChunks,
+    readChunksSync
+} from "./Archive";
+import {compress, compressChunks, compressChunksSync, compressSync} from "./Compression";
+import {concatChunks} from "./Lines";
+import type {FileSync} from "./sync/FileSync";
+import type {FileAsync} from "./async/FileAsync";
+
+export type ZipMethod = "store" | "deflate";
+
+export type ZipOptions = {
+    /**
+     * How file contents are stored. Files that deflate would not make smaller are stored anyway, judged by their
+     * first 64 KiB when they are longer. Defaults to "deflate".
+     */
+    method?: ZipMethod;
+    /**
+     * A directory path every entry is stored under, like `export-2024`.
+     */
+    prefix?: string;
+    /**
+     * Glob patterns of relative paths to leave out of directories, matched with dotfiles included.
+     */
+    ignore?: string | string[];
+    /**
+     * Whether to store what symbolic links point to instead of the links themselves. Defaults to false.
+     */
+    followSymlinks?: boolean;
+    /**
+     * Whether to write ZIP64 records even when the archive does not need them. They are written
+     * when sizes, offsets or the number of entries exceed the classic limits either way. Defaults to false.
+     */
+    zip64?: boolean;
+};
+
+export type ExtractZipOptions = ExtractOptions;
+
+/**
+ * What to put into an archive: a file or directory stored under its name, or stored under another path,
+ * or content given directly.
+ */
+export type ZipSource<F> = F | { path: string, file: F } | { path: string, data: string | Uint8Array };
+
+/**
+ * An entry listed in the central directory of a zip archive.
+ */
+export type ZipEntry = {
+    /**
+     * The path of the entry inside the archive, directories end with `/`.
+     */
+    path: string;
+    isDirectory: boolean;
+    isSymbolicLink: boolean;
+    /**
+     * The compression method, or its numeric id for methods that cannot be read.
+     */
+    method: ZipMethod | number;
+    /**
+     * The uncompressed size in bytes.
+     */
+    size: number;
+    compressedSize: number;
+    crc32: number;
+    mtime: Date;
+    /**
+     * The permission bits, when the archive was made on a unix system.
+     */
+    mode?: number;
+    /**
+     * Whether the entry is encrypted, encrypted entries cannot be read.
+     */
+    encrypted: boolean;
+    /**
+     * The offset of the entry's local header in the archive.
+     */
+    offset: number;
+};
+
+const LOCAL_HEADER = 0x04034B50;
+const CENTRAL_HEADER = 0x02014B50;
+const END_OF_DIRECTORY = 0x06054B50;
+const ZIP64_END_OF_DIRECTORY = 0x06064B50;
+const ZIP64_LOCATOR = 0x07064B50;
+const ZIP64_EXTRA = 0x0001;
+const TIMESTAMP_EXTRA = 0x5455;
+const UTF8_FLAG = 0x0800;
+const MAX_32 = 0xFFFFFFFF;
+const MAX_16 = 0xFFFF;
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+const S_IFREG = 0o100000;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Computes the CRC-32 of the data, continuing from the CRC of the data before it.
+ */
+export function crc32(data: Uint8Array, crc: number = 0): number {
+    crc = ~crc;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return ~crc >>> 0;
+}
+
+function view(data: Uint8Array): DataView {
+    return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function u64(data: DataView, offset: number): number {
+    return data.getUint32(offset, true) + data.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * Encodes little endian fields, each given as its value and byte length.
+ */
+function fields(...values: [number, 1 | 2 | 4 | 8][]): Uint8Array {
+    const data = new Uint8Array(values.reduce((sum, [, length]) => sum + length, 0));
+    const out = view(data);
+    let offset = 0;
+    for (const [value, length] of values) {
+        if (length === 1) out.setUint8(offset, value);
+        else if (length === 2) out.setUint16(offset, value, true);
+        else if (length === 4) out.setUint32(offset, value, true);
+        else {
+            out.setUint32(offset, value % 0x100000000, true);
+            out.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+        }
+        offset += length;
+    }
+    return data;
+}
+
+function toDosTime(date: Date): { time: number, date: number } {
+    if (date.getFullYear() < 1980) return {time: 0, date: (1 << 5) | 1};
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+function fromDosTime(time: number, date: number): Date {
+    return new Date(((date >> 9) & 0x7F) + 1980, ((date >> 5) & 0x0F) - 1, date & 0x1F,
+        (time >> 11) & 0x1F, (time >> 5) & 0x3F, (time & 0x1F) * 2);
+}
+
+type DirectoryLocation = { count: number, directoryOffset: number, directorySize: number };
+
+/**
+ * Finds the end of central directory record in the tail of an archive, which holds it followed by a comment
+ * of up to 65535 bytes.
+ */
+function findEnd(tail: Uint8Array, path: string): DirectoryLocation & { zip64Offset: number | null } {
+    const data = view(tail);
+    for (let i = tail.length - 22; i >= 0; i--) {
+        if (data.getUint32(i, true) !== END_OF_DIRECTORY) continue;
+        const locator = i - 20;
+        const zip64 = locator >= 0 && data.getUint32(locator, true) === ZIP64_LOCATOR;
+        return {
+            count: data.getUint16(i + 10, true),
+            directorySize: data.getUint32(i + 12, true),
+            directoryOffset: data.getUint32(i + 16, true),
+            zip64Offset: zip64 ? u64(data, locator + 8) : null
+        };
+    }
+    throw new KtFileError("EPARSE", "unzip", path);
+}
+
+function readZip64End(record: Uint8Array, path: string): DirectoryLocation {
+    const data = view(record);
+    if (record.length < 56 || data.getUint32(0, true) !== ZIP64_END_OF_DIRECTORY) {
+        throw new KtFileError("EPARSE", "unzip", path);
+    }
+    return {count: u64(data, 32), directorySize: u64(data, 40), directoryOffset: u64(data, 48)};
+}
+
+function parseDirectory(directory: Uint8Array, count: number, path: string): ZipEntry[] {
+    const data = view(directory);
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let n = 0; n < count; n++) {
+        if (offset + 46 > directory.length || data.getUint32(offset, true) !== CENTRAL_HEADER) {
+            throw new KtFileError("EPARSE", "unzip", path);
+        }
+        const madeBy = data.getUint16(offset + 4, true) >> 8;
+        const flags = data.getUint16(offset + 8, true);
+        const method = data.getUint16(offset + 10, true);
+        const nameLength = data.getUint16(offset + 28, true);
+        const extraLength = data.getUint16(offset + 30, true);
+        const commentLength = data.getUint16(offset + 32, true);
+        const external = data.getUint32(offset + 38, true);
+        const name = decoder.decode(directory.subarray(offset + 46, offset + 46 + nameLength));
+        const entry: ZipEntry = {
+            path: name,
+            isDirectory: false,
+            isSymbolicLink: false,
+            method: method === 0 ? "store" : method === 8 ? "deflate" : method,
+            size: data.getUint32(offset + 24, true),
+            compressedSize: data.getUint32(offset + 20, true),
+            crc32: data.getUint32(offset + 16, true),
+            mtime: fromDosTime(data.getUint16(offset + 12, true), data.getUint16(offset + 14, true)),
+            mode: madeBy === 3 ? external >>> 16 : undefined,
+            encrypted: (flags & 1) !== 0,
+            offset: data.getUint32(offset + 42, true)
+        };
+        let extra = offset + 46 + nameLength;
+        const extraEnd = extra + extraLength;
+        while (extra + 4 <= extraEnd) {
+            const id = data.getUint16(extra, true);
+            const length = data.getUint16(extra + 2, true);
+            let field = extra + 4;
+            if (id === ZIP64_EXTRA) {
+                // only the values that overflowed their field are present, in this order
+                if (entry.size === MAX_32) entry.size = u64(data, (field += 8) - 8);
+                if (entry.compressedSize === MAX_32) entry.compressedSize = u64(data, (field += 8) - 8);
+                if (entry.offset === MAX_32) entry.offset = u64(data, field);
+            } else if (id === TIMESTAMP_EXTRA && length >= 5 && data.getUint8(field) & 1) {
+                entry.mtime = new Date(data.getUint32(field + 1, true) * 1000);
+            }
+            extra += 4 + length;
+        }
+        const type = (entry.mode ?? 0) & S_IFMT;
+        entry.isSymbolicLink = type === S_IFLNK;
+        entry.isDirectory = name.endsWith("/") || type === S_IFDIR || (external & 0x10) !== 0;
+        if (entry.mode !== undefined && type === 0) entry.mode = undefined;
+        entries.push(entry);
+        offset = extraEnd + commentLength;
+    }
+    return entries;
+}
+
+function checkReadable(entry: ZipEntry) {
+    if (entry.encrypted || typeof entry.method === "number") throw new KtFileError("ENOSYS", "unzip", entry.path);
+}
+
+function dataOffset(header: Uint8Array, entry: ZipEntry): number {
+    const data = view(header);
+    if (header.length < 30 || data.getUint32(0, true) !== LOCAL_HEADER) throw new KtFileError("EPARSE", "unzip", entry.path);
+    return entry.offset + 30 + data.getUint16(26, true) + data.getUint16(28, true);
+}
+
+function checkContent(entry: ZipEntry, size: number, crc: number) {
+    if (size !== entry.size || crc !== entry.crc32) throw new KtFileError("EPARSE", "unzip", entry.path);
+}
+
+/**
+ * Random access to the bytes of an archive, through a descriptor when the file system has one,
+ * otherwise through the whole file read at once.
+ */
+type ByteSourceSync = {
+    path: string,
+    size: number,
+    read(position: number, length: number): Uint8Array,
+    close(): void
+};
+type ByteSource = {
+    path: string,
+    size: number,
+    read(position: number, length: number): Promise<Uint8Array>,
+    close(): Promise<void>
+};
+
+function openSourceSync(file: FileSync): ByteSourceSync {
+    const fs = file.fs;
+    if (!fs.openSync || !fs.readSync || !fs.closeSync) {
+        const data = fs.readFileSync(file.fullPath) as Uint8Array;
+        const read = (position: number, length: number) => data.subarray(position, position + length);
+        return {path: file.fullPath, size: data.length, read, close: () => undefined};
+    }
+    const size = fs.statSync(file.fullPath).size ?? 0;
+    const fd = fs.openSync(file.fullPath, "r");
+    return {
+        path: file.fullPath,
+        size,
+        read(position, length) {
+            const buffer = new Uint8Array(Math.max(0, Math.min(length, size - position)));
+            for (let read = 0, bytes = -1; read < buffer.length && bytes !== 0; read += bytes) {
+                bytes = fs.readSync(fd, buffer, read, buffer.length - read, position + read);
+            }
+            return buffer;
+        },
+        close: () => fs.closeSync(fd)
+    };
+}
+
+async function openSource(file: FileAsync): Promise<ByteSource> {
+    const fs = file.fs;
+    if (!fs.open) {
+        const data = await fs.readFile(file.fullPath) as Uint8Array;
+        const read = async (position: number, length: number) => data.subarray(position, position + length);
+        return {path: file.fullPath, size: data.length, read, close: async () => undefined};
+    }
+    const size = (await fs.stat(file.fullPath)).size ?? 0;
+    const handle = await fs.open(file.fullPath, "r");
+    return {
+        path: file.fullPath,
+        size,
+        async read(position, length) {
+            const buffer = new Uint8Array(Math.max(0, Math.min(length, size - position)));
+            for (let read = 0, bytes = -1; read < buffer.length && bytes !== 0; read += bytes) {
+                bytes = (await handle.read(buffer, read, buffer.length - read, position + read)).bytesRead;
+            }
+            return buffer;
+        },
+        close: () => handle.close()
+    };
+}
+
+function readEntriesSync(source: ByteSourceSync): ZipEntry[] {
+    const tailLength = Math.min(source.size, 22 + MAX_16);
+    const found = findEnd(source.read(source.size - tailLength, tailLength), source.path);
+    const end = found.zip64Offset === null ? found : readZip64End(source.read(found.zip64Offset, 56), source.path);
+    const directory = source.read(end.directoryOffset, end.directorySize);
+    if (directory.length < end.directorySize) throw new KtFileError("EPARSE", "unzip", source.path);
+    return parseDirectory(directory, end.count, source.path);
+}
+
+async function readEntries(source: ByteSource): Promise<ZipEntry[]> {
+    const tailLength = Math.min(source.size, 22 + MAX_16);
+    const found = findEnd(await source.read(source.size - tailLength, tailLength), source.path);
+    const end = found.zip64Offset === null ? found : readZip64End(await source.read(found.zip64Offset, 56), source.path);
+    const directory = await source.read(end.directoryOffset, end.directorySize);
+    if (directory.length < end.directorySize) throw new KtFileError("EPARSE", "unzip", source.path);
+    return parseDirectory(directory, end.count, source.path);
+}
+
+function findEntry(entries: ZipEntry[], path: string): ZipEntry {
+    const entry = entries.find(entry => entry.path === path || entry.path === path + "/");
+    if (!entry) throw new KtFileError("ENOENT", "unzip", path);
+    return entry;
+}
+
+function* compressedChunksSync(source: ByteSourceSync, start: number, size: number, chunkSize: number): Generator<Uint8Array> {
+    for (let offset = 0; offset < size; offset += chunkSize) {
+        const chunk = source.read(start + offset, Math.min(chunkSize, size - offset));
+        if (chunk.length === 0) throw new KtFileError("EPARSE", "unzip", source.path);
+        yield chunk;
+    }
+}
+
+/**
+ * Yields the uncompressed content of an entry, read and inflated in chunks, and checks it against the stored size
+ * and CRC at the end.
+ */
+function* entryChunksSync(source: ByteSourceSync, entry: ZipEntry, chunkSize: number): Generator<Uint8Array> {
+    checkReadable(entry);
+    const start = dataOffset(source.read(entry.offset, 30), entry);
+    const raw = compressedChunksSync(source, start, entry.compressedSize, chunkSize);
+    let crc = 0;
+    let size = 0;
+    for (const chunk of entry.method === "deflate" ? compressChunksSync("inflateRaw", raw) : raw) {
+        crc = crc32(chunk, crc);
+        size += chunk.length;
+        yield chunk;
+    }
+    checkContent(entry, size, crc);
+}
+
+async function* compressedChunks(source: ByteSource, start: number, size: number, chunkSize: number): AsyncGenerator<Uint8Array> {
+    for (let offset = 0; offset < size; offset += chunkSize) {
+        const chunk = await source.read(start + offset, Math.min(chunkSize, size - offset));
+        if (chunk.length === 0) throw new KtFileError("EPARSE", "unzip", source.path);
+        yield chunk;
+    }
+}
+
+async function* entryChunks(source: ByteSource, entry: ZipEntry, chunkSize: number): AsyncGenerator<Uint8Array> {
+    checkReadable(entry);
+    const start = dataOffset(await source.read(entry.offset, 30), entry);
+    const raw = compressedChunks(source, start, entry.compressedSize, chunkSize);
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of entry.method === "deflate" ? compressChunks("inflateRaw", raw) : raw) {
+        crc = crc32(chunk, crc);
+        size += chunk.length;
+        yield chunk;
+    }
+    checkContent(entry, size, crc);
+}
+
+export function listZipSync(archive: FileSync): ZipEntry[] {
+    const source = openSourceSync(archive);
+    try {
+        return readEntriesSync(source);
+    } finally {
+        source.close();
+    }
+}
+
+export async function listZip(archive: FileAsync): Promise<ZipEntry[]> {
+    const source = await openSource(archive);
+    try {
+        return await readEntries(source);
+    } finally {
+        await source.close();
+    }
+}
+
+/**
+ * Yields the content of one entry, found by its path, without extracting anything else. Throws on failure.
+ */
+export function* streamZipEntrySync(archive: FileSync, path: string, chunkSize: number): Generator<Uint8Array> {
+    const source = openSourceSync(archive);
+    try {
+        yield* entryChunksSync(source, findEntry(readEntriesSync(source), path), chunkSize);
+    } finally {
+        source.close();
+    }
+}
+
+export async function* streamZipEntry(archive: FileAsync, path: string, chunkSize: number): AsyncGenerator<Uint8Array> {
+    const source = await openSource(archive);
+    try {
+        yield* entryChunks(source, findEntry(await readEntries(source), path), chunkSize);
+    } finally {
+        await source.close();
+    }
+}
+
+function entryType(entry: ZipEntry): "file" | "directory" | "symlink" {
+    return entry.isSymbolicLink ? "symlink" : entry.isDirectory ? "directory" : "file";
+}
+
+/**
+ * Extracts an archive into a directory, with the same checks as tar extraction: entries escaping
+ * the destination are refused with `EESCAPE` before anything is written for them. Throws on failure,
+ * leaving what was extracted so far.
+ */
+export function extractZipSync(archive: FileSync, dest: FileSync, options: ExtractZipOptions) {
+    const fs = dest.fs;
+    const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+    const links = new Set<string>();
+    const directories: [ZipEntry, FileSync][] = [];
+    const finish = (entry: ZipEntry, file: FileSync) => {
+        if (options.preserveMode !== false && entry.mode !== undefined) fs.chmodSync(file.fullPath, entry.mode & 0o7777);
+        if (options.preserveTimes !== false) fs.utimesSync(file.fullPath, entry.mtime, entry.mtime);
+    };
+    const source = openSourceSync(archive);
+    try {
+        fs.mkdirSync(dest.fullPath, {recursive: true});
+        for (const entry of readEntriesSync(source)) {
+            const type = entryType(entry);
+            const linkname = type === "symlink"
+                ? decoder.decode(concatChunks([...entryChunksSync(source, entry, 65536)].map(chunk => chunk.slice())))
+                : undefined;
+            const target = extractTarget(dest, {...entry, type, linkname, mode: entry.mode ?? 0}, options, ignore, links);
+            if (!target) continue;
+            const {file, parent} = target;
+            const existing = file.exists || file.isSymbolicLink;
+            if (type === "directory") {
+                if (existing && !file.isDirectory) fs.unlinkSync(file.fullPath);
+                fs.mkdirSync(file.fullPath, {recursive: true});
+                directories.push([entry, file]);
+                continue;
+            }
+            fs.mkdirSync(parent.fullPath, {recursive: true});
+            if (existing) fs.rmSync(file.fullPath, {recursive: true, force: true});
+            if (type === "symlink") {
+                fs.symlinkSync(linkname, file.fullPath);
+                continue;
+            }
+            const writer = new ChunkWriterSync(file, (entry.mode ?? 0o644) & 0o777);
+            try {
+                for (const chunk of entryChunksSync(source, entry, 65536)) writer.write(chunk);
+            } finally {
+                writer.close();
+            }
+            finish(entry, file);
+        }
+    } finally {
+        source.close();
+    }
+    // directories last and deepest first, extracting their contents changed their times
+    for (const [entry, file] of directories.reverse()) finish(entry, file);
+}
+
+export async function extractZip(archive: FileAsync, dest: FileAsync, options: ExtractZipOptions) {
+    const fs = dest.fs;
+    const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+    const links = new Set<string>();
+    const directories: [ZipEntry, FileAsync][] = [];
+    const finish = async (entry: ZipEntry, file: FileAsync) => {
+        if (options.preserveMode !== false && entry.mode !== undefined) await fs.chmod(file.fullPath, entry.mode & 0o7777);
+        if (options.preserveTimes !== false) await fs.utimes(file.fullPath, entry.mtime, entry.mtime);
+    };
+    const source = await openSource(archive);
+    try {
+        await fs.mkdir(dest.fullPath, {recursive: true});
+        for (const entry of await readEntries(source)) {
+            const type = entryType(entry);
+            let linkname: string | undefined;
+            if (type === "symlink") {
+                const chunks: Uint8Array[] = [];
+                for await (const chunk of entryChunks(source, entry, 65536)) chunks.push(chunk.slice());
+                linkname = decoder.decode(concatChunks(chunks));
+            }
+            const target = extractTarget(dest, {...entry, type, linkname, mode: entry.mode ?? 0}, options, ignore, links);
+            if (!target) continue;
+            const {file, parent} = target;
+            const existing = await file.exists() || await file.isSymbolicLink();
+            if (type === "directory") {
+                if (existing && !await file.isDirectory()) await fs.unlink(file.fullPath);
+                await fs.mkdir(file.fullPath, {recursive: true});
+                directories.push([entry, file]);
+                continue;
+            }
+            await fs.mkdir(parent.fullPath, {recursive: true});
+            if (existing) await fs.rm(file.fullPath, {recursive: true, force: true});
+            if (type === "symlink") {
+                await fs.symlink(linkname, file.fullPath);
+                continue;
+            }
+            const writer = await ChunkWriter.open(file, (entry.mode ?? 0o644) & 0o777);
+            try {
+                for await (const chunk of entryChunks(source, entry, 65536)) await writer.write(chunk);
+            } finally {
+                await writer.close();
+            }
+            await finish(entry, file);
+        }
+    } finally {
+        await source.close();
+    }
+    for (const [entry, file] of directories.reverse()) await finish(entry, file);
+}
+
+/**
+ * The records of one entry: its local header, which precedes the data, and its central directory header.
+ */
+function entryRecords(path: string, item: {
+    mode: number,
+    mtime: Date,
+    method: number,
+    crc: number,
+    size: number,
+    compressedSize: number,
+    offset: number
+}, forceZip64: boolean, zip64: boolean): { local: Uint8Array, central: Uint8Array } {
+    const name = encoder.encode(path);
+    const {time, date} = toDosTime(item.mtime);
+    const seconds = Math.max(0, Math.min(MAX_32, Math.floor(item.mtime.getTime() / 1000)));
+    const zip64Offset = forceZip64 || item.offset >= MAX_32;
+    const version = zip64 || zip64Offset ? 45 : 20;
+    const size = zip64 ? MAX_32 : item.size;
+    const compressedSize = zip64 ? MAX_32 : item.compressedSize;
+    const timestamp = fields([TIMESTAMP_EXTRA, 2], [5, 2], [1, 1], [seconds, 4]);
+    const localExtra = concatChunks([
+        ...zip64 ? [fields([ZIP64_EXTRA, 2], [16, 2], [item.size, 8], [item.compressedSize, 8])] : [],
+        timestamp
+    ]);
+    const zip64Values: [number, 8][] = [
+        ...zip64 ? [[item.size, 8], [item.compressedSize, 8]] as [number, 8][] : [],
+        ...zip64Offset ? [[item.offset, 8]] as [number, 8][] : []
+    ];
+    const centralExtra = concatChunks([
+        ...zip64Values.length ? [fields([ZIP64_EXTRA, 2], [zip64Values.length * 8, 2], ...zip64Values)] : [],
+        timestamp
+    ]);
+    const local = fields([LOCAL_HEADER, 4], [version, 2], [UTF8_FLAG, 2], [item.method, 2], [time, 2], [date, 2],
+        [item.crc, 4], [compressedSize, 4], [size, 4], [name.length, 2], [localExtra.length, 2]);
+    const isDirectory = (item.mode & S_IFMT) === S_IFDIR;
+    const central = fields([CENTRAL_HEADER, 4], [(3 << 8) | version, 2], [version, 2], [UTF8_FLAG, 2], [item.method, 2],
+        [time, 2], [date, 2], [item.crc, 4], [compressedSize, 4], [size, 4], [name.length, 2], [centralExtra.length, 2],
+        [0, 2], [0, 2], [0, 2], [((item.mode << 16) | (isDirectory ? 0x10 : 0)) >>> 0, 4],
+        [zip64Offset ? MAX_32 : item.offset, 4]);
+    return {
+        local: concatChunks([local, name, localExtra]),
+        central: concatChunks([central, name, centralExtra])
+    };
+}
+
+function endRecords(count: number, directoryOffset: number, directorySize: number, forceZip64: boolean): Uint8Array {
+    const end = fields([END_OF_DIRECTORY, 4], [0, 2], [0, 2], [Math.min(count, MAX_16), 2], [Math.min(count, MAX_16), 2],
+        [Math.min(directorySize, MAX_32), 4], [Math.min(directoryOffset, MAX_32), 4], [0, 2]);
+    if (!forceZip64 && count < MAX_16 && directoryOffset < MAX_32 && directorySize < MAX_32) return end;
+    const zip64End = fields([ZIP64_END_OF_DIRECTORY, 4], [44, 8], [(3 << 8) | 45, 2], [45, 2], [0, 4], [0, 4],
+        [count, 8], [count, 8], [directorySize, 8], [directoryOffset, 8]);
+    const locator = fields([ZIP64_LOCATOR, 4], [0, 4], [directoryOffset + directorySize, 8], [1, 4]);
+    return concatChunks([zip64End, locator, end]);
+}
+
+type EntryInfo = { path: string, mode: number, mtime: Date };
+
+/**
+ * The largest size deflate can turn `size` bytes into, as zlib bounds it.
+ */
+function deflateBound(size: number): number {
+    return size + Math.ceil(size / 4096) + Math.ceil(size / 16384) + 16;
+}
+
+/**
+ * Yields at most `size` bytes of a file, the size it had when it was collected, so the sizes the local header
+ * was laid out for hold even if the file grows meanwhile.
+ */
+function* fileChunksSync(file: FileSync, size: number): Generator<Uint8Array> {
+    let read = 0;
+    for (const chunk of readChunksSync(file)) {
+        const part = chunk.subarray(0, size - read);
+        if (part.length) yield part;
+        read += part.length;
+        if (read === size) break;
+    }
+}
+
+async function* fileChunks(file: FileAsync, size: number): AsyncGenerator<Uint8Array> {
+    let read = 0;
+    for await (const chunk of readChunks(file)) {
+        const part = chunk.subarray(0, size - read);
+        if (part.length) yield part;
+        read += part.length;
+        if (read === size) break;
+    }
+}
+
+function* once(data: Uint8Array): Generator<Uint8Array> {
+    yield data;
+}
+
+async function* onceAsync(data: Uint8Array): AsyncGenerator<Uint8Array> {
+    yield data;
+}
+
+/**
+ * Writes one entry with content of at most `size` bytes: its local header, laid out for that size, then the content
+ * as it is read, then the header again with the CRC and sizes now known. Content that fits into its first chunk is
+ * deflated at once and stored if that does not make it smaller, longer content is deflated as it is read when
+ * deflating the first chunk makes that smaller and stored otherwise. Returns the central directory header.
+ */
+function writeEntrySync(writer: ChunkWriterSync, info: EntryInfo, content: Generator<Uint8Array>, size: number,
+                        deflate: boolean, forceZip64: boolean): Uint8Array {
+    const offset = writer.position;
+    const zip64 = forceZip64 || deflateBound(size) >= MAX_32;
+    const header = entryRecords(info.path, {...info, method: 0, crc: 0, size, compressedSize: size, offset}, forceZip64, zip64);
+    writer.write(header.local);
+    let crc = 0;
+    let length = 0;
+    let compressedSize = 0;
+    let useDeflate = false;
+    try {
+        const first = content.next();
+        const head = first.done ? new Uint8Array(0) : first.value;
+        const deflated = deflate && head.length ? compressSync("deflateRaw", head) : null;
+        useDeflate = deflated !== null && deflated.length < head.length;
+        crc = crc32(head);
+        length = head.length;
+        if (head.length === size || first.done) {
+            const data = useDeflate && deflated ? deflated : head;
+            writer.write(data);
+            compressedSize = data.length;
+        } else {
+            const all = (function* () {
+                yield head;
+                for (const chunk of content) {
+                    crc = crc32(chunk, crc);
+                    length += chunk.length;
+                    yield chunk;
+                }
+            })();
+            for (const chunk of useDeflate ? compressChunksSync("deflateRaw", all) : all) {
+                writer.write(chunk);
+                compressedSize += chunk.length;
+            }
+        }
+    } finally {
+        content.return(undefined);
+    }
+    const records = entryRecords(info.path, {
+        ...info, method: useDeflate ? 8 : 0, crc, size: length, compressedSize, offset
+    }, forceZip64, zip64);
+    writer.writeAt(records.local, offset);
+    return records.central;
+}
+
+async function writeEntry(writer: ChunkWriter, info: EntryInfo, content: AsyncGenerator<Uint8Array>, size: number,
+                          deflate: boolean, forceZip64: boolean): Promise<Uint8Array> {
+    const offset = writer.position;
+    const zip64 = forceZip64 || deflateBound(size) >= MAX_32;
+    const header = entryRecords(info.path, {...info, method: 0, crc: 0, size, compressedSize: size, offset}, forceZip64, zip64);
+    await writer.write(header.local);
+    let crc = 0;
+    let length = 0;
+    let compressedSize = 0;
+    let useDeflate = false;
+    try {
+        const first = await content.next();
+        const head = first.done ? new Uint8Array(0) : first.value;
+        const deflated = deflate && head.length ? await compress("deflateRaw", head) : null;
+        useDeflate = deflated !== null && deflated.length < head.length;
+        crc = crc32(head);
+        length = head.length;
+        if (head.length === size || first.done) {
+            const data = useDeflate && deflated ? deflated : head;
+            await writer.write(data);
+            compressedSize = data.length;
+        } else {
+            const all = (async function* () {
+                yield head;
+                for await (const chunk of content) {
+                    crc = crc32(chunk, crc);
+                    length += chunk.length;
+                    yield chunk;
+                }
+            })();
+            for await (const chunk of useDeflate ? compressChunks("deflateRaw", all) : all) {
+                await writer.write(chunk);
+                compressedSize += chunk.length;
+            }
+        }
+    } finally {
+        await content.return(undefined);
+    }
+    const records = entryRecords(info.path, {
+        ...info, method: useDeflate ? 8 : 0, crc, size: length, compressedSize, offset
+    }, forceZip64, zip64);
+    await writer.writeAt(records.local, offset);
+    return records.central;
+}
+
+function toBytes(data: string | Uint8Array): Uint8Array {
+    return typeof data === "string" ? encoder.encode(data) : data;
+}
+
+function sourceBase<F extends { name: string }>(source: ZipSource<F>, prefix: string): string {
+    return archivePath(prefix, cleanPrefix("path" in source ? source.path : source.name));
+}
+
+/**
+ * Writes a zip archive from files, directory trees and given contents. The archive is written as it goes,
+ * file contents are read and compressed in chunks. Throws on failure.
+ */
+export function writeZipSync(dest: FileSync, sources: ZipSource<FileSync>[], options: ZipOptions) {
+    const prefix = cleanPrefix(options.prefix);
+    const deflate = options.method !== "store";
+    const now = new Date();
+    const forceZip64 = options.zip64 === true;
+    const central: Uint8Array[] = [];
+    const writer = new ChunkWriterSync(dest);
+    const add = (info: EntryInfo, content: Uint8Array) => {
+        central.push(writeEntrySync(writer, info, once(content), content.length, false, forceZip64));
+    };
+    try {
+        for (const source of sources) {
+            const base = sourceBase(source, prefix);
+            if ("data" in source) {
+                const content = toBytes(source.data);
+                const info = {path: base, mode: S_IFREG | 0o644, mtime: now};
+                central.push(writeEntrySync(writer, info, once(content), content.length, deflate, forceZip64));
+                continue;
+            }
+            const file = "file" in source ? source.file : source;
+            for (const {entry, file: item} of collectEntriesSync(file, base, options)) {
+                if (entry.type === "directory") {
+                    add({path: entry.path + "/", mode: S_IFDIR | (entry.mode & 0o7777), mtime: entry.mtime}, new Uint8Array(0));
+                } else if (entry.type === "symlink") {
+                    add({path: entry.path, mode: S_IFLNK | 0o777, mtime: entry.mtime}, encoder.encode(entry.linkname));
+                } else {
+                    const info = {path: entry.path, mode: S_IFREG | (entry.mode & 0o7777), mtime: entry.mtime};
+                    central.push(writeEntrySync(writer, info, fileChunksSync(item, entry.size), entry.size, deflate, forceZip64));
+                }
+            }
+        }
+        const offset = writer.position;
+        const directory = concatChunks(central);
+        writer.write(directory);
+        writer.write(endRecords(central.length, offset, directory.length, forceZip64));
+    } finally {
+        writer.close();
+    }
+}
+
+export async function writeZip(dest: FileAsync, sources: ZipSource<FileAsync>[], options: ZipOptions) {
+    const prefix = cleanPrefix(options.prefix);
+    const deflate = options.method !== "store";
+    const now = new Date();
+    const forceZip64 = options.zip64 === true;
+    const central: Uint8Array[] = [];
+    const writer = await ChunkWriter.open(dest);
+    const add = async (info: EntryInfo, content: Uint8Array) => {
+        central.push(await writeEntry(writer, info, onceAsync(content), content.length, false, forceZip64));
+    };
+    try {
+        for (const source of sources) {
+            const base = sourceBase(source, prefix);
+            if ("data" in source) {
+                const content = toBytes(source.data);
+                const info = {path: base, mode: S_IFREG | 0o644, mtime: now};
+                central.push(await writeEntry(writer, info, onceAsync(content), content.length, deflate, forceZip64));
+                continue;
+            }
+            const file = "file" in source ? source.file : source;
+            for (const {entry, file: item} of await collectEntries(file, base, options)) {
+                if (entry.type === "directory") {
+                    await add({path: entry.path + "/", mode: S_IFDIR | (entry.mode & 0o7777), mtime: entry.mtime}, new Uint8Array(0));
+                } else if (entry.type === "symlink") {
+                    await add({path: entry.path, mode: S_IFLNK | 0o777, mtime: entry.mtime}, encoder.encode(entry.linkname));
+                } else {
+                    const info = {path: entry.path, mode: S_IFREG | (entry.mode & 0o7777), mtime: entry.mtime};
+                    central.push(await writeEntry(writer, info, fileChunks(item, entry.size), entry.size, deflate, forceZip64));
+                }
+            }
+        }
+        const offset = writer.position;
+        const directory = concatChunks(central);
+        await writer.write(directory);
+        await writer.write(endRecords(central.length, offset, directory.length, forceZip64));
+    } finally {
+        await writer.close();
+    }
+}
@@ -1,19 +1,80 @@
 import {FileAsync} from "./FileAsync";
-import {Config} from "../IConfig";
+import {Config, ConfigOptions} from "../IConfig";
+import {fail, KtFileError} from "../KtFileError";
+import {formatIssues} from "../Schema";
+import type {Watcher, WatchOptions} from "../Watcher";
 
-export class ConfigAsync extends Config {
-    constructor(private file: FileAsync, defaultValue = {}) {
-        super(defaultValue);
+export class ConfigAsync<T = unknown> extends Config<T> {
+    constructor(private file: FileAsync, private readonly defaultValue: T = {} as T, options: ConfigOptions<T> = {}) {
+        super(defaultValue, options, file.fullPath);
     };
 
     async init() {
-        if (await this.file.exists()) {
-            this.value = await this.file.readJSON();
+        if (!await this.file.exists()) {
+            this.loadDefaults(this.defaultValue);
+            return this;
         }
+        const text = await this.file.read("utf8");
+        if (text === null) {
+            this.issues = [{path: "", message: "could not be read"}];
+            return this;
+        }
+        const error = this.load(text);
+        if (error !== null) fail(this.file.context, error.code, "read", this.file.fullPath, {cause: error.cause});
+        else if (this.migrated && this.isValid) await this.save();
         return this;
     };
 
     async save() {
-        return await this.file.writeJSON(this.value) !== null;
+        if (!this.accept(this.value)) {
+            return fail(this.file.context, "EINVALID", "save", this.file.fullPath, {
+                cause: new Error(formatIssues(this.issues))
+            }) ?? false;
+        }
+        let text: string;
+        try {
+            text = this.format.stringify(this.value);
+        } catch (e) {
+            return fail(this.file.context, "EINVALID", "save", this.file.fullPath, {cause: e}) ?? false;
+        }
+        if (this.isSaved(text)) {
+            this.saved();
+            return true;
+        }
+        if (await this.file.write(text, {atomic: true}) === null) return false;
+        this.text = text;
+        this.saved();
+        return true;
+    };
+
+    /**
+     * @description Reloads the config whenever its file changes on disk, reporting the changed values as
+     * `change` events. Its own saves are not reloaded. A file that cannot be parsed or does not pass the validator
+     * is reported as an `error` event and the last good value is kept.
+     * @example
+     * const config = await new FileAsync("path/to/app.toml").config();
+     * config?.onChange("db.*", () => reconnect());
+     * config?.on("error", error => console.error("Bad config:", error.message));
+     * const watcher = config?.watch();
+     * watcher?.close();
+     * @param [options] - The `debounce`, `poll` and `signal` options of the watcher.
+     * @returns {Watcher<FileAsync>} The watcher of the directory of the file, close it to stop reloading.
+     */
+    watch(options: Pick<WatchOptions, "debounce" | "poll" | "signal"> = {}): Watcher<FileAsync> {
+        const watcher = (this.file.parent ?? this.file).watch({...options, recursive: false});
+        let reloading = Promise.resolve();
+        watcher.on("error", error => this.emit("error", KtFileError.from(error)));
+        watcher.on("change", event => {
+            if (event.path !== this.file.name || event.type === "deleted") return;
+            // reloads run one after another, so an older read never wins over a newer one
+            reloading = reloading.then(async () => {
+                const text = await this.file.read("utf8");
+                const error = text === null ? null : this.reload(text);
+                if (error) this.emit("error", error);
+            }).catch(e => {
+                this.emit("error", KtFileError.from(e));
+            });
+        });
+        return watcher;
     };
-}
\ No newline at end of file
+}
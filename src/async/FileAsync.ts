@@ -1,21 +1,62 @@
 import {IFile} from "../IFile";
+import {FileSystem} from "../FileSystem";
+import {fail, KtFileError} from "../KtFileError";
+import {FileGlobOptions, Glob} from "../Glob";
+import {LinkPolicy, WalkEntry, walkKey, WalkOptions, walkPath} from "../Walk";
+import {Watcher, WatchOptions} from "../Watcher";
+import {atomicTempName, WriteOptions} from "../Write";
+import {emptySyncReport, sameMetadata, SyncOptions, SyncReport} from "../Mirror";
+import {combineManifest, hashing, manifestLine, TreeHashOptions} from "../Hash";
+import {concatChunks, countLineBreaks, isAsciiCompatible, LineOptions, LineReader, splitLines} from "../Lines";
+import {acquireLock, LockAsync, LockOptions} from "../Lock";
+import {ExtractTarOptions, extractTar, TarOptions, writeTar} from "../Tar";
+import {
+    ExtractZipOptions,
+    extractZip,
+    listZip,
+    streamZipEntry,
+    ZipEntry,
+    ZipOptions,
+    ZipSource,
+    writeZip
+} from "../Zip";
 import {IAsyncFS} from "./IAsyncFS";
 import {attachCleanup, deleteQueue} from "../Utils";
 import {FileSync} from "../sync/FileSync";
 import {ConfigAsync} from "./ConfigAsync";
+import {ConfigOptions} from "../IConfig";
+import {ConfigFormat, ConfigFormatName} from "../ConfigFormat";
+import {formatIssues} from "../Schema";
+import {ChmodOptions, ChownOptions, Permissions, resolveMode} from "../Permissions";
+import {DirentLike, FileStat, watchChanges} from "../Stat";
+import {DiskUsage, DiskUsageNode, DiskUsageOptions, DiskUsageTally} from "../DiskUsage";
+import {
+    DEFAULT_JOURNAL,
+    recoverTransactions,
+    RecoverOptions,
+    runTransaction,
+    TransactionAsync,
+    TransactionOptions,
+    TransactionRecovery
+} from "../Transaction";
+import {dedupe, DedupeOptions, DedupeReport, DuplicateOptions, findDuplicates} from "../Duplicates";
+import {emptyTrash, homeTrash, listTrash, moveToTrash, restore, TrashItem, TrashOptions} from "../Trash";
 
-export async function pass(x: () => Promise<unknown>): Promise<boolean> {
+export async function pass(x: () => Promise<unknown>, context?: FileSystem): Promise<boolean> {
     try {
-        return x().then(() => true).catch(() => false);
+        await x();
+        return true;
     } catch (e) {
+        if (context?.throwErrors) throw KtFileError.from(e);
         return false;
     }
 }
 
-export async function ret<T>(x: () => Promise<T>): Promise<T | null> {
+export async function ret<T>(x: () => Promise<T>, context?: FileSystem): Promise<T | null> {
     try {
-        return x().then(r => r).catch(() => null);
+        return await x();
     } catch (e) {
+        if (context?.throwErrors) throw KtFileError.from(e);
         return null;
     }
 }
@@ -24,18 +65,159 @@ export class FileAsync extends IFile<IAsyncFS> {
     static fs: IAsyncFS;
     static sep = "/";
 
-    static createTempFile(directory: FileAsync, prefix: string = "ktfile-temp", suffix: string = ".tmp"): FileAsync {
-        if (!("mkdTemp" in FileAsync.fs)) {
-            throw new Error("mkdTemp is not available in the current FS.");
+    constructor(pt: string | string[], context: FileSystem = FileSystem.default) {
+        super(pt, context);
+    };
+
+    static async createTempFile(directory: FileAsync, prefix: string = "ktfile-temp", suffix: string = ".tmp"): Promise<FileAsync> {
+        const context = directory ? directory.context : FileSystem.default;
+        if (!("mkdtemp" in context.promises)) {
+            throw new Error("mkdtemp is not available in the current FS.");
         }
         const tempDir = directory ? directory.fullPath : ".";
-        const tempPath = this.fs.mkdtemp(`${tempDir}/${prefix}-`);
+        const tempPath = await context.promises.mkdtemp(`${tempDir}/${prefix}-`);
         const filePath = `${tempPath}${suffix}`;
-        return new FileAsync(filePath);
+        return new FileAsync(filePath, context);
+    };
+
+    /**
+     * @description Runs a function that changes several files as one transaction: either every change is applied,
+     * or none is. Writes are staged in a journal directory, renames and deletions are recorded, and once the
+     * function has resolved they are applied in order by renaming, keeping whatever they replace or delete in the
+     * journal. If the function rejects nothing is applied, and if applying a change fails the applied ones are
+     * undone. The journal of a process that died halfway is cleaned up by {@link recoverTransactions}.
+     * Parent directories created for written files are not removed when undoing.
+     * @example
+     * await FileAsync.recoverTransactions(); // on start, undo what a crashed deploy left behind
+     * await FileAsync.transaction(async tx => {
+     *     await tx.write("site/index.html", await render());
+     *     tx.renameTo("site/assets-new", "site/assets");
+     *     tx.delete("site/old.html");
+     * });
+     * @param {Function} fn - The function making the changes through the transaction it receives.
+     * @param {TransactionOptions<FileAsync>} [options] - The `journal` directory.
+     * @returns {Promise<T | null>} The result of the function, or null if the changes could not be applied.
+     * Errors thrown by the function are thrown again.
+     */
+    static transaction<T>(fn: (tx: TransactionAsync) => T | Promise<T>, options: TransactionOptions<FileAsync> = {}): Promise<T | null> {
+        return runTransaction(FileAsync.journal(options.journal), fn);
+    };
+
+    /**
+     * @description Cleans up after transactions that were interrupted, typically by a crash, and should be called on
+     * start before running new ones. Transactions that had not started applying their changes are dropped. Ones
+     * that were applying them are undone, or finished with `finish`. Transactions still running in a live
+     * process on this host are left alone.
+     * @example
+     * for (const {id, action} of await FileAsync.recoverTransactions({finish: true}) ?? []) {
+     *     console.log(`Transaction ${id} ${action}`);
+     * }
+     * @param {RecoverOptions<FileAsync>} [options] - The `journal` directory and `finish`.
+     * @returns {Promise<TransactionRecovery[] | null>} What was done with each interrupted transaction, or null if
+     * recovering failed. The journal of a transaction that could not be recovered stays for another attempt.
+     */
+    static recoverTransactions(options: RecoverOptions<FileAsync> = {}): Promise<TransactionRecovery[] | null> {
+        const journal = FileAsync.journal(options.journal);
+        return ret(() => recoverTransactions(journal, options.finish ?? false), journal.context);
+    };
+
+    private static journal(journal: FileAsync | string = DEFAULT_JOURNAL): FileAsync {
+        return typeof journal === "string" ? new FileAsync(journal) : journal;
+    };
+
+    /**
+     * @description Lists the items in a trash, see {@link moveToTrash}. Only the given trash is read, items that
+     * went to the trash of another mount are listed by passing that trash.
+     * @example
+     * for (const item of await FileAsync.listTrash() ?? []) {
+     *     console.log(item.name, item.path, item.deleted);
+     * }
+     * @param {TrashOptions<FileAsync>} [options] - The `trash` directory, the home trash by default.
+     * @returns {Promise<TrashItem<FileAsync>[] | null>} The items, empty if the trash does not exist yet, or null if it
+     * could not be read.
+     */
+    static listTrash(options: TrashOptions<FileAsync> = {}): Promise<TrashItem<FileAsync>[] | null> {
+        const context = typeof options.trash === "object" ? options.trash.context : FileSystem.default;
+        return ret(async () => listTrash(FileAsync.trash(options.trash, context)), context);
+    };
+
+    /**
+     * @description Moves an item out of the trash, back to where it was trashed from. Missing parent directories
+     * are created.
+     * @example
+     * const item = (await FileAsync.listTrash())?.find(item => item.path.endsWith("notes.txt"));
+     * if (item) await FileAsync.restoreFromTrash(item);
+     * @param {TrashItem<FileAsync>} item - The item, as listed or returned by `moveToTrash`.
+     * @param {boolean} [overwrite=false] - Whether to replace a file that took the item's place meanwhile.
+     * @returns {Promise<FileAsync | null>} The restored file, or null if it could not be restored.
+     */
+    static restoreFromTrash(item: TrashItem<FileAsync>, overwrite: boolean = false): Promise<FileAsync | null> {
+        return ret(() => restore(item, overwrite), item.trash.context);
+    };
+
+    /**
+     * @description Deletes everything in a trash for good.
+     * @example
+     * await FileAsync.emptyTrash();
+     * @param {TrashOptions<FileAsync>} [options] - The `trash` directory, the home trash by default.
+     * @returns {Promise<boolean>} True if the trash was emptied, false if something could not be deleted.
+     */
+    static emptyTrash(options: TrashOptions<FileAsync> = {}): Promise<boolean> {
+        const context = typeof options.trash === "object" ? options.trash.context : FileSystem.default;
+        return pass(async () => emptyTrash(FileAsync.trash(options.trash, context)), context);
+    };
+
+    /**
+     * Resolves a trash option, a path is resolved in the given context. Reading the home trash from the
+     * environment may throw.
+     */
+    private static trash(trash: FileAsync | string | undefined, context: FileSystem): FileAsync {
+        return typeof trash === "object" ? trash : new FileAsync(trash ?? homeTrash(), context);
+    };
+
+    /**
+     * @description Finds the files with identical contents in one or more directory trees. Files are walked with
+     * their stats and grouped by size first, then by a hash of their first bytes and only then by a hash of their
+     * whole contents, so most files are never read. Hard links of each other count as one file, their names all
+     * end up in the same group. Files that cannot be read are left out.
+     * @example
+     * const groups = await FileAsync.findDuplicates(["assets", "uploads"], {ignore: "**\/*.tmp", minSize: 1024});
+     * for (const group of groups ?? []) {
+     *     console.log(await group[0].size(), group.map(file => file.fullPath));
+     * }
+     * @param {FileAsync | string | (FileAsync | string)[]} dirs - The directories to search.
+     * @param {DuplicateOptions} [options] - The options: `ignore`, `minSize`, `algorithm`, `partialSize` and
+     * `followSymlinks`.
+     * @returns {Promise<FileAsync[][] | null>} The groups of identical files, the largest files first and each group in
+     * the order its files were found, or null if a directory could not be walked.
+     */
+    static async findDuplicates(dirs: FileAsync | string | (FileAsync | string)[], options: DuplicateOptions = {}): Promise<FileAsync[][] | null> {
+        const files = (Array.isArray(dirs) ? dirs : [dirs]).map(dir => typeof dir === "string" ? new FileAsync(dir) : dir);
+        const context = files[0]?.context ?? FileSystem.default;
+        if (!hashing.createHash) return fail(context, "ENOSYS", "hash", files[0]?.fullPath ?? "");
+        return ret(() => findDuplicates(files, options), context);
+    };
+
+    /**
+     * @description Keeps one file of each group of identical files, see {@link findDuplicates}, and replaces the others
+     * with hard links to it or deletes them. A hard link takes a duplicate's place atomically, and fails across
+     * file systems. Files whose size changed since they were found are skipped, and so are symbolic links, which
+     * are never kept, replaced or deleted.
+     * @example
+     * const groups = await FileAsync.findDuplicates("assets") ?? [];
+     * const preview = await FileAsync.dedupe(groups, {action: "hardlink", keep: "oldest", dryRun: true});
+     * console.log(`Would free ${formatSize(preview.saved)} by linking ${preview.linked.length} files`);
+     * @param {FileAsync[][]} groups - The groups of identical files.
+     * @param {DedupeOptions<FileAsync>} options - The `action`, "hardlink" or "delete", which file to `keep` and `dryRun`.
+     * @returns {Promise<DedupeReport>} What was done, or would be done in a dry run.
+     */
+    static dedupe(groups: FileAsync[][], options: DedupeOptions<FileAsync>): Promise<DedupeReport> {
+        return dedupe(groups, options);
     };
 
     get fs(): IAsyncFS {
-        return FileAsync.fs;
+        // calls that may change the file drop the stats preloaded for it
+        return this.preloaded ? watchChanges(this.context.promises, () => this.preloaded = undefined) : this.context.promises;
     };
 
     /**
@@ -69,7 +251,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * or null if the file does not exist or the operation failed.
      */
     async setExecutable(value: boolean = true): Promise<FileAsync | null> {
-        return await pass(() => this.fs.chmod(this.fullPath, value ? 0o755 : 0o644)) ? this : null;
+        return await pass(() => this.fs.chmod(this.fullPath, value ? 0o755 : 0o644), this.context) ? this : null;
     };
 
     /**
@@ -103,7 +285,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * or null if the file does not exist or the operation failed.
      */
     async setReadable(value: boolean = true): Promise<FileAsync | null> {
-        return await pass(() => this.fs.chmod(this.fullPath, value ? 0o644 : 0o000)) ? this : null;
+        return await pass(() => this.fs.chmod(this.fullPath, value ? 0o644 : 0o000), this.context) ? this : null;
     };
 
     /**
@@ -137,7 +319,127 @@ export class FileAsync extends IFile<IAsyncFS> {
      * or null if the file does not exist or the operation failed.
      */
     async setWritable(value: boolean = true): Promise<FileAsync | null> {
-        return await pass(() => this.fs.chmod(this.fullPath, value ? 0o644 : 0o444)) ? this : null;
+        return await pass(() => this.fs.chmod(this.fullPath, value ? 0o644 : 0o444), this.context) ? this : null;
+    };
+
+    /**
+     * @description Gets the permission bits of the file, including setuid, setgid and sticky, as a number.
+     * Write it in octal to read it like `ls` and `chmod` do.
+     * @example
+     * const file = new FileAsync("path/to/script.sh");
+     * console.log((await file.mode())?.toString(8)); // "755"
+     * @returns {Promise<number | null>} The permission bits, or null if the file does not exist.
+     */
+    async mode(): Promise<number | null> {
+        return (await this.readStat(true, this.context))?.mode ?? null;
+    };
+
+    /**
+     * @description Sets the permission bits of the file. Use {@link chmod} for symbolic modes and directories.
+     * @example
+     * const file = new FileAsync("path/to/script.sh");
+     * await file.setMode(0o750);
+     * @param {number} value - The new permission bits.
+     * @returns {Promise<FileAsync | null>} The FileAsync object, or null if the file does not exist
+     * or the operation failed.
+     */
+    async setMode(value: number): Promise<FileAsync | null> {
+        return await pass(() => this.fs.chmod(this.fullPath, value & 0o7777), this.context) ? this : null;
+    };
+
+    /**
+     * @description Gets the permissions of the file: the read, write and execute flags of the owner, the group
+     * and everyone else, the setuid, setgid and sticky bits, and the `ls -l` form.
+     * @example
+     * const file = new FileAsync("path/to/script.sh");
+     * const permissions = await file.permissions();
+     * console.log(permissions?.toString()); // "-rwxr-x---"
+     * console.log(permissions?.group.write); // false
+     * @returns {Promise<Permissions | null>} The permissions, or null if the file does not exist.
+     */
+    async permissions(): Promise<Permissions | null> {
+        return (await this.readStat(true, this.context))?.permissions ?? null;
+    };
+
+    /**
+     * @description Gets the user id of the owner of the file.
+     * @example
+     * const file = new FileAsync("path/to/file.txt");
+     * console.log("Owned by", await file.owner());
+     * @returns {Promise<number | null>} The user id, or null if the file does not exist or the file system has no owners.
+     */
+    async owner(): Promise<number | null> {
+        return (await this.readStat(true, this.context))?.uid ?? null;
+    };
+
+    /**
+     * @description Gets the group id of the file.
+     * @example
+     * const file = new FileAsync("path/to/file.txt");
+     * console.log("Group", await file.group());
+     * @returns {Promise<number | null>} The group id, or null if the file does not exist or the file system has no groups.
+     */
+    async group(): Promise<number | null> {
+        return (await this.readStat(true, this.context))?.gid ?? null;
+    };
+
+    /**
+     * @description Changes the permissions of the file, and with `recursive` of everything below a directory.
+     * The mode is a number, an octal string like "755", or a symbolic mode like the `chmod` command takes,
+     * see {@link resolveMode}. Files and directories can be given different modes.
+     * Symbolic links are not followed below the directory.
+     * @example
+     * await new FileAsync("path/to/script.sh").chmod("u+x,go-w");
+     * // Directories get 755, files 644
+     * await new FileAsync("path/to/site").chmod(0o644, {recursive: true, directories: 0o755});
+     * // Let the group read everything, directories are entered with X
+     * await new FileAsync("path/to/shared").chmod("g+rX", {recursive: true});
+     * @param {number | string} mode - The mode to apply.
+     * @param {ChmodOptions} [options] - `recursive`, and the `files` and `directories` modes used instead of `mode`.
+     * @returns {Promise<FileAsync | null>} The FileAsync object, or null if the mode is invalid or any file
+     * could not be changed.
+     */
+    async chmod(mode: number | string, options: ChmodOptions = {}): Promise<FileAsync | null> {
+        let changed = true;
+        for await (const entry of this.walkEntries({maxDepth: options.recursive ? Infinity : 0, links: "skip"})) {
+            const file = entry.file;
+            const stat = await file.readStat(true, this.context);
+            if (!stat) {
+                changed = false;
+                continue;
+            }
+            const requested = (entry.isDirectory ? options.directories : options.files) ?? mode;
+            let resolved: number;
+            try {
+                resolved = resolveMode(requested, stat.mode, entry.isDirectory);
+            } catch (e) {
+                return fail(this.context, "EINVAL", "chmod", file.fullPath, {cause: e});
+            }
+            changed = await pass(() => file.fs.chmod(file.fullPath, resolved), this.context) && changed;
+        }
+        return changed ? this : null;
+    };
+
+    /**
+     * @description Changes the owner and group of the file, and with `recursive` of everything below a directory.
+     * Changing the owner usually needs root. Symbolic links are not followed below the directory.
+     * @example
+     * await new FileAsync("path/to/site").chown(1000, 1000, {recursive: true});
+     * // Only change the group
+     * await new FileAsync("path/to/file.txt").chown(-1, 100);
+     * @param {number} uid - The user id of the new owner, -1 to keep it.
+     * @param {number} [gid=-1] - The id of the new group, -1 to keep it.
+     * @param {ChownOptions} [options] - `recursive`.
+     * @returns {Promise<FileAsync | null>} The FileAsync object, or null if any file could not be changed.
+     */
+    async chown(uid: number, gid: number = -1, options: ChownOptions = {}): Promise<FileAsync | null> {
+        if (!("chown" in this.fs)) return fail(this.context, "ENOSYS", "chown", this.fullPath);
+        let changed = true;
+        for await (const entry of this.walkEntries({maxDepth: options.recursive ? Infinity : 0, links: "skip"})) {
+            const file = entry.file;
+            changed = await pass(() => file.fs.chown(file.fullPath, uid, gid), this.context) && changed;
+        }
+        return changed ? this : null;
     };
 
     /**
@@ -151,7 +453,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {Promise<Date | null>} The creation time of the file as a Date object, or null if the file does not exist.
      */
     creationTime(): Promise<Date | null> {
-        return ret(() => this.fs.stat(this.fullPath).then(r => r.birthtime).catch(() => null));
+        return this.readStat(true, this.context).then(stat => stat?.birthtime ?? null);
     };
 
     /**
@@ -166,7 +468,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {Promise<FileAsync | null>} A promise that resolves when the creation time is set successfully.
      */
     async setCreationTime(value: Date): Promise<FileAsync | null> {
-        return await pass(() => this.fs.utimes(this.fullPath, value, value)) ? this : null;
+        return await pass(() => this.fs.utimes(this.fullPath, value, value), this.context) ? this : null;
     };
 
     /**
@@ -180,7 +482,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {Promise<Date | null>} The last modified time of the file as a Date object, or null if the file does not exist.
      */
     async lastModified(): Promise<Date | null> {
-        return await ret(() => this.fs.stat(this.fullPath).then(r => r.mtime).catch(() => null));
+        return (await this.readStat(true, this.context))?.mtime ?? null;
     };
 
     /**
@@ -195,7 +497,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {Promise<FileAsync | null>} A promise that resolves when the last modified time is set successfully.
      */
     async setLastModified(value: Date): Promise<FileAsync | null> {
-        return await pass(() => this.fs.utimes(this.fullPath, value, value)) ? this : null;
+        return await pass(() => this.fs.utimes(this.fullPath, value, value), this.context) ? this : null;
     };
 
     /**
@@ -223,7 +525,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {Promise<Date | null>} The last access time of the file as a Date object, or null if the file does not exist.
      */
     lastAccess(): Promise<Date | null> {
-        return ret(() => this.fs.stat(this.fullPath).then(r => r.atime).catch(() => null));
+        return this.readStat(true, this.context).then(stat => stat?.atime ?? null);
     };
 
     /**
@@ -288,8 +590,8 @@ export class FileAsync extends IFile<IAsyncFS> {
      * or null if the file is in the root directory.
      */
     get parent(): FileAsync | null {
-        if (this.split.length === 0) return null;
-        return new FileAsync(this.split.slice(0, -1));
+        if (this.segments.length === 0) return null;
+        return new FileAsync(this.split.slice(0, -1), this.context);
     };
 
     /**
@@ -316,7 +618,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {string} The path separator used by the file system.
      */
     get separator(): string {
-        return FileAsync.sep;
+        return this.context.sep;
     };
 
     /**
@@ -332,7 +634,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {Promise<boolean | null>} True if the file is a directory, false if it is not, or null if the file does not exist.
      */
     isDirectory(): Promise<boolean | null> {
-        return ret(() => this.fs.stat(this.fullPath).then(r => r.isDirectory()).catch(() => null));
+        return this.readStat(true).then(stat => stat?.isDirectory ?? null);
     };
 
     /**
@@ -348,7 +650,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {Promise<boolean | null>} True if the file is a regular file, false if it is not, or null if the file does not exist.
      */
     isFile(): Promise<boolean | null> {
-        return ret(() => this.fs.stat(this.fullPath).then(r => r.isFile()).catch(() => null));
+        return this.readStat(true).then(stat => stat?.isFile ?? null);
     };
 
     /**
@@ -398,34 +700,79 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {Promise<boolean | null>} True if the file is a symbolic link, false if it is not, or null if the file does not exist.
      */
     isSymbolicLink(): Promise<boolean | null> {
-        return ret(() => this.fs.lstat(this.fullPath).then(r => r.isSymbolicLink()).catch(() => null));
+        return this.readStat(false).then(stat => stat?.isSymbolicLink ?? null);
+    };
+
+    /**
+     * @description Takes a snapshot of the metadata of the file: its type, size, permissions, owner, inode and
+     * times. Reading the snapshot costs no further calls, unlike calling `size()`, `lastModified()` and the other
+     * queries one by one, which take a `stat` each unless the context has a stat cache.
+     * @example
+     * const stat = await new FileAsync("path/to/file.txt").stat();
+     * if (stat) console.log(stat.type, stat.size, stat.mtime.toISOString(), stat.permissions.toString());
+     * @param {boolean} [followLinks=true] - Whether to describe what a symbolic link points to, or the link itself.
+     * @returns {Promise<FileStat | null>} The snapshot, or null if the file does not exist.
+     */
+    stat(followLinks: boolean = true): Promise<FileStat | null> {
+        return this.readStat(followLinks, this.context);
+    };
+
+    /**
+     * @description Drops the stat snapshots of the file, the ones preloaded by `listFiles(true)` or a walk with `stats`,
+     * and the one in the stat cache of the context, so the next query reads the file system again.
+     * @example
+     * const files = await dir.listFiles(true); // stat snapshots taken while listing
+     * await files?.[0].refresh().size(); // reads the size again
+     * @returns {FileAsync} The FileAsync object.
+     */
+    refresh(): FileAsync {
+        this.preloaded = undefined;
+        this.context.statCache?.delete(this.fullPath);
+        return this;
+    };
+
+    private async readStat(followLinks: boolean, context?: FileSystem): Promise<FileStat | null> {
+        const preloaded = followLinks ? this.preloaded?.stat : this.preloaded?.lstat;
+        if (preloaded) return preloaded;
+        const cache = this.context.statCache;
+        const cached = cache?.get(this.fullPath, followLinks);
+        if (cached) return cached;
+        const raw = await ret(() => followLinks ? this.fs.stat(this.fullPath) : this.fs.lstat(this.fullPath), context);
+        if (!raw) return null;
+        const stat = new FileStat(raw);
+        cache?.set(this.fullPath, followLinks, stat);
+        // what is not a link is described the same whether links are followed or not
+        if (!followLinks && !stat.isSymbolicLink) cache?.set(this.fullPath, true, stat);
+        return stat;
+    };
+
+    private async preload() {
+        const lstat = await this.readStat(false);
+        if (lstat) this.preloaded = {lstat, stat: lstat.isSymbolicLink ? await this.readStat(true) ?? undefined : lstat};
     };
 
     /**
      * @description Gets the size of the file in bytes.
      * If the file is a directory, it returns the total size of all files within the directory.
+     * A linked directory reached twice is only counted once.
      * @example
      * const file = new FileAsync("path/to/file.txt");
      * console.log("File size:", await file.size(), "bytes");
+     * @param {LinkPolicy} [links="follow"] - "follow" counts what symbolic links point to, "preserve" counts
+     * the links themselves and "skip" leaves them out.
      * @returns {Promise<number | null>} The size of the file in bytes, or null if the file does not exist.
      */
-    async size(): Promise<number | null> {
-        return ret(async () => {
-            const stat = await this.fs.stat(this.fullPath).then(r => r).catch(() => null);
-            if (!stat) return null;
-            if (stat.isFile()) return stat.size;
-            if (stat.isDirectory()) {
-                const files = await this.listFiles();
-                if (files === null) return null;
-                let totalSize = 0;
-                for (const file of files) {
-                    const fileSize = await file.size();
-                    if (fileSize === null) continue;
-                    totalSize += fileSize;
-                }
-                return totalSize;
-            }
-        });
+    async size(links: LinkPolicy = "follow"): Promise<number | null> {
+        const lstat = await this.readStat(false, this.context);
+        if (!lstat) return null;
+        if (lstat.isSymbolicLink && links !== "follow") return links === "skip" ? 0 : lstat.size;
+        let total = 0;
+        for await (const entry of this.walkEntries({links})) {
+            const file = entry.file;
+            if (entry.isSymbolicLink && links === "preserve") total += (await file.readStat(false, this.context))?.size ?? 0;
+            else if (!entry.isDirectory) total += (await file.readStat(true, this.context))?.size ?? 0;
+        }
+        return total;
     };
 
     /**
@@ -470,6 +817,57 @@ export class FileAsync extends IFile<IAsyncFS> {
         return size !== null ? size / (1024 * 1024 * 1024) : null;
     };
 
+    /**
+     * @description Analyzes the disk usage of a directory tree, like `du`: the totals of every directory with
+     * their file counts, apparent and allocated sizes, the largest files and directories and a breakdown by
+     * extension. Directories and entries that cannot be read are reported instead of failing the analysis.
+     * Files with several hard links and directories reached twice through links are counted once.
+     * @example
+     * const usage = await new FileAsync("path/to/project").diskUsage({maxDepth: 1, ignore: [".git/", "node_modules/"]});
+     * if (usage) {
+     *     for (const dir of usage.root.children) console.log(dir.path, formatSize(dir.size), dir.files);
+     *     console.log(formatDiskUsage(usage));
+     * }
+     * @param {DiskUsageOptions} [options] - The options: `maxDepth`, `ignore`, `links` and `top`.
+     * @returns {Promise<DiskUsage<FileAsync> | null>} The usage, or null if this is not a directory or cannot be listed.
+     */
+    async diskUsage(options: DiskUsageOptions = {}): Promise<DiskUsage<FileAsync> | null> {
+        const stat = await this.readStat(true, this.context);
+        if (!stat) return null;
+        if (!stat.isDirectory) return fail(this.context, "ENOTDIR", "scandir", this.fullPath);
+        const names = await ret(() => this.fs.readdir(this.fullPath), this.context);
+        if (!names) return null;
+        const links = options.links ?? "preserve";
+        const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+        const tally = new DiskUsageTally<FileAsync>(options);
+        const visit = async (dir: FileAsync, path: string, depth: number, names: string[]): Promise<DiskUsageNode<FileAsync>> => {
+            const node = tally.node(dir, path);
+            for (const name of names) {
+                const file = dir.to(name);
+                const entryPath = walkPath(path, name);
+                const lstat = await file.readStat(false);
+                if (!lstat) {
+                    tally.skip(entryPath);
+                    continue;
+                }
+                if (lstat.isSymbolicLink && links === "skip") continue;
+                // a link whose target is missing is counted as the link itself
+                const stat = lstat.isSymbolicLink && links === "follow" ? await file.readStat(true) ?? lstat : lstat;
+                if (ignore?.matches(entryPath, stat.isDirectory)) continue;
+                if (!stat.isDirectory) {
+                    tally.addFile(node, file, entryPath, stat);
+                } else if (tally.enter(stat, file.fullPath)) {
+                    const children = await ret(() => file.fs.readdir(file.fullPath));
+                    if (!children) tally.skip(entryPath);
+                    tally.addDirectory(node, await visit(file, entryPath, depth + 1, children ?? []), depth + 1);
+                }
+            }
+            return node;
+        };
+        tally.enter(stat, this.fullPath);
+        return tally.finish(await visit(this, "", 0, names));
+    };
+
     /**
      * @description Creates a new FileAsync object with the specified paths appended to the current file's path.
      * This method allows you to create a new file or directory relative to the current file's path.
@@ -482,7 +880,56 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {FileAsync} A new FileAsync object with the updated path.
      */
     to(...paths: string[]): FileAsync {
-        return new FileAsync(this.fullPath + "/" + paths.join("/"));
+        return new FileAsync(this.fullPath + "/" + paths.join("/"), this.context);
+    };
+
+    /**
+     * @description Resolves paths against the file's path, like `cd` would one after another:
+     * an absolute path starts over, ".." climbs up and anything else descends.
+     * @example
+     * const dir = new FileAsync("/srv/app");
+     * dir.resolve("../logs", "today.log").fullPath; // "/srv/logs/today.log"
+     * dir.resolve("/etc", "app.conf").fullPath; // "/etc/app.conf"
+     * @param {...string} paths - The paths to resolve, in the path syntax of the file's context.
+     * @returns {FileAsync} A new FileAsync object for the resolved path.
+     */
+    resolve(...paths: string[]): FileAsync {
+        return new FileAsync(this.context.flavor.resolve(this.fullPath, ...paths), this.context);
+    };
+
+    /**
+     * @description Creates a new FileAsync object for a sibling of the file, with another name in the same directory.
+     * @example
+     * new FileAsync("/srv/app/config.json").withName("config.bak").fullPath; // "/srv/app/config.bak"
+     * @param {string} name - The new name.
+     * @returns {FileAsync} A new FileAsync object with the new name.
+     */
+    withName(name: string): FileAsync {
+        return new FileAsync(this.context.flavor.withName(this.fullPath, name), this.context);
+    };
+
+    /**
+     * @description Creates a new FileAsync object with the extension of the file's name replaced.
+     * Names starting with their only dot, like `.bashrc`, are kept whole and get the extension appended.
+     * @example
+     * new FileAsync("/docs/readme.md").withExtension("html").fullPath; // "/docs/readme.html"
+     * @param {string} extension - The new extension, with or without its dot, or an empty string to remove it.
+     * @returns {FileAsync} A new FileAsync object with the new extension.
+     */
+    withExtension(extension: string): FileAsync {
+        return new FileAsync(this.context.flavor.withExtension(this.fullPath, extension), this.context);
+    };
+
+    /**
+     * @description Creates a new FileAsync object with the same name in another directory.
+     * @example
+     * new FileAsync("/tmp/report.pdf").withParent("/home/user/docs").fullPath; // "/home/user/docs/report.pdf"
+     * @param {FileAsync | string} parent - The new directory, a path is resolved against the working directory.
+     * @returns {FileAsync} A new FileAsync object in the new directory.
+     */
+    withParent(parent: FileAsync | string): FileAsync {
+        const split = typeof parent === "string" ? this.context.flavor.split(parent, this.context.cwd) : parent.split;
+        return new FileAsync([...split, this.name], this.context);
     };
 
     /**
@@ -519,7 +966,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      */
     async createFile(value: string | Buffer = "", encoding?: BufferEncoding): Promise<FileAsync | null> {
         if (!await this.exists()) return await this.write(value, encoding) ? this : null;
-        return await this.isFile() ? this : null;
+        return await this.isFile() ? this : fail(this.context, "EISDIR", "open", this.fullPath);
     };
 
     /**
@@ -533,26 +980,65 @@ export class FileAsync extends IFile<IAsyncFS> {
      * } else {
      *    console.log("Failed to delete file.");
      * }
+     * Symbolic links are deleted themselves by default, leaving what they point to alone.
      * @param {boolean} recursive - Whether to delete the directory and its contents recursively.
      * @param {boolean} [force=false] - Whether to force the deletion, ignoring errors.
+     * @param {LinkPolicy} [links="preserve"] - "preserve" deletes links themselves, "follow" also deletes what
+     * they point to, and "skip" keeps links and so the directories holding them.
      * @returns {Promise<FileAsync | null>} The FileAsync object if the file or directory was deleted successfully,
      * or null if the file or directory does not exist or could not be deleted.
      */
-    async delete(recursive?: boolean, force: boolean = recursive): Promise<FileAsync | null> {
+    async delete(recursive?: boolean, force: boolean = recursive,
+                 links: LinkPolicy = "preserve"): Promise<FileAsync | null> {
+        if (await this.isSymbolicLink()) {
+            if (links === "skip") return this;
+            // the target has to be found before the link is gone, and a link to a directory holding it is only unlinked
+            const target = links === "follow" && await this.exists() ? await this.realPath() : null;
+            const home = target && await this.parent?.realPath();
+            const encloses = home && (target.fullPath === home.fullPath || target.contains(home));
+            if (target && !encloses && !await target.delete(recursive, force, links)) return null;
+            return await pass(() => this.fs.unlink(this.fullPath), this.context) ? this : null;
+        }
+        if (recursive && links !== "preserve" && await this.isDirectory()) {
+            let failed = false;
+            for (const file of await this.listFiles() || []) {
+                if (!await file.delete(true, force, links)) failed = true;
+            }
+            if (failed) return null;
+            if (links === "skip" && (await this.listFiles())?.length) return this;
+            return await pass(() => this.fs.rmdir(this.fullPath), this.context) ? this : null;
+        }
         if (recursive) {
             if ("rm" in this.fs) {
-                return await pass(() => this.fs.rm(this.fullPath, {recursive: true, force: force})) ? this : null;
+                return await pass(() => this.fs.rm(this.fullPath, {recursive: true, force: force}), this.context) ? this : null;
             }
             if ("rmdir" in this.fs) {
-                return await pass(() => this.fs.rmdir(this.fullPath, {recursive: true})) ? this : null;
+                return await pass(() => this.fs.rmdir(this.fullPath, {recursive: true}), this.context) ? this : null;
             }
             let failed = false;
             for (const file of await this.listFiles() || []) {
-                if (!await file.delete(true)) failed = true;
+                if (!await file.delete(true, force, links)) failed = true;
             }
             if (failed) return null;
         }
-        return await pass(() => this.fs.unlink(this.fullPath)) ? this : null;
+        return await pass(() => this.fs.unlink(this.fullPath), this.context) ? this : null;
+    };
+
+    /**
+     * @description Moves the file or directory to the trash instead of deleting it, following the freedesktop.org
+     * Trash specification. Files on the file system of the home trash go there, files on other file systems go
+     * to the trash at the top of their mount. An item with the same name already in the trash is kept, the file
+     * gets a numbered name like "notes.2.txt".
+     * @example
+     * const item = await new FileAsync("path/to/notes.txt").moveToTrash();
+     * if (item) await FileAsync.restoreFromTrash(item); // changed my mind
+     * // in tests, keep the trash in a temporary directory
+     * await file.moveToTrash({trash: tempDir.to("Trash")});
+     * @param {TrashOptions<FileAsync>} [options] - The home `trash` directory, a path is resolved in the file's context.
+     * @returns {Promise<TrashItem<FileAsync> | null>} The item in the trash, or null if the file could not be trashed.
+     */
+    moveToTrash(options: TrashOptions<FileAsync> = {}): Promise<TrashItem<FileAsync> | null> {
+        return ret(async () => moveToTrash(this, FileAsync.trash(options.trash, this.context)), this.context);
     };
 
     /**
@@ -567,7 +1053,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @returns {void}
      */
     deleteOnExit(recursive?: boolean): void {
-        deleteQueue.set(this.fullPath, recursive);
+        deleteQueue.set(this.fullPath, [this.sync, recursive]);
         attachCleanup();
     };
 
@@ -613,14 +1099,32 @@ export class FileAsync extends IFile<IAsyncFS> {
      * } else {
      *     console.log("Not a directory or no files found.");
      * }
+     * // Take a stat snapshot of each file while listing, so showing several columns costs nothing more
+     * for (const file of await dir.listFiles(true) ?? []) {
+     *     console.log(file.name, await file.isDirectory(), await file.size(), await file.lastModified());
+     * }
+     * @param {boolean} [withStats=false] - Whether to take a stat snapshot of every file, which its queries and
+     * `stat()` answer from until `refresh()`.
      * @returns {Promise<FileAsync[] | null>} An array of FileAsync objects representing the files in the directory,
      * or null if the file is not a directory.
      */
-    async listFiles(): Promise<FileAsync[] | null> {
-        if (!this.isDirectory) return null;
-        const files = await ret(() => this.fs.readdir(this.fullPath));
-        if (!files) return null;
-        return files.map(file => new FileAsync(`${this.fullPath}/${file}`));
+    async listFiles(withStats: boolean = false): Promise<FileAsync[] | null> {
+        return (await this.listEntries(withStats))?.map(entry => entry.file) ?? null;
+    };
+
+    /**
+     * Lists the directory, with the entry types of backends listing `withFileTypes`.
+     */
+    private async listEntries(withStats: boolean): Promise<{ file: FileAsync, dirent?: DirentLike }[] | null> {
+        const entries = await ret(() => this.fs.readdir(this.fullPath, {withFileTypes: true}), this.context);
+        if (!entries) return null;
+        const result: { file: FileAsync, dirent?: DirentLike }[] = [];
+        for (const entry of entries) {
+            const file = new FileAsync(`${this.fullPath}/${typeof entry === "string" ? entry : entry.name}`, this.context);
+            if (withStats) await file.preload();
+            result.push(typeof entry === "string" ? {file} : {file, dirent: entry});
+        }
+        return result;
     };
 
     /**
@@ -638,7 +1142,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * in the directory, or null if the file is not a directory.
      */
     listFilenames(): Promise<string[] | null> {
-        return ret(() => this.fs.readdir(this.fullPath));
+        return ret(() => this.fs.readdir(this.fullPath), this.context);
     };
 
     /**
@@ -657,7 +1161,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      * or null if the directory could not be created.
      */
     async mkdir(recursive: boolean = false): Promise<FileAsync | null> {
-        return await pass(() => this.fs.mkdir(this.fullPath, {recursive})) ? this : null;
+        return await pass(() => this.fs.mkdir(this.fullPath, {recursive}), this.context) ? this : null;
     };
 
     /**
@@ -679,8 +1183,9 @@ export class FileAsync extends IFile<IAsyncFS> {
 
     /**
      * @description Renames the file or directory to the specified destination.
-     * If the destination already exists and `overwrite` is false, it will not overwrite it.
-     * If `recursive` is true, it will create parent directories if they do not exist.
+     * If the destination already exists and `overwrite` is false, it fails and leaves the destination untouched.
+     * If `overwrite` is true, the destination is deleted first.
+     * If `recursive` is true, it will create the destination's parent directories if they do not exist.
      * If the source and destination paths are the same, it does nothing and returns the current FileAsync object.
      * @example
      * const file = new FileAsync("path/to/source.txt");
@@ -699,15 +1204,22 @@ export class FileAsync extends IFile<IAsyncFS> {
      */
     async renameTo(dest: FileAsync, overwrite?: boolean, recursive?: boolean): Promise<FileAsync | null> {
         if (this.fullPath === dest.fullPath) return this;
-        if (dest.exists && !overwrite && !await dest.delete(recursive)) return null;
-        if (recursive) await this.parent?.mkdirs();
-        return await pass(() => this.fs.rename(this.fullPath, dest.fullPath)) ? this : null;
+        if (await dest.exists()) {
+            if (!overwrite) return fail(this.context, "EEXIST", "rename", this.fullPath, {dest: dest.fullPath});
+            if (!await dest.delete(recursive)) return null;
+        }
+        if (recursive) await dest.parent?.mkdirs();
+        // the destination is replaced without going through its own backend calls
+        dest.preloaded = undefined;
+        return await pass(() => this.fs.rename(this.fullPath, dest.fullPath), this.context) ? this : null;
     };
 
     /**
      * @description Copies the file to the specified destination.
-     * If the destination file already exists and `overwrite` is false, it will not overwrite it.
+     * If the destination already exists and `overwrite` is false, it fails and leaves the destination untouched.
+     * If `overwrite` is true, files are overwritten and directories are merged into existing ones.
      * If `recursive` is true, it will copy the contents of the directory recursively.
+     * To only copy what changed, use {@link syncTo}.
      * @example
      * const file = new FileAsync("path/to/source.txt");
      * const dest = new FileAsync("path/to/destination.txt");
@@ -719,53 +1231,357 @@ export class FileAsync extends IFile<IAsyncFS> {
      * @param {FileAsync} dest - The destination file to copy to.
      * @param {boolean} [overwrite=false] - Whether to overwrite the destination file if it already exists.
      * @param {boolean} [recursive=false] - Whether to copy the contents of the directory recursively and
-     * delete the destination directory recursively if it already exists.
+     * delete the destination directory recursively if it has to be replaced.
+     * @param {LinkPolicy} [links="follow"] - "follow" copies what symbolic links point to, "preserve" creates
+     * the same links in the destination, with their targets unchanged, and "skip" leaves them out.
      * @returns {Promise<FileAsync | null>} The FileAsync object if the file was copied successfully,
      * or null if the file could not be copied.
      */
-    async copyTo(dest: FileAsync, overwrite?: boolean, recursive?: boolean): Promise<FileAsync | null> {
+    async copyTo(dest: FileAsync, overwrite?: boolean, recursive?: boolean,
+                 links: LinkPolicy = "follow"): Promise<FileAsync | null> {
         if (this.fullPath === dest.fullPath) return this;
-        if (!this.exists) return null;
-        if (dest.exists && !overwrite && !await dest.delete(recursive)) return null;
+        const isLink = links !== "follow" && await this.isSymbolicLink() === true;
+        if (isLink && links === "skip") return this;
+        if (!isLink && !await this.exists()) {
+            return fail(this.context, "ENOENT", "copyfile", this.fullPath, {dest: dest.fullPath});
+        }
+        const destIsLink = await dest.isSymbolicLink() === true;
+        if (destIsLink || await dest.exists()) {
+            if (!overwrite) return fail(this.context, "EEXIST", "copyfile", this.fullPath, {dest: dest.fullPath});
+            // a file cannot be merged with a directory, so the destination is replaced if their types differ
+            if ((isLink || destIsLink || await this.isFile() !== await dest.isFile()) && !await dest.delete(recursive)) {
+                return null;
+            }
+        }
 
-        if (this.isFile) {
+        if (isLink) {
+            const target = await ret(() => this.fs.readlink(this.fullPath), this.context);
+            if (target === null) return null;
+            return await dest.createSymlinkTo(target, await this.isDirectory() ? "dir" : "file") ? this : null;
+        }
+
+        if (await this.isFile()) {
             const data = await this.read();
             if (data === null) return null;
             return await dest.write(data) ? this : null;
         }
 
-        if (!await dest.mkdir(recursive)) return null;
+        if (!await dest.isDirectory() && !await dest.mkdir(recursive)) return null;
         const files = await this.listFiles();
         if (files === null) return null;
         let failed = false;
         for (const file of files) {
             const newFile = dest.to(file.name);
-            if (!await file.copyTo(newFile, overwrite, recursive)) failed = true;
+            if (!await file.copyTo(newFile, overwrite, recursive, links)) failed = true;
         }
         return failed ? null : this;
     };
 
+    /**
+     * @description Mirrors this directory into the destination directory, rsync style: only files that are new or
+     * changed are copied, files are compared by size and modification time or by content hash, and extraneous
+     * entries in the destination can optionally be deleted. The destination is created if it does not exist.
+     * @example
+     * const source = new FileAsync("path/to/site");
+     * const report = await source.syncTo(new FileAsync("path/to/backup"), {delete: true, ignore: ["*.tmp"], dryRun: true});
+     * console.log("Would copy", report.added.length + report.updated.length, "files");
+     * console.log("Would delete", report.deleted);
+     * @param {FileAsync} dest - The destination directory.
+     * @param {SyncOptions} [options] - The options: `compare`, `algorithm`, `delete`, `ignore`, `dryRun`,
+     * `preserveTimes` and `followSymlinks`.
+     * @returns {Promise<SyncReport | null>} A report of the added, updated, deleted, skipped and failed paths,
+     * or null if this is not a directory or the destination could not be created.
+     */
+    async syncTo(dest: FileAsync, options: SyncOptions = {}): Promise<SyncReport | null> {
+        if (!await this.isDirectory()) return fail(this.context, "ENOTDIR", "scandir", this.fullPath);
+        const destExists = await dest.exists();
+        if (destExists && !await dest.isDirectory()) return fail(dest.context, "ENOTDIR", "scandir", dest.fullPath);
+        if (!destExists && !options.dryRun && !await dest.mkdirs()) return null;
+        const report = emptySyncReport();
+        const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+        // relative paths of the source mapped to whether their counterpart in the destination is descended into
+        const seen = new Map<string, boolean>();
+        const apply = async (path: string, list: string[], action: () => Promise<unknown>) => {
+            if (options.dryRun || await action()) list.push(path);
+            else report.failed.push(path);
+        };
+        for await (const entry of this.walkEntries({
+            minDepth: 1,
+            followSymlinks: options.followSymlinks,
+            descend: entry => !ignore?.matches(entry.path, true)
+        })) {
+            if (ignore?.matches(entry.path, entry.isDirectory)) continue;
+            const target = dest.to(...entry.path.split("/"));
+            if (entry.isSymbolicLink && !options.followSymlinks) {
+                seen.set(entry.path, false);
+                report.skipped.push(entry.path);
+                continue;
+            }
+            seen.set(entry.path, entry.isDirectory);
+            const exists = await target.exists();
+            const isDirectory = exists && await target.isDirectory();
+            const list = exists ? report.updated : report.added;
+            if (entry.isDirectory) {
+                if (isDirectory) continue;
+                await apply(entry.path, list, async () => (!exists || await target.delete(true)) && await target.mkdir());
+                continue;
+            }
+            if (exists && !isDirectory && await this.isSynced(entry.file, target, options)) {
+                report.skipped.push(entry.path);
+                continue;
+            }
+            await apply(entry.path, list, async () => (!isDirectory || await target.delete(true))
+                && await this.mirrorFile(entry.file, target, options));
+        }
+        if (options.delete && destExists) {
+            for await (const entry of dest.walkEntries({minDepth: 1, descend: entry => seen.get(entry.path) === true})) {
+                if (seen.has(entry.path) || ignore?.matches(entry.path, entry.isDirectory)) continue;
+                await apply(entry.path, report.deleted, async () => await entry.file.delete(true));
+            }
+        }
+        return report;
+    };
+
+    private async isSynced(source: FileAsync, target: FileAsync, options: SyncOptions): Promise<boolean> {
+        const sourceStat = await ret(() => source.fs.stat(source.fullPath), this.context);
+        const targetStat = await ret(() => target.fs.stat(target.fullPath), target.context);
+        if (options.compare !== "hash") return sameMetadata(sourceStat, targetStat);
+        if (!sourceStat || !targetStat || sourceStat.size !== targetStat.size) return false;
+        const hash = await source.hash(options.algorithm);
+        return hash !== null && hash === await target.hash(options.algorithm);
+    };
+
+    private async mirrorFile(source: FileAsync, target: FileAsync, options: SyncOptions): Promise<boolean> {
+        const data = await source.read();
+        if (data === null || !await target.write(data)) return false;
+        if (options.preserveTimes === false) return true;
+        const stat = await ret(() => source.fs.stat(source.fullPath), this.context);
+        if (!stat?.mtime) return true;
+        return await pass(() => target.fs.utimes(target.fullPath, stat.atime ?? stat.mtime, stat.mtime), target.context);
+    };
+
     /**
      * @description Walks through the directory and yields each file.
      * If the file is a directory, it will yield the directory and then recursively yield all files within it.
      * If the file is not a directory, it will yield the file itself.
+     * The walk can be limited and reordered with options, see {@link walkEntries}.
      * @example
      * const dir = new FileAsync("path/to/directory");
      * for await (const file of dir.walk()) {
      *     console.log(file.name);
      * }
+     * for await (const file of dir.walk({type: "files", descend: e => e.file.name !== "node_modules"})) {
+     *     console.log(file.name);
+     * }
+     * @param {WalkOptions<FileAsync>} [options] - The options of the walk.
      * @returns {AsyncGenerator<FileAsync>} A generator that yields FileAsync objects representing the files
      * in the directory and its subdirectories.
      * If the file is not a directory, it will yield the file itself.
      * @yields {FileAsync} Each file in the directory and its subdirectories.
      */
-    async* walk(): AsyncGenerator<FileAsync> {
-        if (this.isDirectory) {
-            yield this;
-            for (const file of await this.listFiles() || []) {
-                yield* file.walk();
+    async* walk(options?: WalkOptions<FileAsync, boolean | Promise<boolean>>): AsyncGenerator<FileAsync> {
+        for await (const entry of this.walkEntries(options)) yield entry.file;
+    };
+
+    /**
+     * @description Walks through the directory and yields an entry for each file, carrying the file,
+     * its depth and its path relative to this directory.
+     * Symbolically linked directories are only descended into if `followSymlinks` is set, and a directory is never
+     * descended into twice, so link cycles cannot cause infinite walks.
+     * The `filter` and `descend` predicates may return promises.
+     * @example
+     * const dir = new FileAsync("path/to/directory");
+     * // Delete everything below the directory, children before their parents
+     * for await (const entry of dir.walkEntries({order: "post", minDepth: 1})) {
+     *     console.log("Deleting", entry.path, "at depth", entry.depth);
+     *     await entry.file.delete();
+     * }
+     * @param {WalkOptions<FileAsync>} [options] - The options of the walk: `maxDepth`, `minDepth`, `filter`, `descend`,
+     * `type`, `order`, `followSymlinks`, `links` and `stats`.
+     * @returns {AsyncGenerator<WalkEntry<FileAsync>>} A generator that yields the entries of the walk.
+     */
+    async* walkEntries(
+        options: WalkOptions<FileAsync, boolean | Promise<boolean>> = {}
+    ): AsyncGenerator<WalkEntry<FileAsync>> {
+        const {maxDepth = Infinity, minDepth = 0, type = "all", order = "pre"} = options;
+        const links = options.links ?? (options.followSymlinks ? "follow" : "preserve");
+        const visited = new Set<string>();
+        const createEntry = async (
+            file: FileAsync,
+            depth: number,
+            path: string,
+            dirent?: DirentLike
+        ): Promise<WalkEntry<FileAsync>> => {
+            // directory entries answer for plain files and directories, links and unknown types need a stat
+            if (dirent && !options.stats && !dirent.isSymbolicLink() && (dirent.isFile() || dirent.isDirectory())) {
+                return {file, depth, path, isDirectory: dirent.isDirectory(), isSymbolicLink: false};
+            }
+            const lstat = await file.readStat(false);
+            const isSymbolicLink = lstat?.isSymbolicLink ?? false;
+            const stat = isSymbolicLink || !lstat ? await file.readStat(true) : lstat;
+            const entry = {file, depth, path, isDirectory: stat?.isDirectory ?? false, isSymbolicLink};
+            return options.stats && stat ? {...entry, stat} : entry;
+        };
+        const accepts = async (entry: WalkEntry<FileAsync>) => entry.depth >= minDepth
+            && (type === "all" || (type === "directories") === entry.isDirectory)
+            && (!options.filter || await options.filter(entry));
+        const children = async (entry: WalkEntry<FileAsync>): Promise<WalkEntry<FileAsync>[]> => {
+            if (!entry.isDirectory || entry.depth >= maxDepth) return [];
+            if (entry.isSymbolicLink && links !== "follow" && entry.depth > 0) return [];
+            if (options.descend && entry.depth > 0 && !await options.descend(entry)) return [];
+            const key = walkKey(await entry.file.readStat(true), entry.file.fullPath);
+            if (visited.has(key)) return [];
+            visited.add(key);
+            const result: WalkEntry<FileAsync>[] = [];
+            for (const {file, dirent} of await entry.file.listEntries(options.stats ?? false) || []) {
+                const child = await createEntry(file, entry.depth + 1, walkPath(entry.path, file.name), dirent);
+                if (links !== "skip" || !child.isSymbolicLink) result.push(child);
+            }
+            return result;
+        };
+        const root = await createEntry(this, 0, "");
+        if (order === "breadth") {
+            const queue = [root];
+            for (let i = 0; i < queue.length; i++) {
+                const entry = queue[i];
+                queue[i] = null;
+                if (await accepts(entry)) yield entry;
+                queue.push(...await children(entry));
             }
-        } else yield this;
+            return;
+        }
+        const visit = async function* (entry: WalkEntry<FileAsync>): AsyncGenerator<WalkEntry<FileAsync>> {
+            const accepted = await accepts(entry);
+            if (accepted && order === "pre") yield entry;
+            for (const child of await children(entry)) yield* visit(child);
+            if (accepted && order === "post") yield entry;
+        };
+        yield* visit(root);
+    };
+
+    /**
+     * @description Finds the files and directories below this directory whose relative path matches the given glob patterns.
+     * Supports `*`, `**`, `?`, character classes, brace expansion, negation with a leading `!` and
+     * patterns ending with `/` to only match directories.
+     * Results are yielded lazily and subtrees that cannot contain a match are never listed.
+     * @example
+     * const dir = new FileAsync("path/to/project");
+     * for await (const file of dir.glob(["src/**\/*.{ts,tsx}", "!**\/*.test.ts"], {onlyFiles: true})) {
+     *     console.log(file.fullPath);
+     * }
+     * @param {string | string[]} patterns - The pattern or patterns to match, relative to this directory.
+     * @param {FileGlobOptions} [options] - Matching options: `dot`, `nocase`, `ignore`, `onlyFiles`,
+     * `onlyDirectories` and `followSymlinks`.
+     * @returns {AsyncGenerator<FileAsync>} An async generator that yields the matching files.
+     */
+    async* glob(patterns: string | string[], options: FileGlobOptions = {}): AsyncGenerator<FileAsync> {
+        const glob = new Glob(patterns, options);
+        // directories reached again through links are not listed twice, which also ends link cycles
+        const visited = new Set<string>();
+        const visit = async function* (dir: FileAsync, relative: string[]): AsyncGenerator<FileAsync> {
+            const key = walkKey(await dir.readStat(true), dir.fullPath);
+            if (visited.has(key)) return;
+            visited.add(key);
+            for (const file of await dir.listFiles() || []) {
+                const path = [...relative, file.name];
+                const isDirectory = await file.isDirectory();
+                if ((isDirectory ? !options.onlyFiles : !options.onlyDirectories) && glob.matches(path, isDirectory)) {
+                    yield file;
+                }
+                if (isDirectory && (options.followSymlinks || !await file.isSymbolicLink())
+                    && glob.couldMatchInside(path)) {
+                    yield* visit(file, path);
+                }
+            }
+        };
+        yield* visit(this, []);
+    };
+
+    /**
+     * @description Watches this file or directory for changes and reports them as typed events.
+     * Changes happening within the debounce window are coalesced, and a deletion followed by a creation of the same
+     * file is reported as a rename. Native watching of the backend is used when available, otherwise the tree is polled.
+     * @example
+     * const dir = new FileAsync("path/to/project");
+     * const watcher = dir.watch({glob: "src/**\/*.ts", ignore: "node_modules/"});
+     * watcher.on("created", event => console.log("Created:", event.path));
+     * for await (const event of watcher) {
+     *     if (event.type === "modified") console.log("Changed:", event.path);
+     * }
+     * watcher.close();
+     * @param {WatchOptions} [options] - The options of the watcher: `recursive`, `debounce`, `glob`, `ignore`,
+     * `signal` and `poll`.
+     * @returns {Watcher<FileAsync>} The watcher, call `close` or abort the signal to stop watching.
+     */
+    watch(options?: WatchOptions): Watcher<FileAsync> {
+        return new Watcher<FileAsync>(this, file => file, options);
+    };
+
+    /**
+     * @description Acquires an advisory lock on this file, waiting with exponential backoff while another owner holds it.
+     * The lock is a lockfile next to this file (`name.lock`) created with exclusive-create semantics, recording the
+     * owner's pid and hostname. Locks that were not refreshed within `stale` milliseconds, or whose owner process on
+     * this host has died, are taken over. Waiting never blocks the event loop.
+     * Only cooperating code that locks the same file is kept out.
+     * @example
+     * const file = new FileAsync("path/to/counter.txt");
+     * const lock = await file.lock({timeout: 5000});
+     * if (lock) {
+     *     try {
+     *         await file.write(String(Number(await file.read("utf8")) + 1));
+     *     } finally {
+     *         await lock.release();
+     *     }
+     * }
+     * @param {LockOptions} [options] - The options of the lock: `stale`, `timeout`, `retryDelay` and `maxRetryDelay`.
+     * @returns {Promise<LockAsync | null>} The held lock, or null if it could not be acquired before the timeout.
+     */
+    async lock(options: LockOptions = {}): Promise<LockAsync | null> {
+        return await acquireLock(this, this.lockfile, options);
+    };
+
+    /**
+     * @description Acquires an advisory lock on this file if it is free, without waiting.
+     * Stale locks are still taken over. See {@link lock}.
+     * @example
+     * const lock = await file.tryLock();
+     * if (!lock) console.log("Someone else is working on the file.");
+     * @param {LockOptions} [options] - The options of the lock, only `stale` is used.
+     * @returns {Promise<LockAsync | null>} The held lock, or null if the file is locked.
+     */
+    async tryLock(options: LockOptions = {}): Promise<LockAsync | null> {
+        return await acquireLock(this, this.lockfile, {...options, timeout: 0});
+    };
+
+    /**
+     * @description Runs a function while holding an advisory lock on this file and releases the lock afterwards,
+     * even if the function throws. The lock is refreshed periodically while the function runs, so long running
+     * work does not go stale. See {@link lock}.
+     * @example
+     * const config = new FileAsync("path/to/config.json");
+     * await config.withLock(async () => {
+     *     const data = await config.readJSON() ?? {};
+     *     data.runs = (data.runs ?? 0) + 1;
+     *     await config.writeJSON(data, 2, {atomic: true});
+     * });
+     * @param {Function} fn - The function to run, it receives the held lock.
+     * @param {LockOptions} [options] - The options of the lock: `stale`, `timeout`, `retryDelay` and `maxRetryDelay`.
+     * @returns {Promise<T | null>} The result of the function, or null if the lock could not be acquired.
+     */
+    async withLock<T>(fn: (lock: LockAsync) => T | Promise<T>, options: LockOptions = {}): Promise<T | null> {
+        const lock = await this.lock(options);
+        if (!lock) return null;
+        const refresh = setInterval(() => lock.refresh(), (options.stale ?? 10000) / 2);
+        try {
+            return await fn(lock);
+        } finally {
+            clearInterval(refresh);
+            await lock.release();
+        }
+    };
+
+    private get lockfile(): FileAsync {
+        return new FileAsync([...this.split.slice(0, -1), this.name + ".lock"], this.context);
     };
 
     /**
@@ -805,7 +1621,7 @@ export class FileAsync extends IFile<IAsyncFS> {
      */
     read(): Promise<Buffer | null>;
     read(encoding?: BufferEncoding | null): Promise<string | Buffer | null> {
-        return ret(() => this.fs.readFile(this.fullPath, encoding));
+        return ret(() => this.fs.readFile(this.fullPath, encoding), this.context);
     };
 
     /**
@@ -831,6 +1647,328 @@ export class FileAsync extends IFile<IAsyncFS> {
         return null;
     };
 
+    /**
+     * @description Iterates over the lines of the file without loading the whole file into memory.
+     * The file is read in chunks, `\n`, `\r\n` and `\r` line breaks are recognized, and multi-byte characters
+     * split across chunks are decoded correctly. A line break at the very end of the file does not produce
+     * an empty last line. Nothing is yielded if the file cannot be read.
+     * @example
+     * const log = new FileAsync("path/to/huge.log");
+     * for await (const line of log.lines({start: 1000, limit: 50})) {
+     *     console.log(line);
+     * }
+     * @param {LineOptions} [options] - The options: `encoding`, `start` (the index of the first line),
+     * `limit` and `chunkSize`.
+     * @returns {AsyncGenerator<string>} An async generator that yields the lines of the file.
+     */
+    async* lines(options: LineOptions = {}): AsyncGenerator<string> {
+        const fs = this.fs;
+        if (!fs.open) {
+            const data = await this.read(options.encoding ?? "utf8");
+            if (typeof data === "string") yield* splitLines(data, options);
+            return;
+        }
+        const handle = await ret(() => fs.open(this.fullPath, "r"), this.context);
+        if (!handle) return;
+        try {
+            const reader = new LineReader(options);
+            const buffer = new Uint8Array(options.chunkSize ?? 65536);
+            while (!reader.done) {
+                const result = await ret(() => handle.read(buffer, 0, buffer.length, null), this.context);
+                if (!result) return;
+                const bytes = result.bytesRead;
+                yield* reader.push(bytes === 0 ? null : buffer.subarray(0, bytes));
+                if (bytes === 0) break;
+            }
+        } finally {
+            await handle.close();
+        }
+    };
+
+    /**
+     * @description Gets the last lines of the file, reading backwards from its end in chunks,
+     * so only about as much of the file is read as the lines take up. See {@link lines} for how lines are split.
+     * @example
+     * const log = new FileAsync("path/to/huge.log");
+     * console.log((await log.tailLines(20))?.join("\n"));
+     * @param {number} n - The number of lines to get.
+     * @param {LineOptions} [options] - The options: `encoding` and `chunkSize`.
+     * @returns {Promise<string[] | null>} Up to `n` lines, or null if reading the file failed.
+     */
+    async tailLines(n: number, options: LineOptions = {}): Promise<string[] | null> {
+        if (n <= 0) return [];
+        const fs = this.fs;
+        if (!fs.open || !isAsciiCompatible(options.encoding)) {
+            const data = await this.read(options.encoding ?? "utf8");
+            return typeof data === "string" ? splitLines(data).slice(-n) : null;
+        }
+        const size = await this.size();
+        if (size === null) return null;
+        const handle = await ret(() => fs.open(this.fullPath, "r"), this.context);
+        if (!handle) return null;
+        try {
+            const chunkSize = options.chunkSize ?? 65536;
+            const chunks: Uint8Array[] = [];
+            let position = size;
+            let breaks = 0;
+            // one break more than lines is needed: the one before the first line and possibly one at the very end
+            while (position > 0 && breaks <= n + 1) {
+                const length = Math.min(chunkSize, position);
+                position -= length;
+                const chunk = new Uint8Array(length);
+                for (let read = 0; read < length;) {
+                    const result = await ret(() => handle.read(chunk, read, length - read, position + read), this.context);
+                    if (!result) return null;
+                    if (result.bytesRead === 0) break;
+                    read += result.bytesRead;
+                }
+                // a \r\n pair split between this chunk and the next one was counted twice
+                if (chunk[length - 1] === 0x0D && chunks[0]?.[0] === 0x0A) breaks--;
+                chunks.unshift(chunk);
+                breaks += countLineBreaks(chunk);
+            }
+            const reader = new LineReader({encoding: options.encoding});
+            const lines = reader.push(concatChunks(chunks)).concat(reader.push(null));
+            // the first line is cut off unless the start of the file was reached
+            if (position > 0) lines.shift();
+            return lines.slice(-n);
+        } finally {
+            await handle.close();
+        }
+    };
+
+    /**
+     * @description Computes a hash of the file's content. The content is streamed through the hash in chunks,
+     * so files of any size can be hashed. Requires Node's `crypto` module.
+     * @example
+     * const file = new FileAsync("path/to/archive.tar");
+     * const checksum = await file.hash("sha1");
+     * @param {string} [algorithm="sha256"] - The hash algorithm, any algorithm `crypto.createHash` supports.
+     * @param {number} [chunkSize=65536] - How many bytes are read at once.
+     * @param {number} [length=Infinity] - How many bytes from the start of the file are hashed, all by default.
+     * @returns {Promise<string | null>} The hash as a hex string, or null if the file could not be read.
+     */
+    async hash(algorithm: string = "sha256", chunkSize: number = 65536, length: number = Infinity): Promise<string | null> {
+        if (!hashing.createHash) return fail(this.context, "ENOSYS", "hash", this.fullPath);
+        const hasher = await ret(async () => hashing.createHash(algorithm), this.context);
+        if (!hasher) return null;
+        const fs = this.fs;
+        if (!fs.open) {
+            const data = await this.read();
+            if (data === null) return null;
+            hasher.update(length < data.length ? data.subarray(0, length) : data);
+            return hasher.digest("hex");
+        }
+        const handle = await ret(() => fs.open(this.fullPath, "r"), this.context);
+        if (!handle) return null;
+        try {
+            const buffer = new Uint8Array(chunkSize);
+            for (let remaining = length; remaining > 0;) {
+                const result = await ret(() => handle.read(buffer, 0, Math.min(buffer.length, remaining), null), this.context);
+                if (!result) return null;
+                if (result.bytesRead === 0) break;
+                hasher.update(buffer.subarray(0, result.bytesRead));
+                remaining -= result.bytesRead;
+            }
+            return hasher.digest("hex");
+        } finally {
+            await handle.close();
+        }
+    };
+
+    /**
+     * @description Computes a deterministic hash of a directory tree from the relative paths and content hashes
+     * of everything below it. Two directories with the same structure and the same contents hash the same,
+     * wherever they are and in whatever order the file system lists them.
+     * Symbolic links are hashed by their target path unless `followSymlinks` is set.
+     * @example
+     * const dir = new FileAsync("path/to/project");
+     * const key = await dir.treeHash({ignore: ["node_modules/", "**\/*.log"]});
+     * @param {TreeHashOptions} [options] - The options: `algorithm`, `includeMode`, `includeMtime`, `ignore`,
+     * `followSymlinks` and `chunkSize`.
+     * @returns {Promise<string | null>} The hash as a hex string, or null if this is not a directory
+     * or something in it could not be read.
+     */
+    async treeHash(options: TreeHashOptions = {}): Promise<string | null> {
+        if (!hashing.createHash) return fail(this.context, "ENOSYS", "hash", this.fullPath);
+        if (!await this.isDirectory()) return fail(this.context, "ENOTDIR", "scandir", this.fullPath);
+        const algorithm = options.algorithm ?? "sha256";
+        const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+        const lines: [string, string][] = [];
+        for await (const entry of this.walkEntries({
+            minDepth: 1,
+            followSymlinks: options.followSymlinks,
+            descend: entry => !ignore?.matches(entry.path, true)
+        })) {
+            if (ignore?.matches(entry.path, entry.isDirectory)) continue;
+            const file = entry.file;
+            if (entry.isSymbolicLink && !options.followSymlinks) {
+                const target = await ret(() => file.fs.readlink(file.fullPath), this.context);
+                if (target === null) return null;
+                lines.push([entry.path, manifestLine("l", entry.path, options, {content: JSON.stringify(target)})]);
+                continue;
+            }
+            const stat = await ret(() => file.fs.stat(file.fullPath), this.context);
+            if (!stat) return null;
+            if (entry.isDirectory) {
+                lines.push([entry.path, manifestLine("d", entry.path, options, {mode: stat.mode})]);
+                continue;
+            }
+            const content = await file.hash(algorithm, options.chunkSize);
+            if (content === null) return null;
+            lines.push([entry.path, manifestLine("f", entry.path, options, {
+                mode: stat.mode,
+                mtime: stat.mtime?.getTime(),
+                content
+            })]);
+        }
+        return combineManifest(lines, algorithm);
+    };
+
+    /**
+     * @description Packs this file or directory into a tar archive. Directory contents are stored with paths
+     * relative to this directory, a single file under its name. File modes, modification times and symbolic links
+     * are kept, long paths are stored with pax headers.
+     * @example
+     * const dir = new FileAsync("path/to/project");
+     * await dir.toTar(new FileAsync("path/to/project.tar.gz"), {prefix: "project", ignore: ["node_modules/"]});
+     * @param {FileAsync} dest - The archive to write, it is replaced if it exists.
+     * @param {TarOptions} [options] - The options: `gzip`, `prefix`, `ignore` and `followSymlinks`.
+     * @returns {Promise<FileAsync | null>} The archive, or null if packing failed.
+     */
+    async toTar(dest: FileAsync, options: TarOptions = {}): Promise<FileAsync | null> {
+        return await pass(() => writeTar(this, dest, options), this.context) ? dest : null;
+    };
+
+    /**
+     * @description Extracts this tar archive, gzipped or not, into a directory, which is created if needed.
+     * Entries with absolute paths, `..` segments or paths through links they created, and links pointing
+     * outside the destination, are refused with `EESCAPE` before anything is written for them.
+     * Hard links and special files are skipped.
+     * @example
+     * const archive = new FileAsync("path/to/project.tar.gz");
+     * const dir = await archive.extractTar(new FileAsync("path/to/project"), {strip: 1});
+     * @param {FileAsync} dest - The directory to extract into.
+     * @param {ExtractTarOptions} [options] - The options: `strip`, `ignore`, `preserveMode` and `preserveTimes`.
+     * @returns {Promise<FileAsync | null>} The destination directory, or null if extraction failed or was refused.
+     * Entries extracted before a failure are left in place.
+     */
+    async extractTar(dest: FileAsync, options: ExtractTarOptions = {}): Promise<FileAsync | null> {
+        return await pass(() => extractTar(this, dest, options), this.context) ? dest : null;
+    };
+
+    /**
+     * @description Lists the entries of this zip archive from its central directory, without reading their contents.
+     * @example
+     * const archive = new FileAsync("path/to/export.zip");
+     * for (const entry of await archive.zipEntries() ?? []) {
+     *     console.log(entry.path, entry.size, entry.compressedSize, entry.method, entry.crc32.toString(16));
+     * }
+     * @returns {Promise<ZipEntry[] | null>} The entries in archive order, or null if this is not a readable zip archive.
+     */
+    async zipEntries(): Promise<ZipEntry[] | null> {
+        return ret(() => listZip(this), this.context);
+    };
+
+    /**
+     * @description Reads a single entry of this zip archive as a string, without extracting anything else.
+     * The content is checked against the stored size and CRC.
+     * @example
+     * const manifest = await new FileAsync("path/to/bundle.zip").readZipEntry("META-INF/MANIFEST.MF", "utf8");
+     * @param {string} path - The path of the entry inside the archive.
+     * @param {BufferEncoding} encoding - The encoding of the content.
+     * @returns {Promise<string | null>} The content, or null if the entry does not exist or could not be read.
+     */
+    readZipEntry(path: string, encoding: BufferEncoding): Promise<string | null>;
+    /**
+     * @description Reads a single entry of this zip archive as a Buffer, without extracting anything else.
+     * The content is checked against the stored size and CRC.
+     * @example
+     * const image = await new FileAsync("path/to/bundle.zip").readZipEntry("media/logo.png");
+     * @param {string} path - The path of the entry inside the archive.
+     * @returns {Promise<Buffer | null>} The content, or null if the entry does not exist or could not be read.
+     */
+    readZipEntry(path: string): Promise<Buffer | null>;
+    readZipEntry(path: string, encoding?: BufferEncoding): Promise<string | Buffer | null> {
+        return ret(async () => {
+            const chunks: Uint8Array[] = [];
+            for await (const chunk of streamZipEntry(this, path, 65536)) chunks.push(chunk.slice());
+            const data = concatChunks(chunks);
+            const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+            return encoding ? buffer.toString(encoding) : buffer;
+        }, this.context);
+    };
+
+    /**
+     * @description Yields the content of a single entry of this zip archive in chunks, read and inflated
+     * as they are consumed. A size or CRC mismatch is found once the last chunk was read.
+     * The yielded arrays may be reused, consume each chunk before asking for the next one.
+     * @example
+     * const archive = new FileAsync("path/to/export.zip");
+     * for await (const chunk of archive.streamZipEntry("data/big.csv")) await process(chunk);
+     * @param {string} path - The path of the entry inside the archive.
+     * @param {number} [chunkSize=65536] - The size of the chunks read from the archive.
+     * @returns {AsyncGenerator<Uint8Array>} The chunks. Ends early if the entry could not be read.
+     */
+    async* streamZipEntry(path: string, chunkSize: number = 65536): AsyncGenerator<Uint8Array> {
+        try {
+            yield* streamZipEntry(this, path, chunkSize);
+        } catch (e) {
+            if (this.context?.throwErrors) throw KtFileError.from(e);
+        }
+    };
+
+    /**
+     * @description Extracts this zip archive into a directory, which is created if needed.
+     * Entries with absolute paths, `..` segments or paths through links they created, and links pointing
+     * outside the destination, are refused with `EESCAPE` before anything is written for them.
+     * Every entry is checked against its stored size and CRC.
+     * @example
+     * const archive = new FileAsync("path/to/export.zip");
+     * await archive.extractZip(new FileAsync("path/to/export"), {ignore: ["__MACOSX/"]});
+     * @param {FileAsync} dest - The directory to extract into.
+     * @param {ExtractZipOptions} [options] - The options: `strip`, `ignore`, `preserveMode` and `preserveTimes`.
+     * @returns {Promise<FileAsync | null>} The destination directory, or null if extraction failed or was refused.
+     * Entries extracted before a failure are left in place.
+     */
+    async extractZip(dest: FileAsync, options: ExtractZipOptions = {}): Promise<FileAsync | null> {
+        return await pass(() => extractZip(this, dest, options), this.context) ? dest : null;
+    };
+
+    /**
+     * @description Packs this file or directory into a zip archive. Directory contents are stored with paths
+     * relative to this directory, a single file under its name. See {@link writeZip} for packing several sources.
+     * @example
+     * const dir = new FileAsync("path/to/report");
+     * await dir.toZip(new FileAsync("path/to/report.zip"), {ignore: ["*.tmp"]});
+     * @param {FileAsync} dest - The archive to write, it is replaced if it exists.
+     * @param {ZipOptions} [options] - The options: `method`, `prefix`, `ignore`, `followSymlinks` and `zip64`.
+     * @returns {Promise<FileAsync | null>} The archive, or null if packing failed.
+     */
+    async toZip(dest: FileAsync, options: ZipOptions = {}): Promise<FileAsync | null> {
+        const source = await this.isDirectory() ? {path: "", file: this as FileAsync} : this;
+        return await pass(() => writeZip(dest, [source], options), this.context) ? dest : null;
+    };
+
+    /**
+     * @description Writes this file as a zip archive of the given sources. Files and directories are stored
+     * under their names unless a path is given, directories with everything below them, and content can be
+     * given directly. ZIP64 records are written when the archive needs them.
+     * @example
+     * const archive = new FileAsync("path/to/export.zip");
+     * await archive.writeZip([
+     *     new FileAsync("path/to/data"),
+     *     {path: "docs/readme.txt", file: new FileAsync("path/to/README.md")},
+     *     {path: "meta.json", data: JSON.stringify({created: Date.now()})}
+     * ], {method: "deflate"});
+     * @param {ZipSource<FileAsync>[]} sources - What to put into the archive.
+     * @param {ZipOptions} [options] - The options: `method`, `prefix`, `ignore`, `followSymlinks` and `zip64`.
+     * @returns {Promise<FileAsync | null>} This archive, or null if packing failed.
+     */
+    async writeZip(sources: ZipSource<FileAsync>[], options: ZipOptions = {}): Promise<FileAsync | null> {
+        return await pass(() => writeZip(this, sources, options), this.context) ? this : null;
+    };
+
     /**
      * @description Reads the contents of the file as JSON.
      * If the file is a valid JSON file, it will parse and return the contents as an object.
@@ -851,7 +1989,7 @@ export class FileAsync extends IFile<IAsyncFS> {
         try {
             return JSON.parse(data) as T;
         } catch (e) {
-            return null;
+            return fail(this.context, "EPARSE", "read", this.fullPath, {cause: e});
         }
     };
 
@@ -871,10 +2009,55 @@ export class FileAsync extends IFile<IAsyncFS> {
      * or null if the file is not a symbolic link.
      */
     async readlink(): Promise<FileAsync | null> {
-        if (!this.isSymbolicLink) return null;
-        const linkPath = await ret(() => this.fs.readlink(this.fullPath));
+        const linkPath = await ret(() => this.fs.readlink(this.fullPath), this.context);
         if (!linkPath) return null;
-        return new FileAsync(linkPath);
+        return new FileAsync(linkPath, this.context);
+    };
+
+    /**
+     * @description Resolves the path of the file to its canonical form, following every symbolic link on the way.
+     * @example
+     * const link = new FileAsync("path/to/symlink");
+     * console.log("Points to:", (await link.realPath())?.fullPath);
+     * @returns {Promise<FileAsync | null>} A new FileAsync object for the resolved path,
+     * or null if the file or a link target on the way does not exist.
+     */
+    async realPath(): Promise<FileAsync | null> {
+        if (!("realpath" in this.fs)) return fail(this.context, "ENOSYS", "realpath", this.fullPath);
+        const path = await ret(() => this.fs.realpath(this.fullPath), this.context);
+        return path === null ? null : new FileAsync(path, this.context);
+    };
+
+    /**
+     * @description Creates this file as a symbolic link pointing to the target. A relative target is stored as is,
+     * and resolved against the directory of the link when it is followed.
+     * @example
+     * const link = new FileAsync("path/to/current");
+     * await link.createSymlinkTo("releases/v2", "dir");
+     * @param {FileAsync | string} target - What the link points to, it does not have to exist.
+     * @param {"file" | "dir" | "junction"} [type] - The kind of link to create on Windows, detected from the target
+     * when omitted. Ignored elsewhere.
+     * @returns {Promise<FileAsync | null>} The FileAsync object if the link was created, or null if it could not
+     * be created, for example because the file already exists.
+     */
+    async createSymlinkTo(target: FileAsync | string, type?: "file" | "dir" | "junction"): Promise<FileAsync | null> {
+        const targetPath = typeof target === "string" ? target : target.fullPath;
+        return await pass(() => this.fs.symlink(targetPath, this.fullPath, type), this.context) ? this : null;
+    };
+
+    /**
+     * @description Creates this file as a hard link to the target, so both names share the same data.
+     * @example
+     * const copy = new FileAsync("path/to/backup.bin");
+     * await copy.createHardLinkTo(new FileAsync("path/to/data.bin"));
+     * @param {FileAsync | string} target - The existing file, which has to be on the same device and cannot be
+     * a directory.
+     * @returns {Promise<FileAsync | null>} The FileAsync object if the link was created, or null if it could not
+     * be created.
+     */
+    async createHardLinkTo(target: FileAsync | string): Promise<FileAsync | null> {
+        const targetPath = typeof target === "string" ? new FileAsync(target, this.context).fullPath : target.fullPath;
+        return await pass(() => this.fs.link(targetPath, this.fullPath), this.context) ? this : null;
     };
 
     /**
@@ -904,17 +2087,70 @@ export class FileAsync extends IFile<IAsyncFS> {
      * } else {
      *     console.log("Failed to write data.");
      * }
+     * // Readers see either the old or the new content, never a partially written file
+     * await file.write("Hello again!", {encoding: "utf8", atomic: true});
      * @param {string | Buffer} data - The data to write to the file.
-     * @param {BufferEncoding} [encoding="utf8"] - The encoding to use when writing the data.
+     * @param {BufferEncoding | WriteOptions} [encoding="utf8"] - The encoding to use when writing the data,
+     * or the write options: `encoding` and `atomic`.
      * If not specified, it will write the data as a Buffer.
      * @returns {Promise<FileAsync | null>} True if the data was written successfully, false otherwise.
      */
-    write(data: string | Buffer, encoding?: BufferEncoding): Promise<FileAsync | null>;
-    async write<T>(data: T, encoding?: BufferEncoding | { write(): T }): Promise<FileAsync | null> {
+    write(data: string | Buffer, encoding?: BufferEncoding | WriteOptions): Promise<FileAsync | null>;
+    async write<T>(data: T, encoding?: BufferEncoding | WriteOptions | { write(): T }): Promise<FileAsync | null> {
         if (encoding !== null && typeof encoding === "object" && "write" in encoding! && typeof encoding!.write === "function") {
             data = encoding.write();
         }
-        return await pass(() => this.fs.writeFile(this.fullPath, data as string | Buffer, encoding as BufferEncoding)) ? this : null;
+        const options: WriteOptions = typeof encoding === "object" && encoding !== null
+            ? "write" in encoding ? {} : encoding : {encoding: encoding as BufferEncoding};
+        if (options.atomic) return await this.writeAtomic(data as string | Buffer, options.encoding) ? this : null;
+        return await pass(() => this.fs.writeFile(this.fullPath, data as string | Buffer, options.encoding), this.context) ? this : null;
+    };
+
+    private async atomicTarget(): Promise<FileAsync> {
+        const fs = this.fs;
+        let file: FileAsync = this;
+        for (let hops = 0; hops < 40 && (await ret(() => fs.lstat(file.fullPath)))?.isSymbolicLink?.(); hops++) {
+            const real = fs.realpath ? await ret(() => fs.realpath(file.fullPath)) : null;
+            if (real !== null) return new FileAsync(real, this.context);
+            file = (file.parent ?? file).resolve(await fs.readlink(file.fullPath));
+        }
+        return file;
+    };
+
+    private async writeAtomic(data: string | Buffer, encoding?: BufferEncoding): Promise<boolean> {
+        const fs = this.fs;
+        return await pass(async () => {
+            const target = await this.atomicTarget();
+            const temp = new FileAsync([...target.split.slice(0, -1), atomicTempName(target.name)], this.context).fullPath;
+            const mode = (await ret(() => fs.stat(target.fullPath)))?.mode;
+            try {
+                const handle = fs.open ? await fs.open(temp, "wx", mode ?? 0o666) : null;
+                if (handle) {
+                    try {
+                        await handle.writeFile(data, encoding);
+                        await handle.sync?.();
+                    } finally {
+                        await handle.close();
+                    }
+                } else await fs.writeFile(temp, data, {encoding, flag: "wx"});
+                if (typeof mode === "number") await fs.chmod?.(temp, mode & 0o7777);
+                await fs.rename(temp, target.fullPath);
+            } catch (e) {
+                await ret(() => fs.unlink(temp));
+                throw e;
+            }
+            const directory = target.parent?.fullPath;
+            if (directory && fs.open) {
+                await ret(async () => {
+                    const handle = await fs.open!(directory, "r");
+                    try {
+                        await handle.sync?.();
+                    } finally {
+                        await handle.close();
+                    }
+                });
+            }
+        }, this.context);
     };
 
     /**
@@ -931,10 +2167,12 @@ export class FileAsync extends IFile<IAsyncFS> {
      * }
      * @param {unknown} data - The JSON data to write to the file.
      * @param {number} spaces - The number of spaces to use for indentation in the JSON file.
+     * @param {WriteOptions} [options] - The write options, pass `{atomic: true}` to never leave a truncated file behind.
      * @returns {boolean} True if the JSON data was written successfully, false otherwise.
      */
-    async writeJSON(data: unknown, spaces: number = 2): Promise<FileAsync | null> {
-        return await pass(() => this.write(JSON.stringify(data, null, spaces))) ? this : null;
+    async writeJSON(data: unknown, spaces: number = 2, options: WriteOptions = {}): Promise<FileAsync | null> {
+        const json = await ret(async () => JSON.stringify(data, null, spaces), this.context);
+        return json !== null && await this.write(json, options) ? this : null;
     };
 
     /**
@@ -955,14 +2193,85 @@ export class FileAsync extends IFile<IAsyncFS> {
      * or null if appending failed.
      */
     async append(data: string | Buffer, encoding?: BufferEncoding): Promise<FileAsync | null> {
-        return await pass(() => this.fs.appendFile(this.fullPath, data, encoding)) ? this : null;
+        return await pass(() => this.fs.appendFile(this.fullPath, data, encoding), this.context) ? this : null;
+    };
+
+    /**
+     * @description Gets the same file bound to the throwing variant of its context.
+     * Failed operations of the returned file throw a {@link KtFileError} carrying the error code, syscall and path
+     * instead of returning null or false.
+     * @example
+     * const file = new FileAsync("path/to/file.txt");
+     * try {
+     *     await file.throwing.copyTo(dest);
+     * } catch (e) {
+     *     console.log("Copy failed:", e.code, e.syscall, e.path);
+     * }
+     * @returns {FileAsync} The throwing file.
+     */
+    get throwing(): FileAsync {
+        return new FileAsync(this.split, this.context.throwing);
     };
 
     get sync() {
-        return new FileSync(this.split);
+        return new FileSync(this.split, this.context);
     };
 
     async configJSON() {
-        return await new ConfigAsync(this).init();
+        return await new ConfigAsync(this, {}, {format: "json"}).init();
+    };
+
+    /**
+     * @description Opens this file as a YAML config, whatever its extension.
+     */
+    async configYAML() {
+        return await new ConfigAsync(this, {}, {format: "yaml"}).init();
+    };
+
+    /**
+     * @description Opens this file as a TOML config, whatever its extension.
+     */
+    async configTOML() {
+        return await new ConfigAsync(this, {}, {format: "toml"}).init();
+    };
+
+    /**
+     * @description Opens this file as a INI config, whatever its extension.
+     */
+    async configINI() {
+        return await new ConfigAsync(this, {}, {format: "ini"}).init();
+    };
+
+    /**
+     * @description Opens this file as a dotenv config, whatever its extension.
+     */
+    async configEnv() {
+        return await new ConfigAsync(this, {}, {format: "dotenv"}).init();
+    };
+
+    /**
+     * @description Opens this file as a config with a typed shape, so dotted paths and their values
+     * are type-checked. The format is picked by the file name unless given, and with a validator,
+     * the file is checked when it is loaded and before every save.
+     * @example
+     * const config = await new FileAsync("path/to/app.json").config({
+     *     validator: schema({port: {type: "integer", default: 8080}, host: "string"}),
+     *     onInvalid: "repair"
+     * });
+     * const port = config?.get("port"); // number
+     * config?.set("host", "localhost");
+     * await config?.save();
+     * @param {ConfigOptions | ConfigFormat | string} [options] - The options: `defaults`, `validator`, `onInvalid`
+     * and `format`, or just the format.
+     * @returns {Promise<ConfigAsync | null>} The config, or null if the file could not be parsed or was rejected
+     * by the validator.
+     */
+    async config<T = unknown>(
+        options: ConfigOptions<T> | ConfigFormat | ConfigFormatName = {}
+    ): Promise<ConfigAsync<T> | null> {
+        const resolved: ConfigOptions<T> = typeof options === "string" || "stringify" in options ? {format: options} : options;
+        const config = await ret(() => new ConfigAsync<T>(this, resolved.defaults ?? {} as T, resolved).init(), this.context);
+        if (config === null || config.isValid) return config;
+        return fail(this.context, "EINVALID", "config", this.fullPath, {cause: new Error(formatIssues(config.issues))});
     };
 }
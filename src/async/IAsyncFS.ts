@@ -1,3 +1,5 @@
+import type {DirentLike} from "../Stat";
+
 export type IAsyncFS = Partial<{
     constants: Partial<{
         X_OK: number;
@@ -8,29 +10,71 @@ export type IAsyncFS = Partial<{
     mkdtemp(prefix: string, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<string>;
     access(path: string, mode?: number): Promise<void>;
     chmod(path: string, mode: number): Promise<void>;
+    chown(path: string, uid: number, gid: number): Promise<void>;
     stat(path: string, options?: { bigint?: boolean } | boolean): Promise<Partial<{
+        mode: number;
+        uid: number;
+        gid: number;
         birthtime: Date;
         mtime: Date;
         atime: Date;
+        ctime: Date;
         size: number;
+        dev: number;
+        ino: number;
+        nlink: number;
+        blocks: number;
         isDirectory(): boolean;
         isFile(): boolean;
+        isSymbolicLink(): boolean;
     }>>;
     utimes(path: string, atime: Date, mtime: Date): Promise<void>;
     exists(path: string): Promise<boolean>;
     lstat(path: string, options?: { bigint?: boolean } | boolean): Promise<Partial<{
+        mode: number;
+        uid: number;
+        gid: number;
+        size: number;
+        birthtime: Date;
+        mtime: Date;
+        atime: Date;
+        ctime: Date;
+        dev: number;
+        ino: number;
+        nlink: number;
+        blocks: number;
         isSymbolicLink(): boolean;
+        isDirectory(): boolean;
+        isFile(): boolean;
     }>>;
     rm(path: string, options?: { recursive?: boolean; force?: boolean }): Promise<void>;
     rmdir(path: string, options?: { recursive?: boolean; force?: boolean }): Promise<void>;
     unlink(path: string, options?: { force?: boolean }): Promise<void>;
     readdir(path: string, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<string[]>;
+    readdir(path: string, options: { withFileTypes: true }): Promise<(string | DirentLike)[]>;
     mkdir(path: string, options?: { recursive?: boolean; mode?: number } | { mode?: number }): Promise<string>;
     rename(oldPath: string, newPath: string): Promise<void>;
     writeFile(path: string, data: string | Buffer, options?: {
-        encoding?: BufferEncoding
+        encoding?: BufferEncoding;
+        mode?: number;
+        flag?: string
     } | BufferEncoding): Promise<void>;
+    open(path: string, flags: string, mode?: number): Promise<Partial<{
+        writeFile(data: string | Buffer, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<void>;
+        sync(): Promise<void>;
+        read(buffer: Uint8Array, offset: number, length: number, position: number | null): Promise<{
+            bytesRead: number
+        }>;
+        write(buffer: Uint8Array, offset: number, length: number, position: number | null): Promise<{
+            bytesWritten: number
+        }>;
+    }> & {
+        close(): Promise<void>;
+    }>;
+    symlink(target: string, path: string, type?: "file" | "dir" | "junction"): Promise<void>;
     readlink(path: string, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<string>;
+    link(existingPath: string, newPath: string): Promise<void>;
+    realpath(path: string): Promise<string>;
     readFile(path: string, options?: { encoding?: BufferEncoding } | BufferEncoding): Promise<string | Buffer>;
     appendFile(path: string, data: string | Buffer, options?: BufferEncoding | {
         encoding?: BufferEncoding;
@@ -1,11 +1,89 @@
 import {FileSync} from "./sync/FileSync";
 import {FileAsync} from "./async/FileAsync";
+import type {ISyncFS} from "./sync/ISyncFS";
+import type {IAsyncFS} from "./async/IAsyncFS";
+import {lockOwner} from "./Lock";
+import {hashing} from "./Hash";
+import {compression} from "./Compression";
 
 export {FileAsync} from "./async/FileAsync";
 export {FileSync, FileSync as File} from "./sync/FileSync";
+export {FileSystem, type FileSystemOptions} from "./FileSystem";
+export {Glob, expandBraces, type GlobOptions, type FileGlobOptions} from "./Glob";
+export type {LinkPolicy, WalkEntry, WalkOptions} from "./Walk";
+export {Watcher, type WatchEvent, type WatchEventType, type WatchOptions} from "./Watcher";
+export {Emitter} from "./Emitter";
+export {PathFlavor, posix, win32} from "./Path";
+export {
+    Permissions,
+    resolveMode,
+    type ChmodOptions,
+    type ChownOptions,
+    type PermissionClass
+} from "./Permissions";
+export {FileStat, StatCache, type DirentLike, type FileType, type RawStat} from "./Stat";
+export {
+    TransactionSync,
+    TransactionAsync,
+    type RecoverOptions,
+    type TransactionOptions,
+    type TransactionRecovery
+} from "./Transaction";
+export type {TrashItem, TrashOptions} from "./Trash";
+export type {DedupeOptions, DedupeReport, DuplicateOptions} from "./Duplicates";
+export {
+    formatDiskUsage,
+    type DiskUsage,
+    type DiskUsageFile,
+    type DiskUsageNode,
+    type DiskUsageOptions,
+    type ExtensionUsage
+} from "./DiskUsage";
+export type {WriteOptions} from "./Write";
+export type {LineOptions} from "./Lines";
+export type {TreeHashOptions} from "./Hash";
+export type {SyncOptions, SyncReport} from "./Mirror";
+export type {TarOptions, ExtractTarOptions} from "./Tar";
+export type {ZipEntry, ZipMethod, ZipOptions, ZipSource, ExtractZipOptions} from "./Zip";
+export {LockSync, LockAsync, type LockInfo, type LockOptions} from "./Lock";
+export {
+    Config,
+    parseConfigPath,
+    escapeConfigKey,
+    type ConfigChangeListener,
+    type ConfigEvents,
+    type ConfigKey,
+    type ConfigOptions,
+    type ConfigPath,
+    type ConfigValue
+} from "./IConfig";
+export {ConfigSync} from "./sync/ConfigSync";
+export {ConfigAsync} from "./async/ConfigAsync";
+export {
+    LayeredConfig,
+    EnvConfig,
+    type ConfigExplanation,
+    type ConfigLayer,
+    type EnvConfigOptions,
+    type LayeredConfigOptions
+} from "./LayeredConfig";
+export {configFormats, configFormat, type ConfigFormat, type ConfigFormatName} from "./ConfigFormat";
+export {
+    schema,
+    type ConfigIssue,
+    type ConfigSchema,
+    type ConfigValidator,
+    type InferSchema,
+    type SchemaField,
+    type SchemaType
+} from "./Schema";
+export {KtFileError, type KtFileErrorCode} from "./KtFileError";
+export {MemoryFS, MemoryFSPromises, MemoryStats, MemoryDirent, MemoryFileHandle} from "./MemoryFS";
+export type {ISyncFS} from "./sync/ISyncFS";
+export type {IAsyncFS} from "./async/IAsyncFS";
 export * from "./Utils";
 
-export function initFS(fs: typeof import("fs")) {
+export function initFS(fs: ISyncFS & { promises: IAsyncFS }) {
     FileSync.fs = fs;
     FileAsync.fs = fs.promises;
 }
@@ -21,10 +99,23 @@ export function fileAsync(path: string) {
 export let isLinux = true;
 
 if (typeof process !== "undefined") {
+    isLinux = process.platform !== "win32";
+    FileSync.sep = FileAsync.sep = isLinux ? "/" : "\\";
     try {
         initFS(await import("fs"));
-        isLinux = process.platform !== "win32";
-        FileSync.sep = FileAsync.sep = isLinux ? "/" : "\\";
+    } catch {
+    }
+    // the optional modules are loaded one by one, a runtime missing one of them still gets the others
+    try {
+        lockOwner.hostname = (await import("os")).hostname();
+    } catch {
+    }
+    try {
+        hashing.createHash = (await import("crypto")).createHash;
+    } catch {
+    }
+    try {
+        compression.zlib = await import("zlib");
     } catch {
     }
 }
\ No newline at end of file
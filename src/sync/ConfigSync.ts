@@ -1,15 +1,74 @@
-import {Config} from "../IConfig";
+import {Config, ConfigOptions} from "../IConfig";
+import {fail, KtFileError} from "../KtFileError";
+import {formatIssues} from "../Schema";
 import {FileSync} from "./FileSync";
+import type {Watcher, WatchOptions} from "../Watcher";
 
-export class ConfigSync extends Config {
-    constructor(private file: FileSync, defaultValue = {}) {
-        super(defaultValue);
-        if (this.file.exists) {
-            this.value = this.file.readJSON();
+export class ConfigSync<T = unknown> extends Config<T> {
+    constructor(private file: FileSync, defaultValue: T = {} as T, options: ConfigOptions<T> = {}) {
+        super(defaultValue, options, file.fullPath);
+        if (!this.file.exists) {
+            this.loadDefaults(defaultValue);
+            return;
         }
+        const text = this.file.read("utf8");
+        if (text === null) {
+            this.issues = [{path: "", message: "could not be read"}];
+            return;
+        }
+        const error = this.load(text);
+        if (error !== null) fail(this.file.context, error.code, "read", this.file.fullPath, {cause: error.cause});
+        else if (this.migrated && this.isValid) this.save();
     };
 
     save() {
-        return this.file.writeJSON(this.value) !== null;
+        if (!this.accept(this.value)) {
+            return fail(this.file.context, "EINVALID", "save", this.file.fullPath, {
+                cause: new Error(formatIssues(this.issues))
+            }) ?? false;
+        }
+        let text: string;
+        try {
+            text = this.format.stringify(this.value);
+        } catch (e) {
+            return fail(this.file.context, "EINVALID", "save", this.file.fullPath, {cause: e}) ?? false;
+        }
+        if (this.isSaved(text)) {
+            this.saved();
+            return true;
+        }
+        if (this.file.write(text, {atomic: true}) === null) return false;
+        this.text = text;
+        this.saved();
+        return true;
+    };
+
+    /**
+     * @description Reloads the config whenever its file changes on disk, reporting the changed values as
+     * `change` events. Its own saves are not reloaded. A file that cannot be parsed or does not pass the validator
+     * is reported as an `error` event and the last good value is kept.
+     * @example
+     * const config = new FileSync("path/to/app.toml").config();
+     * config?.onChange("db.*", () => reconnect());
+     * config?.on("error", error => console.error("Bad config:", error.message));
+     * const watcher = config?.watch();
+     * watcher?.close();
+     * @param [options] - The `debounce`, `poll` and `signal` options of the watcher.
+     * @returns {Watcher<FileSync>} The watcher of the directory of the file, close it to stop reloading.
+     */
+    watch(options: Pick<WatchOptions, "debounce" | "poll" | "signal"> = {}): Watcher<FileSync> {
+        const watcher = (this.file.parent ?? this.file).watch({...options, recursive: false});
+        watcher.on("error", error => this.emit("error", KtFileError.from(error)));
+        watcher.on("change", event => {
+            if (event.path !== this.file.name || event.type === "deleted") return;
+            try {
+                const text = this.file.read("utf8");
+                const error = text === null ? null : this.reload(text);
+                if (error) this.emit("error", error);
+            } catch (e) {
+                this.emit("error", KtFileError.from(e));
+            }
+        });
+        return watcher;
     };
-}
\ No newline at end of file
+}
@@ -1,22 +1,62 @@
 import {attachCleanup, deleteQueue} from "../Utils";
 import {IFile} from "../IFile";
+import {FileSystem} from "../FileSystem";
+import {fail, KtFileError} from "../KtFileError";
+import {FileGlobOptions, Glob} from "../Glob";
+import {LinkPolicy, WalkEntry, walkKey, WalkOptions, walkPath} from "../Walk";
+import {Watcher, WatchOptions} from "../Watcher";
+import {atomicTempName, WriteOptions} from "../Write";
+import {emptySyncReport, sameMetadata, SyncOptions, SyncReport} from "../Mirror";
+import {combineManifest, hashing, manifestLine, TreeHashOptions} from "../Hash";
+import {concatChunks, countLineBreaks, isAsciiCompatible, LineOptions, LineReader, splitLines} from "../Lines";
+import {acquireLockSync, LockSync, LockOptions} from "../Lock";
+import {ExtractTarOptions, extractTarSync, TarOptions, writeTarSync} from "../Tar";
+import {
+    ExtractZipOptions,
+    extractZipSync,
+    listZipSync,
+    streamZipEntrySync,
+    ZipEntry,
+    ZipOptions,
+    ZipSource,
+    writeZipSync
+} from "../Zip";
 import {FileAsync} from "../async/FileAsync";
 import {ISyncFS} from "./ISyncFS";
 import {ConfigSync} from "./ConfigSync";
+import {ConfigOptions} from "../IConfig";
+import {ConfigFormat, ConfigFormatName} from "../ConfigFormat";
+import {formatIssues} from "../Schema";
+import {ChmodOptions, ChownOptions, Permissions, resolveMode} from "../Permissions";
+import {DirentLike, FileStat, watchChanges} from "../Stat";
+import {DiskUsage, DiskUsageNode, DiskUsageOptions, DiskUsageTally} from "../DiskUsage";
+import {
+    DEFAULT_JOURNAL,
+    recoverTransactionsSync,
+    RecoverOptions,
+    runTransactionSync,
+    TransactionOptions,
+    TransactionRecovery,
+    TransactionSync
+} from "../Transaction";
+import {DedupeOptions, DedupeReport, dedupeSync, DuplicateOptions, findDuplicatesSync} from "../Duplicates";
+import {emptyTrashSync, homeTrash, listTrashSync, moveToTrashSync, restoreSync, TrashItem, TrashOptions} from "../Trash";
 
-export function pass(x: () => unknown): boolean {
+export function pass(x: () => unknown, context?: FileSystem): boolean {
     try {
         x();
         return true;
     } catch (e) {
+        if (context?.throwErrors) throw KtFileError.from(e);
         return false;
     }
 }
 
-export function ret<T>(x: () => T): T | null {
+export function ret<T>(x: () => T, context?: FileSystem): T | null {
     try {
         return x();
     } catch (e) {
+        if (context?.throwErrors) throw KtFileError.from(e);
         return null;
     }
 }
@@ -25,18 +65,163 @@ export class FileSync extends IFile<ISyncFS> {
     static fs: ISyncFS;
     static sep = "/";
 
+    constructor(pt: string | string[], context: FileSystem = FileSystem.default) {
+        super(pt, context);
+    };
+
     static createTempFile(directory: FileSync, prefix: string = "ktfile-temp", suffix: string = ".tmp"): FileSync {
-        if (!("mkdTempSync" in FileSync.fs)) {
-            throw new Error("mkdTempSync is not available in the current FS.");
+        const context = directory ? directory.context : FileSystem.default;
+        if (!("mkdtempSync" in context.fs)) {
+            throw new Error("mkdtempSync is not available in the current FS.");
         }
         const tempDir = directory ? directory.fullPath : ".";
-        const tempPath = this.fs.mkdtempSync(`${tempDir}/${prefix}-`);
+        const tempPath = context.fs.mkdtempSync(`${tempDir}/${prefix}-`);
         const filePath = `${tempPath}${suffix}`;
-        return new FileSync(filePath);
+        return new FileSync(filePath, context);
+    };
+
+    /**
+     * @description Runs a function that changes several files as one transaction: either every change is applied,
+     * or none is. Writes are staged in a journal directory, renames and deletions are recorded, and when the
+     * function returns they are applied in order by renaming, keeping whatever they replace or delete in the
+     * journal. If the function throws nothing is applied, and if applying a change fails the applied ones are
+     * undone. The journal of a process that died halfway is cleaned up by {@link recoverTransactions}.
+     * Parent directories created for written files are not removed when undoing.
+     * @example
+     * FileSync.recoverTransactions(); // on start, undo what a crashed deploy left behind
+     * await FileSync.transaction(async tx => {
+     *     tx.write("site/index.html", await render());
+     *     tx.write("site/version.txt", version);
+     *     tx.renameTo("site/assets-new", "site/assets");
+     *     tx.delete("site/old.html");
+     * });
+     * @param {Function} fn - The function making the changes through the transaction it receives.
+     * It may return a promise, the changes are applied once it resolves.
+     * @param {TransactionOptions<FileSync>} [options] - The `journal` directory.
+     * @returns {T | null} The result of the function, or null if the changes could not be applied.
+     * Errors thrown by the function are thrown again.
+     */
+    static transaction<T>(fn: (tx: TransactionSync) => Promise<T>, options?: TransactionOptions<FileSync>): Promise<T | null>;
+    static transaction<T>(fn: (tx: TransactionSync) => T, options?: TransactionOptions<FileSync>): T | null;
+    static transaction<T>(fn: (tx: TransactionSync) => T, options: TransactionOptions<FileSync> = {}): T | null | Promise<Awaited<T> | null> {
+        return runTransactionSync(FileSync.journal(options.journal), fn);
+    };
+
+    /**
+     * @description Cleans up after transactions that were interrupted, typically by a crash, and should be called on
+     * start before running new ones. Transactions that had not started applying their changes are dropped. Ones
+     * that were applying them are undone, or finished with `finish`. Transactions still running in a live
+     * process on this host are left alone.
+     * @example
+     * for (const {id, action} of FileSync.recoverTransactions({finish: true}) ?? []) {
+     *     console.log(`Transaction ${id} ${action}`);
+     * }
+     * @param {RecoverOptions<FileSync>} [options] - The `journal` directory and `finish`.
+     * @returns {TransactionRecovery[] | null} What was done with each interrupted transaction, or null if
+     * recovering failed. The journal of a transaction that could not be recovered stays for another attempt.
+     */
+    static recoverTransactions(options: RecoverOptions<FileSync> = {}): TransactionRecovery[] | null {
+        const journal = FileSync.journal(options.journal);
+        return ret(() => recoverTransactionsSync(journal, options.finish ?? false), journal.context);
+    };
+
+    private static journal(journal: FileSync | string = DEFAULT_JOURNAL): FileSync {
+        return typeof journal === "string" ? new FileSync(journal) : journal;
+    };
+
+    /**
+     * @description Lists the items in a trash, see {@link moveToTrash}. Only the given trash is read, items that
+     * went to the trash of another mount are listed by passing that trash.
+     * @example
+     * for (const item of FileSync.listTrash() ?? []) {
+     *     console.log(item.name, item.path, item.deleted);
+     * }
+     * @param {TrashOptions<FileSync>} [options] - The `trash` directory, the home trash by default.
+     * @returns {TrashItem<FileSync>[] | null} The items, empty if the trash does not exist yet, or null if it
+     * could not be read.
+     */
+    static listTrash(options: TrashOptions<FileSync> = {}): TrashItem<FileSync>[] | null {
+        const context = typeof options.trash === "object" ? options.trash.context : FileSystem.default;
+        return ret(() => listTrashSync(FileSync.trash(options.trash, context)), context);
+    };
+
+    /**
+     * @description Moves an item out of the trash, back to where it was trashed from. Missing parent directories
+     * are created.
+     * @example
+     * const item = FileSync.listTrash()?.find(item => item.path.endsWith("notes.txt"));
+     * if (item) FileSync.restoreFromTrash(item);
+     * @param {TrashItem<FileSync>} item - The item, as listed or returned by `moveToTrash`.
+     * @param {boolean} [overwrite=false] - Whether to replace a file that took the item's place meanwhile.
+     * @returns {FileSync | null} The restored file, or null if it could not be restored.
+     */
+    static restoreFromTrash(item: TrashItem<FileSync>, overwrite: boolean = false): FileSync | null {
+        return ret(() => restoreSync(item, overwrite), item.trash.context);
+    };
+
+    /**
+     * @description Deletes everything in a trash for good.
+     * @example
+     * FileSync.emptyTrash();
+     * @param {TrashOptions<FileSync>} [options] - The `trash` directory, the home trash by default.
+     * @returns {boolean} True if the trash was emptied, false if something could not be deleted.
+     */
+    static emptyTrash(options: TrashOptions<FileSync> = {}): boolean {
+        const context = typeof options.trash === "object" ? options.trash.context : FileSystem.default;
+        return pass(() => emptyTrashSync(FileSync.trash(options.trash, context)), context);
+    };
+
+    /**
+     * Resolves a trash option, a path is resolved in the given context. Reading the home trash from the
+     * environment may throw.
+     */
+    private static trash(trash: FileSync | string | undefined, context: FileSystem): FileSync {
+        return typeof trash === "object" ? trash : new FileSync(trash ?? homeTrash(), context);
+    };
+
+    /**
+     * @description Finds the files with identical contents in one or more directory trees. Files are walked with
+     * their stats and grouped by size first, then by a hash of their first bytes and only then by a hash of their
+     * whole contents, so most files are never read. Hard links of each other count as one file, their names all
+     * end up in the same group. Files that cannot be read are left out.
+     * @example
+     * const groups = FileSync.findDuplicates(["assets", "uploads"], {ignore: "**\/*.tmp", minSize: 1024});
+     * for (const group of groups ?? []) {
+     *     console.log(group[0].size, group.map(file => file.fullPath));
+     * }
+     * @param {FileSync | string | (FileSync | string)[]} dirs - The directories to search.
+     * @param {DuplicateOptions} [options] - The options: `ignore`, `minSize`, `algorithm`, `partialSize` and
+     * `followSymlinks`.
+     * @returns {FileSync[][] | null} The groups of identical files, the largest files first and each group in the
+     * order its files were found, or null if a directory could not be walked.
+     */
+    static findDuplicates(dirs: FileSync | string | (FileSync | string)[], options: DuplicateOptions = {}): FileSync[][] | null {
+        const files = (Array.isArray(dirs) ? dirs : [dirs]).map(dir => typeof dir === "string" ? new FileSync(dir) : dir);
+        const context = files[0]?.context ?? FileSystem.default;
+        if (!hashing.createHash) return fail(context, "ENOSYS", "hash", files[0]?.fullPath ?? "");
+        return ret(() => findDuplicatesSync(files, options), context);
+    };
+
+    /**
+     * @description Keeps one file of each group of identical files, see {@link findDuplicates}, and replaces the others
+     * with hard links to it or deletes them. A hard link takes a duplicate's place atomically, and fails across
+     * file systems. Files whose size changed since they were found are skipped, and so are symbolic links, which
+     * are never kept, replaced or deleted.
+     * @example
+     * const groups = FileSync.findDuplicates("assets") ?? [];
+     * const preview = FileSync.dedupe(groups, {action: "hardlink", keep: "oldest", dryRun: true});
+     * console.log(`Would free ${formatSize(preview.saved)} by linking ${preview.linked.length} files`);
+     * @param {FileSync[][]} groups - The groups of identical files.
+     * @param {DedupeOptions<FileSync>} options - The `action`, "hardlink" or "delete", which file to `keep` and `dryRun`.
+     * @returns {DedupeReport} What was done, or would be done in a dry run.
+     */
+    static dedupe(groups: FileSync[][], options: DedupeOptions<FileSync>): DedupeReport {
+        return dedupeSync(groups, options);
     };
 
     get fs(): ISyncFS {
-        return FileSync.fs;
+        // calls that may change the file drop the stats preloaded for it
+        return this.preloaded ? watchChanges(this.context.fs, () => this.preloaded = undefined) : this.context.fs;
     };
 
     /**
@@ -68,7 +253,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @param {boolean} value - Whether to allow execution (true) or disallow execution (false).
      */
     set canExecute(value: boolean) {
-        pass(() => this.fs.chmodSync(this.fullPath, value ? 0o755 : 0o644));
+        pass(() => this.fs.chmodSync(this.fullPath, value ? 0o755 : 0o644), this.context);
     };
 
     /**
@@ -100,7 +285,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @param {boolean} value - Whether to allow reading (true) or disallow reading (false).
      */
     set canRead(value: boolean) {
-        pass(() => this.fs.chmodSync(this.fullPath, value ? 0o644 : 0o000));
+        pass(() => this.fs.chmodSync(this.fullPath, value ? 0o644 : 0o000), this.context);
     };
 
     /**
@@ -132,7 +317,123 @@ export class FileSync extends IFile<ISyncFS> {
      * @param {boolean} value - Whether to allow writing (true) or disallow writing (false).
      */
     set canWrite(value: boolean) {
-        pass(() => this.fs.chmodSync(this.fullPath, value ? 0o644 : 0o444));
+        pass(() => this.fs.chmodSync(this.fullPath, value ? 0o644 : 0o444), this.context);
+    };
+
+    /**
+     * @description Gets the permission bits of the file, including setuid, setgid and sticky, as a number.
+     * Write it in octal to read it like `ls` and `chmod` do.
+     * @example
+     * const file = new FileSync("path/to/script.sh");
+     * console.log(file.mode?.toString(8)); // "755"
+     * @returns {number | null} The permission bits, or null if the file does not exist.
+     */
+    get mode(): number | null {
+        return this.readStat(true, this.context)?.mode ?? null;
+    };
+
+    /**
+     * @description Sets the permission bits of the file. Use {@link chmod} for symbolic modes and directories.
+     * @example
+     * const file = new FileSync("path/to/script.sh");
+     * file.mode = 0o750;
+     * @param {number} value - The new permission bits.
+     */
+    set mode(value: number) {
+        pass(() => this.fs.chmodSync(this.fullPath, value & 0o7777), this.context);
+    };
+
+    /**
+     * @description Gets the permissions of the file: the read, write and execute flags of the owner, the group
+     * and everyone else, the setuid, setgid and sticky bits, and the `ls -l` form.
+     * @example
+     * const file = new FileSync("path/to/script.sh");
+     * console.log(file.permissions?.toString()); // "-rwxr-x---"
+     * console.log(file.permissions?.group.write); // false
+     * @returns {Permissions | null} The permissions, or null if the file does not exist.
+     */
+    get permissions(): Permissions | null {
+        return this.readStat(true, this.context)?.permissions ?? null;
+    };
+
+    /**
+     * @description Gets the user id of the owner of the file.
+     * @example
+     * const file = new FileSync("path/to/file.txt");
+     * console.log("Owned by", file.owner);
+     * @returns {number | null} The user id, or null if the file does not exist or the file system has no owners.
+     */
+    get owner(): number | null {
+        return this.readStat(true, this.context)?.uid ?? null;
+    };
+
+    /**
+     * @description Gets the group id of the file.
+     * @example
+     * const file = new FileSync("path/to/file.txt");
+     * console.log("Group", file.group);
+     * @returns {number | null} The group id, or null if the file does not exist or the file system has no groups.
+     */
+    get group(): number | null {
+        return this.readStat(true, this.context)?.gid ?? null;
+    };
+
+    /**
+     * @description Changes the permissions of the file, and with `recursive` of everything below a directory.
+     * The mode is a number, an octal string like "755", or a symbolic mode like the `chmod` command takes,
+     * see {@link resolveMode}. Files and directories can be given different modes.
+     * Symbolic links are not followed below the directory.
+     * @example
+     * new FileSync("path/to/script.sh").chmod("u+x,go-w");
+     * // Directories get 755, files 644
+     * new FileSync("path/to/site").chmod(0o644, {recursive: true, directories: 0o755});
+     * // Let the group read everything, directories are entered with X
+     * new FileSync("path/to/shared").chmod("g+rX", {recursive: true});
+     * @param {number | string} mode - The mode to apply.
+     * @param {ChmodOptions} [options] - `recursive`, and the `files` and `directories` modes used instead of `mode`.
+     * @returns {FileSync | null} The FileSync object, or null if the mode is invalid or any file could not be changed.
+     */
+    chmod(mode: number | string, options: ChmodOptions = {}): FileSync | null {
+        let changed = true;
+        for (const entry of this.walkEntries({maxDepth: options.recursive ? Infinity : 0, links: "skip"})) {
+            const file = entry.file;
+            const stat = file.readStat(true, this.context);
+            if (!stat) {
+                changed = false;
+                continue;
+            }
+            const requested = (entry.isDirectory ? options.directories : options.files) ?? mode;
+            let resolved: number;
+            try {
+                resolved = resolveMode(requested, stat.mode, entry.isDirectory);
+            } catch (e) {
+                return fail(this.context, "EINVAL", "chmod", file.fullPath, {cause: e});
+            }
+            changed = pass(() => file.fs.chmodSync(file.fullPath, resolved), this.context) && changed;
+        }
+        return changed ? this : null;
+    };
+
+    /**
+     * @description Changes the owner and group of the file, and with `recursive` of everything below a directory.
+     * Changing the owner usually needs root. Symbolic links are not followed below the directory.
+     * @example
+     * new FileSync("path/to/site").chown(1000, 1000, {recursive: true});
+     * // Only change the group
+     * new FileSync("path/to/file.txt").chown(-1, 100);
+     * @param {number} uid - The user id of the new owner, -1 to keep it.
+     * @param {number} [gid=-1] - The id of the new group, -1 to keep it.
+     * @param {ChownOptions} [options] - `recursive`.
+     * @returns {FileSync | null} The FileSync object, or null if any file could not be changed.
+     */
+    chown(uid: number, gid: number = -1, options: ChownOptions = {}): FileSync | null {
+        if (!("chownSync" in this.fs)) return fail(this.context, "ENOSYS", "chown", this.fullPath);
+        let changed = true;
+        for (const entry of this.walkEntries({maxDepth: options.recursive ? Infinity : 0, links: "skip"})) {
+            const file = entry.file;
+            changed = pass(() => file.fs.chownSync(file.fullPath, uid, gid), this.context) && changed;
+        }
+        return changed ? this : null;
     };
 
     /**
@@ -146,7 +447,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {Date | null} The creation time of the file as a Date object, or null if the file does not exist.
      */
     get creationTime(): Date | null {
-        return ret(() => this.fs.statSync(this.fullPath).birthtime);
+        return this.readStat(true, this.context)?.birthtime ?? null;
     };
 
     /**
@@ -160,7 +461,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @param {Date} value - The new creation time to set for the file.
      */
     set creationTime(value: Date) {
-        pass(() => this.fs.utimesSync(this.fullPath, value, value));
+        pass(() => this.fs.utimesSync(this.fullPath, value, value), this.context);
     };
 
     /**
@@ -174,7 +475,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {Date | null} The last modified time of the file as a Date object, or null if the file does not exist.
      */
     get lastModified(): Date | null {
-        return ret(() => this.fs.statSync(this.fullPath).mtime);
+        return this.readStat(true, this.context)?.mtime ?? null;
     };
 
     /**
@@ -188,7 +489,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @param {Date} value - The new last modified time to set for the file.
      */
     set lastModified(value: Date) {
-        pass(() => this.fs.utimesSync(this.fullPath, value, value));
+        pass(() => this.fs.utimesSync(this.fullPath, value, value), this.context);
     };
 
     /**
@@ -217,7 +518,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {Date | null} The last access time of the file as a Date object, or null if the file does not exist.
      */
     get lastAccess(): Date | null {
-        return ret(() => this.fs.statSync(this.fullPath).atime);
+        return this.readStat(true, this.context)?.atime ?? null;
     };
 
     /**
@@ -282,8 +583,8 @@ export class FileSync extends IFile<ISyncFS> {
      * or null if the file is in the root directory.
      */
     get parent(): FileSync | null {
-        if (this.split.length === 0) return null;
-        return new FileSync(this.split.slice(0, -1));
+        if (this.segments.length === 0) return null;
+        return new FileSync(this.split.slice(0, -1), this.context);
     };
 
     /**
@@ -310,7 +611,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {string} The path separator used by the file system.
      */
     get separator(): string {
-        return FileSync.sep;
+        return this.context.sep;
     };
 
     /**
@@ -326,7 +627,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {boolean | null} True if the file is a directory, false if it is not, or null if the file does not exist.
      */
     get isDirectory(): boolean | null {
-        return ret(() => this.fs.statSync(this.fullPath).isDirectory());
+        return this.readStat(true)?.isDirectory ?? null;
     };
 
     /**
@@ -342,7 +643,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {boolean | null} True if the file is a regular file, false if it is not, or null if the file does not exist.
      */
     get isFile(): boolean | null {
-        return ret(() => this.fs.statSync(this.fullPath).isFile());
+        return this.readStat(true)?.isFile ?? null;
     };
 
     /**
@@ -392,23 +693,91 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {boolean | null} True if the file is a symbolic link, false if it is not, or null if the file does not exist.
      */
     get isSymbolicLink(): boolean | null {
-        return ret(() => this.fs.lstatSync(this.fullPath).isSymbolicLink());
+        return this.readStat(false)?.isSymbolicLink ?? null;
+    };
+
+    /**
+     * @description Takes a snapshot of the metadata of the file: its type, size, permissions, owner, inode and
+     * times. Reading the snapshot costs no further calls, unlike reading `size`, `lastModified` and the other
+     * properties one by one, which take a `stat` each unless the context has a stat cache.
+     * @example
+     * const stat = new FileSync("path/to/file.txt").stat();
+     * if (stat) console.log(stat.type, stat.size, stat.mtime.toISOString(), stat.permissions.toString());
+     * @param {boolean} [followLinks=true] - Whether to describe what a symbolic link points to, or the link itself.
+     * @returns {FileStat | null} The snapshot, or null if the file does not exist.
+     */
+    stat(followLinks: boolean = true): FileStat | null {
+        return this.readStat(followLinks, this.context);
+    };
+
+    /**
+     * @description Drops the stat snapshots of the file, the ones preloaded by `listFiles(true)` or a walk with `stats`,
+     * and the one in the stat cache of the context, so the next query reads the file system again.
+     * @example
+     * const files = dir.listFiles(true); // stat snapshots taken while listing
+     * files?.[0].refresh().size; // reads the size again
+     * @returns {FileSync} The FileSync object.
+     */
+    refresh(): FileSync {
+        this.preloaded = undefined;
+        this.context.statCache?.delete(this.fullPath);
+        return this;
+    };
+
+    private readStat(followLinks: boolean, context?: FileSystem): FileStat | null {
+        const preloaded = followLinks ? this.preloaded?.stat : this.preloaded?.lstat;
+        if (preloaded) return preloaded;
+        const cache = this.context.statCache;
+        const cached = cache?.get(this.fullPath, followLinks);
+        if (cached) return cached;
+        const raw = ret(() => followLinks ? this.fs.statSync(this.fullPath) : this.fs.lstatSync(this.fullPath), context);
+        if (!raw) return null;
+        const stat = new FileStat(raw);
+        cache?.set(this.fullPath, followLinks, stat);
+        // what is not a link is described the same whether links are followed or not
+        if (!followLinks && !stat.isSymbolicLink) cache?.set(this.fullPath, true, stat);
+        return stat;
+    };
+
+    private preload() {
+        const lstat = this.readStat(false);
+        if (lstat) this.preloaded = {lstat, stat: lstat.isSymbolicLink ? this.readStat(true) ?? undefined : lstat};
     };
 
     /**
      * @description Gets the size of the file in bytes.
      * If the file is a directory, it returns the total size of all files within the directory.
+     * Symbolic links are followed, see {@link getSize} to count them differently.
      * @example
      * const file = new FileSync("path/to/file.txt");
      * console.log("File size:", file.size, "bytes");
      * @returns {number} The size of the file in bytes, or null if the file does not exist.
      */
     get size(): number | null {
-        return ret(() => {
-            const stat = this.fs.statSync(this.fullPath);
-            if (!stat.isFile()) return this.listFiles().reduce((acc, file) => acc + (file.size ?? 0), 0);
-            return stat.size;
-        });
+        return this.getSize();
+    };
+
+    /**
+     * @description Gets the size of the file in bytes, or the total size of all files within a directory,
+     * counting symbolic links by a policy. A linked directory reached twice is only counted once.
+     * @example
+     * const dir = new FileSync("path/to/project");
+     * console.log("Without linked files:", dir.getSize("skip"), "bytes");
+     * @param {LinkPolicy} [links="follow"] - "follow" counts what links point to, "preserve" counts the links
+     * themselves and "skip" leaves them out.
+     * @returns {number | null} The size in bytes, or null if the file does not exist.
+     */
+    getSize(links: LinkPolicy = "follow"): number | null {
+        const lstat = this.readStat(false, this.context);
+        if (!lstat) return null;
+        if (lstat.isSymbolicLink && links !== "follow") return links === "skip" ? 0 : lstat.size;
+        let total = 0;
+        for (const entry of this.walkEntries({links})) {
+            const file = entry.file;
+            if (entry.isSymbolicLink && links === "preserve") total += file.readStat(false, this.context)?.size ?? 0;
+            else if (!entry.isDirectory) total += file.readStat(true, this.context)?.size ?? 0;
+        }
+        return total;
     };
 
     /**
@@ -453,6 +822,57 @@ export class FileSync extends IFile<ISyncFS> {
         return size !== null ? size / (1024 * 1024 * 1024) : null;
     };
 
+    /**
+     * @description Analyzes the disk usage of a directory tree, like `du`: the totals of every directory with
+     * their file counts, apparent and allocated sizes, the largest files and directories and a breakdown by
+     * extension. Directories and entries that cannot be read are reported instead of failing the analysis.
+     * Files with several hard links and directories reached twice through links are counted once.
+     * @example
+     * const usage = new FileSync("path/to/project").diskUsage({maxDepth: 1, ignore: [".git/", "node_modules/"]});
+     * if (usage) {
+     *     for (const dir of usage.root.children) console.log(dir.path, formatSize(dir.size), dir.files);
+     *     console.log(formatDiskUsage(usage));
+     * }
+     * @param {DiskUsageOptions} [options] - The options: `maxDepth`, `ignore`, `links` and `top`.
+     * @returns {DiskUsage<FileSync> | null} The usage, or null if this is not a directory or cannot be listed.
+     */
+    diskUsage(options: DiskUsageOptions = {}): DiskUsage<FileSync> | null {
+        const stat = this.readStat(true, this.context);
+        if (!stat) return null;
+        if (!stat.isDirectory) return fail(this.context, "ENOTDIR", "scandir", this.fullPath);
+        const names = ret(() => this.fs.readdirSync(this.fullPath), this.context);
+        if (!names) return null;
+        const links = options.links ?? "preserve";
+        const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+        const tally = new DiskUsageTally<FileSync>(options);
+        const visit = (dir: FileSync, path: string, depth: number, names: string[]): DiskUsageNode<FileSync> => {
+            const node = tally.node(dir, path);
+            for (const name of names) {
+                const file = dir.to(name);
+                const entryPath = walkPath(path, name);
+                const lstat = file.readStat(false);
+                if (!lstat) {
+                    tally.skip(entryPath);
+                    continue;
+                }
+                if (lstat.isSymbolicLink && links === "skip") continue;
+                // a link whose target is missing is counted as the link itself
+                const stat = lstat.isSymbolicLink && links === "follow" ? file.readStat(true) ?? lstat : lstat;
+                if (ignore?.matches(entryPath, stat.isDirectory)) continue;
+                if (!stat.isDirectory) {
+                    tally.addFile(node, file, entryPath, stat);
+                } else if (tally.enter(stat, file.fullPath)) {
+                    const children = ret(() => file.fs.readdirSync(file.fullPath));
+                    if (!children) tally.skip(entryPath);
+                    tally.addDirectory(node, visit(file, entryPath, depth + 1, children ?? []), depth + 1);
+                }
+            }
+            return node;
+        };
+        tally.enter(stat, this.fullPath);
+        return tally.finish(visit(this, "", 0, names));
+    };
+
     /**
      * @description Creates a new FileSync object with the specified paths appended to the current file's path.
      * This method allows you to create a new file or directory relative to the current file's path.
@@ -465,7 +885,56 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {FileSync} A new FileSync object with the updated path.
      */
     to(...paths: string[]): FileSync {
-        return new FileSync(this.fullPath + "/" + paths.join("/"));
+        return new FileSync(this.fullPath + "/" + paths.join("/"), this.context);
+    };
+
+    /**
+     * @description Resolves paths against the file's path, like `cd` would one after another:
+     * an absolute path starts over, ".." climbs up and anything else descends.
+     * @example
+     * const dir = new FileSync("/srv/app");
+     * dir.resolve("../logs", "today.log").fullPath; // "/srv/logs/today.log"
+     * dir.resolve("/etc", "app.conf").fullPath; // "/etc/app.conf"
+     * @param {...string} paths - The paths to resolve, in the path syntax of the file's context.
+     * @returns {FileSync} A new FileSync object for the resolved path.
+     */
+    resolve(...paths: string[]): FileSync {
+        return new FileSync(this.context.flavor.resolve(this.fullPath, ...paths), this.context);
+    };
+
+    /**
+     * @description Creates a new FileSync object for a sibling of the file, with another name in the same directory.
+     * @example
+     * new FileSync("/srv/app/config.json").withName("config.bak").fullPath; // "/srv/app/config.bak"
+     * @param {string} name - The new name.
+     * @returns {FileSync} A new FileSync object with the new name.
+     */
+    withName(name: string): FileSync {
+        return new FileSync(this.context.flavor.withName(this.fullPath, name), this.context);
+    };
+
+    /**
+     * @description Creates a new FileSync object with the extension of the file's name replaced.
+     * Names starting with their only dot, like `.bashrc`, are kept whole and get the extension appended.
+     * @example
+     * new FileSync("/docs/readme.md").withExtension("html").fullPath; // "/docs/readme.html"
+     * @param {string} extension - The new extension, with or without its dot, or an empty string to remove it.
+     * @returns {FileSync} A new FileSync object with the new extension.
+     */
+    withExtension(extension: string): FileSync {
+        return new FileSync(this.context.flavor.withExtension(this.fullPath, extension), this.context);
+    };
+
+    /**
+     * @description Creates a new FileSync object with the same name in another directory.
+     * @example
+     * new FileSync("/tmp/report.pdf").withParent("/home/user/docs").fullPath; // "/home/user/docs/report.pdf"
+     * @param {FileSync | string} parent - The new directory, a path is resolved against the working directory.
+     * @returns {FileSync} A new FileSync object in the new directory.
+     */
+    withParent(parent: FileSync | string): FileSync {
+        const split = typeof parent === "string" ? this.context.flavor.split(parent, this.context.cwd) : parent.split;
+        return new FileSync([...split, this.name], this.context);
     };
 
     /**
@@ -502,7 +971,7 @@ export class FileSync extends IFile<ISyncFS> {
      */
     createFile(value: string | Buffer = "", encoding?: BufferEncoding): FileSync | null {
         if (!this.exists) return this.write(value, encoding) ? this : null;
-        return this.isFile ? this : null;
+        return this.isFile ? this : fail(this.context, "EISDIR", "open", this.fullPath);
     };
 
     /**
@@ -516,26 +985,64 @@ export class FileSync extends IFile<ISyncFS> {
      * } else {
      *    console.log("Failed to delete file.");
      * }
+     * Symbolic links are deleted themselves by default, leaving what they point to alone.
      * @param {boolean} recursive - Whether to delete the directory and its contents recursively.
      * @param {boolean} [force=false] - Whether to force the deletion, ignoring errors.
+     * @param {LinkPolicy} [links="preserve"] - "preserve" deletes links themselves, "follow" also deletes what
+     * they point to, and "skip" keeps links and so the directories holding them.
      * @returns {FileSync | null} The FileSync object if the file or directory was deleted successfully,
      * or null if the file or directory does not exist or could not be deleted.
      */
-    delete(recursive?: boolean, force: boolean = recursive): FileSync | null {
+    delete(recursive?: boolean, force: boolean = recursive, links: LinkPolicy = "preserve"): FileSync | null {
+        if (this.isSymbolicLink) {
+            if (links === "skip") return this;
+            // the target has to be found before the link is gone, and a link to a directory holding it is only unlinked
+            const target = links === "follow" && this.exists ? this.realPath() : null;
+            const home = target && this.parent?.realPath();
+            const encloses = home && (target.fullPath === home.fullPath || target.contains(home));
+            if (target && !encloses && !target.delete(recursive, force, links)) return null;
+            return pass(() => this.fs.unlinkSync(this.fullPath), this.context) ? this : null;
+        }
+        if (recursive && links !== "preserve" && this.isDirectory) {
+            let failed = false;
+            for (const file of this.listFiles() || []) {
+                if (!file.delete(true, force, links)) failed = true;
+            }
+            if (failed) return null;
+            if (links === "skip" && this.listFiles()?.length) return this;
+            return pass(() => this.fs.rmdirSync(this.fullPath), this.context) ? this : null;
+        }
         if (recursive) {
             if ("rmSync" in this.fs) {
-                return pass(() => this.fs.rmSync(this.fullPath, {recursive: true, force: force})) ? this : null;
+                return pass(() => this.fs.rmSync(this.fullPath, {recursive: true, force: force}), this.context) ? this : null;
             }
             if ("rmdirSync" in this.fs) {
-                return pass(() => this.fs.rmdirSync(this.fullPath, {recursive: true})) ? this : null;
+                return pass(() => this.fs.rmdirSync(this.fullPath, {recursive: true}), this.context) ? this : null;
             }
             let failed = false;
             for (const file of this.listFiles() || []) {
-                if (!file.delete(true)) failed = true;
+                if (!file.delete(true, force, links)) failed = true;
             }
             if (failed) return null;
         }
-        return pass(() => this.fs.unlinkSync(this.fullPath)) ? this : null;
+        return pass(() => this.fs.unlinkSync(this.fullPath), this.context) ? this : null;
+    };
+
+    /**
+     * @description Moves the file or directory to the trash instead of deleting it, following the freedesktop.org
+     * Trash specification. Files on the file system of the home trash go there, files on other file systems go
+     * to the trash at the top of their mount. An item with the same name already in the trash is kept, the file
+     * gets a numbered name like "notes.2.txt".
+     * @example
+     * const item = new FileSync("path/to/notes.txt").moveToTrash();
+     * if (item) FileSync.restoreFromTrash(item); // changed my mind
+     * // in tests, keep the trash in a temporary directory
+     * file.moveToTrash({trash: tempDir.to("Trash")});
+     * @param {TrashOptions<FileSync>} [options] - The home `trash` directory, a path is resolved in the file's context.
+     * @returns {TrashItem<FileSync> | null} The item in the trash, or null if the file could not be trashed.
+     */
+    moveToTrash(options: TrashOptions<FileSync> = {}): TrashItem<FileSync> | null {
+        return ret(() => moveToTrashSync(this, FileSync.trash(options.trash, this.context)), this.context);
     };
 
     /**
@@ -550,7 +1057,7 @@ export class FileSync extends IFile<ISyncFS> {
      * @returns {void}
      */
     deleteOnExit(recursive?: boolean): void {
-        deleteQueue.set(this.fullPath, recursive);
+        deleteQueue.set(this.fullPath, [this, recursive]);
         attachCleanup();
     };
 
@@ -596,14 +1103,30 @@ export class FileSync extends IFile<ISyncFS> {
      * } else {
      *     console.log("Not a directory or no files found.");
      * }
+     * // Take a stat snapshot of each file while listing, so showing several columns costs nothing more
+     * for (const file of dir.listFiles(true) ?? []) {
+     *     console.log(file.name, file.isDirectory, file.size, file.lastModified);
+     * }
+     * @param {boolean} [withStats=false] - Whether to take a stat snapshot of every file, which its properties and
+     * `stat()` answer from until `refresh()`.
      * @returns {FileSync[] | null} An array of FileSync objects representing the files in the directory,
      * or null if the file is not a directory.
      */
-    listFiles(): FileSync[] | null {
-        if (!this.isDirectory) return null;
-        const files = ret(() => this.fs.readdirSync(this.fullPath));
-        if (!files) return null;
-        return files.map(file => new FileSync(`${this.fullPath}/${file}`));
+    listFiles(withStats: boolean = false): FileSync[] | null {
+        return this.listEntries(withStats)?.map(entry => entry.file) ?? null;
+    };
+
+    /**
+     * Lists the directory, with the entry types of backends listing `withFileTypes`.
+     */
+    private listEntries(withStats: boolean): { file: FileSync, dirent?: DirentLike }[] | null {
+        const entries = ret(() => this.fs.readdirSync(this.fullPath, {withFileTypes: true}), this.context);
+        if (!entries) return null;
+        return entries.map(entry => {
+            const file = new FileSync(`${this.fullPath}/${typeof entry === "string" ? entry : entry.name}`, this.context);
+            if (withStats) file.preload();
+            return typeof entry === "string" ? {file} : {file, dirent: entry};
+        });
     };
 
     /**
@@ -621,7 +1144,7 @@ export class FileSync extends IFile<ISyncFS> {
      * in the directory, or null if the file is not a directory.
      */
     listFilenames(): string[] | null {
-        return ret(() => this.fs.readdirSync(this.fullPath));
+        return ret(() => this.fs.readdirSync(this.fullPath), this.context);
     };
 
     /**
@@ -640,7 +1163,7 @@ export class FileSync extends IFile<ISyncFS> {
      * or null if the directory could not be created.
      */
     mkdir(recursive: boolean = false): FileSync | null {
-        return pass(() => this.fs.mkdirSync(this.fullPath, {recursive})) ? this : null;
+        return pass(() => this.fs.mkdirSync(this.fullPath, {recursive}), this.context) ? this : null;
     };
 
     /**
@@ -662,8 +1185,9 @@ export class FileSync extends IFile<ISyncFS> {
 
     /**
      * @description Renames the file or directory to the specified destination.
-     * If the destination already exists and `overwrite` is false, it will not overwrite it.
-     * If `recursive` is true, it will create parent directories if they do not exist.
+     * If the destination already exists and `overwrite` is false, it fails and leaves the destination untouched.
+     * If `overwrite` is true, the destination is deleted first.
+     * If `recursive` is true, it will create the destination's parent directories if they do not exist.
      * If the source and destination paths are the same, it does nothing and returns the current FileSync object.
      * @example
      * const file = new FileSync("path/to/source.txt");
@@ -682,15 +1206,22 @@ export class FileSync extends IFile<ISyncFS> {
      */
     renameTo(dest: FileSync, overwrite?: boolean, recursive?: boolean): FileSync | null {
         if (this.fullPath === dest.fullPath) return this;
-        if (dest.exists && !overwrite && !dest.delete(recursive)) return null;
-        if (recursive) this.parent?.mkdirs();
-        return pass(() => this.fs.renameSync(this.fullPath, dest.fullPath)) ? this : null;
+        if (dest.exists) {
+            if (!overwrite) return fail(this.context, "EEXIST", "rename", this.fullPath, {dest: dest.fullPath});
+            if (!dest.delete(recursive)) return null;
+        }
+        if (recursive) dest.parent?.mkdirs();
+        // the destination is replaced without going through its own backend calls
+        dest.preloaded = undefined;
+        return pass(() => this.fs.renameSync(this.fullPath, dest.fullPath), this.context) ? this : null;
     };
 
     /**
      * @description Copies the file to the specified destination.
-     * If the destination file already exists and `overwrite` is false, it will not overwrite it.
+     * If the destination already exists and `overwrite` is false, it fails and leaves the destination untouched.
+     * If `overwrite` is true, files are overwritten and directories are merged into existing ones.
      * If `recursive` is true, it will copy the contents of the directory recursively.
+     * To only copy what changed, use {@link syncTo}.
      * @example
      * const file = new FileSync("path/to/source.txt");
      * const dest = new FileSync("path/to/destination.txt");
@@ -702,14 +1233,28 @@ export class FileSync extends IFile<ISyncFS> {
      * @param {FileSync} dest - The destination file to copy to.
      * @param {boolean} [overwrite=false] - Whether to overwrite the destination file if it already exists.
      * @param {boolean} [recursive=false] - Whether to copy the contents of the directory recursively and
-     * delete the destination directory recursively if it already exists.
+     * delete the destination directory recursively if it has to be replaced.
+     * @param {LinkPolicy} [links="follow"] - "follow" copies what symbolic links point to, "preserve" creates
+     * the same links in the destination, with their targets unchanged, and "skip" leaves them out.
      * @returns {FileSync | null} The FileSync object if the file was copied successfully,
      * or null if the file could not be copied.
      */
-    copyTo(dest: FileSync, overwrite?: boolean, recursive?: boolean): FileSync | null {
+    copyTo(dest: FileSync, overwrite?: boolean, recursive?: boolean, links: LinkPolicy = "follow"): FileSync | null {
         if (this.fullPath === dest.fullPath) return this;
-        if (!this.exists) return null;
-        if (dest.exists && !overwrite && !dest.delete(recursive)) return null;
+        const isLink = links !== "follow" && this.isSymbolicLink === true;
+        if (isLink && links === "skip") return this;
+        if (!isLink && !this.exists) return fail(this.context, "ENOENT", "copyfile", this.fullPath, {dest: dest.fullPath});
+        if (dest.exists || dest.isSymbolicLink) {
+            if (!overwrite) return fail(this.context, "EEXIST", "copyfile", this.fullPath, {dest: dest.fullPath});
+            // a file cannot be merged with a directory, so the destination is replaced if their types differ
+            if ((isLink || dest.isSymbolicLink || this.isFile !== dest.isFile) && !dest.delete(recursive)) return null;
+        }
+
+        if (isLink) {
+            const target = ret(() => this.fs.readlinkSync(this.fullPath), this.context);
+            if (target === null) return null;
+            return dest.createSymlinkTo(target, this.isDirectory ? "dir" : "file") ? this : null;
+        }
 
         if (this.isFile) {
             const data = this.read();
@@ -717,38 +1262,304 @@ export class FileSync extends IFile<ISyncFS> {
             return dest.write(data) ? this : null;
         }
 
-        if (!dest.mkdir(recursive)) return null;
+        if (!dest.isDirectory && !dest.mkdir(recursive)) return null;
         const files = this.listFiles();
         if (files === null) return null;
         let failed = false;
         for (const file of files) {
             const newFile = dest.to(file.name);
-            if (!file.copyTo(newFile, overwrite, recursive)) failed = true;
+            if (!file.copyTo(newFile, overwrite, recursive, links)) failed = true;
         }
         return failed ? null : this;
     };
 
+    /**
+     * @description Mirrors this directory into the destination directory, rsync style: only files that are new or
+     * changed are copied, files are compared by size and modification time or by content hash, and extraneous
+     * entries in the destination can optionally be deleted. The destination is created if it does not exist.
+     * @example
+     * const source = new FileSync("path/to/site");
+     * const report = source.syncTo(new FileSync("path/to/backup"), {delete: true, ignore: ["*.tmp"], dryRun: true});
+     * console.log("Would copy", report.added.length + report.updated.length, "files");
+     * console.log("Would delete", report.deleted);
+     * @param {FileSync} dest - The destination directory.
+     * @param {SyncOptions} [options] - The options: `compare`, `algorithm`, `delete`, `ignore`, `dryRun`,
+     * `preserveTimes` and `followSymlinks`.
+     * @returns {SyncReport | null} A report of the added, updated, deleted, skipped and failed paths,
+     * or null if this is not a directory or the destination could not be created.
+     */
+    syncTo(dest: FileSync, options: SyncOptions = {}): SyncReport | null {
+        if (!this.isDirectory) return fail(this.context, "ENOTDIR", "scandir", this.fullPath);
+        const destExists = dest.exists;
+        if (destExists && !dest.isDirectory) return fail(dest.context, "ENOTDIR", "scandir", dest.fullPath);
+        if (!destExists && !options.dryRun && !dest.mkdirs()) return null;
+        const report = emptySyncReport();
+        const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+        // relative paths of the source mapped to whether their counterpart in the destination is descended into
+        const seen = new Map<string, boolean>();
+        const apply = (path: string, list: string[], action: () => unknown) => {
+            if (options.dryRun || action()) list.push(path);
+            else report.failed.push(path);
+        };
+        for (const entry of this.walkEntries({
+            minDepth: 1,
+            followSymlinks: options.followSymlinks,
+            descend: entry => !ignore?.matches(entry.path, true)
+        })) {
+            if (ignore?.matches(entry.path, entry.isDirectory)) continue;
+            const target = dest.to(...entry.path.split("/"));
+            if (entry.isSymbolicLink && !options.followSymlinks) {
+                seen.set(entry.path, false);
+                report.skipped.push(entry.path);
+                continue;
+            }
+            seen.set(entry.path, entry.isDirectory);
+            const exists = target.exists;
+            const isDirectory = exists && target.isDirectory;
+            const list = exists ? report.updated : report.added;
+            if (entry.isDirectory) {
+                if (isDirectory) continue;
+                apply(entry.path, list, () => (!exists || target.delete(true)) && target.mkdir());
+                continue;
+            }
+            if (exists && !isDirectory && this.isSynced(entry.file, target, options)) {
+                report.skipped.push(entry.path);
+                continue;
+            }
+            apply(entry.path, list, () => (!isDirectory || target.delete(true))
+                && this.mirrorFile(entry.file, target, options));
+        }
+        if (options.delete && destExists) {
+            for (const entry of dest.walkEntries({minDepth: 1, descend: entry => seen.get(entry.path) === true})) {
+                if (seen.has(entry.path) || ignore?.matches(entry.path, entry.isDirectory)) continue;
+                apply(entry.path, report.deleted, () => entry.file.delete(true));
+            }
+        }
+        return report;
+    };
+
+    private isSynced(source: FileSync, target: FileSync, options: SyncOptions): boolean {
+        const sourceStat = ret(() => source.fs.statSync(source.fullPath), this.context);
+        const targetStat = ret(() => target.fs.statSync(target.fullPath), target.context);
+        if (options.compare !== "hash") return sameMetadata(sourceStat, targetStat);
+        if (!sourceStat || !targetStat || sourceStat.size !== targetStat.size) return false;
+        const hash = source.hash(options.algorithm);
+        return hash !== null && hash === target.hash(options.algorithm);
+    };
+
+    private mirrorFile(source: FileSync, target: FileSync, options: SyncOptions): boolean {
+        const data = source.read();
+        if (data === null || !target.write(data)) return false;
+        if (options.preserveTimes === false) return true;
+        const stat = ret(() => source.fs.statSync(source.fullPath), this.context);
+        if (!stat?.mtime) return true;
+        return pass(() => target.fs.utimesSync(target.fullPath, stat.atime ?? stat.mtime, stat.mtime), target.context);
+    };
+
     /**
      * @description Walks through the directory and yields each file.
      * If the file is a directory, it will yield the directory and then recursively yield all files within it.
      * If the file is not a directory, it will yield the file itself.
+     * The walk can be limited and reordered with options, see {@link walkEntries}.
      * @example
      * const dir = new FileSync("path/to/directory");
      * for (const file of dir.walk()) {
      *     console.log(file.name);
      * }
+     * for (const file of dir.walk({type: "files", descend: e => e.file.name !== "node_modules"})) {
+     *     console.log(file.name);
+     * }
+     * @param {WalkOptions<FileSync>} [options] - The options of the walk.
      * @returns {Generator<FileSync>} A generator that yields FileSync objects representing the files
      * in the directory and its subdirectories.
      * If the file is not a directory, it will yield the file itself.
      * @yields {FileSync} Each file or directory found during the walk, including subdirectories and their contents.
      */
-    * walk(): Generator<FileSync> {
-        if (this.isDirectory) {
-            yield this;
-            for (const file of this.listFiles() || []) {
-                yield* file.walk();
+    * walk(options?: WalkOptions<FileSync>): Generator<FileSync> {
+        for (const entry of this.walkEntries(options)) yield entry.file;
+    };
+
+    /**
+     * @description Walks through the directory and yields an entry for each file, carrying the file,
+     * its depth and its path relative to this directory.
+     * Symbolically linked directories are only descended into if `followSymlinks` is set, and a directory is never
+     * descended into twice, so link cycles cannot cause infinite walks.
+     * @example
+     * const dir = new FileSync("path/to/directory");
+     * // Delete everything below the directory, children before their parents
+     * for (const entry of dir.walkEntries({order: "post", minDepth: 1})) {
+     *     console.log("Deleting", entry.path, "at depth", entry.depth);
+     *     entry.file.delete();
+     * }
+     * @param {WalkOptions<FileSync>} [options] - The options of the walk: `maxDepth`, `minDepth`, `filter`, `descend`,
+     * `type`, `order`, `followSymlinks`, `links` and `stats`.
+     * @returns {Generator<WalkEntry<FileSync>>} A generator that yields the entries of the walk.
+     */
+    * walkEntries(options: WalkOptions<FileSync> = {}): Generator<WalkEntry<FileSync>> {
+        const {maxDepth = Infinity, minDepth = 0, type = "all", order = "pre"} = options;
+        const links = options.links ?? (options.followSymlinks ? "follow" : "preserve");
+        const visited = new Set<string>();
+        const createEntry = (file: FileSync, depth: number, path: string, dirent?: DirentLike): WalkEntry<FileSync> => {
+            // directory entries answer for plain files and directories, links and unknown types need a stat
+            if (dirent && !options.stats && !dirent.isSymbolicLink() && (dirent.isFile() || dirent.isDirectory())) {
+                return {file, depth, path, isDirectory: dirent.isDirectory(), isSymbolicLink: false};
+            }
+            const lstat = file.readStat(false);
+            const isSymbolicLink = lstat?.isSymbolicLink ?? false;
+            const stat = isSymbolicLink || !lstat ? file.readStat(true) : lstat;
+            const entry = {file, depth, path, isDirectory: stat?.isDirectory ?? false, isSymbolicLink};
+            return options.stats && stat ? {...entry, stat} : entry;
+        };
+        const accepts = (entry: WalkEntry<FileSync>) => entry.depth >= minDepth
+            && (type === "all" || (type === "directories") === entry.isDirectory)
+            && (!options.filter || options.filter(entry));
+        const children = (entry: WalkEntry<FileSync>): WalkEntry<FileSync>[] => {
+            if (!entry.isDirectory || entry.depth >= maxDepth) return [];
+            if (entry.isSymbolicLink && links !== "follow" && entry.depth > 0) return [];
+            if (options.descend && entry.depth > 0 && !options.descend(entry)) return [];
+            const key = walkKey(entry.file.readStat(true), entry.file.fullPath);
+            if (visited.has(key)) return [];
+            visited.add(key);
+            return (entry.file.listEntries(options.stats ?? false) || [])
+                .map(({file, dirent}) => createEntry(file, entry.depth + 1, walkPath(entry.path, file.name), dirent))
+                .filter(child => links !== "skip" || !child.isSymbolicLink);
+        };
+        const root = createEntry(this, 0, "");
+        if (order === "breadth") {
+            const queue = [root];
+            for (let i = 0; i < queue.length; i++) {
+                const entry = queue[i];
+                queue[i] = null;
+                if (accepts(entry)) yield entry;
+                queue.push(...children(entry));
             }
-        } else yield this;
+            return;
+        }
+        const visit = function* (entry: WalkEntry<FileSync>): Generator<WalkEntry<FileSync>> {
+            const accepted = accepts(entry);
+            if (accepted && order === "pre") yield entry;
+            for (const child of children(entry)) yield* visit(child);
+            if (accepted && order === "post") yield entry;
+        };
+        yield* visit(root);
+    };
+
+    /**
+     * @description Finds the files and directories below this directory whose relative path matches the given glob patterns.
+     * Supports `*`, `**`, `?`, character classes, brace expansion, negation with a leading `!` and
+     * patterns ending with `/` to only match directories.
+     * Results are yielded lazily and subtrees that cannot contain a match are never listed.
+     * @example
+     * const dir = new FileSync("path/to/project");
+     * for (const file of dir.glob(["src/**\/*.{ts,tsx}", "!**\/*.test.ts"], {onlyFiles: true})) {
+     *     console.log(file.fullPath);
+     * }
+     * @param {string | string[]} patterns - The pattern or patterns to match, relative to this directory.
+     * @param {FileGlobOptions} [options] - Matching options: `dot`, `nocase`, `ignore`, `onlyFiles`,
+     * `onlyDirectories` and `followSymlinks`.
+     * @returns {Generator<FileSync>} A generator that yields the matching files.
+     */
+    * glob(patterns: string | string[], options: FileGlobOptions = {}): Generator<FileSync> {
+        const glob = new Glob(patterns, options);
+        // directories reached again through links are not listed twice, which also ends link cycles
+        const visited = new Set<string>();
+        const visit = function* (dir: FileSync, relative: string[]): Generator<FileSync> {
+            const key = walkKey(dir.readStat(true), dir.fullPath);
+            if (visited.has(key)) return;
+            visited.add(key);
+            for (const file of dir.listFiles() || []) {
+                const path = [...relative, file.name];
+                const isDirectory = file.isDirectory;
+                if ((isDirectory ? !options.onlyFiles : !options.onlyDirectories) && glob.matches(path, isDirectory)) {
+                    yield file;
+                }
+                if (isDirectory && (options.followSymlinks || !file.isSymbolicLink) && glob.couldMatchInside(path)) {
+                    yield* visit(file, path);
+                }
+            }
+        };
+        yield* visit(this, []);
+    };
+
+    /**
+     * @description Watches this file or directory for changes and reports them as typed events.
+     * Changes happening within the debounce window are coalesced, and a deletion followed by a creation of the same
+     * file is reported as a rename. Native watching of the backend is used when available, otherwise the tree is polled.
+     * @example
+     * const dir = new FileSync("path/to/project");
+     * const watcher = dir.watch({glob: "src/**\/*.ts", ignore: "node_modules/"});
+     * watcher.on("created", event => console.log("Created:", event.path));
+     * for await (const event of watcher) {
+     *     if (event.type === "modified") console.log("Changed:", event.path);
+     * }
+     * watcher.close();
+     * @param {WatchOptions} [options] - The options of the watcher: `recursive`, `debounce`, `glob`, `ignore`,
+     * `signal` and `poll`.
+     * @returns {Watcher<FileSync>} The watcher, call `close` or abort the signal to stop watching.
+     */
+    watch(options?: WatchOptions): Watcher<FileSync> {
+        return new Watcher<FileSync>(this.async, file => file.sync, options);
+    };
+
+    /**
+     * @description Acquires an advisory lock on this file, waiting with exponential backoff while another owner holds it.
+     * The lock is a lockfile next to this file (`name.lock`) created with exclusive-create semantics, recording the
+     * owner's pid and hostname. Locks that were not refreshed within `stale` milliseconds, or whose owner process on
+     * this host has died, are taken over. Waiting blocks the thread, use `FileAsync.lock` to keep the event loop free.
+     * Only cooperating code that locks the same file is kept out.
+     * @example
+     * const file = new FileSync("path/to/counter.txt");
+     * const lock = file.lock({timeout: 5000});
+     * if (lock) {
+     *     try {
+     *         file.write(String(Number(file.read("utf8")) + 1));
+     *     } finally {
+     *         lock.release();
+     *     }
+     * }
+     * @param {LockOptions} [options] - The options of the lock: `stale`, `timeout`, `retryDelay` and `maxRetryDelay`.
+     * @returns {LockSync | null} The held lock, or null if it could not be acquired before the timeout.
+     */
+    lock(options: LockOptions = {}): LockSync | null {
+        return acquireLockSync(this, this.lockfile, options);
+    };
+
+    /**
+     * @description Acquires an advisory lock on this file if it is free, without waiting.
+     * Stale locks are still taken over. See {@link lock}.
+     * @example
+     * const lock = file.tryLock();
+     * if (!lock) console.log("Someone else is working on the file.");
+     * @param {LockOptions} [options] - The options of the lock, only `stale` is used.
+     * @returns {LockSync | null} The held lock, or null if the file is locked.
+     */
+    tryLock(options: LockOptions = {}): LockSync | null {
+        return acquireLockSync(this, this.lockfile, {...options, timeout: 0});
+    };
+
+    /**
+     * @description Runs a function while holding an advisory lock on this file and releases the lock afterwards,
+     * even if the function throws. Work that takes longer than the `stale` interval should call `lock.refresh()`.
+     * See {@link lock}.
+     * @example
+     * const log = new FileSync("path/to/shared.log");
+     * log.withLock(() => log.append(`worker ${process.pid} done\n`));
+     * @param {Function} fn - The function to run, it receives the held lock.
+     * @param {LockOptions} [options] - The options of the lock: `stale`, `timeout`, `retryDelay` and `maxRetryDelay`.
+     * @returns {T | null} The result of the function, or null if the lock could not be acquired.
+     */
+    withLock<T>(fn: (lock: LockSync) => T, options: LockOptions = {}): T | null {
+        const lock = this.lock(options);
+        if (!lock) return null;
+        try {
+            return fn(lock);
+        } finally {
+            lock.release();
+        }
+    };
+
+    private get lockfile(): FileSync {
+        return new FileSync([...this.split.slice(0, -1), this.name + ".lock"], this.context);
     };
 
     /**
@@ -788,7 +1599,7 @@ export class FileSync extends IFile<ISyncFS> {
      */
     read(): Buffer | null;
     read(encoding?: BufferEncoding | null): string | Buffer | null {
-        return ret(() => this.fs.readFileSync(this.fullPath, encoding));
+        return ret(() => this.fs.readFileSync(this.fullPath, encoding), this.context);
     };
 
     /**
@@ -814,6 +1625,325 @@ export class FileSync extends IFile<ISyncFS> {
         return null;
     };
 
+    /**
+     * @description Iterates over the lines of the file without loading the whole file into memory.
+     * The file is read in chunks, `\n`, `\r\n` and `\r` line breaks are recognized, and multi-byte characters
+     * split across chunks are decoded correctly. A line break at the very end of the file does not produce
+     * an empty last line. Nothing is yielded if the file cannot be read.
+     * @example
+     * const log = new FileSync("path/to/huge.log");
+     * for (const line of log.lines({start: 1000, limit: 50})) {
+     *     console.log(line);
+     * }
+     * @param {LineOptions} [options] - The options: `encoding`, `start` (the index of the first line),
+     * `limit` and `chunkSize`.
+     * @returns {Generator<string>} A generator that yields the lines of the file.
+     */
+    * lines(options: LineOptions = {}): Generator<string> {
+        const fs = this.fs;
+        if (!fs.openSync || !fs.readSync || !fs.closeSync) {
+            const data = this.read(options.encoding ?? "utf8");
+            if (typeof data === "string") yield* splitLines(data, options);
+            return;
+        }
+        const fd = ret(() => fs.openSync(this.fullPath, "r"), this.context);
+        if (fd === null) return;
+        try {
+            const reader = new LineReader(options);
+            const buffer = new Uint8Array(options.chunkSize ?? 65536);
+            while (!reader.done) {
+                const bytes = ret(() => fs.readSync(fd, buffer, 0, buffer.length, null), this.context);
+                if (bytes === null) return;
+                yield* reader.push(bytes === 0 ? null : buffer.subarray(0, bytes));
+                if (bytes === 0) break;
+            }
+        } finally {
+            fs.closeSync(fd);
+        }
+    };
+
+    /**
+     * @description Gets the last lines of the file, reading backwards from its end in chunks,
+     * so only about as much of the file is read as the lines take up. See {@link lines} for how lines are split.
+     * @example
+     * const log = new FileSync("path/to/huge.log");
+     * console.log(log.tailLines(20)?.join("\n"));
+     * @param {number} n - The number of lines to get.
+     * @param {LineOptions} [options] - The options: `encoding` and `chunkSize`.
+     * @returns {string[] | null} Up to `n` lines, or null if reading the file failed.
+     */
+    tailLines(n: number, options: LineOptions = {}): string[] | null {
+        if (n <= 0) return [];
+        const fs = this.fs;
+        if (!fs.openSync || !fs.readSync || !fs.closeSync || !isAsciiCompatible(options.encoding)) {
+            const data = this.read(options.encoding ?? "utf8");
+            return typeof data === "string" ? splitLines(data).slice(-n) : null;
+        }
+        const size = this.size;
+        if (size === null) return null;
+        const fd = ret(() => fs.openSync(this.fullPath, "r"), this.context);
+        if (fd === null) return null;
+        try {
+            const chunkSize = options.chunkSize ?? 65536;
+            const chunks: Uint8Array[] = [];
+            let position = size;
+            let breaks = 0;
+            // one break more than lines is needed: the one before the first line and possibly one at the very end
+            while (position > 0 && breaks <= n + 1) {
+                const length = Math.min(chunkSize, position);
+                position -= length;
+                const chunk = new Uint8Array(length);
+                for (let read = 0; read < length;) {
+                    const bytes = ret(() => fs.readSync(fd, chunk, read, length - read, position + read), this.context);
+                    if (bytes === null) return null;
+                    if (bytes === 0) break;
+                    read += bytes;
+                }
+                // a \r\n pair split between this chunk and the next one was counted twice
+                if (chunk[length - 1] === 0x0D && chunks[0]?.[0] === 0x0A) breaks--;
+                chunks.unshift(chunk);
+                breaks += countLineBreaks(chunk);
+            }
+            const reader = new LineReader({encoding: options.encoding});
+            const lines = reader.push(concatChunks(chunks)).concat(reader.push(null));
+            // the first line is cut off unless the start of the file was reached
+            if (position > 0) lines.shift();
+            return lines.slice(-n);
+        } finally {
+            fs.closeSync(fd);
+        }
+    };
+
+    /**
+     * @description Computes a hash of the file's content. The content is streamed through the hash in chunks,
+     * so files of any size can be hashed. Requires Node's `crypto` module.
+     * @example
+     * const file = new FileSync("path/to/archive.tar");
+     * const checksum = file.hash("sha1");
+     * @param {string} [algorithm="sha256"] - The hash algorithm, any algorithm `crypto.createHash` supports.
+     * @param {number} [chunkSize=65536] - How many bytes are read at once.
+     * @param {number} [length=Infinity] - How many bytes from the start of the file are hashed, all by default.
+     * @returns {string | null} The hash as a hex string, or null if the file could not be read.
+     */
+    hash(algorithm: string = "sha256", chunkSize: number = 65536, length: number = Infinity): string | null {
+        if (!hashing.createHash) return fail(this.context, "ENOSYS", "hash", this.fullPath);
+        const hasher = ret(() => hashing.createHash(algorithm), this.context);
+        if (!hasher) return null;
+        const fs = this.fs;
+        if (!fs.openSync || !fs.readSync || !fs.closeSync) {
+            const data = this.read();
+            if (data === null) return null;
+            hasher.update(length < data.length ? data.subarray(0, length) : data);
+            return hasher.digest("hex");
+        }
+        const fd = ret(() => fs.openSync(this.fullPath, "r"), this.context);
+        if (fd === null) return null;
+        try {
+            const buffer = new Uint8Array(chunkSize);
+            for (let remaining = length; remaining > 0;) {
+                const bytes = ret(() => fs.readSync(fd, buffer, 0, Math.min(buffer.length, remaining), null), this.context);
+                if (bytes === null) return null;
+                if (bytes === 0) break;
+                hasher.update(buffer.subarray(0, bytes));
+                remaining -= bytes;
+            }
+            return hasher.digest("hex");
+        } finally {
+            fs.closeSync(fd);
+        }
+    };
+
+    /**
+     * @description Computes a deterministic hash of a directory tree from the relative paths and content hashes
+     * of everything below it. Two directories with the same structure and the same contents hash the same,
+     * wherever they are and in whatever order the file system lists them.
+     * Symbolic links are hashed by their target path unless `followSymlinks` is set.
+     * @example
+     * const dir = new FileSync("path/to/project");
+     * const key = dir.treeHash({ignore: ["node_modules/", "**\/*.log"]});
+     * @param {TreeHashOptions} [options] - The options: `algorithm`, `includeMode`, `includeMtime`, `ignore`,
+     * `followSymlinks` and `chunkSize`.
+     * @returns {string | null} The hash as a hex string, or null if this is not a directory
+     * or something in it could not be read.
+     */
+    treeHash(options: TreeHashOptions = {}): string | null {
+        if (!hashing.createHash) return fail(this.context, "ENOSYS", "hash", this.fullPath);
+        if (!this.isDirectory) return fail(this.context, "ENOTDIR", "scandir", this.fullPath);
+        const algorithm = options.algorithm ?? "sha256";
+        const ignore = options.ignore ? new Glob(options.ignore, {dot: true}) : null;
+        const lines: [string, string][] = [];
+        for (const entry of this.walkEntries({
+            minDepth: 1,
+            followSymlinks: options.followSymlinks,
+            descend: entry => !ignore?.matches(entry.path, true)
+        })) {
+            if (ignore?.matches(entry.path, entry.isDirectory)) continue;
+            const file = entry.file;
+            if (entry.isSymbolicLink && !options.followSymlinks) {
+                const target = ret(() => file.fs.readlinkSync(file.fullPath), this.context);
+                if (target === null) return null;
+                lines.push([entry.path, manifestLine("l", entry.path, options, {content: JSON.stringify(target)})]);
+                continue;
+            }
+            const stat = ret(() => file.fs.statSync(file.fullPath), this.context);
+            if (!stat) return null;
+            if (entry.isDirectory) {
+                lines.push([entry.path, manifestLine("d", entry.path, options, {mode: stat.mode})]);
+                continue;
+            }
+            const content = file.hash(algorithm, options.chunkSize);
+            if (content === null) return null;
+            lines.push([entry.path, manifestLine("f", entry.path, options, {
+                mode: stat.mode,
+                mtime: stat.mtime?.getTime(),
+                content
+            })]);
+        }
+        return combineManifest(lines, algorithm);
+    };
+
+    /**
+     * @description Packs this file or directory into a tar archive. Directory contents are stored with paths
+     * relative to this directory, a single file under its name. File modes, modification times and symbolic links
+     * are kept, long paths are stored with pax headers.
+     * @example
+     * const dir = new FileSync("path/to/project");
+     * dir.toTar(new FileSync("path/to/project.tar.gz"), {prefix: "project", ignore: ["node_modules/"]});
+     * @param {FileSync} dest - The archive to write, it is replaced if it exists.
+     * @param {TarOptions} [options] - The options: `gzip`, `prefix`, `ignore` and `followSymlinks`.
+     * @returns {FileSync | null} The archive, or null if packing failed.
+     */
+    toTar(dest: FileSync, options: TarOptions = {}): FileSync | null {
+        return pass(() => writeTarSync(this, dest, options), this.context) ? dest : null;
+    };
+
+    /**
+     * @description Extracts this tar archive, gzipped or not, into a directory, which is created if needed.
+     * Entries with absolute paths, `..` segments or paths through links they created, and links pointing
+     * outside the destination, are refused with `EESCAPE` before anything is written for them.
+     * Hard links and special files are skipped.
+     * @example
+     * const archive = new FileSync("path/to/project.tar.gz");
+     * const dir = archive.extractTar(new FileSync("path/to/project"), {strip: 1});
+     * @param {FileSync} dest - The directory to extract into.
+     * @param {ExtractTarOptions} [options] - The options: `strip`, `ignore`, `preserveMode` and `preserveTimes`.
+     * @returns {FileSync | null} The destination directory, or null if extraction failed or was refused.
+     * Entries extracted before a failure are left in place.
+     */
+    extractTar(dest: FileSync, options: ExtractTarOptions = {}): FileSync | null {
+        return pass(() => extractTarSync(this, dest, options), this.context) ? dest : null;
+    };
+
+    /**
+     * @description Lists the entries of this zip archive from its central directory, without reading their contents.
+     * @example
+     * const archive = new FileSync("path/to/export.zip");
+     * for (const entry of archive.zipEntries() ?? []) {
+     *     console.log(entry.path, entry.size, entry.compressedSize, entry.method, entry.crc32.toString(16));
+     * }
+     * @returns {ZipEntry[] | null} The entries in archive order, or null if this is not a readable zip archive.
+     */
+    zipEntries(): ZipEntry[] | null {
+        return ret(() => listZipSync(this), this.context);
+    };
+
+    /**
+     * @description Reads a single entry of this zip archive as a string, without extracting anything else.
+     * The content is checked against the stored size and CRC.
+     * @example
+     * const manifest = new FileSync("path/to/bundle.zip").readZipEntry("META-INF/MANIFEST.MF", "utf8");
+     * @param {string} path - The path of the entry inside the archive.
+     * @param {BufferEncoding} encoding - The encoding of the content.
+     * @returns {string | null} The content, or null if the entry does not exist or could not be read.
+     */
+    readZipEntry(path: string, encoding: BufferEncoding): string | null;
+    /**
+     * @description Reads a single entry of this zip archive as a Buffer, without extracting anything else.
+     * The content is checked against the stored size and CRC.
+     * @example
+     * const image = new FileSync("path/to/bundle.zip").readZipEntry("media/logo.png");
+     * @param {string} path - The path of the entry inside the archive.
+     * @returns {Buffer | null} The content, or null if the entry does not exist or could not be read.
+     */
+    readZipEntry(path: string): Buffer | null;
+    readZipEntry(path: string, encoding?: BufferEncoding): string | Buffer | null {
+        return ret(() => {
+            const data = concatChunks([...streamZipEntrySync(this, path, 65536)]);
+            const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+            return encoding ? buffer.toString(encoding) : buffer;
+        }, this.context);
+    };
+
+    /**
+     * @description Yields the content of a single entry of this zip archive in chunks, read and inflated
+     * as they are consumed. A size or CRC mismatch is found once the last chunk was read.
+     * The yielded arrays may be reused, consume each chunk before asking for the next one.
+     * @example
+     * const archive = new FileSync("path/to/export.zip");
+     * for (const chunk of archive.streamZipEntry("data/big.csv")) process(chunk);
+     * @param {string} path - The path of the entry inside the archive.
+     * @param {number} [chunkSize=65536] - The size of the chunks read from the archive.
+     * @returns {Generator<Uint8Array>} The chunks. Ends early if the entry could not be read.
+     */
+    * streamZipEntry(path: string, chunkSize: number = 65536): Generator<Uint8Array> {
+        try {
+            yield* streamZipEntrySync(this, path, chunkSize);
+        } catch (e) {
+            if (this.context?.throwErrors) throw KtFileError.from(e);
+        }
+    };
+
+    /**
+     * @description Extracts this zip archive into a directory, which is created if needed.
+     * Entries with absolute paths, `..` segments or paths through links they created, and links pointing
+     * outside the destination, are refused with `EESCAPE` before anything is written for them.
+     * Every entry is checked against its stored size and CRC.
+     * @example
+     * const archive = new FileSync("path/to/export.zip");
+     * archive.extractZip(new FileSync("path/to/export"), {ignore: ["__MACOSX/"]});
+     * @param {FileSync} dest - The directory to extract into.
+     * @param {ExtractZipOptions} [options] - The options: `strip`, `ignore`, `preserveMode` and `preserveTimes`.
+     * @returns {FileSync | null} The destination directory, or null if extraction failed or was refused.
+     * Entries extracted before a failure are left in place.
+     */
+    extractZip(dest: FileSync, options: ExtractZipOptions = {}): FileSync | null {
+        return pass(() => extractZipSync(this, dest, options), this.context) ? dest : null;
+    };
+
+    /**
+     * @description Packs this file or directory into a zip archive. Directory contents are stored with paths
+     * relative to this directory, a single file under its name. See {@link writeZip} for packing several sources.
+     * @example
+     * const dir = new FileSync("path/to/report");
+     * dir.toZip(new FileSync("path/to/report.zip"), {ignore: ["*.tmp"]});
+     * @param {FileSync} dest - The archive to write, it is replaced if it exists.
+     * @param {ZipOptions} [options] - The options: `method`, `prefix`, `ignore`, `followSymlinks` and `zip64`.
+     * @returns {FileSync | null} The archive, or null if packing failed.
+     */
+    toZip(dest: FileSync, options: ZipOptions = {}): FileSync | null {
+        const source = this.isDirectory ? {path: "", file: this as FileSync} : this;
+        return pass(() => writeZipSync(dest, [source], options), this.context) ? dest : null;
+    };
+
+    /**
+     * @description Writes this file as a zip archive of the given sources. Files and directories are stored
+     * under their names unless a path is given, directories with everything below them, and content can be
+     * given directly. ZIP64 records are written when the archive needs them.
+     * @example
+     * const archive = new FileSync("path/to/export.zip");
+     * archive.writeZip([
+     *     new FileSync("path/to/data"),
+     *     {path: "docs/readme.txt", file: new FileSync("path/to/README.md")},
+     *     {path: "meta.json", data: JSON.stringify({created: Date.now()})}
+     * ], {method: "deflate"});
+     * @param {ZipSource<FileSync>[]} sources - What to put into the archive.
+     * @param {ZipOptions} [options] - The options: `method`, `prefix`, `ignore`, `followSymlinks` and `zip64`.
+     * @returns {FileSync | null} This archive, or null if packing failed.
+     */
+    writeZip(sources: ZipSource<FileSync>[], options: ZipOptions = {}): FileSync | null {
+        return pass(() => writeZipSync(this, sources, options), this.context) ? this : null;
+    };
+
     /**
      * @description Reads the contents of the file as JSON.
      * If the file is a valid JSON file, it will parse and return the contents as an object.
@@ -834,7 +1964,7 @@ export class FileSync extends IFile<ISyncFS> {
         try {
             return JSON.parse(data) as T;
         } catch (e) {
-            return null;
+            return fail(this.context, "EPARSE", "read", this.fullPath, {cause: e});
         }
     };
 
@@ -854,10 +1984,54 @@ export class FileSync extends IFile<ISyncFS> {
      * or null if the file is not a symbolic link.
      */
     readlink(): FileSync | null {
-        if (!this.isSymbolicLink) return null;
-        const linkPath = ret(() => this.fs.readlinkSync(this.fullPath));
+        const linkPath = ret(() => this.fs.readlinkSync(this.fullPath), this.context);
         if (!linkPath) return null;
-        return new FileSync(linkPath);
+        return new FileSync(linkPath, this.context);
+    };
+
+    /**
+     * @description Resolves the path of the file to its canonical form, following every symbolic link on the way.
+     * @example
+     * const link = new FileSync("path/to/symlink");
+     * console.log("Points to:", link.realPath()?.fullPath);
+     * @returns {FileSync | null} A new FileSync object for the resolved path,
+     * or null if the file or a link target on the way does not exist.
+     */
+    realPath(): FileSync | null {
+        if (!("realpathSync" in this.fs)) return fail(this.context, "ENOSYS", "realpath", this.fullPath);
+        const path = ret(() => this.fs.realpathSync(this.fullPath), this.context);
+        return path === null ? null : new FileSync(path, this.context);
+    };
+
+    /**
+     * @description Creates this file as a symbolic link pointing to the target. A relative target is stored as is,
+     * and resolved against the directory of the link when it is followed.
+     * @example
+     * const link = new FileSync("path/to/current");
+     * link.createSymlinkTo("releases/v2", "dir");
+     * @param {FileSync | string} target - What the link points to, it does not have to exist.
+     * @param {"file" | "dir" | "junction"} [type] - The kind of link to create on Windows, detected from the target
+     * when omitted. Ignored elsewhere.
+     * @returns {FileSync | null} The FileSync object if the link was created, or null if it could not be created,
+     * for example because the file already exists.
+     */
+    createSymlinkTo(target: FileSync | string, type?: "file" | "dir" | "junction"): FileSync | null {
+        const targetPath = typeof target === "string" ? target : target.fullPath;
+        return pass(() => this.fs.symlinkSync(targetPath, this.fullPath, type), this.context) ? this : null;
+    };
+
+    /**
+     * @description Creates this file as a hard link to the target, so both names share the same data.
+     * @example
+     * const copy = new FileSync("path/to/backup.bin");
+     * copy.createHardLinkTo(new FileSync("path/to/data.bin"));
+     * @param {FileSync | string} target - The existing file, which has to be on the same device and cannot be
+     * a directory.
+     * @returns {FileSync | null} The FileSync object if the link was created, or null if it could not be created.
+     */
+    createHardLinkTo(target: FileSync | string): FileSync | null {
+        const targetPath = typeof target === "string" ? new FileSync(target, this.context).fullPath : target.fullPath;
+        return pass(() => this.fs.linkSync(targetPath, this.fullPath), this.context) ? this : null;
     };
 
     /**
@@ -887,17 +2061,74 @@ export class FileSync extends IFile<ISyncFS> {
      * } else {
      *     console.log("Failed to write data.");
      * }
+     * // Readers see either the old or the new content, never a partially written file
+     * file.write("Hello again!", {encoding: "utf8", atomic: true});
      * @param {string | Buffer} data - The data to write to the file.
-     * @param {BufferEncoding} [encoding="utf8"] - The encoding to use when writing the data.
+     * @param {BufferEncoding | WriteOptions} [encoding="utf8"] - The encoding to use when writing the data,
+     * or the write options: `encoding` and `atomic`.
      * If not specified, it will write the data as a Buffer.
      * @returns {FileSync | null} True if the data was written successfully, false otherwise.
      */
-    write(data: string | Buffer, encoding?: BufferEncoding): FileSync | null;
-    write<T>(data: T, encoding?: BufferEncoding | { write(): T }): FileSync | null {
+    write(data: string | Buffer, encoding?: BufferEncoding | WriteOptions): FileSync | null;
+    write<T>(data: T, encoding?: BufferEncoding | WriteOptions | { write(): T }): FileSync | null {
         if (encoding !== null && typeof encoding === "object" && "write" in encoding! && typeof encoding!.write === "function") {
             data = encoding.write();
         }
-        return pass(() => this.fs.writeFileSync(this.fullPath, data as string | Buffer, encoding as BufferEncoding)) ? this : null;
+        const options: WriteOptions = typeof encoding === "object" && encoding !== null
+            ? "write" in encoding ? {} : encoding : {encoding: encoding as BufferEncoding};
+        if (options.atomic) return this.writeAtomic(data as string | Buffer, options.encoding) ? this : null;
+        return pass(() => this.fs.writeFileSync(this.fullPath, data as string | Buffer, options.encoding), this.context) ? this : null;
+    };
+
+    /**
+     * The file an atomic write renames over: what a symbolic link points to, dangling or not, so the link stays.
+     */
+    private atomicTarget(): FileSync {
+        const fs = this.fs;
+        let file: FileSync = this;
+        for (let hops = 0; hops < 40 && ret(() => fs.lstatSync(file.fullPath))?.isSymbolicLink(); hops++) {
+            const real = fs.realpathSync ? ret(() => fs.realpathSync(file.fullPath)) : null;
+            if (real !== null) return new FileSync(real, this.context);
+            file = (file.parent ?? file).resolve(fs.readlinkSync(file.fullPath));
+        }
+        return file;
+    };
+
+    private writeAtomic(data: string | Buffer, encoding?: BufferEncoding): boolean {
+        const fs = this.fs;
+        return pass(() => {
+            const target = this.atomicTarget();
+            const temp = new FileSync([...target.split.slice(0, -1), atomicTempName(target.name)], this.context).fullPath;
+            const mode = ret(() => fs.statSync(target.fullPath))?.mode;
+            try {
+                if (fs.openSync && fs.fsyncSync && fs.closeSync) {
+                    const fd = fs.openSync(temp, "wx", mode ?? 0o666);
+                    try {
+                        fs.writeFileSync(fd, data, encoding);
+                        fs.fsyncSync(fd);
+                    } finally {
+                        fs.closeSync(fd);
+                    }
+                } else fs.writeFileSync(temp, data, {encoding, flag: "wx"});
+                if (typeof mode === "number") fs.chmodSync?.(temp, mode & 0o7777);
+                fs.renameSync(temp, target.fullPath);
+            } catch (e) {
+                ret(() => fs.unlinkSync(temp));
+                throw e;
+            }
+            // the rename is only durable once the directory is flushed, which not every platform can open
+            const directory = target.parent?.fullPath;
+            if (directory && fs.openSync && fs.fsyncSync && fs.closeSync) {
+                ret(() => {
+                    const fd = fs.openSync(directory, "r");
+                    try {
+                        fs.fsyncSync(fd);
+                    } finally {
+                        fs.closeSync(fd);
+                    }
+                });
+            }
+        }, this.context);
     };
 
     /**
@@ -914,10 +2145,12 @@ export class FileSync extends IFile<ISyncFS> {
      * }
      * @param {unknown} data - The JSON data to write to the file.
      * @param {number} spaces - The number of spaces to use for indentation in the JSON file.
+     * @param {WriteOptions} [options] - The write options, pass `{atomic: true}` to never leave a truncated file behind.
      * @returns {boolean} True if the JSON data was written successfully, false otherwise.
      */
-    writeJSON(data: unknown, spaces: number = 2): FileSync | null {
-        return pass(() => this.write(JSON.stringify(data, null, spaces))) ? this : null;
+    writeJSON(data: unknown, spaces: number = 2, options: WriteOptions = {}): FileSync | null {
+        const json = ret(() => JSON.stringify(data, null, spaces), this.context);
+        return json !== null && this.write(json, options) ? this : null;
     };
 
     /**
@@ -938,14 +2171,83 @@ export class FileSync extends IFile<ISyncFS> {
      * or null if appending failed.
      */
     append(data: string | Buffer, encoding?: BufferEncoding): FileSync | null {
-        return pass(() => this.fs.appendFileSync(this.fullPath, data, encoding)) ? this : null;
+        return pass(() => this.fs.appendFileSync(this.fullPath, data, encoding), this.context) ? this : null;
+    };
+
+    /**
+     * @description Gets the same file bound to the throwing variant of its context.
+     * Failed operations of the returned file throw a {@link KtFileError} carrying the error code, syscall and path
+     * instead of returning null or false.
+     * @example
+     * const file = new FileSync("path/to/file.txt");
+     * try {
+     *     file.throwing.copyTo(dest);
+     * } catch (e) {
+     *     console.log("Copy failed:", e.code, e.syscall, e.path);
+     * }
+     * @returns {FileSync} The throwing file.
+     */
+    get throwing(): FileSync {
+        return new FileSync(this.split, this.context.throwing);
     };
 
     get async() {
-        return new FileAsync(this.split);
+        return new FileAsync(this.split, this.context);
     };
 
     get configJSON() {
-        return new ConfigSync(this);
+        return new ConfigSync(this, {}, {format: "json"});
+    };
+
+    /**
+     * @description Opens this file as a YAML config, whatever its extension.
+     */
+    get configYAML() {
+        return new ConfigSync(this, {}, {format: "yaml"});
+    };
+
+    /**
+     * @description Opens this file as a TOML config, whatever its extension.
+     */
+    get configTOML() {
+        return new ConfigSync(this, {}, {format: "toml"});
+    };
+
+    /**
+     * @description Opens this file as a INI config, whatever its extension.
+     */
+    get configINI() {
+        return new ConfigSync(this, {}, {format: "ini"});
+    };
+
+    /**
+     * @description Opens this file as a dotenv config, whatever its extension.
+     */
+    get configEnv() {
+        return new ConfigSync(this, {}, {format: "dotenv"});
+    };
+
+    /**
+     * @description Opens this file as a config with a typed shape, so dotted paths and their values
+     * are type-checked. The format is picked by the file name unless given, and with a validator,
+     * the file is checked when it is loaded and before every save.
+     * @example
+     * const config = new FileSync("path/to/app.json").config({
+     *     validator: schema({port: {type: "integer", default: 8080}, host: "string"}),
+     *     onInvalid: "repair"
+     * });
+     * const port = config?.get("port"); // number
+     * config?.set("host", "localhost");
+     * config?.save();
+     * @param {ConfigOptions | ConfigFormat | string} [options] - The options: `defaults`, `validator`, `onInvalid`
+     * and `format`, or just the format.
+     * @returns {ConfigSync | null} The config, or null if the file could not be parsed or was rejected
+     * by the validator.
+     */
+    config<T = unknown>(options: ConfigOptions<T> | ConfigFormat | ConfigFormatName = {}): ConfigSync<T> | null {
+        const resolved: ConfigOptions<T> = typeof options === "string" || "stringify" in options ? {format: options} : options;
+        const config = ret(() => new ConfigSync<T>(this, resolved.defaults ?? {} as T, resolved), this.context);
+        if (config === null || config.isValid) return config;
+        return fail(this.context, "EINVALID", "config", this.fullPath, {cause: new Error(formatIssues(config.issues))});
     };
 }
@@ -1,3 +1,5 @@
+import type {DirentLike} from "../Stat";
+
 export type ISyncFS = Partial<{
     constants: Partial<{
         X_OK: number;
@@ -8,31 +10,65 @@ export type ISyncFS = Partial<{
     mkdtempSync(prefix: string, options?: { encoding?: BufferEncoding }): string;
     accessSync(path: string, mode?: number): void;
     chmodSync(path: string, mode: number): void;
+    chownSync(path: string, uid: number, gid: number): void;
     statSync(path: string): Partial<{
+        mode: number;
+        uid: number;
+        gid: number;
         birthtime: Date;
         mtime: Date;
         atime: Date;
+        ctime: Date;
         size: number;
+        dev: number;
+        ino: number;
+        nlink: number;
+        blocks: number;
         isDirectory(): boolean;
         isFile(): boolean;
+        isSymbolicLink(): boolean;
     }>;
     utimesSync(path: string, atime: Date, mtime: Date): void;
     existsSync(path: string): boolean;
     lstatSync(path: string): {
         isSymbolicLink(): boolean;
-    };
+    } & Partial<{
+        mode: number;
+        uid: number;
+        gid: number;
+        size: number;
+        birthtime: Date;
+        mtime: Date;
+        atime: Date;
+        ctime: Date;
+        dev: number;
+        ino: number;
+        nlink: number;
+        blocks: number;
+        isDirectory(): boolean;
+        isFile(): boolean;
+    }>;
     rmSync(path: string, options?: { recursive?: boolean; force?: boolean }): void;
     rmdirSync(path: string, options?: { recursive?: boolean; force?: boolean }): void;
     unlinkSync(path: string): void;
     readdirSync(path: string): string[];
+    readdirSync(path: string, options: { withFileTypes: true }): (string | DirentLike)[];
     mkdirSync(path: string, options?: { recursive?: boolean; mode?: number }): string;
     renameSync(oldPath: string, newPath: string): void;
-    writeFileSync(path: string, data: string | Buffer, options?: BufferEncoding | {
+    writeFileSync(path: string | number, data: string | Buffer, options?: BufferEncoding | {
         encoding?: BufferEncoding;
         mode?: number;
         flag?: string
     }): void;
+    openSync(path: string, flags: string, mode?: number): number;
+    readSync(fd: number, buffer: Uint8Array, offset: number, length: number, position: number | null): number;
+    writeSync(fd: number, buffer: Uint8Array, offset: number, length: number, position: number | null): number;
+    fsyncSync(fd: number): void;
+    closeSync(fd: number): void;
+    symlinkSync(target: string, path: string, type?: "file" | "dir" | "junction"): void;
     readlinkSync(path: string, options?: { encoding?: BufferEncoding }): string;
+    linkSync(existingPath: string, newPath: string): void;
+    realpathSync(path: string): string;
     readFileSync(path: string, options?: BufferEncoding | Partial<{
         encoding: BufferEncoding;
         flag: string
@@ -42,4 +78,11 @@ export type ISyncFS = Partial<{
         mode?: number;
         flag?: string
     }): void;
+    watch(path: string, options: { recursive?: boolean; persistent?: boolean }, listener: (
+        event: string,
+        filename?: string | null
+    ) => void): {
+        close(): void;
+        on?(event: string, listener: (...args: any[]) => void): unknown;
+    };
 }>
\ No newline at end of file
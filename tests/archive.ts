@@ -0,0 +1,70 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as zlib from "node:zlib";
+import {FileSystem} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+const contents = [crypto.randomBytes(200_000), Buffer.alloc(150_000, "a"), Buffer.from("small")];
+
+await test("gzipped tar archives round-trip", async (dir, dirAsync) => {
+    dir.to("src").mkdirs();
+    contents.forEach((content, i) => dir.to("src", `file${i}.bin`).write(content));
+    assert.notEqual(dir.to("src").toTar(dir.to("sync.tgz")), null);
+    assert.notEqual(await dirAsync.to("src").toTar(dirAsync.to("async.tgz")), null);
+    for (const name of ["sync.tgz", "async.tgz"]) {
+        const tar = zlib.gunzipSync(dir.to(name).read() as Uint8Array);
+        assert.equal(tar.length % 512, 0, name);
+        assert.notEqual(dir.to(name).extractTar(dir.to("out-sync", name)), null);
+        assert.notEqual(await dirAsync.to(name).extractTar(dirAsync.to("out-async", name)), null);
+        for (const out of ["out-sync", "out-async"]) {
+            contents.forEach((content, i) => assert.deepEqual(dir.to(out, name, `file${i}.bin`).read(), content));
+        }
+    }
+});
+
+await test("corrupt and truncated gzipped tar archives fail", async (dir, dirAsync) => {
+    dir.to("src").mkdirs();
+    contents.forEach((content, i) => dir.to("src", `file${i}.bin`).write(content));
+    dir.to("src").toTar(dir.to("good.tgz"));
+    const good = dir.to("good.tgz").read() as Uint8Array;
+    const corrupt = Buffer.from(good);
+    corrupt.fill(0xff, 20, 200);
+    dir.to("corrupt.tgz").write(corrupt);
+    dir.to("truncated.tgz").write(good.subarray(0, good.length >> 1));
+    for (const name of ["corrupt.tgz", "truncated.tgz"]) {
+        assert.equal(dir.to(name).extractTar(dir.to("out", name)), null, name);
+        assert.equal(await dirAsync.to(name).extractTar(dirAsync.to("out", name)), null, name);
+        assert.throws(() => dir.to(name).throwing.extractTar(dir.to("out", name)), name);
+    }
+});
+
+await test("zip archives stream large entries and keep the store fallback", async (dir, dirAsync) => {
+    dir.to("src").mkdirs();
+    contents.forEach((content, i) => dir.to("src", `file${i}.bin`).write(content));
+    const random = dir.to("src", "file0.bin").fullPath;
+    // a backend without descriptors collects the archive and patches the headers in memory
+    const plain = new FileSystem({fs: {...fs, openSync: undefined, promises: {...fs.promises, open: undefined}} as any});
+    assert.notEqual(dir.to("src").toZip(dir.to("sync.zip")), null);
+    assert.notEqual(await dirAsync.to("src").toZip(dirAsync.to("async.zip")), null);
+    assert.notEqual(plain.file(dir.to("src").fullPath).toZip(plain.file(dir.to("plain.zip").fullPath)), null);
+    assert.notEqual(await plain.fileAsync(dir.to("src").fullPath).toZip(plain.fileAsync(dir.to("plain-async.zip").fullPath)), null);
+    for (const name of ["sync.zip", "async.zip", "plain.zip", "plain-async.zip"]) {
+        const methods = Object.fromEntries(dir.to(name).zipEntries()?.map(entry => [entry.path, entry.method]) ?? []);
+        assert.deepEqual(methods, {"file0.bin": "store", "file1.bin": "deflate", "file2.bin": "store"}, name);
+        contents.forEach((content, i) => assert.deepEqual(dir.to(name).readZipEntry(`file${i}.bin`), content, name));
+        assert.deepEqual(await dirAsync.to(name).readZipEntry("file1.bin"), contents[1], name);
+        assert.notEqual(dir.to(name).extractZip(dir.to("out", name)), null, name);
+        assert.deepEqual(dir.to("out", name, "file0.bin").read(), fs.readFileSync(random), name);
+    }
+    assert.ok(fs.statSync(dir.to("sync.zip").fullPath).size < contents[0].length + 2000);
+});
+
+await test("corrupt deflated zip entries fail when read", async (dir, dirAsync) => {
+    dir.to("a.zip").writeZip([{path: "a.bin", data: contents[1]}]);
+    const entry = dir.to("a.zip").zipEntries()?.[0];
+    const archive = Buffer.from(dir.to("a.zip").read() as Uint8Array);
+    archive.fill(0x55, (entry?.offset ?? 0) + 40, (entry?.offset ?? 0) + 60);
+    dir.to("a.zip").write(archive);
+    assert.equal(dir.to("a.zip").readZipEntry("a.bin"), null);
+    assert.equal(await dirAsync.to("a.zip").readZipEntry("a.bin"), null);
+});
@@ -0,0 +1,122 @@
+import {configFormats, EnvConfig} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+const nested = {
+    name: "app",
+    port: 8080,
+    ratio: 0.5,
+    debug: false,
+    tags: ["a", "b"],
+    db: {host: "localhost", "dotted.key": "x", replica: {port: 5433}}
+};
+
+const samples = {
+    json: {...nested, list: [{id: 1}, {id: 2}], nothing: null},
+    jsonc: nested,
+    yaml: {...nested, text: "two\nlines", quoted: "true", list: [{id: 1}, {id: 2}]},
+    toml: {...nested, text: "two\nlines", quoted: "true", list: [{id: 1}, {id: 2}]},
+    ini: {...nested, quoted: "42", spaced: " padded "},
+    dotenv: {NAME: "app", PORT: "8080", QUOTED: "it's \"here\"", MULTI: "two\nlines", EMPTY: ""}
+};
+
+await test("config formats round-trip", () => {
+    for (const [name, value] of Object.entries(samples)) {
+        const format = configFormats[name];
+        assert.deepEqual(format.parse(format.stringify(value)), value, name);
+    }
+});
+
+await test("config set, save and reload", dir => {
+    for (const name of ["json", "yaml", "toml", "ini"]) {
+        const file = dir.to("app." + name);
+        const config = file.config<any>();
+        config.set("db.host", "localhost");
+        config.set("db.port", 5432);
+        config.set("tags", ["a", "b"]);
+        assert.equal(config.save(), true, name);
+        assert.deepEqual(file.config<any>().get("db"), {host: "localhost", port: 5432}, name);
+        assert.deepEqual(file.config<any>().get("tags"), ["a", "b"], name);
+    }
+});
+
+await test("async config set, save and reload", async (dir, dirAsync) => {
+    const file = dirAsync.to("app.toml");
+    const config = await file.config<any>();
+    config.set("server.port", 80);
+    assert.equal(await config.save(), true);
+    assert.equal(dir.to("app.toml").read("utf8"), "[server]\nport = 80\n");
+    assert.equal((await file.config<any>()).get("server.port"), 80);
+});
+
+await test("config rejects text it cannot parse", dir => {
+    dir.to("bad.json").write("{");
+    assert.equal(dir.to("bad.json").config(), null);
+    assert.throws(() => dir.to("bad.json").throwing.config(), {code: "EPARSE"});
+});
+
+await test("INI and TOML refuse keys reaching the prototype", () => {
+    const texts = {
+        ini: ["[__proto__]\npolluted = yes", "[a.__proto__]\npolluted = yes", "__proto__ = yes", "constructor[] = yes"],
+        toml: ["[__proto__]\npolluted = true", "__proto__.polluted = true", "a = {__proto__ = {polluted = true}}",
+            "[[constructor.prototype]]\npolluted = true", "\"__proto__\".polluted = true"]
+    };
+    for (const [name, list] of Object.entries(texts)) {
+        for (const text of list) assert.throws(() => configFormats[name].parse(text), SyntaxError, text);
+    }
+    assert.equal(({} as any).polluted, undefined);
+    assert.deepEqual(configFormats.toml.parse("toString = 1\n[valueOf]\na = 2"), {toString: 1, valueOf: {a: 2}});
+    assert.deepEqual(configFormats.ini.parse("[hasOwnProperty]\nlist[] = 1"), {hasOwnProperty: {list: [1]}});
+});
+
+await test("config paths cannot reach the prototype", dir => {
+    const config = dir.to("app.json").config<any>();
+    for (const path of ["__proto__.polluted", "a.constructor.prototype.polluted", "a[0].__proto__"]) {
+        assert.throws(() => config.set(path, "yes"), {code: "EINVAL"}, path);
+    }
+    assert.equal(({} as any).polluted, undefined);
+    assert.equal(config.get("constructor"), undefined);
+    assert.equal(config.has("toString"), false);
+    config.set("toString.value", 1);
+    assert.deepEqual(config.toJSON(), {toString: {value: 1}});
+    const env = new EnvConfig("APP_", {env: {APP_CONSTRUCTOR__PROTOTYPE__POLLUTED: "yes", APP_PORT: "80"}});
+    assert.deepEqual(env.toJSON(), {port: 80});
+});
+
+await test("save writes values changed in place", async (dir, dirAsync) => {
+    const config = dir.to("app.json").config<any>();
+    config.set("server", {port: 80});
+    assert.equal(config.isDirty, true);
+    assert.equal(config.save(), true);
+    assert.equal(config.isDirty, false);
+    config.get("server").port = 81;
+    config.toJSON().name = "app";
+    assert.equal(config.save(), true);
+    assert.deepEqual(JSON.parse(dir.to("app.json").read("utf8")), {server: {port: 81}, name: "app"});
+    const configAsync = await dirAsync.to("app.json").config<any>();
+    configAsync.get("server").port = 82;
+    assert.equal(await configAsync.save(), true);
+    assert.equal(JSON.parse(dir.to("app.json").read("utf8")).server.port, 82);
+});
+
+await test("a clean save leaves the file alone", async (dir, dirAsync) => {
+    const file = dir.to("app.json");
+    const text = "{\"server\": {\"port\": 80}}";
+    file.write(text);
+    const inode = file.refresh().stat()?.ino;
+    assert.equal(file.config<any>().save(), true);
+    assert.equal(await (await dirAsync.to("app.json").config<any>()).save(), true);
+    const config = file.config<any>();
+    config.set("server.port", 81);
+    config.set("server.port", 80);
+    assert.equal(config.isDirty, true);
+    assert.equal(config.save(), true);
+    assert.equal(file.read("utf8"), text);
+    assert.equal(file.refresh().stat()?.ino, inode);
+    config.get("server").port = 82;
+    assert.equal(config.save(), true);
+    assert.notEqual(file.refresh().stat()?.ino, inode);
+    assert.equal(JSON.parse(file.read("utf8")).server.port, 82);
+    const saved = file.refresh().stat()?.ino;
+    assert.equal(config.save(), true);
+    assert.equal(file.refresh().stat()?.ino, saved);
+});
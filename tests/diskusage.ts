@@ -0,0 +1,120 @@
+import * as fs from "node:fs";
+import {FileSync, FileSystem, formatDiskUsage, MemoryFS} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+// 192 bytes in 6 files: README and a.txt at the top, src/ with two levels of directories below it
+function setup(dir: FileSync): FileSync {
+    const tree = dir.to("tree");
+    tree.to("src", "deep", "more").mkdirs();
+    tree.to("README").write("1234567");
+    tree.to("a.txt").write("x".repeat(10));
+    tree.to("src", "x.ts").write("x".repeat(100));
+    tree.to("src", "y.ts").write("x".repeat(50));
+    tree.to("src", "deep", "z.ts").write("x".repeat(20));
+    tree.to("src", "deep", "more", "w.md").write("x".repeat(5));
+    return tree;
+}
+
+const totals = (node: { path: string, size: number, files: number, directories: number }) =>
+    [node.path, node.size, node.files, node.directories];
+
+await test("disk usage adds up every directory", async (dir, dirAsync) => {
+    const tree = setup(dir);
+    const usage = tree.diskUsage();
+    assert.ok(usage);
+    assert.deepEqual(totals(usage.root), ["", 192, 6, 3]);
+    assert.deepEqual(totals(usage.root.children[0]), ["src", 175, 4, 2]);
+    assert.deepEqual(totals(usage.root.children[0].children[0]), ["src/deep", 25, 2, 1]);
+    assert.deepEqual(totals(usage.root.children[0].children[0].children[0]), ["src/deep/more", 5, 1, 0]);
+    assert.equal(usage.root.file.fullPath, tree.fullPath);
+    assert.ok(usage.root.allocated !== null && usage.root.allocated > 0);
+    assert.deepEqual(usage.largestFiles.map(file => [file.path, file.size]), [
+        ["src/x.ts", 100], ["src/y.ts", 50], ["src/deep/z.ts", 20], ["a.txt", 10], ["README", 7], ["src/deep/more/w.md", 5]
+    ]);
+    assert.deepEqual(usage.largestDirectories.map(node => node.path), ["src", "src/deep", "src/deep/more"]);
+    assert.deepEqual(usage.extensions.map(extension => [extension.extension, extension.size, extension.files]), [
+        ["ts", 170, 3], ["txt", 10, 1], ["", 7, 1], ["md", 5, 1]
+    ]);
+    assert.deepEqual(usage.unreadable, []);
+
+    const usageAsync = await dirAsync.to("tree").diskUsage();
+    assert.deepEqual(usageAsync?.largestDirectories.map(totals), usage.largestDirectories.map(totals));
+    assert.deepEqual(usageAsync?.extensions, usage.extensions);
+    assert.equal(tree.to("a.txt").diskUsage(), null);
+    assert.throws(() => tree.to("a.txt").throwing.diskUsage(), {code: "ENOTDIR"});
+    assert.equal(await dirAsync.to("missing").diskUsage(), null);
+});
+
+await test("disk usage limits depth, ignores paths and keeps the largest", async (dir, dirAsync) => {
+    const tree = setup(dir);
+    const shallow = tree.diskUsage({maxDepth: 1, top: 2});
+    assert.deepEqual(totals(shallow!.root), ["", 192, 6, 3]);
+    assert.deepEqual(shallow!.root.children.map(totals), [["src", 175, 4, 2]]);
+    assert.deepEqual(shallow!.root.children[0].children, []);
+    assert.deepEqual(shallow!.largestFiles.map(file => file.path), ["src/x.ts", "src/y.ts"]);
+    assert.deepEqual(shallow!.largestDirectories.map(node => node.path), ["src"]);
+    assert.deepEqual(tree.diskUsage({maxDepth: 0})?.root.children, []);
+
+    const ignored = await dirAsync.to("tree").diskUsage({ignore: ["src/deep/", "*.txt"]});
+    assert.deepEqual(totals(ignored!.root), ["", 157, 3, 1]);
+    assert.deepEqual(ignored!.extensions.map(extension => extension.extension), ["ts", ""]);
+    assert.deepEqual(tree.diskUsage({top: 0})?.largestFiles, []);
+});
+
+await test("disk usage counts hard links once and links by policy", async (dir, dirAsync) => {
+    const tree = setup(dir);
+    tree.to("hard.ts").createHardLinkTo(tree.to("src", "x.ts"));
+    tree.to("srclink").createSymlinkTo("src", "dir");
+    tree.to("src", "up").createSymlinkTo("..", "dir");
+    assert.deepEqual(totals(tree.diskUsage({links: "skip"})!.root), ["", 192, 6, 3]);
+    assert.deepEqual(totals(tree.diskUsage()!.root), ["", 192 + "src".length + "..".length, 8, 3]);
+    // both links lead back into the tree, which is counted once
+    const followed = await dirAsync.to("tree").diskUsage({links: "follow"});
+    assert.deepEqual(totals(followed!.root), ["", 192, 6, 3]);
+});
+
+await test("disk usage reports what it cannot read", async dir => {
+    const tree = setup(dir);
+    tree.to("locked").mkdirs();
+    tree.to("locked", "secret.txt").write("secret");
+    const locked = (path: string) => {
+        if (path.endsWith("/locked")) throw Object.assign(new Error("EACCES: permission denied"), {code: "EACCES"});
+    };
+    const denying = new FileSystem({
+        fs: {
+            ...fs,
+            readdirSync: (path: string, options?: any) => (locked(path), fs.readdirSync(path, options)),
+            promises: {...fs.promises, readdir: async (path: string, options?: any) => (locked(path), fs.promises.readdir(path, options))}
+        } as any
+    });
+    for (const usage of [denying.file(tree.fullPath).diskUsage(), await denying.fileAsync(tree.fullPath).diskUsage()]) {
+        assert.deepEqual(usage?.unreadable, ["locked"]);
+        assert.deepEqual(totals(usage!.root), ["", 192, 6, 4]);
+    }
+    assert.equal(denying.file(tree.to("locked").fullPath).diskUsage(), null);
+});
+
+await test("disk usage of a memory file system and its report", () => {
+    const memory = new FileSystem({fs: new MemoryFS()});
+    memory.file("/data/logs").mkdirs();
+    memory.file("/data/logs/app.log").write("x".repeat(1000));
+    memory.file("/data/notes").write("x".repeat(10));
+    const usage = memory.file("/data").diskUsage();
+    assert.deepEqual([usage?.root.size, usage?.root.allocated], [1010, 3 * 512]);
+    assert.equal(formatDiskUsage(usage!, 0), [
+        "/data: 1010 B (2 KB allocated) in 2 files and 1 directory",
+        "      1010 B  .",
+        "      1000 B    logs",
+        "",
+        "Largest files:",
+        "      1000 B  logs/app.log",
+        "        10 B  notes",
+        "",
+        "Largest directories:",
+        "      1000 B  logs",
+        "",
+        "By extension:",
+        "      1000 B  .log (1 file)",
+        "        10 B  (none) (1 file)"
+    ].join("\n"));
+});
@@ -0,0 +1,52 @@
+import {FileAsync, FileSync} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+const names = (groups: { name: string }[][] | null) => groups?.map(group => group.map(file => file.name));
+
+await test("findDuplicates groups identical files", dir => {
+    dir.to("a.txt").write("same");
+    dir.to("b.txt").write("same");
+    dir.to("c.txt").write("other");
+    dir.to("empty1").write("");
+    dir.to("empty2").write("");
+    dir.to("a-link.txt").createHardLinkTo(dir.to("a.txt"));
+    const groups = names(FileSync.findDuplicates(dir))?.map(group => group.sort());
+    assert.deepEqual(groups, [["a-link.txt", "a.txt", "b.txt"]]);
+    assert.throws(() => FileSync.findDuplicates(dir.throwing.to("missing")), {code: "ENOENT"});
+});
+
+await test("dedupe replaces duplicates with hard links", async (dir, dirAsync) => {
+    dir.to("a.txt").write("same");
+    dir.to("b.txt").write("same");
+    const groups = await FileAsync.findDuplicates(dirAsync);
+    const report = await FileAsync.dedupe(groups, {action: "hardlink"});
+    assert.equal(report.linked.length, 1);
+    assert.equal(report.saved, 4);
+    assert.equal(dir.to("a.txt").refresh().stat().ino, dir.to("b.txt").refresh().stat().ino);
+});
+
+await test("findDuplicates lists symbolic links after the files and dedupe leaves them alone", dir => {
+    dir.to("real.bin").write("data");
+    dir.to("copy.bin").write("data");
+    dir.to("alias.bin").createSymlinkTo("real.bin");
+    const groups = FileSync.findDuplicates(dir, {followSymlinks: true});
+    assert.deepEqual(names(groups)?.map(group => group.at(-1)), ["alias.bin"]);
+    const report = FileSync.dedupe([[dir.to("alias.bin"), dir.to("real.bin"), dir.to("copy.bin")]], {action: "delete"});
+    assert.deepEqual(report.kept, [dir.to("real.bin").fullPath]);
+    assert.deepEqual(report.deleted, [dir.to("copy.bin").fullPath]);
+    assert.deepEqual(report.skipped, [dir.to("alias.bin").fullPath]);
+    assert.equal(dir.to("alias.bin").read("utf8"), "data");
+    assert.equal(dir.to("alias.bin").isSymbolicLink, true);
+});
+
+await test("async dedupe never links a symbolic link over its target", async (dir, dirAsync) => {
+    dir.to("real.bin").write("data");
+    dir.to("alias.bin").createSymlinkTo("real.bin");
+    const groups = await FileAsync.findDuplicates(dirAsync, {followSymlinks: true});
+    assert.deepEqual(groups, []);
+    const report = await FileAsync.dedupe([[dirAsync.to("alias.bin"), dirAsync.to("real.bin")]], {action: "hardlink"});
+    assert.deepEqual(report.linked, []);
+    assert.deepEqual(report.skipped, [dir.to("alias.bin").fullPath]);
+    assert.equal(dir.to("real.bin").read("utf8"), "data");
+    assert.equal(dir.to("alias.bin").isSymbolicLink, true);
+});
@@ -0,0 +1,74 @@
+import {KtFileError} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+function thrown(fn: () => unknown): KtFileError {
+    try {
+        fn();
+    } catch (e) {
+        assert.ok(e instanceof KtFileError);
+        return e;
+    }
+    assert.fail("nothing was thrown");
+}
+
+async function rejected(promise: Promise<unknown>): Promise<KtFileError> {
+    try {
+        await promise;
+    } catch (e) {
+        assert.ok(e instanceof KtFileError);
+        return e;
+    }
+    assert.fail("nothing was rejected");
+}
+
+await test("throwing mode reports failures of the backend as KtFileErrors", async (dir, dirAsync) => {
+    const missing = dir.to("missing.txt");
+    assert.equal(missing.read(), null);
+    const error = thrown(() => missing.throwing.read());
+    assert.equal(error.code, "ENOENT");
+    assert.equal(error.syscall, "open");
+    assert.equal(error.path, missing.fullPath);
+    assert.equal((error.cause as { code?: string }).code, "ENOENT");
+    const errorAsync = await rejected(dirAsync.to("missing.txt").throwing.read());
+    assert.deepEqual([errorAsync.code, errorAsync.syscall, errorAsync.path], [error.code, error.syscall, error.path]);
+
+    dir.to("a.txt").write("a");
+    assert.equal(thrown(() => dir.to("a.txt").throwing.listFiles()).code, "ENOTDIR");
+    assert.equal((await rejected(dirAsync.to("a.txt").throwing.listFiles())).code, "ENOTDIR");
+    dir.to("sub").mkdir();
+    assert.equal(thrown(() => dir.to("sub").throwing.mkdir()).code, "EEXIST");
+    assert.equal((await rejected(dirAsync.to("sub").throwing.mkdir())).code, "EEXIST");
+});
+
+await test("throwing mode reports failures found by ktfile itself", async (dir, dirAsync) => {
+    dir.to("broken.json").write("{");
+    assert.equal(dir.to("broken.json").readJSON(), null);
+    const error = thrown(() => dir.to("broken.json").throwing.readJSON());
+    assert.equal(error.code, "EPARSE");
+    assert.ok(error.cause instanceof SyntaxError);
+    assert.equal((await rejected(dirAsync.to("broken.json").throwing.readJSON())).code, "EPARSE");
+
+    const held = dir.to("data.txt").tryLock();
+    assert.notEqual(held, null);
+    assert.equal(thrown(() => dir.to("data.txt").throwing.lock({timeout: 50})).code, "ELOCKED");
+    assert.equal((await rejected(dirAsync.to("data.txt").throwing.lock({timeout: 50}))).code, "ELOCKED");
+    held?.release();
+});
+
+await test("queries keep answering in throwing mode", async (dir, dirAsync) => {
+    const missing = dir.to("missing.txt");
+    assert.equal(missing.throwing.exists, false);
+    assert.equal(missing.throwing.isFile, missing.isFile);
+    assert.equal(missing.throwing.isDirectory, missing.isDirectory);
+    assert.equal(missing.throwing.canRead, false);
+    assert.equal(await dirAsync.to("missing.txt").throwing.exists(), false);
+});
+
+await test("KtFileError wraps anything thrown", () => {
+    const node = Object.assign(new Error("EACCES: permission denied"), {code: "EACCES", syscall: "open", path: "/a", errno: -13});
+    const wrapped = KtFileError.from(node);
+    assert.deepEqual([wrapped.code, wrapped.syscall, wrapped.path, wrapped.errno, wrapped.cause], ["EACCES", "open", "/a", -13, node]);
+    assert.equal(KtFileError.from(wrapped), wrapped);
+    assert.equal(KtFileError.from("oops").code, "UNKNOWN");
+    assert.equal(new KtFileError("ENOENT", "stat", "/b").message, "ENOENT: no such file or directory, stat '/b'");
+});
@@ -0,0 +1,23 @@
+import {assert, test} from "./harness";
+
+await test("glob matches and ignores", dir => {
+    dir.to("src", "lib").mkdirs();
+    dir.to("src", "a.ts").write("");
+    dir.to("src", "a.test.ts").write("");
+    dir.to("src", "lib", "b.ts").write("");
+    dir.to("src", ".hidden.ts").write("");
+    const paths = [...dir.glob(["**/*.ts", "!**/*.test.ts"])].map(file => file.fullPath.slice(dir.fullPath.length + 1));
+    assert.deepEqual(paths.sort(), ["src/a.ts", "src/lib/b.ts"]);
+});
+
+await test("glob following links ends cycles", async (dir, dirAsync) => {
+    dir.to("a", "b").mkdirs();
+    dir.to("a", "b", "file.txt").write("");
+    dir.to("a", "b", "up").createSymlinkTo("..");
+    dir.to("a", "self").createSymlinkTo(".");
+    const names = (files: { name: string }[]) => files.map(file => file.name).sort();
+    assert.deepEqual(names([...dir.glob("**/*.txt", {followSymlinks: true})]), ["file.txt"]);
+    const found = [];
+    for await (const file of dirAsync.glob("**", {followSymlinks: true})) found.push(file);
+    assert.deepEqual(names(found), ["a", "b", "file.txt", "self", "up"]);
+});
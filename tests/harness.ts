@@ -0,0 +1,25 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {FileAsync, FileSync} from "../src/ktfile";
+
+export {assert};
+
+/**
+ * Runs a test in a fresh temporary directory, given as a FileSync and as a FileAsync, and removes the directory
+ * afterwards. A failing test is reported and fails the run without stopping the tests after it.
+ */
+export async function test(name: string, fn: (dir: FileSync, dirAsync: FileAsync) => unknown) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ktfile-test-"));
+    try {
+        await fn(new FileSync(dir), new FileAsync(dir));
+        console.log(`ok ${name}`);
+    } catch (e) {
+        process.exitCode = 1;
+        console.error(`not ok ${name}`);
+        console.error(e);
+    } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+    }
+}
@@ -0,0 +1,91 @@
+import {createHash} from "node:crypto";
+import {FileSync} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+const sha256 = (data: string) => createHash("sha256").update(data).digest("hex");
+
+function fill(dir: FileSync, names: string[]) {
+    for (const name of names) {
+        const file = dir.to(...name.split("/"));
+        file.parent?.mkdirs();
+        if (name.endsWith("/")) file.mkdirs();
+        else file.write(`content of ${name}`);
+    }
+}
+
+await test("hash streams the content of a file", async (dir, dirAsync) => {
+    const data = "x".repeat(100000);
+    dir.to("data.txt").write(data);
+    assert.equal(dir.to("data.txt").hash(), sha256(data));
+    assert.equal(dir.to("data.txt").hash("md5", 7), createHash("md5").update(data).digest("hex"));
+    assert.equal(await dirAsync.to("data.txt").hash("sha256", 7), sha256(data));
+    assert.equal(dir.to("missing.txt").hash(), null);
+});
+
+await test("treeHash is the same for the same tree", async (dir, dirAsync) => {
+    const names = ["a.txt", "sub/b.txt", "sub/deep/c.txt", "empty/"];
+    fill(dir.to("one"), names);
+    fill(dir.to("two"), [...names].reverse());
+    const hash = dir.to("one").treeHash();
+    assert.match(hash ?? "", /^[0-9a-f]{64}$/);
+    assert.equal(dir.to("two").treeHash(), hash);
+    assert.equal(await dirAsync.to("two").treeHash(), hash);
+    assert.equal(dir.to("one").treeHash(), hash);
+
+    dir.to("single").mkdirs();
+    dir.to("single", "a.txt").write("a");
+    assert.equal(dir.to("single").treeHash(), sha256(`f "a.txt" ${sha256("a")}\n`));
+    assert.equal(dir.to("single", "a.txt").treeHash(), null);
+});
+
+await test("treeHash changes with paths and contents only", async dir => {
+    fill(dir.to("tree"), ["a.txt", "sub/b.txt"]);
+    const tree = dir.to("tree");
+    const hash = tree.treeHash();
+    tree.to("sub", "b.txt").write("changed");
+    const changed = tree.treeHash();
+    assert.notEqual(changed, hash);
+    tree.to("sub", "b.txt").renameTo(tree.to("sub", "c.txt"));
+    assert.notEqual(tree.treeHash(), changed);
+    tree.to("sub", "c.txt").renameTo(tree.to("sub", "b.txt"));
+    assert.equal(tree.treeHash(), changed);
+    tree.to("empty").mkdirs();
+    assert.notEqual(tree.treeHash(), changed);
+});
+
+await test("treeHash options decide what counts", async dir => {
+    fill(dir.to("tree"), ["a.txt", "sub/b.txt", "logs/x.log", "keep.log"]);
+    const tree = dir.to("tree");
+    const ignore = ["logs/", "*.log"];
+    const hash = tree.treeHash({ignore});
+    tree.to("logs", "y.log").write("more");
+    tree.to("keep.log").write("more");
+    assert.equal(tree.treeHash({ignore}), hash);
+
+    const plain = tree.treeHash();
+    const withMtime = tree.treeHash({includeMtime: true});
+    tree.to("a.txt").fs.utimesSync(tree.to("a.txt").fullPath, new Date(0), new Date(0));
+    assert.equal(tree.treeHash(), plain);
+    assert.notEqual(tree.treeHash({includeMtime: true}), withMtime);
+    const withMode = tree.treeHash({includeMode: true});
+    tree.to("a.txt").fs.chmodSync(tree.to("a.txt").fullPath, 0o600);
+    assert.equal(tree.treeHash(), plain);
+    assert.notEqual(tree.treeHash({includeMode: true}), withMode);
+    assert.notEqual(tree.treeHash({algorithm: "sha1"}), plain);
+    assert.equal(tree.treeHash({algorithm: "sha1"})?.length, 40);
+});
+
+await test("treeHash hashes links by target unless following them", async dir => {
+    fill(dir.to("linked"), ["a.txt", "b.txt"]);
+    fill(dir.to("copied"), ["a.txt", "b.txt"]);
+    dir.to("linked", "b.txt").delete();
+    dir.to("linked", "b.txt").createSymlinkTo(dir.to("linked", "a.txt"));
+    dir.to("copied", "b.txt").write("content of a.txt");
+    assert.notEqual(dir.to("linked").treeHash(), dir.to("copied").treeHash());
+    assert.equal(dir.to("linked").treeHash({followSymlinks: true}), dir.to("copied").treeHash());
+    const linkOnly = dir.to("linked").treeHash({ignore: "a.txt"});
+    const followed = dir.to("linked").treeHash({ignore: "a.txt", followSymlinks: true});
+    dir.to("linked", "a.txt").write("changed");
+    assert.equal(dir.to("linked").treeHash({ignore: "a.txt"}), linkOnly);
+    assert.notEqual(dir.to("linked").treeHash({ignore: "a.txt", followSymlinks: true}), followed);
+});
@@ -0,0 +1,78 @@
+import {EnvConfig, LayeredConfig, schema} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+await test("environment configs turn variables into typed paths", () => {
+    const env = new EnvConfig("APP_", {
+        env: {
+            APP_DB__PORT: "5432", APP_DB__HOST: "db.local", APP_DEBUG: "true", APP_ZIP: "01234", APP_RATIO: "-1.5e3",
+            APP_NOTHING: "null", APP_LIST: "[1, 2]", APP_BROKEN: "[1, 2", APP_: "ignored", OTHER_PORT: "1"
+        }
+    });
+    assert.deepEqual(env.toJSON(), {
+        db: {port: 5432, host: "db.local"}, debug: true, zip: "01234", ratio: -1500, nothing: null, list: [1, 2],
+        broken: "[1, 2"
+    });
+    const raw = new EnvConfig("APP_", {env: {"APP_DB.PORT": "80", APP_Db_Host: "x"}, coerce: false, separator: "_", key: key => key});
+    assert.deepEqual(raw.toJSON(), {"DB.PORT": "80", Db: {Host: "x"}});
+    assert.equal(raw.get("DB\\.PORT"), "80");
+    assert.equal(env.save(), false);
+});
+
+await test("layered configs resolve by precedence and explain their values", async dir => {
+    dir.to("defaults.json").write(JSON.stringify({db: {host: "localhost", port: 5432, pool: 5}, name: "app"}));
+    dir.to("user.json").write(JSON.stringify({db: {host: "user.local"}, tags: ["a"]}));
+    const config = new LayeredConfig<any>([
+        {name: "defaults", config: dir.to("defaults.json").config()},
+        {name: "user", config: dir.to("user.json").config()},
+        {name: "env", config: new EnvConfig("APP_", {env: {APP_DB__PORT: "6543"}})}
+    ]);
+    assert.deepEqual(config.toJSON(), {db: {host: "user.local", port: 6543, pool: 5}, name: "app", tags: ["a"]});
+    assert.deepEqual(config.explain("db.port"), {layer: "env", value: 6543, overridden: [{layer: "defaults", value: 5432}]});
+    assert.deepEqual(config.explain("db.host"), {layer: "user", value: "user.local", overridden: [{layer: "defaults", value: "localhost"}]});
+    assert.deepEqual(config.explain("db"), {
+        layer: "env", value: {host: "user.local", port: 6543, pool: 5},
+        overridden: [{layer: "user", value: {host: "user.local"}}, {layer: "defaults", value: {host: "localhost", port: 5432, pool: 5}}]
+    });
+    assert.equal(config.explain("missing"), null);
+});
+
+await test("layered configs write to one layer", async dir => {
+    dir.to("defaults.json").write(JSON.stringify({db: {host: "localhost", port: 5432}}));
+    const layers = [
+        {name: "defaults", config: dir.to("defaults.json").config()},
+        {name: "user", config: dir.to("user.json").config()},
+        {name: "env", config: new EnvConfig("APP_", {env: {APP_DB__PORT: "6543"}})}
+    ];
+    const config = new LayeredConfig<any>(layers);
+    assert.equal(config.writeLayer?.name, "user");
+    const changes: string[] = [];
+    config.on("change", path => changes.push(path));
+    config.set("db.host", "user.local");
+    config.set("db.port", 1);
+    assert.deepEqual(changes, ["db.host"]);
+    assert.equal(config.get("db.port"), 6543);
+    assert.equal(config.isDirty, true);
+    assert.equal(config.save(), true);
+    assert.deepEqual(dir.to("user.json").readJSON(), {db: {host: "user.local", port: 1}});
+    assert.deepEqual(dir.to("defaults.json").readJSON(), {db: {host: "localhost", port: 5432}});
+    assert.equal(config.delete("db.host"), true);
+    assert.equal(config.get("db.host"), "localhost");
+    assert.equal(new LayeredConfig<any>(layers, {writeTo: "defaults"}).writeLayer?.name, "defaults");
+    assert.throws(() => new LayeredConfig(layers, {writeTo: "missing"}), {code: "EINVAL"});
+});
+
+await test("layered configs validate the merged value", async dir => {
+    const validator = schema({port: {type: "integer", max: 65535}});
+    const user = dir.to("user.json").config<any>();
+    const config = new LayeredConfig<any>([
+        {name: "defaults", config: new EnvConfig("DEFAULT_", {env: {DEFAULT_PORT: "80"}})},
+        {name: "user", config: user}
+    ], {validator});
+    const errors: string[] = [];
+    config.on("error", error => errors.push(error.code));
+    config.set("port", 70000);
+    assert.deepEqual(errors, ["EINVALID"]);
+    assert.equal(config.get("port"), 80);
+    assert.equal(config.save(), false);
+    assert.equal(dir.to("user.json").exists, false);
+});
@@ -0,0 +1,63 @@
+import * as fs from "node:fs";
+import {FileSystem, LineOptions} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+const text = "first\r\nsecond ünïcödé €\rthird 𝄞\n\r\nfifth\r\n";
+const expected = ["first", "second ünïcödé €", "third 𝄞", "", "fifth"];
+
+await test("lines splits every kind of line break across chunk boundaries", async (dir, dirAsync) => {
+    dir.to("text.txt").write(text);
+    for (let chunkSize = 1; chunkSize <= 12; chunkSize++) {
+        assert.deepEqual([...dir.to("text.txt").lines({chunkSize})], expected, `chunk size ${chunkSize}`);
+        const lines: string[] = [];
+        for await (const line of dirAsync.to("text.txt").lines({chunkSize})) lines.push(line);
+        assert.deepEqual(lines, expected, `chunk size ${chunkSize}`);
+    }
+    dir.to("open.txt").write("a\nb");
+    assert.deepEqual([...dir.to("open.txt").lines({chunkSize: 1})], ["a", "b"]);
+    dir.to("empty.txt").write("");
+    assert.deepEqual([...dir.to("empty.txt").lines()], []);
+    assert.deepEqual([...dir.to("missing.txt").lines()], []);
+});
+
+await test("lines starts and stops where asked", async (dir, dirAsync) => {
+    dir.to("text.txt").write(text);
+    for (const [options, lines] of [
+        [{start: 1, limit: 2}, expected.slice(1, 3)],
+        [{start: 4}, expected.slice(4)],
+        [{start: 9}, []],
+        [{limit: 0}, []]
+    ] as [LineOptions, string[]][]) {
+        assert.deepEqual([...dir.to("text.txt").lines({...options, chunkSize: 3})], lines);
+        const found: string[] = [];
+        for await (const line of dirAsync.to("text.txt").lines({...options, chunkSize: 3})) found.push(line);
+        assert.deepEqual(found, lines);
+    }
+});
+
+await test("lines decodes other encodings and backends without descriptors", async dir => {
+    dir.to("utf16.txt").write(Buffer.from(text, "utf16le"));
+    assert.deepEqual([...dir.to("utf16.txt").lines({encoding: "utf16le", chunkSize: 3})], expected);
+    const plain = new FileSystem({fs: {...fs, openSync: undefined, promises: {...fs.promises, open: undefined}} as any});
+    dir.to("text.txt").write(text);
+    assert.deepEqual([...plain.file(dir.to("text.txt").fullPath).lines({start: 2})], expected.slice(2));
+    const lines: string[] = [];
+    for await (const line of plain.fileAsync(dir.to("text.txt").fullPath).lines()) lines.push(line);
+    assert.deepEqual(lines, expected);
+});
+
+await test("tailLines reads the last lines backwards", async (dir, dirAsync) => {
+    dir.to("text.txt").write(text);
+    for (let chunkSize = 1; chunkSize <= 12; chunkSize++) {
+        for (let n = 0; n <= expected.length + 1; n++) {
+            const tail = n === 0 ? [] : expected.slice(-n);
+            assert.deepEqual(dir.to("text.txt").tailLines(n, {chunkSize}), tail, `chunk size ${chunkSize}, ${n} lines`);
+            assert.deepEqual(await dirAsync.to("text.txt").tailLines(n, {chunkSize}), tail, `chunk size ${chunkSize}, ${n} lines`);
+        }
+    }
+    dir.to("open.txt").write("a\r\nb\r\nc");
+    assert.deepEqual(dir.to("open.txt").tailLines(2, {chunkSize: 1}), ["b", "c"]);
+    assert.deepEqual(dir.to("utf16.txt").write(Buffer.from(text, "utf16le"))?.tailLines(2, {encoding: "utf16le"}), ["", "fifth"]);
+    assert.equal(dir.to("missing.txt").tailLines(2), null);
+    assert.equal(await dirAsync.to("missing.txt").tailLines(2), null);
+});
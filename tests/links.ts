@@ -0,0 +1,97 @@
+import * as fs from "node:fs";
+import {FileSync} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+// tree/ holds a file and links to a file and a directory outside of it, and to the file next to them
+function setup(dir: FileSync): FileSync {
+    dir.to("data", "sub").mkdirs();
+    dir.to("data", "file.txt").write("0123456789");
+    dir.to("data", "sub", "inner.txt").write("01234");
+    const tree = dir.to("tree");
+    tree.mkdirs();
+    tree.to("real.txt").write("abc");
+    tree.to("link.txt").createSymlinkTo("../data/file.txt");
+    tree.to("linkdir").createSymlinkTo("../data/sub", "dir");
+    tree.to("rel").createSymlinkTo("real.txt");
+    return tree;
+}
+
+const target = (link: FileSync) => fs.readlinkSync(link.fullPath);
+
+function names(dir: FileSync): string[] {
+    return [...dir.walkEntries({minDepth: 1})].map(entry => entry.path + (entry.isSymbolicLink ? "@" : "")).sort();
+}
+
+await test("links are created, read and resolved", async (dir, dirAsync) => {
+    const tree = setup(dir);
+    assert.equal(tree.to("rel").isSymbolicLink, true);
+    assert.equal(tree.to("rel").read("utf8"), "abc");
+    assert.equal(target(tree.to("link.txt")), "../data/file.txt");
+    assert.equal(tree.to("linkdir").realPath()?.fullPath, dir.to("data", "sub").realPath()?.fullPath);
+    assert.equal((await dirAsync.to("tree", "linkdir", "inner.txt").realPath())?.fullPath, dir.to("data", "sub", "inner.txt").realPath()?.fullPath);
+    assert.equal(tree.to("dangling").createSymlinkTo("missing.txt")?.exists, false);
+    assert.equal(tree.to("dangling").realPath(), null);
+    assert.equal(tree.to("rel").createSymlinkTo("other"), null);
+    assert.throws(() => tree.to("rel").throwing.createSymlinkTo("other"), {code: "EEXIST"});
+
+    const hard = dir.to("hard.txt").createHardLinkTo(dir.to("data", "file.txt"));
+    assert.equal(hard?.isSymbolicLink, false);
+    assert.equal(hard?.refresh().stat()?.ino, dir.to("data", "file.txt").refresh().stat()?.ino);
+    dir.to("data", "file.txt").write("changed");
+    assert.equal(hard?.read("utf8"), "changed");
+    assert.notEqual(await dirAsync.to("hard2.txt").createHardLinkTo(dirAsync.to("hard.txt")), null);
+    assert.equal(dir.to("hard3").createHardLinkTo(dir.to("data")), null);
+});
+
+await test("copyTo follows, preserves or skips links", async (dir, dirAsync) => {
+    const tree = setup(dir);
+    const all = ["link.txt", "linkdir", "linkdir/inner.txt", "real.txt", "rel"];
+    assert.notEqual(tree.copyTo(dir.to("followed"), false, true), null);
+    assert.deepEqual(names(dir.to("followed")), all);
+    assert.equal(dir.to("followed", "link.txt").read("utf8"), "0123456789");
+
+    assert.notEqual(tree.copyTo(dir.to("preserved"), false, true, "preserve"), null);
+    assert.deepEqual(names(dir.to("preserved")), ["link.txt@", "linkdir@", "real.txt", "rel@"]);
+    assert.equal(target(dir.to("preserved", "rel")), "real.txt");
+    assert.equal(target(dir.to("preserved", "linkdir")), "../data/sub");
+    assert.equal(dir.to("preserved", "linkdir", "inner.txt").read("utf8"), "01234");
+
+    assert.notEqual(await dirAsync.to("tree").copyTo(dirAsync.to("skipped"), false, true, "skip"), null);
+    assert.deepEqual(names(dir.to("skipped")), ["real.txt"]);
+    assert.notEqual(await dirAsync.to("tree").copyTo(dirAsync.to("preservedAsync"), false, true, "preserve"), null);
+    assert.deepEqual(names(dir.to("preservedAsync")), names(dir.to("preserved")));
+});
+
+await test("getSize counts links by policy", async (dir, dirAsync) => {
+    const tree = setup(dir);
+    assert.equal(tree.getSize(), 3 + 10 + 5 + 3);
+    assert.equal(tree.size, tree.getSize("follow"));
+    assert.equal(tree.getSize("preserve"), 3 + "../data/file.txt".length + "../data/sub".length + "real.txt".length);
+    assert.equal(tree.getSize("skip"), 3);
+    assert.equal(tree.to("link.txt").getSize("skip"), 0);
+    assert.equal(await dirAsync.to("tree").size("preserve"), tree.getSize("preserve"));
+    assert.equal(await dirAsync.to("tree").size("skip"), 3);
+});
+
+await test("delete removes links, their targets or neither", async dir => {
+    const tree = setup(dir);
+    assert.notEqual(tree.delete(true), null);
+    assert.equal(tree.exists, false);
+    assert.equal(dir.to("data", "sub", "inner.txt").exists, true);
+
+    setup(dir.to("skipping"));
+    assert.notEqual(dir.to("skipping", "tree").delete(true, true, "skip"), null);
+    assert.deepEqual(names(dir.to("skipping", "tree")), ["link.txt@", "linkdir@", "rel@"]);
+
+    const followed = setup(dir.to("following"));
+    assert.notEqual(followed.delete(true, true, "follow"), null);
+    assert.equal(followed.exists, false);
+    assert.equal(dir.to("following", "data", "file.txt").exists, false);
+    assert.equal(dir.to("following", "data", "sub").exists, false);
+
+    // a link to a directory holding it is only unlinked
+    dir.to("loop", "inner").mkdirs();
+    dir.to("loop", "inner", "up").createSymlinkTo("..");
+    assert.notEqual(dir.to("loop", "inner", "up").delete(true, true, "follow"), null);
+    assert.equal(dir.to("loop", "inner").exists, true);
+});
@@ -0,0 +1,108 @@
+import {spawnSync} from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import {FileSystem} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+function writeLock(path: string, token: string, age: number, pid = process.pid) {
+    fs.writeFileSync(path, JSON.stringify({pid, hostname: os.hostname(), created: Date.now() - age, token}));
+    const time = new Date(Date.now() - age);
+    fs.utimesSync(path, time, time);
+}
+
+await test("stale locks are taken over and leave nothing behind", async (dir, dirAsync) => {
+    dir.to("data.txt").write("data");
+    writeLock(dir.to("data.txt.lock").fullPath, "old", 60000);
+    const lock = dir.to("data.txt").tryLock({stale: 1000});
+    assert.notEqual(lock, null);
+    assert.equal(lock?.release(), true);
+    writeLock(dir.to("data.txt.lock").fullPath, "old", 60000);
+    const lockAsync = await dirAsync.to("data.txt").tryLock({stale: 1000});
+    assert.notEqual(lockAsync, null);
+    assert.equal(await lockAsync?.release(), true);
+    assert.deepEqual(dir.listFiles()?.map(file => file.name), ["data.txt"]);
+});
+
+await test("locks of a dead process are taken over", async (dir, dirAsync) => {
+    const dead = spawnSync(process.execPath, ["-e", ""]).pid;
+    const lockfile = dir.to("data.txt.lock").fullPath;
+    for (const age of [0, 60000]) {
+        writeLock(lockfile, "dead", age, dead);
+        const lock = dir.to("data.txt").tryLock({stale: 30000});
+        assert.notEqual(lock, null);
+        assert.equal(lock?.release(), true);
+        writeLock(lockfile, "dead", age, dead);
+        const lockAsync = await dirAsync.to("data.txt").tryLock({stale: 30000});
+        assert.notEqual(lockAsync, null);
+        assert.equal(await lockAsync?.release(), true);
+    }
+    assert.deepEqual(fs.readdirSync(dir.fullPath), []);
+});
+
+await test("breaking a stale lock keeps a lock taken over right before", async dir => {
+    const lockfile = dir.to("data.txt.lock").fullPath;
+    let raced = false;
+    // another process breaks the stale lock and takes its own just before this one touches the lockfile
+    const race = (path: string) => {
+        if (path !== lockfile || raced) return;
+        raced = true;
+        writeLock(lockfile, "fresh", 0);
+    };
+    const racing = new FileSystem({
+        fs: {
+            ...fs,
+            renameSync: (from: string, to: string) => (race(from), fs.renameSync(from, to)),
+            unlinkSync: (path: string) => (race(path), fs.unlinkSync(path)),
+            promises: {
+                ...fs.promises,
+                rename: async (from: string, to: string) => (race(from), fs.promises.rename(from, to)),
+                unlink: async (path: string) => (race(path), fs.promises.unlink(path))
+            }
+        } as any
+    });
+    for (const sync of [true, false]) {
+        raced = false;
+        writeLock(lockfile, "old", 60000);
+        const file = dir.to("data.txt").fullPath;
+        const lock = sync ? racing.file(file).tryLock({stale: 1000}) : await racing.fileAsync(file).tryLock({stale: 1000});
+        assert.equal(lock, null);
+        assert.equal(raced, true);
+        assert.equal(JSON.parse(fs.readFileSync(lockfile, "utf8")).token, "fresh");
+        assert.deepEqual(fs.readdirSync(dir.fullPath), ["data.txt.lock"]);
+    }
+});
+
+await test("breaking a stale lock never deletes a lock it cannot put back", async dir => {
+    const lockfile = dir.to("data.txt.lock").fullPath;
+    let moved = "";
+    // one process takes the lock right before it is moved aside and another one right after
+    const race = (from: string, to: string) => {
+        if (from !== lockfile || moved) return;
+        moved = to;
+        writeLock(lockfile, "second", 0);
+    };
+    const racing = new FileSystem({
+        fs: {
+            ...fs,
+            renameSync: (from: string, to: string) => (race(from, to), fs.renameSync(from, to), writeLock(lockfile, "third", 0)),
+            promises: {
+                ...fs.promises,
+                rename: async (from: string, to: string) => {
+                    race(from, to);
+                    await fs.promises.rename(from, to);
+                    writeLock(lockfile, "third", 0);
+                }
+            }
+        } as any
+    });
+    for (const sync of [true, false]) {
+        moved = "";
+        writeLock(lockfile, "old", 60000);
+        const file = dir.to("data.txt").fullPath;
+        const lock = sync ? racing.file(file).tryLock({stale: 1000}) : await racing.fileAsync(file).tryLock({stale: 1000});
+        assert.equal(lock, null);
+        assert.equal(JSON.parse(fs.readFileSync(lockfile, "utf8")).token, "third");
+        assert.equal(JSON.parse(fs.readFileSync(moved, "utf8")).token, "second");
+        fs.unlinkSync(moved);
+    }
+});
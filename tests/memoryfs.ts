@@ -0,0 +1,111 @@
+import * as fs from "node:fs";
+import {FileSystem, MemoryFS} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+type Call = [method: string, args: (at: (name: string) => string) => unknown[]];
+
+// every call runs on a fresh copy of the same small tree, on the disk and in memory, through both views
+const calls: Call[] = [
+    ["readFile", at => [at("missing")]],
+    ["readFile", at => [at("d")]],
+    ["readFile", at => [at("l"), "utf8"]],
+    ["readFile", at => [at("d/up"), "utf8"]],
+    ["readFile", at => [at("dangling")]],
+    ["readFile", at => [at("loop")]],
+    ["readdir", at => [at("a.txt")]],
+    ["readdir", at => [at("ld")]],
+    ["stat", at => [at("a.txt/x")]],
+    ["stat", at => [at("l")]],
+    ["lstat", at => [at("l")]],
+    ["mkdir", at => [at("d")]],
+    ["mkdir", at => [at("missing/d")]],
+    ["writeFile", at => [at("a.txt"), "x", {flag: "wx"}]],
+    ["writeFile", at => [at("missing/a.txt"), "x"]],
+    ["rmdir", at => [at("d")]],
+    ["unlink", at => [at("missing")]],
+    ["unlink", at => [at("ld")]],
+    ["rename", at => [at("missing"), at("b.txt")]],
+    ["rename", at => [at("a.txt"), at("d")]],
+    ["rename", at => [at("d"), at("a.txt")]],
+    ["rename", at => [at("d"), at("e")]],
+    ["rename", at => [at("e"), at("d")]],
+    ["rename", at => [at("d"), at("d/sub")]],
+    ["rename", at => [at("a.txt"), at("d/x.txt")]],
+    ["symlink", at => ["a.txt", at("d")]],
+    ["readlink", at => [at("a.txt")]],
+    ["readlink", at => [at("d/up")]],
+    ["realpath", at => [at("d/up")]],
+    ["realpath", at => [at("dangling")]],
+    ["link", at => [at("d"), at("hard")]],
+    ["link", at => [at("a.txt"), at("e/hard")]]
+];
+
+function setup(target: typeof fs | MemoryFS, root: string) {
+    target.mkdirSync(root);
+    target.writeFileSync(`${root}/a.txt`, "a");
+    target.mkdirSync(`${root}/d`);
+    target.writeFileSync(`${root}/d/x.txt`, "x");
+    target.mkdirSync(`${root}/e`);
+    target.symlinkSync("a.txt", `${root}/l`);
+    target.symlinkSync("missing", `${root}/dangling`);
+    target.symlinkSync("loop", `${root}/loop`);
+    target.symlinkSync("../a.txt", `${root}/d/up`);
+    target.symlinkSync("d", `${root}/ld`);
+}
+
+function tree(target: typeof fs | MemoryFS, path: string): string[] {
+    return target.readdirSync(path).sort().flatMap(name => {
+        const child = `${path}/${name}`;
+        return target.lstatSync(child).isDirectory() ? [name + "/", ...tree(target, child).map(i => `${name}/${i}`)] : [name];
+    });
+}
+
+function describe(result: unknown, root: string): unknown {
+    if (typeof result === "string") return result.replace(root, "");
+    if (Array.isArray(result)) return [...result].sort();
+    if (result instanceof Uint8Array) return Buffer.from(result).toString();
+    if (result && typeof result === "object" && "isFile" in result) {
+        const stats = result as fs.Stats;
+        return {file: stats.isFile(), directory: stats.isDirectory(), link: stats.isSymbolicLink()};
+    }
+    return result;
+}
+
+async function run(target: typeof fs | MemoryFS, root: string, [method, args]: Call, sync: boolean) {
+    setup(target, root);
+    const at = (name: string) => `${root}/${name}`;
+    let result: unknown;
+    try {
+        result = describe(sync ? target[method + "Sync"](...args(at)) : await target.promises[method](...args(at)), root);
+    } catch (e) {
+        result = (e as { code?: string }).code;
+    }
+    return {result, tree: tree(target, root)};
+}
+
+await test("memory file system behaves like the disk through both views", async dir => {
+    const memory = new MemoryFS();
+    let count = 0;
+    for (const call of calls) {
+        for (const sync of [true, false]) {
+            const name = `t${count++}`;
+            const disk = await run(fs, `${dir.fullPath}/${name}`, call, sync);
+            const inMemory = await run(memory, `/${name}`, call, sync);
+            assert.deepEqual(inMemory, disk, `${call[0]}(${call[1](i => i).join(", ")}) ${sync ? "sync" : "async"}`);
+        }
+    }
+});
+
+await test("memory file system shares one tree between its views", async () => {
+    const memory = new FileSystem({fs: new MemoryFS()});
+    const file = memory.file("/data/a.txt");
+    const fileAsync = memory.fileAsync("/data/a.txt");
+    assert.notEqual(file.parent?.mkdirs(), null);
+    assert.notEqual(file.write("sync"), null);
+    assert.equal(await fileAsync.read("utf8"), "sync");
+    assert.notEqual(await fileAsync.append(" async"), null);
+    assert.equal(file.read("utf8"), "sync async");
+    assert.notEqual(await fileAsync.delete(), null);
+    assert.equal(file.exists, false);
+    assert.equal(fs.existsSync("/data/a.txt"), false);
+});
@@ -0,0 +1,91 @@
+import {FileSync, SyncReport} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+function sorted(report: SyncReport | null): SyncReport | null {
+    if (!report) return report;
+    return Object.fromEntries(Object.entries(report).map(([key, paths]) => [key, [...paths].sort()])) as SyncReport;
+}
+
+function fill(dir: FileSync, files: Record<string, string>) {
+    for (const [name, data] of Object.entries(files)) {
+        const file = dir.to(...name.split("/"));
+        file.parent?.mkdirs();
+        file.write(data);
+    }
+}
+
+await test("syncTo copies only what changed and reports it", async (dir, dirAsync) => {
+    const source = dir.to("source");
+    const dest = dir.to("dest");
+    fill(source, {"a.txt": "a", "sub/b.txt": "b", "sub/deep/c.txt": "c"});
+    assert.deepEqual(sorted(source.syncTo(dest)), {
+        added: ["a.txt", "sub", "sub/b.txt", "sub/deep", "sub/deep/c.txt"], updated: [], deleted: [], skipped: [], failed: []
+    });
+    assert.equal(dest.to("sub", "deep", "c.txt").read("utf8"), "c");
+    assert.deepEqual(sorted(source.syncTo(dest)), {
+        added: [], updated: [], deleted: [], skipped: ["a.txt", "sub/b.txt", "sub/deep/c.txt"], failed: []
+    });
+    source.to("sub", "b.txt").write("changed");
+    source.to("new.txt").write("new");
+    assert.deepEqual(sorted(await dirAsync.to("source").syncTo(dirAsync.to("dest"))), {
+        added: ["new.txt"], updated: ["sub/b.txt"], deleted: [], skipped: ["a.txt", "sub/deep/c.txt"], failed: []
+    });
+    assert.equal(dest.to("sub", "b.txt").read("utf8"), "changed");
+});
+
+await test("syncTo deletes extraneous entries and replaces changed types", async dir => {
+    const source = dir.to("source");
+    const dest = dir.to("dest");
+    fill(source, {"a.txt": "a", "kind/x.txt": "x", "old.tmp": "t"});
+    fill(dest, {"a.txt": "a", "kind": "file", "extra/y.txt": "y", "keep.tmp": "k"});
+    const report = sorted(source.syncTo(dest, {delete: true, ignore: "*.tmp", compare: "hash"}));
+    assert.deepEqual(report, {
+        added: ["kind/x.txt"], updated: ["kind"], deleted: ["extra"], skipped: ["a.txt"], failed: []
+    });
+    assert.equal(dest.to("kind", "x.txt").read("utf8"), "x");
+    assert.equal(dest.to("extra").exists, false);
+    assert.equal(dest.to("keep.tmp").read("utf8"), "k");
+    assert.equal(dest.to("old.tmp").exists, false);
+});
+
+await test("syncTo compares by hash and changes nothing in a dry run", async (dir, dirAsync) => {
+    const source = dir.to("source");
+    const dest = dir.to("dest");
+    fill(source, {"a.txt": "aaa", "b.txt": "b"});
+    source.syncTo(dest);
+    // same size and modification time, different content
+    dest.to("a.txt").write("zzz");
+    const time = source.to("a.txt").lastModified ?? new Date();
+    dest.to("a.txt").fs.utimesSync(dest.to("a.txt").fullPath, time, time);
+    assert.deepEqual(source.syncTo(dest, {dryRun: true})?.updated, []);
+    dest.to("extra.txt").write("e");
+    const expected = {added: [], updated: ["a.txt"], deleted: ["extra.txt"], skipped: ["b.txt"], failed: []};
+    assert.deepEqual(sorted(source.syncTo(dest, {compare: "hash", delete: true, dryRun: true})), expected);
+    assert.deepEqual(sorted(await dirAsync.to("source").syncTo(dirAsync.to("dest"), {compare: "hash", delete: true, dryRun: true})), expected);
+    assert.equal(dest.to("a.txt").read("utf8"), "zzz");
+    assert.equal(dest.to("extra.txt").exists, true);
+    assert.deepEqual(source.syncTo(dir.to("missing"), {dryRun: true})?.added.sort(), ["a.txt", "b.txt"]);
+    assert.equal(dir.to("missing").exists, false);
+    assert.equal(source.to("a.txt").syncTo(dest), null);
+});
+
+await test("copyTo and renameTo leave an existing destination alone unless overwriting", async (dir, dirAsync) => {
+    fill(dir, {"a.txt": "a", "b.txt": "b", "src/x.txt": "x", "dest/y.txt": "y"});
+    assert.equal(dir.to("a.txt").copyTo(dir.to("b.txt")), null);
+    assert.equal(await dirAsync.to("a.txt").copyTo(dirAsync.to("b.txt")), null);
+    assert.equal(dir.to("a.txt").renameTo(dir.to("b.txt")), null);
+    assert.equal(await dirAsync.to("a.txt").renameTo(dirAsync.to("b.txt")), null);
+    assert.equal(dir.to("b.txt").read("utf8"), "b");
+    assert.equal(dir.to("a.txt").read("utf8"), "a");
+    assert.throws(() => dir.to("a.txt").throwing.copyTo(dir.to("b.txt")), {code: "EEXIST"});
+    assert.equal(dir.to("src").copyTo(dir.to("dest"), false, true), null);
+    assert.deepEqual(dir.to("dest").listFiles()?.map(file => file.name), ["y.txt"]);
+
+    assert.notEqual(dir.to("src").copyTo(dir.to("dest"), true, true), null);
+    assert.deepEqual(dir.to("dest").listFiles()?.map(file => file.name).sort(), ["x.txt", "y.txt"]);
+    assert.notEqual(dir.to("a.txt").copyTo(dir.to("b.txt"), true), null);
+    assert.equal(dir.to("b.txt").read("utf8"), "a");
+    assert.notEqual(await dirAsync.to("src").renameTo(dirAsync.to("dest"), true, true), null);
+    assert.deepEqual(dir.to("dest").listFiles()?.map(file => file.name), ["x.txt"]);
+    assert.equal(dir.to("src").exists, false);
+});
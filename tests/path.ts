@@ -0,0 +1,46 @@
+import {FileSync, FileSystem, MemoryFS, posix, win32} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+await test("relative paths between files and directories", () => {
+    assert.equal(posix.relative("/srv/app/src", "/srv/app/dist/main.js"), "../dist/main.js");
+    assert.equal(posix.relative("/a", "/a"), "");
+    assert.equal(win32.relative("C:\\app\\src", "c:\\App\\dist\\main.js"), "..\\dist\\main.js");
+    assert.equal(win32.relative("C:\\a", "D:\\b"), "D:\\b");
+    assert.equal(new FileSync("/srv/app/dist/main.js").relativeTo("/srv/app/src"), "../dist/main.js");
+});
+
+await test("resolve starts over at absolute paths and keeps drives apart", () => {
+    assert.equal(posix.resolve("/srv", "app", "../logs"), "/srv/logs");
+    assert.equal(posix.resolve("a", "b"), "a/b");
+    assert.equal(win32.resolve("C:\\work", "\\temp", "logs"), "C:\\temp\\logs");
+    assert.equal(win32.resolve("C:\\work", "C:x"), "C:\\work\\x");
+    assert.equal(win32.resolve("C:\\work", "D:x"), "D:x");
+    assert.equal(win32.resolve("\\\\srv\\share\\a", "..\\..\\b"), "\\\\srv\\share\\b");
+    assert.equal(new FileSync("/srv/app/dist/main.js").resolve("../x").fullPath, "/srv/app/dist/x");
+});
+
+await test("win32 paths know UNC shares and drive-relative paths", () => {
+    assert.equal(win32.root("\\\\server\\share\\x"), "\\\\server\\share\\");
+    assert.equal(win32.isAbsolute("\\\\server\\share"), true);
+    assert.equal(win32.isAbsolute("C:\\temp"), true);
+    assert.equal(win32.isAbsolute("\\temp"), true);
+    assert.equal(win32.isAbsolute("C:temp"), false);
+    assert.equal(win32.root("C:foo"), "C:");
+    assert.deepEqual(win32.segments("C:foo\\bar"), ["foo", "bar"]);
+    const windows = new FileSystem({fs: new MemoryFS(), flavor: win32, cwd: "C:\\Users\\me"});
+    assert.equal(windows.file("C:foo").fullPath, "C:\\Users\\me\\foo");
+    assert.equal(windows.file("\\tmp").fullPath, "C:\\tmp");
+    assert.equal(windows.file("..\\..\\..\\x").fullPath, "C:\\x");
+    assert.equal(windows.file("\\\\server\\share\\..\\..\\x").fullPath, "\\\\server\\share\\x");
+    assert.equal(windows.file("\\\\server\\share\\notes.txt").root, "\\\\server\\share\\");
+    assert.equal(windows.file("C:\\").parent, null);
+});
+
+await test("normalizing and deriving paths", () => {
+    assert.equal(posix.normalize("a\\b/../c"), "c");
+    assert.equal(win32.normalize("C:/a/./b/../c/"), "C:\\a\\c");
+    assert.equal(posix.withExtension("/docs/readme.md", "txt"), "/docs/readme.txt");
+    assert.equal(posix.withExtension("/home/.bashrc", "bak"), "/home/.bashrc.bak");
+    assert.equal(win32.withParent("C:\\a\\f.txt", "D:\\b"), "D:\\b\\f.txt");
+    assert.deepEqual(new FileSync("/srv/app/main.js").segments, ["srv", "app", "main.js"]);
+});
@@ -0,0 +1,95 @@
+import * as os from "node:os";
+import {FileSystem, MemoryFS, Permissions, resolveMode} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+await test("octal and symbolic modes resolve like chmod", () => {
+    const cases: [string | number, number, boolean, number][] = [
+        [0o100755, 0o644, false, 0o755],
+        ["755", 0o644, false, 0o755],
+        ["0640", 0o777, false, 0o640],
+        ["4755", 0o644, false, 0o4755],
+        ["u+x,go-w", 0o666, false, 0o744],
+        ["+x", 0o644, false, 0o755],
+        ["a-rwx", 0o777, false, 0o000],
+        ["o=", 0o777, false, 0o770],
+        ["u=rw,g=r,o=", 0o777, false, 0o640],
+        ["a+rX", 0o700, true, 0o755],
+        ["a+rX", 0o600, false, 0o644],
+        ["a+rX", 0o700, false, 0o755],
+        ["g=u", 0o640, false, 0o660],
+        ["go=u-w", 0o750, false, 0o755],
+        ["u+s,g+s", 0o755, false, 0o6755],
+        ["+t", 0o777, true, 0o1777],
+        ["o+s", 0o755, false, 0o755],
+        ["u-s", 0o4755, false, 0o755],
+        ["u=rwx", 0o4644, false, 0o744],
+        [" u+x , g+w ", 0o600, false, 0o720]
+    ];
+    for (const [mode, current, isDirectory, expected] of cases) {
+        assert.equal(resolveMode(mode, current, isDirectory).toString(8), expected.toString(8), `${mode} on ${current.toString(8)}`);
+    }
+    for (const mode of ["u+q", "x+r", "755x", "8", "u+x,", "u"]) {
+        assert.throws(() => resolveMode(mode, 0o644, false), SyntaxError, mode);
+    }
+});
+
+await test("permissions read the bits of a mode", () => {
+    const permissions = new Permissions(0o42755);
+    assert.deepEqual(permissions.user, {read: true, write: true, execute: true});
+    assert.deepEqual(permissions.group, {read: true, write: false, execute: true});
+    assert.deepEqual([permissions.setuid, permissions.setgid, permissions.sticky], [false, true, false]);
+    assert.equal(permissions.octal, "2755");
+    assert.equal(permissions.toString(), "drwxr-sr-x");
+    assert.equal(new Permissions(0o104644).toString(), "-rwSr--r--");
+    assert.equal(new Permissions(0o1777).toString(), "-rwxrwxrwt");
+    assert.equal(new Permissions(0o120777).toString(), "lrwxrwxrwx");
+});
+
+await test("chmod changes files, directories and trees", async (dir, dirAsync) => {
+    dir.to("site", "sub").mkdirs();
+    dir.to("site", "index.html").write("<html>");
+    dir.to("site", "sub", "run.sh").write("#!/bin/sh");
+    dir.to("site", "link").createSymlinkTo(dir.to("outside.txt").fullPath);
+    dir.to("outside.txt").write("outside");
+    dir.to("outside.txt").chmod(0o600);
+
+    const script = dir.to("site", "sub", "run.sh");
+    assert.notEqual(script.chmod("u=rwx,go=r"), null);
+    assert.equal(script.mode & 0o7777, 0o744);
+    assert.equal(script.permissions?.toString(), "-rwxr--r--");
+    script.mode = 0o750;
+    assert.equal(script.permissions?.octal, "0750");
+    assert.notEqual(await dirAsync.to("site", "sub", "run.sh").chmod("o+r"), null);
+    assert.equal(script.mode & 0o7777, 0o754);
+
+    assert.notEqual(dir.to("site").chmod(0o640, {recursive: true, directories: 0o750}), null);
+    assert.deepEqual([...dir.to("site").walkEntries({links: "skip"})].map(entry => [entry.path, (entry.file.mode & 0o7777).toString(8)]).sort(), [
+        ["", "750"], ["index.html", "640"], ["sub", "750"], ["sub/run.sh", "640"]
+    ]);
+    assert.equal(dir.to("outside.txt").mode & 0o7777, 0o600);
+    assert.notEqual(await dirAsync.to("site").chmod("a+rX", {recursive: true}), null);
+    assert.equal(dir.to("site", "sub").mode & 0o7777, 0o755);
+    assert.equal(dir.to("site", "index.html").mode & 0o7777, 0o644);
+
+    assert.equal(dir.to("site").chmod("u+q"), null);
+    assert.throws(() => dir.to("site").throwing.chmod("u+q"), {code: "EINVAL"});
+    assert.equal(dir.to("missing").chmod(0o644), null);
+});
+
+await test("owners and groups are read and changed", async (dir, dirAsync) => {
+    dir.to("file.txt").write("x");
+    const {uid, gid} = os.userInfo();
+    assert.equal(dir.to("file.txt").owner, uid);
+    assert.equal(dir.to("file.txt").group, gid);
+    assert.notEqual(dir.to("file.txt").chown(-1, gid), null);
+    assert.notEqual(await dirAsync.to("file.txt").chown(uid, gid, {recursive: true}), null);
+    assert.equal(dir.to("missing.txt").owner, null);
+
+    const memory = new FileSystem({fs: new MemoryFS()});
+    memory.file("/data").mkdirs();
+    memory.file("/data/a.txt").write("a");
+    assert.notEqual(memory.file("/data").chown(1234, 5678, {recursive: true}), null);
+    assert.deepEqual([memory.file("/data/a.txt").owner, memory.file("/data").group], [1234, 5678]);
+    assert.notEqual(memory.file("/data").chmod("g+w", {recursive: true}), null);
+    assert.equal(memory.file("/data/a.txt").permissions?.group.write, true);
+});
@@ -0,0 +1,77 @@
+import {KtFileError} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+async function until(check: () => boolean) {
+    for (let waited = 0; waited < 5000 && !check(); waited += 10) await new Promise(resolve => setTimeout(resolve, 10));
+    assert.ok(check(), "timed out");
+}
+
+await test("onChange matches paths with * and **", dir => {
+    const config = dir.to("app.json").config<any>();
+    const seen: Record<string, string[]> = {};
+    const stops = ["db.*", "db.**", "**", "*.port", "db.pool.size"].map(pattern => {
+        seen[pattern] = [];
+        return config.onChange(pattern, path => seen[pattern].push(path));
+    });
+    config.set("db.host", "localhost");
+    config.set("db.pool.size", 5);
+    config.set("dbx.host", "other");
+    config.set("server.port", 80);
+    // replacing an object reports every value that changed in it
+    config.set("db", {host: "example.com"});
+    config.delete("db.host");
+    assert.deepEqual(seen, {
+        "db.*": ["db.host", "db.pool.size", "db.host", "db.pool", "db.host"],
+        "db.**": ["db.host", "db.pool.size", "db.host", "db.pool", "db.host"],
+        "**": ["db.host", "db.pool.size", "dbx.host", "server.port", "db.host", "db.pool", "db.host"],
+        "*.port": ["server.port"],
+        "db.pool.size": ["db.pool.size", "db.pool"]
+    });
+    for (const stop of stops) stop();
+    config.set("db.host", "again");
+    assert.equal(seen["**"].length, 7);
+});
+
+await test("watched configs reload changes made on disk", async (dir, dirAsync) => {
+    for (const poll of [false, 20]) {
+        const file = dir.to(poll ? "polled.json" : "native.json");
+        file.write(JSON.stringify({db: {host: "localhost", port: 5432}, name: "app"}));
+        const config = file.config<any>();
+        const changes: unknown[][] = [];
+        const errors: KtFileError[] = [];
+        config.on("change", (path, oldValue, newValue) => changes.push([path, oldValue, newValue]));
+        config.on("error", error => errors.push(error));
+        const watcher = config.watch({poll, debounce: 20});
+        await watcher.ready;
+
+        file.write(JSON.stringify({db: {host: "example.com", port: 5432}, name: "app"}));
+        await until(() => changes.length > 0);
+        assert.deepEqual(changes, [["db.host", "localhost", "example.com"]]);
+        assert.equal(config.get("db.host"), "example.com");
+
+        file.write("{broken");
+        await until(() => errors.length > 0);
+        assert.equal(errors[0].code, "EPARSE");
+        assert.equal(config.get("db.host"), "example.com");
+
+        changes.length = 0;
+        config.set("name", "saved");
+        assert.equal(config.save(), true);
+        await new Promise(resolve => setTimeout(resolve, 150));
+        assert.deepEqual(changes, [["name", "app", "saved"]]);
+        assert.equal(errors.length, 1);
+        watcher.close();
+    }
+
+    const file = dirAsync.to("async.json");
+    await file.write(JSON.stringify({a: 1}));
+    const config = await file.config<any>();
+    const changes: unknown[][] = [];
+    config.onChange("*", (path, oldValue, newValue) => changes.push([path, oldValue, newValue]));
+    const watcher = config.watch({debounce: 20});
+    await watcher.ready;
+    await file.write(JSON.stringify({a: 2, b: 3}));
+    await until(() => changes.length >= 2);
+    assert.deepEqual(changes, [["a", 1, 2], ["b", undefined, 3]]);
+    watcher.close();
+});
@@ -0,0 +1,42 @@
+import * as fs from "node:fs";
+import {FileSystem} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+await test("sandbox maps paths below its root", dir => {
+    const jail = FileSystem.default.sandbox(dir.fullPath);
+    jail.file("/etc").mkdirs();
+    jail.file("/etc/app.txt").write("jailed");
+    assert.equal(dir.to("etc", "app.txt").read("utf8"), "jailed");
+    assert.equal(jail.file("/../../etc/app.txt").read("utf8"), "jailed");
+});
+
+await test("sandbox maps absolute link targets and keeps relative ones", async dir => {
+    const jail = FileSystem.default.sandbox(dir.fullPath);
+    jail.file("/target.txt").write("data");
+    jail.file("/relative").createSymlinkTo("target.txt");
+    jail.file("/absolute").createSymlinkTo("/target.txt");
+    assert.equal(fs.readlinkSync(dir.to("relative").fullPath), "target.txt");
+    assert.equal(fs.readlinkSync(dir.to("absolute").fullPath), dir.to("target.txt").fullPath);
+    assert.equal(jail.fs.readlinkSync("/absolute"), "/target.txt");
+    assert.equal(jail.file("/relative").read("utf8"), "data");
+    const link = jail.fileAsync("/async");
+    await link.createSymlinkTo("target.txt");
+    assert.equal(await link.read("utf8"), "data");
+    assert.equal(fs.readlinkSync(dir.to("async").fullPath), "target.txt");
+});
+
+await test("sandbox refuses relative link targets climbing above its root", async dir => {
+    dir.to("jail").mkdirs();
+    dir.to("secret.txt").write("host");
+    const jail = FileSystem.default.sandbox(dir.to("jail").fullPath);
+    jail.file("/sub").mkdirs();
+    assert.equal(jail.file("/l").createSymlinkTo("../secret.txt"), null);
+    assert.equal(jail.file("/sub/l").createSymlinkTo("../../secret.txt"), null);
+    assert.equal(await jail.fileAsync("/sub/a").createSymlinkTo("./../../../secret.txt"), null);
+    assert.throws(() => jail.throwing.file("/l").createSymlinkTo("../../../../etc"), {code: "EESCAPE"});
+    await assert.rejects(jail.throwing.fileAsync("/l").createSymlinkTo(".."), {code: "EESCAPE"});
+    assert.deepEqual(fs.readdirSync(dir.to("jail").fullPath), ["sub"]);
+    assert.deepEqual(fs.readdirSync(dir.to("jail", "sub").fullPath), []);
+    assert.notEqual(jail.file("/sub/up").createSymlinkTo("../sub/./x/.."), null);
+    assert.equal(fs.readlinkSync(dir.to("jail", "sub", "up").fullPath), "../sub/./x/..");
+});
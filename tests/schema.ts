@@ -0,0 +1,103 @@
+import {ConfigSync, KtFileError, schema} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+const validator = schema({
+    server: {type: "object", properties: {host: "string", port: {type: "integer", min: 1, max: 65535, default: 8080}}},
+    mode: {type: "string", enum: ["dev", "prod"] as const, default: "dev"},
+    tags: {type: "array", items: "string", optional: true}
+});
+
+type Shape = { server: { host: string, port: number }, hosts: string[], limits?: { max: number } | null };
+
+// only type-checked, the marked lines have to be refused by the compiler
+export function typedPaths(config: ConfigSync<Shape>) {
+    const port: number | undefined = config.get("server.port");
+    const host: string = config.get("hosts.0", "localhost");
+    const max: number | undefined = config.get("limits.max");
+    config.set("server", {host: "localhost", port: 80});
+    config.set("hosts.1", "example.com");
+    // @ts-expect-error the port is a number
+    config.set("server.port", "80");
+    // @ts-expect-error there is no such path
+    config.get("server.missing");
+    // @ts-expect-error the hosts are strings
+    const wrong: number = config.get("hosts.0", "localhost");
+    return [port, host, max, wrong];
+}
+
+await test("config paths go through null, primitives and arrays", dir => {
+    dir.to("app.json").write(JSON.stringify({a: null, b: 5, c: "text", list: [{id: 1}]}));
+    const config = dir.to("app.json").config<any>();
+    assert.equal(config?.get("a.x"), undefined);
+    assert.equal(config?.get("b.x.y", "fallback"), "fallback");
+    assert.equal(config?.get("c.length"), undefined);
+    assert.equal(config?.get("list.0.id"), 1);
+    assert.equal(config?.get("list[0].id"), 1);
+    config?.set("a.x", 1);
+    config?.set("b.x.y", 2);
+    config?.set("d[0]", "first");
+    assert.deepEqual(config?.toJSON(), {a: {x: 1}, b: {x: {y: 2}}, c: "text", list: [{id: 1}], d: ["first"]});
+});
+
+await test("schemas reject invalid files and fill in defaults", async (dir, dirAsync) => {
+    dir.to("app.json").write(JSON.stringify({server: {host: "localhost", port: 70000}, mode: "test"}));
+    assert.equal(dir.to("app.json").config({validator}), null);
+    assert.equal(await dirAsync.to("app.json").config({validator}), null);
+    const error = (() => {
+        try {
+            dir.to("app.json").throwing.config({validator});
+        } catch (e) {
+            return e;
+        }
+    })();
+    assert.ok(error instanceof KtFileError);
+    assert.equal(error.code, "EINVALID");
+    assert.equal((error.cause as Error).message, 'server.port must be at most 65535; mode expected one of "dev", "prod"');
+
+    dir.to("app.json").write(JSON.stringify({server: {host: "localhost"}}));
+    const config = dir.to("app.json").config({validator});
+    assert.deepEqual(config?.toJSON(), {server: {host: "localhost", port: 8080}, mode: "dev"});
+    assert.equal(config?.get("server.port"), 8080);
+    assert.deepEqual(validator.validate({}, false).issues, [{path: "server.host", message: "is required"}]);
+});
+
+await test("schemas repair what they can", dir => {
+    dir.to("app.json").write(JSON.stringify({server: {host: "localhost", port: "80"}, mode: "test", tags: "a"}));
+    const config = dir.to("app.json").config({validator, onInvalid: "repair"});
+    assert.deepEqual(config?.toJSON(), {server: {host: "localhost", port: 8080}, mode: "dev"});
+    assert.equal(config?.save(), true);
+    assert.deepEqual(dir.to("app.json").readJSON(), {server: {host: "localhost", port: 8080}, mode: "dev"});
+    dir.to("broken.json").write(JSON.stringify({server: {host: 1}}));
+    assert.equal(dir.to("broken.json").config({validator, onInvalid: "repair"}), null);
+});
+
+await test("invalid values are not saved", async (dir, dirAsync) => {
+    assert.equal(dir.to("app.json").config({validator}), null);
+    dir.to("app.json").write(JSON.stringify({server: {host: "localhost"}}));
+    const config = dir.to("app.json").config({validator});
+    config?.set("server.host", "example.com");
+    assert.equal(config?.save(), true);
+    const saved = dir.to("app.json").read("utf8");
+    (config as ConfigSync<any>)?.set("server.port", "eighty");
+    assert.equal(config?.save(), false);
+    assert.equal(config?.isValid, false);
+    assert.equal(dir.to("app.json").read("utf8"), saved);
+    const strict = dir.to("app.json").throwing.config({validator}) as ConfigSync<any>;
+    strict.set("mode", "test");
+    assert.throws(() => strict.save(), {code: "EINVALID"});
+
+    const custom = {
+        parse(value: unknown) {
+            if (typeof (value as { name?: unknown }).name !== "string") throw new Error("name must be a string");
+            return value as { name: string };
+        }
+    };
+    dir.to("custom.json").write(JSON.stringify({name: 1}));
+    assert.equal(await dirAsync.to("custom.json").config({validator: custom}), null);
+    await assert.rejects(dirAsync.to("custom.json").throwing.config({validator: custom}), {code: "EINVALID"});
+    const fresh = await dirAsync.to("fresh.json").config({validator: custom, defaults: {name: "app"}});
+    assert.equal(fresh?.get("name"), "app");
+    fresh?.set("name", 2 as any);
+    assert.equal(await fresh?.save(), false);
+    assert.equal(dir.to("fresh.json").exists, false);
+});
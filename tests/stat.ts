@@ -0,0 +1,32 @@
+import {assert, test} from "./harness";
+
+await test("preloaded stats are dropped by changes made through the file", dir => {
+    dir.to("a.txt").write("abc");
+    dir.to("b.txt").write("abc");
+    const byName = () => new Map(dir.listFiles(true)!.map(file => [file.name, file]));
+    const files = byName();
+    const a = files.get("a.txt");
+    const b = files.get("b.txt");
+    assert.equal(a.size, 3);
+    a.write("abcdefgh");
+    assert.equal(a.size, 8);
+    a.chmod(0o600);
+    assert.equal(a.mode, 0o600);
+    const preloaded = byName();
+    assert.equal(preloaded.get("b.txt").size, 3);
+    preloaded.get("a.txt").renameTo(preloaded.get("b.txt"), true);
+    assert.equal(preloaded.get("a.txt").exists, false);
+    assert.equal(preloaded.get("b.txt").size, 8);
+    b.delete();
+    assert.equal(b.isFile, null);
+});
+
+await test("async preloaded stats are dropped by changes made through the file", async (dir, dirAsync) => {
+    dir.to("a.txt").write("abc");
+    const [file] = await dirAsync.listFiles(true);
+    assert.equal(await file.size(), 3);
+    await file.append("de");
+    assert.equal(await file.size(), 5);
+    await file.delete();
+    assert.equal(await file.exists(), false);
+});
@@ -14,3 +14,7 @@ console.log(
     file.canRead, file.canWrite, file.canExecute,
     file.lastModified, file.extension, file.nameWithoutExtension // and much more!
 )
+
+for (const suite of ["./transaction", "./trash", "./config", "./duplicates", "./stat", "./glob", "./sandbox", "./archive", "./write", "./lock", "./path", "./memoryfs", "./errors", "./walk", "./watch", "./lines", "./hash", "./mirror", "./schema", "./reload", "./layered", "./links", "./permissions", "./diskusage"]) {
+    await import(suite)
+}
@@ -0,0 +1,102 @@
+import * as os from "node:os";
+import {FileAsync, FileSync} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+/**
+ * Leaves a journal behind as if the process died while committing a write of `content` to `target`, either
+ * before the write was applied or right after it.
+ */
+function interrupt(journal: FileSync, target: FileSync, content: string, applied: boolean) {
+    const dir = journal.to("interrupted");
+    dir.to("staged").mkdirs();
+    dir.to("backup").mkdirs();
+    if (applied) {
+        target.renameTo(dir.to("backup", "0"));
+        target.write(content);
+    } else dir.to("staged", "0").write(content);
+    dir.to("journal.json").write(JSON.stringify({
+        id: "interrupted",
+        pid: process.pid,
+        hostname: os.hostname(),
+        created: Date.now(),
+        state: "committing",
+        step: 0,
+        steps: [{type: "write", path: target.fullPath}]
+    }));
+}
+
+await test("transaction commits every step", dir => {
+    const journal = dir.to("journal");
+    dir.to("old.txt").write("old");
+    const result = FileSync.transaction(tx => {
+        tx.write(dir.to("a.txt"), "a");
+        tx.renameTo(dir.to("old.txt"), dir.to("new.txt"));
+        return 42;
+    }, {journal});
+    assert.equal(result, 42);
+    assert.equal(dir.to("a.txt").read("utf8"), "a");
+    assert.equal(dir.to("new.txt").read("utf8"), "old");
+    assert.equal(dir.to("old.txt").exists, false);
+    assert.deepEqual(journal.listFiles()?.map(file => file.name), []);
+});
+
+await test("transaction rolls back when a step fails", dir => {
+    const journal = dir.to("journal");
+    dir.to("a.txt").write("before");
+    const result = FileSync.transaction(tx => {
+        tx.write(dir.to("a.txt"), "after");
+        tx.delete(dir.to("missing.txt"));
+    }, {journal});
+    assert.equal(result, null);
+    assert.equal(dir.to("a.txt").read("utf8"), "before");
+    assert.throws(() => FileSync.transaction(tx => {
+        tx.delete(dir.to("missing.txt"));
+    }, {journal: journal.throwing}), {code: "ENOENT"});
+});
+
+await test("transaction changes nothing when its function throws", dir => {
+    dir.to("a.txt").write("before");
+    assert.throws(() => FileSync.transaction(tx => {
+        tx.write(dir.to("a.txt"), "after");
+        throw new Error("stop");
+    }, {journal: dir.to("journal")}), /stop/);
+    assert.equal(dir.to("a.txt").read("utf8"), "before");
+});
+
+await test("async transaction rolls back when a step fails", async (dir, dirAsync) => {
+    const journal = dirAsync.to("journal");
+    dir.to("a.txt").write("before");
+    const result = await FileAsync.transaction(async tx => {
+        await tx.write(dirAsync.to("a.txt"), "after");
+        tx.write(dirAsync.to("b.txt"), "b");
+        tx.renameTo(dirAsync.to("missing.txt"), dirAsync.to("c.txt"));
+    }, {journal});
+    assert.equal(result, null);
+    assert.equal(dir.to("a.txt").read("utf8"), "before");
+    assert.equal(dir.to("b.txt").exists, false);
+    assert.equal(await FileAsync.transaction(async tx => {
+        await tx.write(dirAsync.to("a.txt"), "after");
+        return "done";
+    }, {journal}), "done");
+    assert.equal(dir.to("a.txt").read("utf8"), "after");
+});
+
+await test("recoverTransactions rolls back an interrupted commit", dir => {
+    const journal = dir.to("journal");
+    const target = dir.to("a.txt");
+    target.write("before");
+    interrupt(journal, target, "after", true);
+    assert.deepEqual(FileSync.recoverTransactions({journal}), [{id: "interrupted", action: "rolled back"}]);
+    assert.equal(target.read("utf8"), "before");
+    assert.deepEqual(journal.listFiles()?.map(file => file.name), []);
+});
+
+await test("recoverTransactions finishes an interrupted commit", async (dir, dirAsync) => {
+    const target = dir.to("a.txt");
+    target.write("before");
+    interrupt(dir.to("journal"), target, "after", false);
+    assert.deepEqual(await FileAsync.recoverTransactions({journal: dirAsync.to("journal"), finish: true}), [
+        {id: "interrupted", action: "finished"}
+    ]);
+    assert.equal(target.read("utf8"), "after");
+});
@@ -0,0 +1,45 @@
+import {FileAsync, FileSync} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+await test("moveToTrash and restoreFromTrash", dir => {
+    const trash = dir.to("Trash");
+    const file = dir.to("notes.txt");
+    file.write("notes");
+    const item = file.moveToTrash({trash});
+    assert.equal(item?.name, "notes.txt");
+    assert.equal(item?.path, file.fullPath);
+    assert.equal(file.exists, false);
+    assert.deepEqual(FileSync.listTrash({trash})?.map(item => item.path), [file.fullPath]);
+    file.write("new notes");
+    assert.equal(FileSync.restoreFromTrash(item), null);
+    assert.throws(() => FileSync.restoreFromTrash({...item, trash: trash.throwing}), {code: "EEXIST"});
+    assert.equal(FileSync.restoreFromTrash(item, true)?.read("utf8"), "notes");
+    assert.deepEqual(FileSync.listTrash({trash}), []);
+});
+
+await test("trashed names stay unique and emptyTrash removes them", dir => {
+    const trash = dir.to("Trash");
+    for (const sub of ["a", "b"]) {
+        dir.to(sub).mkdirs();
+        dir.to(sub, "same.txt").write(sub);
+        dir.to(sub, "same.txt").moveToTrash({trash});
+    }
+    const items = FileSync.listTrash({trash}) ?? [];
+    assert.equal(new Set(items.map(item => item.name)).size, 2);
+    assert.deepEqual(items.map(item => item.file.read("utf8")).sort(), ["a", "b"]);
+    assert.equal(FileSync.emptyTrash({trash}), true);
+    assert.deepEqual(FileSync.listTrash({trash}), []);
+});
+
+await test("async moveToTrash and restoreFromTrash", async (dir, dirAsync) => {
+    const trash = dirAsync.to("Trash");
+    const folder = dirAsync.to("folder");
+    dir.to("folder").mkdirs();
+    dir.to("folder", "inner.txt").write("inner");
+    const item = await folder.moveToTrash({trash});
+    assert.equal(await folder.exists(), false);
+    assert.deepEqual((await FileAsync.listTrash({trash}))?.map(item => item.name), ["folder"]);
+    const restored = await FileAsync.restoreFromTrash(item);
+    assert.equal(await restored?.to("inner.txt").read("utf8"), "inner");
+    assert.equal(await FileAsync.emptyTrash({trash}), true);
+});
@@ -0,0 +1,68 @@
+import {FileAsync, FileSync, FileSystem, MemoryFS, WalkEntry, WalkOptions} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+// the memory file system lists directories sorted, which makes the orders comparable
+function tree(): { dir: FileSync, dirAsync: FileAsync } {
+    const memory = new MemoryFS();
+    memory.mkdirSync("/r/a/b", {recursive: true});
+    memory.writeFileSync("/r/a/x.txt", "x");
+    memory.writeFileSync("/r/a/b/y.txt", "y");
+    memory.writeFileSync("/r/c.txt", "c");
+    const fs = new FileSystem({fs: memory});
+    return {dir: fs.file("/r"), dirAsync: fs.fileAsync("/r")};
+}
+
+async function paths(dir: FileSync, dirAsync: FileAsync, options?: WalkOptions<FileSync>): Promise<string[]> {
+    const found = [...dir.walkEntries(options)].map(entry => entry.path);
+    const foundAsync: string[] = [];
+    for await (const entry of dirAsync.walkEntries(options as WalkOptions<FileAsync>)) foundAsync.push(entry.path);
+    assert.deepEqual(foundAsync, found);
+    return found;
+}
+
+await test("walk yields entries in the requested order", async () => {
+    const {dir, dirAsync} = tree();
+    assert.deepEqual(await paths(dir, dirAsync), ["", "a", "a/b", "a/b/y.txt", "a/x.txt", "c.txt"]);
+    assert.deepEqual(await paths(dir, dirAsync, {order: "post"}), ["a/b/y.txt", "a/b", "a/x.txt", "a", "c.txt", ""]);
+    assert.deepEqual(await paths(dir, dirAsync, {order: "breadth"}), ["", "a", "c.txt", "a/b", "a/x.txt", "a/b/y.txt"]);
+    assert.deepEqual([...dir.walk({order: "post", minDepth: 1})].map(file => file.name), ["y.txt", "b", "x.txt", "a", "c.txt"]);
+});
+
+await test("walk limits depth, kinds and subtrees", async () => {
+    const {dir, dirAsync} = tree();
+    const entries = [...dir.walkEntries()].map(({path, depth, isDirectory}) => [path, depth, isDirectory]);
+    assert.deepEqual(entries, [
+        ["", 0, true], ["a", 1, true], ["a/b", 2, true], ["a/b/y.txt", 3, false], ["a/x.txt", 2, false], ["c.txt", 1, false]
+    ]);
+    assert.deepEqual(await paths(dir, dirAsync, {maxDepth: 1}), ["", "a", "c.txt"]);
+    assert.deepEqual(await paths(dir, dirAsync, {minDepth: 2}), ["a/b", "a/b/y.txt", "a/x.txt"]);
+    assert.deepEqual(await paths(dir, dirAsync, {type: "files"}), ["a/b/y.txt", "a/x.txt", "c.txt"]);
+    assert.deepEqual(await paths(dir, dirAsync, {type: "directories"}), ["", "a", "a/b"]);
+    assert.deepEqual(await paths(dir, dirAsync, {descend: (entry: WalkEntry<FileSync>) => entry.file.name !== "b"}),
+        ["", "a", "a/b", "a/x.txt", "c.txt"]);
+    assert.deepEqual(await paths(dir, dirAsync, {filter: (entry: WalkEntry<FileSync>) => entry.file.name.endsWith(".txt")}),
+        ["a/b/y.txt", "a/x.txt", "c.txt"]);
+});
+
+await test("walk follows links without looping on cycles", async (disk, diskAsync) => {
+    for (const {dir, dirAsync} of [tree(), {dir: disk, dirAsync: diskAsync}]) {
+        dir.to("a", "b").mkdirs();
+        dir.to("a", "b", "up").createSymlinkTo(dir.to("a"));
+        dir.to("a", "b", "root").createSymlinkTo(dir);
+        dir.to("c.txt").write("c");
+        dir.to("link.txt").createSymlinkTo(dir.to("c.txt"));
+        const sorted = async (options: WalkOptions<FileSync>) => (await paths(dir, dirAsync, options)).sort();
+        const all = ["", "a", "a/b", "a/b/root", "a/b/up", "c.txt", "link.txt"];
+        if (dir.to("a", "x.txt").exists) all.push("a/b/y.txt", "a/x.txt");
+        assert.deepEqual(await sorted({followSymlinks: true}), all.sort());
+        assert.deepEqual(await sorted({links: "preserve"}), all.sort());
+        assert.deepEqual(await sorted({links: "skip"}), all.filter(path => !/up|root|link/.test(path)).sort());
+        const links = [...dir.walkEntries()].filter(entry => entry.isSymbolicLink).map(entry => [entry.path, entry.isDirectory]);
+        assert.deepEqual(links.sort(), [["a/b/root", true], ["a/b/up", true], ["link.txt", false]]);
+    }
+    // a link listed before its target is descended into in its place, the target is then not listed again
+    const {dir, dirAsync} = tree();
+    dir.to("0").createSymlinkTo(dir.to("a", "b"));
+    assert.deepEqual(await paths(dir, dirAsync, {followSymlinks: true, type: "files"}), ["0/y.txt", "a/x.txt", "c.txt"]);
+    assert.deepEqual(await paths(dir, dirAsync, {type: "files"}), ["a/b/y.txt", "a/x.txt", "c.txt"]);
+});
@@ -0,0 +1,87 @@
+import * as fs from "node:fs";
+import {FileAsync, FileSystem, WatchEvent, Watcher} from "../src/ktfile";
+import {assert, test} from "./harness";
+
+// collects the events of a watcher until one matches, failing after a while
+function events(watcher: Watcher<FileAsync>) {
+    const seen: WatchEvent<FileAsync>[] = [];
+    watcher.on("change", event => seen.push(event));
+    return async (type: string, path: string): Promise<WatchEvent<FileAsync>> => {
+        for (let waited = 0; waited < 5000; waited += 10) {
+            const index = seen.findIndex(event => event.type === type && event.path === path);
+            if (index !== -1) return seen.splice(index, 1)[0];
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        assert.fail(`no ${type} event for ${path}, got ${JSON.stringify(seen.map(event => [event.type, event.path]))}`);
+    };
+}
+
+await test("watching reports created, modified, renamed and deleted files", async (_, dirAsync) => {
+    for (const poll of [false, 20]) {
+        const dir = dirAsync.to(poll ? "polled" : "native");
+        await dir.to("sub").mkdirs();
+        await dir.to("sub", "old.txt").write("old");
+        const watcher = dir.watch({poll, debounce: 20});
+        const next = events(watcher);
+        await watcher.ready;
+        assert.equal(watcher.isPolling, poll !== false);
+
+        await dir.to("sub", "new.txt").write("new");
+        assert.equal((await next("created", "sub/new.txt")).isDirectory, false);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await dir.to("sub", "new.txt").write("changed content");
+        await next("modified", "sub/new.txt");
+        await dir.to("sub", "old.txt").renameTo(dir.to("moved.txt"));
+        const renamed = await next("renamed", "moved.txt");
+        assert.equal(renamed.oldPath, "sub/old.txt");
+        assert.equal(renamed.oldFile?.fullPath, dir.to("sub", "old.txt").fullPath);
+        await dir.to("sub").delete(true);
+        await next("deleted", "sub/new.txt");
+        await next("deleted", "sub");
+        watcher.close();
+        assert.equal(watcher.isClosed, true);
+    }
+});
+
+await test("native watching only scans the paths that changed again", async dir => {
+    dir.to("a").mkdirs();
+    dir.to("b").mkdirs();
+    dir.to("b", "c").mkdirs();
+    const listed: string[] = [];
+    const counting = new FileSystem({
+        fs: {
+            ...fs,
+            promises: {
+                ...fs.promises,
+                readdir: (path: string, options: object) => (listed.push(path), fs.promises.readdir(path, options as {}))
+            }
+        } as any
+    });
+    const watcher = counting.fileAsync(dir.fullPath).watch({debounce: 20});
+    const next = events(watcher);
+    await watcher.ready;
+    assert.deepEqual(listed.map(path => path.slice(dir.fullPath.length)).sort(), ["", "/a", "/b", "/b/c"]);
+    listed.length = 0;
+    dir.to("a", "x.txt").write("x");
+    await next("created", "a/x.txt");
+    assert.deepEqual(listed, []);
+    dir.to("a", "d", "e").mkdirs();
+    dir.to("a", "d", "e", "y.txt").write("y");
+    await next("created", "a/d/e/y.txt");
+    assert.ok(listed.every(path => path.startsWith(dir.to("a", "d").fullPath)));
+    watcher.close();
+});
+
+await test("watching stops when its signal is aborted", async (_, dirAsync) => {
+    const controller = new AbortController();
+    const watcher = dirAsync.watch({signal: controller.signal, poll: 20});
+    await watcher.ready;
+    const iterated: WatchEvent<FileAsync>[] = [];
+    const loop = (async () => {
+        for await (const event of watcher) iterated.push(event);
+    })();
+    controller.abort();
+    await loop;
+    assert.equal(watcher.isClosed, true);
+    assert.deepEqual(iterated, []);
+});
@@ -0,0 +1,29 @@
+import {assert, test} from "./harness";
+
+await test("atomic writes replace what symbolic links point to", async (dir, dirAsync) => {
+    dir.to("data").mkdirs();
+    dir.to("data", "real.txt").write("old");
+    dir.to("link.txt").createSymlinkTo("data/real.txt");
+    dir.to("chain.txt").createSymlinkTo("link.txt");
+    assert.notEqual(dir.to("chain.txt").write("sync", {atomic: true}), null);
+    assert.equal(dir.to("link.txt").isSymbolicLink, true);
+    assert.equal(dir.to("chain.txt").isSymbolicLink, true);
+    assert.equal(dir.to("data", "real.txt").read("utf8"), "sync");
+    assert.notEqual(await dirAsync.to("link.txt").write("async", {atomic: true}), null);
+    assert.equal(dir.to("link.txt").refresh().isSymbolicLink, true);
+    assert.equal(dir.to("data", "real.txt").read("utf8"), "async");
+    assert.deepEqual(dir.listFiles()?.map(file => file.name).sort(), ["chain.txt", "data", "link.txt"]);
+    assert.deepEqual(dir.to("data").listFiles()?.map(file => file.name), ["real.txt"]);
+});
+
+await test("atomic writes through dangling links create their targets", async (dir, dirAsync) => {
+    dir.to("data").mkdirs();
+    dir.to("sync.txt").createSymlinkTo("data/sync-target.txt");
+    dir.to("async.txt").createSymlinkTo(dir.to("data", "async-target.txt").fullPath);
+    assert.notEqual(dir.to("sync.txt").write("sync", {atomic: true}), null);
+    assert.notEqual(await dirAsync.to("async.txt").write("async", {atomic: true}), null);
+    assert.equal(dir.to("sync.txt").isSymbolicLink, true);
+    assert.equal(dir.to("async.txt").isSymbolicLink, true);
+    assert.equal(dir.to("data", "sync-target.txt").read("utf8"), "sync");
+    assert.equal(dir.to("data", "async-target.txt").read("utf8"), "async");
+});